@@ -3,7 +3,6 @@ import { Command } from 'commander'
 import { fileURLToPath } from 'url'
 import { dirname, join } from 'path'
 import path from 'path'
-import { exec, spawn } from 'child_process'
 import fs from 'fs'
 import os from 'os'
 import chalk from 'chalk'
@@ -13,9 +12,62 @@ import chalk from 'chalk'
 // import { MultiStepCommandGenerator } from '../src/components/MultiStepCommandGenerator.js'
 // import { Chat } from '../src/components/Chat.js'
 import { isConfigValid, setConfigValue, getConfig, maskApiKey, displayConfig } from '../src/config.js'
-import { clearHistory, addHistory, getHistory, getHistoryFilePath } from '../src/history.js'
+import { clearHistory, addHistory, getHistory, getHistoryFilePath, formatAlternativeChoice, formatRefinements } from '../src/history.js'
+import { EXPORT_FORMATS, parseExportFormat, findTaskRecords, exportTask } from '../src/history-export.js'
+import { getRerunEntry, resolveRerunTarget, stripStepPrefix, hasRedactedContent, type RerunEntry } from '../src/history-rerun.js'
+import { loadBrowserEntries, deleteBrowserEntry, getCopyText, type BrowserEntry } from '../src/history-browser.js'
+import type { HistoryBrowserResult } from '../src/components/HistoryBrowser.js'
+import {
+  parseSince,
+  parseLimit,
+  splitTerms,
+  collectSearchEntries,
+  searchHistory,
+  highlightTerms,
+  findOutputSnippet,
+  formatSourceLabel,
+  type SearchEntry,
+} from '../src/history-search.js'
+import { rankHistory } from '../src/history-ask.js'
+import { createUndoSnapshot, restoreUndo, displayUndoList, hasUndoEntry } from '../src/undo.js'
+import { loadPolicy, checkCommandPolicy, formatPolicyDecision, MAX_POLICY_DENIALS } from '../src/policy.js'
 import { clearChatHistory, getChatRoundCount, getChatHistoryFilePath, displayChatHistory } from '../src/chat-history.js'
-import { type ExecutedStep } from '../src/multi-step.js'
+import {
+  type CommandStep,
+  type ExecutedStep,
+  type RemoteContext,
+  type TaskPlan,
+  DEFAULT_ALTERNATIVES,
+  parseAlternativeCount,
+  replacePlanRemainder,
+} from '../src/multi-step.js'
+import {
+  createTaskSession,
+  saveTaskSession,
+  getTaskSession,
+  getSessionEnvChanges,
+  removeTaskSession,
+  clearTaskSessions,
+  displayTaskSessions,
+  type TaskSession,
+} from '../src/task-session.js'
+import {
+  getTaskBudget,
+  createTaskUsage,
+  checkTaskBudget,
+  extendTaskBudget,
+  formatBudgetLimit,
+  formatTaskUsage,
+  type BudgetLimit,
+  type TaskBudget,
+  type TaskUsage,
+} from '../src/task-budget.js'
+import { resolveHeadlessMode, runHeadless, runHeadlessBatch, type HeadlessMode, type HeadlessResult } from '../src/headless.js'
+import { createShellSession, type ShellSession } from '../src/shell-session.js'
+import { canEmitToParentShell, emitToParentShell } from '../src/parent-shell.js'
+import { runInPty } from '../src/pty.js'
+import { getCommandTimeoutMs, trapInterrupt, runPiped } from '../src/exec.js'
+import { readPipedStdin, truncateStdinContent, reopenTTY } from '../src/stdin.js'
 import {
   installShellHook,
   uninstallShellHook,
@@ -58,6 +110,7 @@ import {
 } from '../src/user-preferences.js'
 import {
   addRemoteHistory,
+  getRemoteHistory,
   displayRemoteHistory,
   clearRemoteHistory,
   fetchRemoteShellHistory,
@@ -74,7 +127,9 @@ import {
 import {
   buildShellExecConfig,
   getDefaultShell,
-  isWindows,
+  TIMEOUT_EXIT_CODE,
+  INTERRUPTED_EXIT_CODE,
+  copyToClipboard,
 } from '../src/utils/platform.js'
 
 // 获取主题颜色的辅助函数
@@ -91,6 +146,7 @@ function getThemeColors() {
   }
 }
 import * as console2 from '../src/utils/console.js'
+import { analyzeCommandRisk, requiresConfirmWord, formatRiskBadge, HIGH_RISK_CONFIRM_WORD } from '../src/risk-analyzer.js'
 // 导入 package.json（Bun 会自动打包进二进制）
 import packageJson from '../package.json' with { type: 'json' }
 
@@ -127,97 +183,34 @@ process.on('beforeExit', () => {
   }
 })
 
-/**
- * 需要 TTY 的工具白名单
- * 这些工具在 pipe 模式下可能会卡住或无输出
- */
-const TTY_REQUIRED_COMMANDS = new Set([
-  // ls 替代品（带图标/颜色）
-  'eza', 'exa', 'lsd',
-  // cat 替代品（带语法高亮）
-  'bat', 'batcat',
-  // diff 替代品
-  'delta', 'diff-so-fancy',
-  // 系统监控
-  'htop', 'btop', 'top', 'glances', 'gtop', 'bpytop',
-  // 编辑器
-  'vim', 'nvim', 'nano', 'emacs', 'micro', 'helix', 'hx',
-  // 分页器
-  'less', 'more', 'most',
-  // 模糊搜索
-  'fzf', 'skim', 'sk',
-  // 终端复用器
-  'tmux', 'screen', 'zellij',
-  // TUI 工具
-  'lazygit', 'lazydocker', 'lazysql', 'k9s', 'tig',
-  // 文件管理器
-  'nnn', 'ranger', 'lf', 'yazi', 'mc', 'vifm',
-  // 数据查看
-  'visidata', 'vd',
-])
-
-/**
- * 使用 inherit 模式执行命令（用于需要 TTY 的工具）
- * 特点：命令能正常执行，但无法捕获输出
- */
-function executeWithInherit(command: string): Promise<{ exitCode: number; output: string; stdout: string; stderr: string }> {
-  return new Promise((resolve) => {
-    console.log('') // 空行
-
-    // 计算命令框宽度
-    const termWidth = process.stdout.columns || 80
-    const maxContentWidth = termWidth - 6
-    const lines = command.split('\n')
-    const wrappedLines: string[] = []
-    for (const line of lines) {
-      wrappedLines.push(...console2.wrapText(line, maxContentWidth))
-    }
-    const actualMaxWidth = Math.max(
-      ...wrappedLines.map((l) => console2.getDisplayWidth(l)),
-      console2.getDisplayWidth('生成命令')
-    )
-    const boxWidth = Math.max(console2.MIN_COMMAND_BOX_WIDTH, Math.min(actualMaxWidth + 4, termWidth - 2))
-    console2.printSeparator('输出', boxWidth)
-
-    // 使用 platform 模块构建跨平台命令执行配置
-    const execConfig = buildShellExecConfig(command)
-
-    // 使用 spawn + inherit（输出直接到终端）
-    const child = spawn(execConfig.shell, execConfig.args, {
-      stdio: 'inherit',
-      env: process.env,
-    })
-
-    child.on('close', (code) => {
-      console2.printSeparator('', boxWidth)
-      resolve({ exitCode: code || 0, output: '', stdout: '', stderr: '' })
-    })
-
-    child.on('error', (err) => {
-      console2.printSeparator('', boxWidth)
-      console2.error(err.message)
-      resolve({ exitCode: 1, output: err.message, stdout: '', stderr: err.message })
-    })
-  })
-}
-
 /**
  * 执行命令（原生版本）
+ * 传入 session 时在持久 shell 会话中执行，cd / export 会延续到后续步骤
+ * 优先在 PTY 中执行（颜色、进度条、交互式工具都能正常工作），node-pty 不可用时使用 pipe 模式
+ * Ctrl+C 只中断命令（退出码 130），超时同样会中断命令（退出码 124，timedOut 为 true）
  */
-function executeCommand(command: string): Promise<{ exitCode: number; output: string; stdout: string; stderr: string }> {
-  // 检测是否是需要 TTY 的工具
-  const firstCmd = command.trim().split(/[\s|&;]/)[0]
-  if (TTY_REQUIRED_COMMANDS.has(firstCmd)) {
-    // 使用 inherit 模式执行（无法捕获输出，但能正常运行）
-    return executeWithInherit(command)
-  }
-
-  // 普通命令：使用 pipe 模式（捕获输出）
-  return new Promise((resolve) => {
-    let stdout = ''
-    let stderr = ''
+function executeCommand(
+  command: string,
+  session?: ShellSession | null
+): Promise<{
+  exitCode: number
+  output: string
+  stdout: string
+  stderr: string
+  cwd?: string
+  envChanges?: Record<string, string | null>
+  timedOut?: boolean
+}> {
+  return new Promise((resolvePromise) => {
     let hasOutput = false
 
+    const timeout = getCommandTimeoutMs()
+    const { signal, release } = trapInterrupt()
+    const resolve: typeof resolvePromise = (result) => {
+      release()
+      resolvePromise(result)
+    }
+
     console.log('') // 空行
 
     // 计算命令框宽度，让分隔线长度一致（限制终端宽度）
@@ -235,37 +228,93 @@ function executeCommand(command: string): Promise<{ exitCode: number; output: st
     const boxWidth = Math.max(console2.MIN_COMMAND_BOX_WIDTH, Math.min(actualMaxWidth + 4, termWidth - 2))
     console2.printSeparator('输出', boxWidth)
 
+    // 持久会话：在会话 shell 中执行
+    if (session) {
+      session
+        .run(
+          command,
+          {
+            onStdout: (data) => {
+              hasOutput = true
+              process.stdout.write(data)
+            },
+            onStderr: (data) => {
+              hasOutput = true
+              process.stderr.write(data)
+            },
+          },
+          { timeout, signal }
+        )
+        .then((result) => {
+          if (hasOutput) {
+            console2.printSeparator('', boxWidth)
+          }
+          resolve(result)
+        })
+        .catch((err) => {
+          console2.error(err.message)
+          console2.printSeparator('', boxWidth)
+          resolve({ exitCode: 1, output: err.message, stdout: '', stderr: err.message })
+        })
+      return
+    }
+
     // 使用 platform 模块构建跨平台命令执行配置
     const execConfig = buildShellExecConfig(command)
 
-    const child = exec(execConfig.command, { shell: execConfig.shell })
-
-    child.stdout?.on('data', (data) => {
-      stdout += data
-      hasOutput = true
-      process.stdout.write(data)
-    })
-
-    child.stderr?.on('data', (data) => {
-      stderr += data
-      hasOutput = true
-      process.stderr.write(data)
-    })
+    // pipe 模式（捕获输出，但命令拿不到终端）
+    const executeWithPipe = () => {
+      runPiped(command, {
+        timeout,
+        signal,
+        onStdout: (data) => {
+          hasOutput = true
+          process.stdout.write(data)
+        },
+        onStderr: (data) => {
+          hasOutput = true
+          process.stderr.write(data)
+        },
+      })
+        .then((result) => {
+          if (hasOutput) {
+            console2.printSeparator('', boxWidth)
+          }
+          resolve(result)
+        })
+        .catch((err) => {
+          if (!hasOutput) {
+            console2.printSeparator('', boxWidth)
+          }
+          console2.error(err.message)
+          console2.printSeparator('', boxWidth)
+          resolve({ exitCode: 1, output: err.message, stdout: '', stderr: err.message })
+        })
+    }
 
-    child.on('close', (code) => {
-      if (hasOutput) {
-        console2.printSeparator('', boxWidth)
+    // 一次性 PTY 执行（不支持持久会话的 shell），node-pty 不可用时回退 pipe 模式
+    runInPty(execConfig.shell, execConfig.args, {
+      timeout,
+      signal,
+      onData: (data) => {
+        hasOutput = true
+        process.stdout.write(data)
+      },
+    }).then((result) => {
+      if (!result) {
+        executeWithPipe()
+        return
       }
-      resolve({ exitCode: code || 0, output: stdout + stderr, stdout, stderr })
-    })
-
-    child.on('error', (err) => {
-      if (!hasOutput) {
+      if (hasOutput) {
         console2.printSeparator('', boxWidth)
       }
-      console2.error(err.message)
-      console2.printSeparator('', boxWidth)
-      resolve({ exitCode: 1, output: err.message, stdout: '', stderr: err.message })
+      resolve({
+        exitCode: result.exitCode,
+        output: result.output,
+        stdout: result.output,
+        stderr: '',
+        timedOut: result.timedOut,
+      })
     })
   })
 }
@@ -296,6 +345,7 @@ configCmd
     try {
       const oldConfig = getConfig()
       const oldShellHistoryLimit = oldConfig.shellHistoryLimit
+      const oldHookKeybinding = oldConfig.hookKeybinding
 
       setConfigValue(key, value)
       console.log('')
@@ -307,6 +357,12 @@ configCmd
         await reinstallHookForLimitChange(oldShellHistoryLimit, Number(value))
       }
 
+      // 快捷键写在 hook 脚本里，修改后同样需要重装
+      if (key === 'hookKeybinding' && getConfig().hookKeybinding !== oldHookKeybinding) {
+        const { reinstallShellHook } = await import('../src/shell-hook.js')
+        await reinstallShellHook({ reason: `检测到 hookKeybinding 变化 (${oldHookKeybinding || '未绑定'} → ${getConfig().hookKeybinding || '未绑定'})` })
+      }
+
       console.log('')
     } catch (error: any) {
       console.log('')
@@ -591,44 +647,201 @@ const historyCmd = program.command('history').description('查看或管理命令
 
 historyCmd
   .command('show')
-  .description('显示历史记录')
+  .description('显示历史记录（不进入交互式浏览器）')
   .action(() => {
-    const history = getHistory()
+    displayCommandHistory()
+  })
+
+historyCmd
+  .command('export <id>')
+  .description('把一个任务导出为 shell 脚本或 Markdown 操作手册')
+  .option('-f, --format <format>', `导出格式（${EXPORT_FORMATS.join(' / ')}）`, 'sh')
+  .action((id: string, options: { format: string }) => {
+    try {
+      const format = parseExportFormat(options.format)
+      const records = findTaskRecords(getHistory(), id)
+      process.stdout.write(exportTask(records, format))
+    } catch (error: any) {
+      // stdout 通常被重定向到文件，错误信息输出到 stderr
+      process.stderr.write(`${error.message}\n`)
+      process.stderr.write(chalk.gray('pls history 可以查看序号和任务 ID') + '\n')
+      process.exit(1)
+    }
+  })
+
+historyCmd
+  .command('search [text...]')
+  .description('搜索本地、服务器和 Shell 历史（匹配需求、命令和输出）')
+  .option('--failed', '只看执行失败的命令')
+  .option('--modified', '只看执行前手动修改过的命令')
+  .option('--since <time>', '只看这段时间内的（如 30m、12h、7d 或 2026-01-01）')
+  .option('--remote <name>', '只搜索指定服务器的命令历史')
+  .option('--cwd <dir>', '只看在这个目录（及子目录）执行的')
+  .option('-n, --limit <n>', '最多显示的条数', '20')
+  .action((text: string[], options: { failed?: boolean; modified?: boolean; since?: string; cwd?: string; limit: string }, cmd: Command) => {
+    try {
+      // --remote 与全局的 -r, --remote 同名，由顶层命令解析
+      const remote: string | boolean | undefined = cmd.optsWithGlobals().remote
+      if (remote === true) {
+        throw new Error('--remote 需要指定服务器名')
+      }
+      if (remote && !getRemote(remote)) {
+        throw new Error(`远程服务器不存在: ${remote}`)
+      }
+      const results = searchHistory(collectSearchEntries(remote || undefined), {
+        text: text.join(' '),
+        failed: options.failed,
+        modified: options.modified,
+        since: options.since ? parseSince(options.since) : undefined,
+        cwd: options.cwd,
+      })
+      displaySearchResults(results, splitTerms(text.join(' ')), parseLimit(options.limit))
+    } catch (error: any) {
+      console.log('')
+      console2.error(error.message)
+      console.log('')
+      process.exit(1)
+    }
+  })
+
+historyCmd
+  .command('ask <question...>')
+  .description('用自然语言问历史（如：上周我是怎么修好 nginx 502 的）')
+  .option('--since <time>', '只在这段时间内的历史中查找（如 7d、2w 或 2026-01-01）')
+  .option('--remote <name>', '只在指定服务器的命令历史中查找')
+  .option('-n, --limit <n>', '最多发给 AI 的相关记录条数', '20')
+  .action(async (question: string[], options: { since?: string; limit: string }, cmd: Command) => {
+    const fail = (message: string): never => {
+      console.log('')
+      console2.error(message)
+      console.log('')
+      process.exit(1)
+    }
+
+    if (!isConfigValid()) {
+      console.log('')
+      console2.warning('⚠️  检测到尚未配置 API Key')
+      console2.info('请运行 pls config 启动交互式配置向导')
+      console.log('')
+      process.exit(1)
+    }
+
+    let entries: SearchEntry[] = []
+    try {
+      // --remote 与全局的 -r, --remote 同名，由顶层命令解析
+      const remote: string | boolean | undefined = cmd.optsWithGlobals().remote
+      if (remote === true) {
+        throw new Error('--remote 需要指定服务器名')
+      }
+      if (remote && !getRemote(remote)) {
+        throw new Error(`远程服务器不存在: ${remote}`)
+      }
+      const candidates = searchHistory(collectSearchEntries(remote || undefined), {
+        since: options.since ? parseSince(options.since) : undefined,
+      })
+      entries = rankHistory(candidates, question.join(' '), parseLimit(options.limit)).map((item) => item.entry)
+    } catch (error: any) {
+      fail(error.message)
+    }
 
-    if (history.length === 0) {
+    // 没有相关记录时不调用 AI
+    if (entries.length === 0) {
       console.log('')
-      console2.muted('暂无历史记录')
+      console2.muted('没有找到相关的历史记录')
       console.log('')
       return
     }
 
-    console.log('')
-    console2.title('📜 命令历史:')
-    console2.muted('━'.repeat(50))
+    const React = await import('react')
+    const { render } = await import('ink')
+    const { HistoryAsk } = await import('../src/components/HistoryAsk.js')
 
-    history.forEach((item: any, index: number) => {
-      const status = item.executed
-        ? item.exitCode === 0
-          ? chalk.hex(getThemeColors().success)('✓')
-          : chalk.hex(getThemeColors().error)(`✗ 退出码:${item.exitCode}`)
-        : chalk.gray('(未执行)')
+    render(
+      React.createElement(HistoryAsk, {
+        question: question.join(' '),
+        entries,
+        onComplete: () => process.exit(0),
+      })
+    )
+  })
 
-      console.log(`\n${chalk.gray(`${index + 1}.`)} ${chalk.hex(getThemeColors().primary)(item.userPrompt)}`)
+historyCmd
+  .command('rerun <n>')
+  .description('重新执行历史中的命令（经过正常的确认流程）')
+  .option('-r, --regenerate', '用当前的系统信息让 AI 重新生成，并显示和原命令的差异')
+  .option('--on <remote>', '在指定服务器上执行（local 表示本地）')
+  .option('--from <remote>', '从服务器的命令历史中取（序号与 pls remote history 一致）')
+  .option('-d, --debug', '显示调试信息')
+  .action(async (n: string, options: { regenerate?: boolean; on?: string; from?: string; debug?: boolean }) => {
+    const fail = (message: string): never => {
+      console.log('')
+      console2.error(message)
+      console.log('')
+      process.exit(1)
+    }
 
-      // 显示用户修改信息
-      if (item.userModified && item.aiGeneratedCommand) {
-        console.log(`   ${chalk.dim('AI 生成:')} ${chalk.gray(item.aiGeneratedCommand)}`)
-        console.log(`   ${chalk.dim('用户修改为:')} ${item.command} ${status} ${chalk.hex(getThemeColors().warning)('(已修改)')}`)
-      } else {
-        console.log(`   ${chalk.dim('→')} ${item.command} ${status}`)
-      }
+    if (options.from && !getRemote(options.from)) {
+      fail(`远程服务器不存在: ${options.from}`)
+    }
 
-      console.log(`   ${chalk.gray(item.timestamp)}`)
-    })
+    let entry: RerunEntry
+    try {
+      entry = getRerunEntry(options.from ? getRemoteHistory(options.from) : getHistory(), n)
+    } catch (error: any) {
+      return fail(error.message)
+    }
+
+    // 保存历史时脱敏的密码等已经丢失，原样执行只会把 [REDACTED] 当成参数
+    if (!options.regenerate && hasRedactedContent(entry.command)) {
+      fail(`第 ${n} 条记录的命令中有被脱敏的内容（[REDACTED]），不能原样执行，可以用 --regenerate 重新生成`)
+    }
+
+    const remoteName = resolveRerunTarget(options.from, options.on)
+    if (remoteName && !getRemote(remoteName)) {
+      fail(`远程服务器不存在: ${remoteName}`)
+    }
+
+    if (!isConfigValid()) {
+      console.log('')
+      console2.warning('⚠️  检测到尚未配置 API Key')
+      console2.info('请运行 pls config 启动交互式配置向导')
+      console.log('')
+      process.exit(1)
+    }
+
+    try {
+      loadPolicy()
+    } catch (error: any) {
+      fail(error.message)
+    }
 
     console.log('')
-    console2.muted(`历史文件: ${getHistoryFilePath()}`)
-    console.log('')
+    console2.info(`重新执行: ${entry.prompt}${remoteName ? ` [${remoteName}]` : ''}`)
+
+    if (!options.regenerate) {
+      await runInteractiveTask(entry.prompt, {
+        debug: options.debug,
+        remoteName,
+        initialStep: { command: entry.command, continue: false, reasoning: '', nextStepHint: '' },
+      })
+    }
+
+    // 重新生成前刷新系统信息（环境可能已经变了）
+    if (remoteName) {
+      try {
+        await collectRemoteSysInfo(remoteName, true)
+      } catch (error: any) {
+        fail(`无法连接到 ${remoteName}: ${error.message}`)
+      }
+    } else {
+      refreshSystemCache()
+    }
+
+    await runInteractiveTask(entry.prompt, {
+      debug: options.debug,
+      remoteName,
+      previousCommand: entry.command,
+    })
   })
 
 historyCmd
@@ -672,45 +885,140 @@ historyShellCmd
     clearShellHistory()
   })
 
-// 默认 history 命令（显示命令历史）
-historyCmd.action(() => {
-  const history = getHistory()
+// 默认 history 命令（交互式浏览器，没有终端时显示命令历史）
+historyCmd.action(async () => {
+  await browseHistory()
+})
 
-  if (history.length === 0) {
+// undo 子命令
+const undoCmd = program.command('undo').description('撤销 pls 执行的修改文件的命令')
+
+undoCmd
+  .command('list')
+  .description('查看可撤销的操作')
+  .action(() => {
+    displayUndoList()
+  })
+
+undoCmd
+  .argument('[id]', '撤销条目 ID（默认撤销最近一条）')
+  .action((id?: string) => {
     console.log('')
-    console2.muted('暂无历史记录')
+    try {
+      const manifest = restoreUndo(id)
+      if (!manifest) {
+        console2.muted(id ? `撤销条目 "${id}" 不存在` : '暂无可撤销的操作')
+        console.log('')
+        return
+      }
+
+      console2.success(`已撤销: ${manifest.command}`)
+      const restored = manifest.paths.filter((p) => p.kind === 'file').length
+      const removed = manifest.paths.filter((p) => p.kind === 'created').length
+      const modes = manifest.paths.filter((p) => p.kind === 'mode').length
+      if (restored > 0) console2.muted(`  还原 ${restored} 个路径`)
+      if (removed > 0) console2.muted(`  删除 ${removed} 个新建的路径`)
+      if (modes > 0) console2.muted(`  还原 ${modes} 个权限`)
+      console.log('')
+    } catch (error: any) {
+      console2.error(`撤销失败: ${error.message}`)
+      console.log('')
+      process.exit(1)
+    }
+  })
+
+// sessions 子命令
+const sessionsCmd = program.command('sessions').description('查看未完成的多步骤任务')
+
+sessionsCmd.action(() => {
+  displayTaskSessions()
+})
+
+sessionsCmd
+  .command('clear')
+  .description('清空未完成的任务')
+  .action(() => {
+    clearTaskSessions()
     console.log('')
-    return
-  }
+    console2.success('未完成的任务已清空')
+    console.log('')
+  })
 
-  console.log('')
-  console2.title('📜 命令历史:')
-  console2.muted('━'.repeat(50))
+// resume 子命令
+program
+  .command('resume')
+  .description('继续未完成的多步骤任务')
+  .argument('[id]', '任务 ID（可以只写开头几位，默认继续最近的任务）')
+  .option('-d, --debug', '显示调试信息')
+  .action(async (id: string | undefined, options: { debug?: boolean }) => {
+    let taskSession: TaskSession | null
+    try {
+      taskSession = getTaskSession(id)
+    } catch (error: any) {
+      console.log('')
+      console2.error(error.message)
+      console.log('')
+      process.exit(1)
+    }
+    if (!taskSession) {
+      console.log('')
+      console2.muted(id ? `任务 "${id}" 不存在` : '暂无未完成的任务')
+      console.log('')
+      return
+    }
 
-  history.forEach((item: any, index: number) => {
-    const status = item.executed
-      ? item.exitCode === 0
-        ? chalk.hex(getThemeColors().success)('✓')
-        : chalk.hex(getThemeColors().error)(`✗ 退出码:${item.exitCode}`)
-      : chalk.gray('(未执行)')
+    if (!isConfigValid()) {
+      console.log('')
+      console2.warning('⚠️  检测到尚未配置 API Key')
+      console2.info('请运行 pls config 启动交互式配置向导')
+      console.log('')
+      process.exit(1)
+    }
 
-    console.log(`\n${chalk.gray(`${index + 1}.`)} ${chalk.hex(getThemeColors().primary)(item.userPrompt)}`)
+    const remoteName = taskSession.remoteContext?.name
+    if (remoteName && !getRemote(remoteName)) {
+      console.log('')
+      console2.error(`远程服务器不存在: ${remoteName}`)
+      console.log('')
+      process.exit(1)
+    }
 
-    // 显示用户修改信息
-    if (item.userModified && item.aiGeneratedCommand) {
-      console.log(`   ${chalk.dim('AI 生成:')} ${chalk.gray(item.aiGeneratedCommand)}`)
-      console.log(`   ${chalk.dim('用户修改为:')} ${item.command} ${status} ${chalk.hex(getThemeColors().warning)('(已修改)')}`)
-    } else {
-      console.log(`   ${chalk.dim('→')} ${item.command} ${status}`)
+    try {
+      loadPolicy()
+    } catch (error: any) {
+      console.log('')
+      console2.error(error.message)
+      console.log('')
+      process.exit(1)
     }
 
-    console.log(`   ${chalk.gray(item.timestamp)}`)
-  })
+    // 本地任务回到原来的目录，还原之前步骤设置的环境变量
+    if (!remoteName) {
+      if (fs.existsSync(taskSession.cwd)) {
+        process.chdir(taskSession.cwd)
+      }
+      for (const [key, value] of Object.entries(getSessionEnvChanges(taskSession))) {
+        if (value === null) {
+          delete process.env[key]
+        } else {
+          process.env[key] = value
+        }
+      }
+    }
 
-  console.log('')
-  console2.muted(`历史文件: ${getHistoryFilePath()}`)
-  console.log('')
-})
+    console.log('')
+    console2.info(`继续任务: ${taskSession.prompt}`)
+    console.log('')
+    printExecutedSteps(taskSession.steps)
+    console.log('')
+
+    await runInteractiveTask(taskSession.prompt, {
+      debug: options.debug,
+      remoteName,
+      stdinContent: taskSession.stdinContent,
+      resume: taskSession,
+    })
+  })
 
 // hook 子命令
 const hookCmd = program.command('hook').description('管理 shell hook（增强功能：记录终端命令历史）')
@@ -718,7 +1026,8 @@ const hookCmd = program.command('hook').description('管理 shell hook（增强
 hookCmd
   .command('install')
   .description('安装 shell hook')
-  .action(async () => {
+  .option('-k, --key <key>', '绑定快捷键，把输入行替换为生成的命令（如 ctrl+g，zsh / bash）')
+  .action(async (options: { key?: string }) => {
     const shellType = detectShell()
     const configPath = getShellConfigPath(shellType)
 
@@ -736,9 +1045,31 @@ hookCmd
       return
     }
 
-    console2.warning('此功能会在你的 shell 配置文件中添加 hook，')
-    console2.warning('用于记录你在终端执行的每条命令，让 AI 更智能。')
-    console.log('')
+    if (options.key !== undefined) {
+      try {
+        setConfigValue('hookKeybinding', options.key)
+      } catch (error: any) {
+        console2.error(error.message)
+        console.log('')
+        process.exit(1)
+      }
+      if (shellType === 'powershell') {
+        console2.warning('PowerShell 暂不支持快捷键，只安装命令记录')
+      }
+    }
+
+    console2.warning('此功能会在你的 shell 配置文件中添加 hook，')
+    console2.warning('用于记录你在终端执行的每条命令，让 AI 更智能。')
+    const keybinding = getConfig().hookKeybinding
+    if (keybinding && shellType !== 'powershell') {
+      console2.warning(`按 ${keybinding} 会把当前输入行交给 AI，替换为生成的命令（回车前可以修改）。`)
+    }
+    console.log('')
+
+    // 已安装时重新写入，让快捷键变更生效
+    if (options.key !== undefined && getHookStatus().installed) {
+      uninstallShellHook()
+    }
 
     const result = await installShellHook()
     if (result) {
@@ -781,6 +1112,8 @@ hookCmd
       }`
     )
     console.log(`  ${chalk.hex(getThemeColors().primary)('历史文件')}:   ${status.historyFile}`)
+  console.log(`  ${chalk.hex(getThemeColors().primary)('快捷键')}:     ${status.keybinding || chalk.gray('未绑定')}`)
+    console.log(`  ${chalk.hex(getThemeColors().primary)('快捷键')}:     ${status.keybinding || chalk.gray('未绑定')}`)
     console2.muted('━'.repeat(40))
 
     if (!status.installed) {
@@ -810,6 +1143,7 @@ hookCmd.action(() => {
     }`
   )
   console.log(`  ${chalk.hex(getThemeColors().primary)('历史文件')}:   ${status.historyFile}`)
+  console.log(`  ${chalk.hex(getThemeColors().primary)('快捷键')}:     ${status.keybinding || chalk.gray('未绑定')}`)
   console2.muted('━'.repeat(40))
 
   if (!status.installed) {
@@ -1336,20 +1670,10 @@ program
       process.exit(1)
     }
 
-    // 懒加载 Chat 组件（避免启动时加载 React/Ink）
     ;(async () => {
-      const React = await import('react')
-      const { render } = await import('ink')
-      const { Chat } = await import('../src/components/Chat.js')
-
-      render(
-        React.createElement(Chat, {
-          prompt,
-          debug: debug,  // 使用 debug 变量
-          showRoundCount: true,
-          onComplete: () => process.exit(0),
-        })
-      )
+      // 管道输入作为上下文（kubectl logs ... | pls chat 为什么崩溃）
+      const pipedInput = await readPipedStdin()
+      await startChat(prompt, { debug, stdinContent: pipedInput ? truncateStdinContent(pipedInput) : undefined })
     })()
   })
 
@@ -1358,6 +1682,11 @@ program
   .argument('[prompt...]', '自然语言描述你想执行的操作')
   .option('-d, --debug', '显示调试信息（系统信息、完整 prompt 等）')
   .option('-r, --remote [name]', '在远程服务器上执行（不指定则使用默认服务器）')
+  .option('--print', '只输出生成的命令，不执行')
+  .option('-y, --yes', '不询问直接执行（需要确认的高风险命令除外）')
+  .option('--json', '以 JSON 输出生成的命令和执行结果')
+  .option('-a, --alternatives [count]', `生成多个备选命令供选择（默认 ${DEFAULT_ALTERNATIVES} 个）`)
+  .option('--plan', '先列出步骤计划，确认后按计划逐步执行')
   .action(async (promptArgs, options) => {
     // 智能处理 -r 参数：如果 -r 后面的值不是已注册的服务器名，把它当作 prompt 的一部分
     if (typeof options.remote === 'string' && !getRemote(options.remote)) {
@@ -1366,6 +1695,41 @@ program
       options.remote = true  // 改为使用默认服务器
     }
 
+    // 管道输入作为上下文（cat error.log | pls 总结错误原因），读完后重新打开终端接收按键
+    const pipedInput = await readPipedStdin()
+    const stdinContent = pipedInput ? truncateStdinContent(pipedInput) : undefined
+    const hasTTY = reopenTTY()
+
+    // 非交互模式（--print / --yes / --json，没有终端时自动使用 --print）
+    let headless: ReturnType<typeof resolveHeadlessMode> = null
+    try {
+      headless = resolveHeadlessMode(options, hasTTY)
+    } catch (error: any) {
+      console.log('')
+      console2.error(error.message)
+      console.log('')
+      process.exit(1)
+    }
+
+    // 备选命令需要在界面中选择
+    let alternativeCount: number | undefined
+    try {
+      if (options.alternatives !== undefined) {
+        alternativeCount = parseAlternativeCount(options.alternatives)
+        if (headless) {
+          throw new Error('--alternatives 需要在终端中交互选择，不能与 --print / --yes / --json 一起使用')
+        }
+      }
+      if (options.plan && headless) {
+        throw new Error('--plan 需要在终端中确认计划，不能与 --print / --yes / --json 一起使用')
+      }
+    } catch (error: any) {
+      console.log('')
+      console2.error(error.message)
+      console.log('')
+      process.exit(1)
+    }
+
     let prompt = ''
 
     if (promptArgs.length === 0) {
@@ -1478,8 +1842,31 @@ program
       }
     }
 
+    if (remoteNames && (alternativeCount || options.plan)) {
+      console.log('')
+      console2.error(`批量远程执行不支持 ${alternativeCount ? '--alternatives' : '--plan'}`)
+      console.log('')
+      process.exit(1)
+    }
+
+    // 执行策略文件有误时不能继续（否则禁止规则会失效）
+    try {
+      loadPolicy()
+    } catch (error: any) {
+      console.log('')
+      console2.error(error.message)
+      console.log('')
+      process.exit(1)
+    }
+
     // 懒加载 MultiStepCommandGenerator 组件（避免启动时加载 React/Ink）
     ;(async () => {
+      // 非交互模式：不渲染界面，直接输出结果
+      if (headless) {
+        await runHeadlessTask(prompt, { ...headless, remoteName, remoteNames, stdinContent, debug: options.debug })
+        return
+      }
+
       // 批量远程执行模式
       if (remoteNames && remoteNames.length > 0) {
         console.log('')
@@ -1488,17 +1875,58 @@ program
 
         try {
           // 1. 并发生成命令
-          const commands = await generateBatchRemoteCommands(remoteNames, prompt, { debug: options.debug })
+          const commands = await generateBatchRemoteCommands(remoteNames, prompt, { debug: options.debug, stdinContent })
 
           // 2. 显示生成的命令
           console2.success('✓ 命令生成完成\n')
           const theme = getCurrentTheme()
+          let hasHighRisk = false
+          const deniedServers: string[] = []
           commands.forEach(({ server, command, sysInfo }) => {
-            console.log(chalk.hex(theme.primary)(`${server}`) + chalk.gray(` (${sysInfo.os}):`))
+            const risk = analyzeCommandRisk(command)
+            const riskColor = risk.level === 'high' ? theme.error : risk.level === 'medium' ? theme.warning : theme.success
+            const policy = checkCommandPolicy(command)
+            if (requiresConfirmWord(risk) || policy.action === 'confirm') hasHighRisk = true
+            console.log(
+              chalk.hex(theme.primary)(`${server}`) +
+                chalk.gray(` (${sysInfo.os}): `) +
+                chalk.hex(riskColor)(`[${formatRiskBadge(risk)}]`)
+            )
             console.log(chalk.hex(theme.secondary)(`  ${command}`))
+            if (risk.level === 'high') {
+              risk.reasons.forEach((reason) => console.log(chalk.hex(theme.error)(`  ⚠️  ${reason}`)))
+            }
+            if (policy.action === 'deny') {
+              deniedServers.push(server)
+              console.log(chalk.hex(theme.error)(`  🚫 执行策略禁止此命令: ${formatPolicyDecision(policy)}`))
+            } else if (policy.action === 'confirm') {
+              console.log(chalk.hex(theme.warning)(`  🔒 执行策略要求确认: ${formatPolicyDecision(policy)}`))
+            }
           })
           console.log('')
 
+          // 被策略禁止的命令不执行
+          commands
+            .filter(({ server }) => deniedServers.includes(server))
+            .forEach(({ server, command }) => {
+              addRemoteHistory(server, {
+                userPrompt: prompt,
+                command,
+                aiGeneratedCommand: command,
+                userModified: false,
+                executed: false,
+                exitCode: null,
+                output: '',
+                reason: 'policy',
+              })
+            })
+          const allowedCommands = commands.filter(({ server }) => !deniedServers.includes(server))
+          if (allowedCommands.length === 0) {
+            console2.error('所有服务器的命令都被执行策略禁止')
+            console.log('')
+            process.exit(1)
+          }
+
           // 3. 询问用户确认
           const readline = await import('readline')
           const rl = readline.createInterface({
@@ -1507,10 +1935,19 @@ program
           })
 
           const confirmed = await new Promise<boolean>((resolve) => {
-            console.log(chalk.gray(`将在 ${remoteNames!.length} 台服务器执行以上命令`))
-            rl.question(chalk.gray('执行？ [回车执行 / Ctrl+C 取消] '), (answer) => {
+            console.log(
+              chalk.gray(
+                `将在 ${allowedCommands.length} 台服务器执行以上命令` +
+                  (deniedServers.length > 0 ? `（跳过被禁止的 ${deniedServers.join(', ')}）` : '')
+              )
+            )
+            // 包含高风险命令时，需要输入确认词
+            const question = hasHighRisk
+              ? chalk.hex(theme.error)(`包含高风险命令，输入 ${HIGH_RISK_CONFIRM_WORD} 回车执行 [Ctrl+C 取消] `)
+              : chalk.gray('执行？ [回车执行 / Ctrl+C 取消] ')
+            rl.question(question, (answer) => {
               rl.close()
-              resolve(true)
+              resolve(hasHighRisk ? answer.trim() === HIGH_RISK_CONFIRM_WORD : true)
             })
           })
 
@@ -1524,7 +1961,9 @@ program
           // 4. 并发执行
           console.log('')
           console2.info('正在执行...')
-          const results = await executeBatchRemoteCommands(commands)
+          const { signal, release } = trapInterrupt()
+          const results = await executeBatchRemoteCommands(allowedCommands, { timeout: getCommandTimeoutMs(), signal })
+          release()
 
           // 5. 显示执行结果摘要
           console.log('')
@@ -1552,11 +1991,13 @@ program
               executed: true,
               exitCode,
               output,
+              reason:
+                exitCode === TIMEOUT_EXIT_CODE ? 'timeout' : exitCode === INTERRUPTED_EXIT_CODE ? 'interrupted' : undefined,
             })
           })
 
           // 8. 根据结果决定退出码
-          const allSuccess = results.every(r => r.exitCode === 0)
+          const allSuccess = deniedServers.length === 0 && results.every(r => r.exitCode === 0)
           const allFailed = results.every(r => r.exitCode !== 0)
           if (allFailed) {
             process.exit(2)  // 全部失败
@@ -1574,252 +2015,901 @@ program
       }
 
       // 单服务器执行模式
-      const React = await import('react')
-      const { render } = await import('ink')
-      const { MultiStepCommandGenerator } = await import('../src/components/MultiStepCommandGenerator.js')
+      await runInteractiveTask(prompt, {
+        debug: options.debug,
+        remoteName,
+        stdinContent,
+        alternativeCount,
+        plan: options.plan,
+      })
+    })()
+  })
+
+/**
+ * 交互式执行任务（本地或单台远程服务器）：逐步生成命令，确认后执行，直到 AI 认为任务完成
+ * 每执行一步都保存任务会话，传入 resume 时从保存的会话继续（pls resume）
+ */
+async function runInteractiveTask(
+  prompt: string,
+  options: {
+    debug?: boolean
+    remoteName?: string
+    stdinContent?: string
+    alternativeCount?: number
+    plan?: boolean
+    resume?: TaskSession
+    initialStep?: CommandStep  // 第一步直接展示的命令（pls history rerun）
+    initialEdit?: boolean      // 第一步直接展示的命令先进入编辑（历史浏览器中的编辑后执行）
+    previousCommand?: string   // 第一步重新生成前的命令，用于显示差异（pls history rerun --regenerate）
+  }
+): Promise<never> {
+  const { remoteName, stdinContent, alternativeCount, resume } = options
+  let { initialStep, previousCommand } = options
 
-      // 如果是远程模式，先获取远程上下文
-      let remoteContext: {
-        name: string
-        sysInfo: Awaited<ReturnType<typeof collectRemoteSysInfo>>
-        shellHistory: Awaited<ReturnType<typeof fetchRemoteShellHistory>>
-      } | null = null
+  const React = await import('react')
+  const { render } = await import('ink')
+  const { MultiStepCommandGenerator } = await import('../src/components/MultiStepCommandGenerator.js')
+  const { PlanReview } = await import('../src/components/PlanReview.js')
 
-      if (remoteName) {
+  // 如果是远程模式，先获取远程上下文（继续任务时沿用保存的上下文）
+  let remoteContext: RemoteContext | null = resume?.remoteContext ?? null
+
+  if (remoteName && !remoteContext) {
+    console.log('')
+    console2.info(`正在连接远程服务器 ${remoteName}...`)
+
+    try {
+      // 采集系统信息（使用缓存）
+      const sysInfo = await collectRemoteSysInfo(remoteName)
+      if (options.debug) {
+        console2.muted(`系统: ${sysInfo.os} ${sysInfo.osVersion} (${sysInfo.shell})`)
+      }
+
+      // 获取远程 shell 历史
+      const shellHistory = await fetchRemoteShellHistory(remoteName)
+      if (options.debug && shellHistory.length > 0) {
+        console2.muted(`Shell 历史: ${shellHistory.length} 条`)
+      }
+
+      remoteContext = { name: remoteName, sysInfo, shellHistory }
+      console2.success(`已连接到 ${remoteName}`)
+    } catch (error: any) {
+      console2.error(`无法连接到 ${remoteName}: ${error.message}`)
+      console.log('')
+      process.exit(1)
+    }
+  }
+
+  const executedSteps: ExecutedStep[] = resume ? [...resume.steps] : []
+  let currentStepNumber = executedSteps.length + 1
+  let lastStepFailed = executedSteps.length > 0 && executedSteps[executedSteps.length - 1].exitCode !== 0 // 跟踪上一步是否失败
+  let policyDenials = 0 // 连续被执行策略禁止的次数
+
+  // 任务预算：达到步数、连续失败或 token 上限时，由用户决定追加还是停止
+  const baseBudget = getTaskBudget()
+  let budget = baseBudget
+  const usage = createTaskUsage(executedSteps)
+
+  // 本地执行：所有步骤共用一个持久 shell 会话（不支持的 shell 返回 null，回退为逐条执行）
+  // 继续任务时从最后一步所在的目录开始
+  const resumeCwd = [...executedSteps].reverse().find((step) => step.cwd && fs.existsSync(step.cwd))?.cwd
+  const session = remoteName ? null : await createShellSession({ cwd: resumeCwd }).catch(() => null)
+
+  // 生成任务计划并让用户确认（currentPlan 不为空时为失败后重新规划），返回确认的步骤，取消时返回 null
+  const reviewPlan = async (currentPlan?: TaskPlan): Promise<string[] | null> => {
+    let planResult: { steps: string[]; tokens: number } | { cancelled: true } | null = null
+    const { waitUntilExit, unmount } = render(
+      React.createElement(PlanReview, {
+        prompt,
+        debug: options.debug,
+        previousSteps: executedSteps,
+        currentPlan,
+        remoteContext: remoteContext ?? undefined,
+        stdinContent,
+        onComplete: (res) => {
+          planResult = res
+          unmount()
+        },
+      })
+    )
+    await waitUntilExit()
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    const result = planResult as { steps: string[]; tokens: number } | { cancelled: true } | null
+    if (!result || !('steps' in result)) {
+      return null
+    }
+    usage.tokens += result.tokens
+    return result.steps
+  }
+
+  // --plan：先确认计划，执行时按计划跟踪进度（继续任务时沿用保存的计划）
+  let plan: TaskPlan | null = resume?.plan ?? null
+  if (options.plan && !plan) {
+    const steps = await reviewPlan()
+    if (!steps) {
+      process.exit(0)
+    }
+    plan = { steps, current: 0 }
+    console.log('')
+  }
+
+  // 任务会话：每执行一步保存一次，中途退出后可以用 pls resume 继续
+  const taskSession = resume ?? createTaskSession(prompt, { remoteContext: remoteContext ?? undefined, stdinContent })
+  const saveProgress = () => {
+    taskSession.steps = executedSteps
+    taskSession.plan = plan ?? undefined
+    saveTaskSession(taskSession)
+  }
+
+  // 步骤编号：有计划时显示 当前/总数
+  const stepLabel = () =>
+    plan ? `${plan.current + 1}/${Math.max(plan.steps.length, plan.current + 1)}` : `${currentStepNumber}`
+
+  while (true) {
+    const limit = checkTaskBudget(budget, usage)
+    if (limit) {
+      printBudgetSummary(limit, budget, usage, executedSteps)
+      if (!(await askConfirm('追加一份预算，让 AI 继续？', '继续', '停止'))) {
+        console2.muted('任务已停止')
+        console.log('')
+        process.exit(1)
+      }
+      budget = extendTaskBudget(budget, usage, limit, baseBudget)
+      console.log('')
+    }
+
+    let stepResult: any = null
+
+    // 使用 Ink 渲染命令生成
+    const { waitUntilExit, unmount } = render(
+      React.createElement(MultiStepCommandGenerator, {
+        prompt,
+        debug: options.debug,
+        previousSteps: executedSteps,
+        currentStepNumber,
+        remoteContext: remoteContext ? {
+          name: remoteContext.name,
+          sysInfo: remoteContext.sysInfo,
+          shellHistory: remoteContext.shellHistory,
+        } : undefined,
+        isRemote: !!remoteName,  // 远程执行时不检测 builtin
+        persistentSession: !!session,
+        parentShell: !remoteName && canEmitToParentShell(),  // 通过 pls 包装函数启动时，builtin 交回父 shell
+        stdinContent,
+        alternativeCount,
+        plan: plan ?? undefined,
+        initialStep,
+        initialEdit: options.initialEdit,
+        previousCommand,
+        onStepComplete: (res: any) => {
+          stepResult = res
+          unmount()
+        },
+      })
+    )
+
+    await waitUntilExit()
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    usage.tokens += stepResult?.tokens ?? 0
+    // 只有第一步使用历史中的命令
+    initialStep = undefined
+    previousCommand = undefined
+
+    // 处理步骤结果
+    if (!stepResult || stepResult.cancelled) {
+      if (executedSteps.length > 0) {
+        console2.muted(`任务已保存，可以用 pls resume ${taskSession.id} 继续`)
         console.log('')
-        console2.info(`正在连接远程服务器 ${remoteName}...`)
+      }
+      process.exit(0)
+    }
 
-        try {
-          // 采集系统信息（使用缓存）
-          const sysInfo = await collectRemoteSysInfo(remoteName)
-          if (options.debug) {
-            console2.muted(`系统: ${sysInfo.os} ${sysInfo.osVersion} (${sysInfo.shell})`)
-          }
+    if (stepResult.hasBuiltin) {
+      // 远程模式记录到远程历史
+      if (remoteName) {
+        addRemoteHistory(remoteName, {
+          userPrompt: currentStepNumber === 1 ? prompt : `[步骤${currentStepNumber}] ${prompt}`,
+          command: stepResult.command,
+          aiGeneratedCommand: stepResult.aiGeneratedCommand,
+          userModified: stepResult.userModified || false,
+          alternatives: stepResult.alternatives,
+          refinements: stepResult.refinements,
+          taskId: taskSession.id,
+          step: currentStepNumber,
+          reasoning: stepResult.reasoning,
+          executed: false,
+          exitCode: null,
+          output: '',
+          reason: 'builtin',
+        })
+      } else {
+        addHistory({
+          userPrompt: currentStepNumber === 1 ? prompt : `[步骤${currentStepNumber}] ${prompt}`,
+          command: stepResult.command,
+          aiGeneratedCommand: stepResult.aiGeneratedCommand, // AI 原始命令
+          userModified: stepResult.userModified || false,
+          alternatives: stepResult.alternatives,
+          refinements: stepResult.refinements,
+          taskId: taskSession.id,
+          step: currentStepNumber,
+          reasoning: stepResult.reasoning,
+          executed: false,
+          exitCode: null,
+          output: '',
+          reason: 'builtin',
+          cwd: session?.getCwd(),
+        })
+      }
+      process.exit(0)
+    }
 
-          // 获取远程 shell 历史
-          const shellHistory = await fetchRemoteShellHistory(remoteName)
-          if (options.debug && shellHistory.length > 0) {
-            console2.muted(`Shell 历史: ${shellHistory.length} 条`)
-          }
+    // 执行策略：被禁止的命令不执行，把原因告诉 AI 换一种方式
+    const policyDecision =
+      stepResult.policyDenied || (stepResult.confirmed && stepResult.command)
+        ? checkCommandPolicy(stepResult.command, session?.getCwd())
+        : null
+    if (policyDecision?.action === 'deny') {
+      const denial = formatPolicyDecision(policyDecision)
+      if (!stepResult.policyDenied) {
+        console.log('')
+        console2.error(`🚫 执行策略禁止此命令: ${denial}`)
+      }
 
-          remoteContext = { name: remoteName, sysInfo, shellHistory }
-          console2.success(`已连接到 ${remoteName}`)
-        } catch (error: any) {
-          console2.error(`无法连接到 ${remoteName}: ${error.message}`)
-          console.log('')
-          process.exit(1)
-        }
+      const record = {
+        userPrompt:
+          currentStepNumber === 1 ? prompt : `[步骤${currentStepNumber}] ${stepResult.reasoning || prompt}`,
+        command: stepResult.command,
+        aiGeneratedCommand: stepResult.aiGeneratedCommand,
+        userModified: stepResult.userModified || false,
+        alternatives: stepResult.alternatives,
+        refinements: stepResult.refinements,
+        taskId: taskSession.id,
+        step: currentStepNumber,
+        reasoning: stepResult.reasoning,
+        executed: false,
+        exitCode: null,
+        output: '',
+        reason: 'policy',
+      }
+      if (remoteName) {
+        addRemoteHistory(remoteName, record)
+      } else {
+        addHistory({ ...record, cwd: session?.getCwd() })
       }
 
-      const executedSteps: ExecutedStep[] = []
-      let currentStepNumber = 1
-      let lastStepFailed = false // 跟踪上一步是否失败
-
-      while (true) {
-        let stepResult: any = null
-
-        // 使用 Ink 渲染命令生成
-        const { waitUntilExit, unmount } = render(
-          React.createElement(MultiStepCommandGenerator, {
-            prompt,
-            debug: options.debug,
-            previousSteps: executedSteps,
-            currentStepNumber,
-            remoteContext: remoteContext ? {
-              name: remoteContext.name,
-              sysInfo: remoteContext.sysInfo,
-              shellHistory: remoteContext.shellHistory,
-            } : undefined,
-            isRemote: !!remoteName,  // 远程执行时不检测 builtin
-            onStepComplete: (res: any) => {
-              stepResult = res
-              unmount()
-            },
-          })
-        )
+      policyDenials++
+      if (policyDenials >= MAX_POLICY_DENIALS) {
+        console.log('')
+        console2.muted('❌ AI 多次生成被禁止的命令，任务停止')
+        console.log('')
+        process.exit(1)
+      }
 
-        await waitUntilExit()
-        await new Promise((resolve) => setTimeout(resolve, 10))
+      executedSteps.push({
+        command: stepResult.command,
+        continue: stepResult.needsContinue || false,
+        reasoning: stepResult.reasoning,
+        nextStepHint: stepResult.nextStepHint,
+        exitCode: 1,
+        output: '',
+        policyDenied: denial,
+      })
+      saveProgress()
+      usage.steps++
+      usage.consecutiveFailures++
+      console.log('')
+      console2.warning('正在请 AI 换一种方式...')
+      console.log('')
+      lastStepFailed = true
+      currentStepNumber++
+      continue
+    }
+    policyDenials = 0
 
-        // 处理步骤结果
-        if (!stepResult || stepResult.cancelled) {
-          process.exit(0)
+    if (stepResult.confirmed) {
+      // 如果命令为空，说明 AI 决定放弃
+      if (!stepResult.command || stepResult.command.trim() === '') {
+        console.log('')
+        if (stepResult.reasoning) {
+          console2.info(`💡 AI 分析: ${stepResult.reasoning}`)
         }
+        console2.muted('❌ AI 决定停止尝试，任务失败')
+        console.log('')
+        process.exit(1)
+      }
 
-        if (stepResult.hasBuiltin) {
-          // 远程模式记录到远程历史
-          if (remoteName) {
-            addRemoteHistory(remoteName, {
-              userPrompt: currentStepNumber === 1 ? prompt : `[步骤${currentStepNumber}] ${prompt}`,
-              command: stepResult.command,
-              aiGeneratedCommand: stepResult.aiGeneratedCommand,
-              userModified: stepResult.userModified || false,
-              executed: false,
-              exitCode: null,
-              output: '',
-              reason: 'builtin',
-            })
-          } else {
-            addHistory({
-              userPrompt: currentStepNumber === 1 ? prompt : `[步骤${currentStepNumber}] ${prompt}`,
-              command: stepResult.command,
-              aiGeneratedCommand: stepResult.aiGeneratedCommand, // AI 原始命令
-              userModified: stepResult.userModified || false,
-              executed: false,
-              exitCode: null,
-              output: '',
-              reason: 'builtin',
-            })
-          }
-          process.exit(0)
+      // 特殊处理：如果上一步失败，且 AI 决定放弃（continue: false），直接显示原因并退出
+      if (
+        lastStepFailed &&
+        stepResult.needsContinue === false &&
+        stepResult.command.startsWith('echo')
+      ) {
+        console.log('')
+        if (stepResult.reasoning) {
+          console2.info(`💡 AI 分析: ${stepResult.reasoning}`)
         }
+        console2.muted('❌ AI 决定停止尝试，任务失败')
+        console.log('')
+        process.exit(1)
+      }
 
-        if (stepResult.confirmed) {
-          // 如果命令为空，说明 AI 决定放弃
-          if (!stepResult.command || stepResult.command.trim() === '') {
-            console.log('')
-            if (stepResult.reasoning) {
-              console2.info(`💡 AI 分析: ${stepResult.reasoning}`)
-            }
-            console2.muted('❌ AI 决定停止尝试，任务失败')
-            console.log('')
-            process.exit(1)
-          }
+      // 包含 builtin：交给父 shell 执行（pls 退出后由包装函数 eval）
+      if (stepResult.emitToParent && emitToParentShell(stepResult.command, session?.getCwd())) {
+        addHistory({
+          userPrompt:
+            currentStepNumber === 1 ? prompt : `[步骤${currentStepNumber}] ${stepResult.reasoning || prompt}`,
+          command: stepResult.command,
+          aiGeneratedCommand: stepResult.aiGeneratedCommand,
+          userModified: stepResult.userModified || false,
+          alternatives: stepResult.alternatives,
+          refinements: stepResult.refinements,
+          taskId: taskSession.id,
+          step: currentStepNumber,
+          reasoning: stepResult.reasoning,
+          executed: false,
+          exitCode: null,
+          output: '',
+          reason: 'parent_shell',
+          cwd: session?.getCwd(),
+        })
+        removeTaskSession(taskSession.id)
+        console.log('')
+        console2.success('已交给当前 shell 执行')
+        console.log('')
+        process.exit(0)
+      }
 
-          // 特殊处理：如果上一步失败，且 AI 决定放弃（continue: false），直接显示原因并退出
-          if (
-            lastStepFailed &&
-            stepResult.needsContinue === false &&
-            stepResult.command.startsWith('echo')
-          ) {
-            console.log('')
-            if (stepResult.reasoning) {
-              console2.info(`💡 AI 分析: ${stepResult.reasoning}`)
-            }
-            console2.muted('❌ AI 决定停止尝试，任务失败')
-            console.log('')
-            process.exit(1)
-          }
+      // 执行命令（本地或远程）
+      const execStart = Date.now()
+      let exitCode: number
+      let output: string
+      let stdout: string
+      let cwd: string | undefined
+      let envChanges: Record<string, string | null> | undefined
+      let timedOut = false
+      let undoId: string | undefined
+      let runCwd: string | undefined  // 执行时所在的目录（持久会话中 cd 之后的目录）
 
-          // 执行命令（本地或远程）
-          const execStart = Date.now()
-          let exitCode: number
-          let output: string
-          let stdout: string
-
-          if (remoteName) {
-            // 远程执行
-            const result = await executeRemoteCommand(remoteName, stepResult.command)
-            exitCode = result.exitCode
-            output = result.output
-            stdout = result.stdout
-          } else {
-            // 本地执行
-            const result = await executeCommand(stepResult.command)
-            exitCode = result.exitCode
-            output = result.output
-            stdout = result.stdout
-          }
-          const execDuration = Date.now() - execStart
-
-          // 判断命令是否成功
-          // 退出码 141 = 128 + 13 (SIGPIPE)，是管道正常关闭时的信号
-          // 例如：ps aux | head -3，head 读完 3 行就关闭管道，ps 收到 SIGPIPE
-          // 但如果退出码是 141 且没有 stdout 输出，说明可能是真正的错误
-          const isSigpipeWithOutput = exitCode === 141 && stdout.trim().length > 0
-          const isSuccess = exitCode === 0 || isSigpipeWithOutput
-
-          // 保存到执行历史
-          const executedStep: ExecutedStep = {
-            command: stepResult.command,
-            continue: stepResult.needsContinue || false,
-            reasoning: stepResult.reasoning,
-            nextStepHint: stepResult.nextStepHint,
-            exitCode,
-            output,
-          }
-          executedSteps.push(executedStep)
-
-          // 记录到 pls 历史（远程模式记录到远程历史）
-          if (remoteName) {
-            addRemoteHistory(remoteName, {
-              userPrompt:
-                currentStepNumber === 1 ? prompt : `[步骤${currentStepNumber}] ${stepResult.reasoning || prompt}`,
-              command: stepResult.command,
-              aiGeneratedCommand: stepResult.aiGeneratedCommand,
-              userModified: stepResult.userModified || false,
-              executed: true,
-              exitCode,
-              output,
-            })
-          } else {
-            addHistory({
-              userPrompt:
-                currentStepNumber === 1 ? prompt : `[步骤${currentStepNumber}] ${stepResult.reasoning || prompt}`,
-              command: stepResult.command,
-              aiGeneratedCommand: stepResult.aiGeneratedCommand, // AI 原始命令
-              userModified: stepResult.userModified || false,
-              executed: true,
-              exitCode,
-              output,
-            })
-          }
+      if (remoteName) {
+        // 远程执行
+        const result = await executeRemoteCommand(remoteName, stepResult.command)
+        exitCode = result.exitCode
+        output = result.output
+        stdout = result.stdout
+        timedOut = !!result.timedOut
+      } else {
+        // 本地执行（修改文件的命令先备份，pls undo 可还原）
+        runCwd = session?.getCwd()
+        undoId = snapshotForUndo(stepResult.command, session)
+        const result = await executeCommand(stepResult.command, session)
+        exitCode = result.exitCode
+        output = result.output
+        stdout = result.stdout
+        cwd = result.cwd
+        envChanges = result.envChanges
+        timedOut = !!result.timedOut
+      }
+      const execDuration = Date.now() - execStart
+
+      // 被 Ctrl+C 中断（退出码 130）或执行超时
+      const stopReason = timedOut ? 'timeout' : exitCode === INTERRUPTED_EXIT_CODE ? 'interrupted' : undefined
+
+      // 判断命令是否成功
+      // 退出码 141 = 128 + 13 (SIGPIPE)，是管道正常关闭时的信号
+      // 例如：ps aux | head -3，head 读完 3 行就关闭管道，ps 收到 SIGPIPE
+      // 但如果退出码是 141 且没有 stdout 输出，说明可能是真正的错误
+      const isSigpipeWithOutput = exitCode === 141 && stdout.trim().length > 0
+      const isSuccess = exitCode === 0 || isSigpipeWithOutput
+
+      // 保存到执行历史
+      const executedStep: ExecutedStep = {
+        command: stepResult.command,
+        continue: stepResult.needsContinue || false,
+        reasoning: stepResult.reasoning,
+        nextStepHint: stepResult.nextStepHint,
+        exitCode,
+        output,
+        cwd,
+        envChanges,
+        stopReason,
+      }
+      executedSteps.push(executedStep)
+      saveProgress()
+      usage.steps++
+      usage.consecutiveFailures = isSuccess ? 0 : usage.consecutiveFailures + 1
+
+      // 记录到 pls 历史（远程模式记录到远程历史）
+      if (remoteName) {
+        addRemoteHistory(remoteName, {
+          userPrompt:
+            currentStepNumber === 1 ? prompt : `[步骤${currentStepNumber}] ${stepResult.reasoning || prompt}`,
+          command: stepResult.command,
+          aiGeneratedCommand: stepResult.aiGeneratedCommand,
+          userModified: stepResult.userModified || false,
+          alternatives: stepResult.alternatives,
+          refinements: stepResult.refinements,
+          taskId: taskSession.id,
+          step: currentStepNumber,
+          reasoning: stepResult.reasoning,
+          executed: true,
+          exitCode,
+          output,
+          reason: stopReason,
+        })
+      } else {
+        addHistory({
+          userPrompt:
+            currentStepNumber === 1 ? prompt : `[步骤${currentStepNumber}] ${stepResult.reasoning || prompt}`,
+          command: stepResult.command,
+          aiGeneratedCommand: stepResult.aiGeneratedCommand, // AI 原始命令
+          userModified: stepResult.userModified || false,
+          alternatives: stepResult.alternatives,
+          refinements: stepResult.refinements,
+          taskId: taskSession.id,
+          step: currentStepNumber,
+          reasoning: stepResult.reasoning,
+          executed: true,
+          exitCode,
+          output,
+          reason: stopReason,
+          undoId,
+          cwd: runCwd,
+        })
+      }
 
-          // 显示结果
+      // 显示结果
+      console.log('')
+      if (stopReason) {
+        // 被中断或超时：由用户决定是否让 AI 继续
+        console2.warning(
+          `步骤 ${currentStepNumber} ${stopReason === 'timeout' ? '执行超时' : '已中断'} ${console2.formatDuration(execDuration)}`
+        )
+        console.log('')
+        if (!(await askContinueAfterInterrupt())) {
+          console2.muted('任务已停止')
           console.log('')
-          if (isSuccess) {
-            if (currentStepNumber === 1 && stepResult.needsContinue !== true) {
-              // 单步命令
-              console2.success(`执行完成 ${console2.formatDuration(execDuration)}`)
-            } else {
-              // 多步命令
-              console2.success(`步骤 ${currentStepNumber} 执行完成 ${console2.formatDuration(execDuration)}`)
-            }
-            lastStepFailed = false
-          } else {
-            // 执行失败，标记状态
-            console2.error(
-              `步骤 ${currentStepNumber} 执行失败，退出码: ${exitCode} ${console2.formatDuration(execDuration)}`
-            )
-            console.log('')
-            console2.warning('正在请 AI 分析错误并调整策略...')
-            lastStepFailed = true
-            // 继续循环，让 AI 分析错误
-            console.log('')
-            currentStepNumber++
-            continue
-          }
+          process.exit(INTERRUPTED_EXIT_CODE)
+        }
+        console.log('')
+        console2.warning('正在请 AI 调整策略...')
+        lastStepFailed = true
+        console.log('')
+        currentStepNumber++
+        continue
+      }
 
-          // 判断是否继续
-          if (stepResult.needsContinue !== true) {
-            if (currentStepNumber > 1) {
-              console.log('')
-              console2.success('✓ 所有步骤执行完成')
-            }
-            console.log('')
-            process.exit(0)
-          }
+      if (isSuccess) {
+        if (currentStepNumber === 1 && stepResult.needsContinue !== true && !plan) {
+          // 单步命令
+          console2.success(`执行完成 ${console2.formatDuration(execDuration)}`)
+        } else {
+          // 多步命令
+          console2.success(`步骤 ${stepLabel()} 执行完成 ${console2.formatDuration(execDuration)}`)
+        }
+        if (undoId) {
+          console2.muted('↩ 可以用 pls undo 撤销此操作')
+        }
+        lastStepFailed = false
+      } else {
+        // 执行失败，标记状态
+        console2.error(
+          `步骤 ${stepLabel()} 执行失败，退出码: ${exitCode} ${console2.formatDuration(execDuration)}`
+        )
+        console.log('')
 
-          console.log('')
-          currentStepNumber++
-        } else if (!stepResult.confirmed && !stepResult.cancelled) {
-          // AI 返回了结果但没有确认（空命令的情况）
-          if (lastStepFailed && stepResult.reasoning) {
-            console.log('')
-            console2.info(`💡 AI 分析: ${stepResult.reasoning}`)
-            console2.muted('❌ AI 决定停止尝试，任务失败')
+        // 按计划执行时，先根据失败原因重新规划剩余步骤
+        if (plan) {
+          const remaining = await reviewPlan(plan)
+          if (!remaining) {
+            console2.muted('任务已停止')
             console.log('')
             process.exit(1)
           }
-          // 其他情况也退出
+          plan = replacePlanRemainder(plan, remaining)
+          saveProgress()
           console.log('')
-          console2.muted('任务结束')
+        } else {
+          console2.warning('正在请 AI 分析错误并调整策略...')
+        }
+        lastStepFailed = true
+        // 继续循环，让 AI 分析错误
+        console.log('')
+        currentStepNumber++
+        continue
+      }
+
+      // 判断是否继续
+      if (stepResult.needsContinue !== true) {
+        removeTaskSession(taskSession.id)
+        if (currentStepNumber > 1) {
           console.log('')
-          process.exit(0)
+          console2.success('✓ 所有步骤执行完成')
         }
+        console.log('')
+        process.exit(0)
       }
-    })()
+
+      console.log('')
+      currentStepNumber++
+      if (plan) {
+        plan = { ...plan, current: plan.current + 1 }
+        saveProgress()
+      }
+    } else if (!stepResult.confirmed && !stepResult.cancelled) {
+      // AI 返回了结果但没有确认（空命令的情况）
+      if (lastStepFailed && stepResult.reasoning) {
+        console.log('')
+        console2.info(`💡 AI 分析: ${stepResult.reasoning}`)
+        console2.muted('❌ AI 决定停止尝试，任务失败')
+        console.log('')
+        process.exit(1)
+      }
+      // 其他情况也退出
+      console.log('')
+      console2.muted('任务结束')
+      console.log('')
+      process.exit(0)
+    }
+  }
+}
+
+/**
+ * 非交互地执行任务并输出结果，然后以对应的退出码退出
+ * --print 时 stdout 只有命令；--json 时 stdout 只有 JSON；其余提示都在 stderr
+ */
+async function runHeadlessTask(
+  prompt: string,
+  options: {
+    mode: HeadlessMode
+    json: boolean
+    remoteName?: string
+    remoteNames?: string[]
+    stdinContent?: string
+    debug?: boolean
+  }
+): Promise<never> {
+  const { mode, json, stdinContent } = options
+
+  // 等 stdout 写完再退出（管道在部分平台上是异步写入，直接退出会截断输出）
+  const exitWith = async (output: string, exitCode: number): Promise<never> => {
+    if (output) {
+      await new Promise<void>((resolve) => process.stdout.write(output, () => resolve()))
+    }
+    process.exit(exitCode)
+  }
+
+  // 批量远程执行
+  if (options.remoteNames && options.remoteNames.length > 0) {
+    const result = await runHeadlessBatch(prompt, options.remoteNames, { mode, json, stdinContent, debug: options.debug })
+    if (json) {
+      return exitWith(JSON.stringify(result, null, 2) + '\n', result.exitCode)
+    }
+    const output =
+      mode === 'print'
+        ? result.servers
+            .filter((item) => item.policy !== 'deny')
+            .map((item) => `# ${item.server}\n${item.command}\n`)
+        : result.servers
+            .filter((item) => item.executed)
+            .map((item) => `─── ${item.server} ───\n${item.output || ''}\n`)
+    return exitWith(output.join(''), result.exitCode)
+  }
+
+  // 远程执行先获取远程上下文
+  let remoteContext: RemoteContext | undefined
+  if (options.remoteName) {
+    try {
+      const sysInfo = await collectRemoteSysInfo(options.remoteName)
+      const shellHistory = await fetchRemoteShellHistory(options.remoteName)
+      remoteContext = { name: options.remoteName, sysInfo, shellHistory }
+    } catch (error: any) {
+      const message = `无法连接到 ${options.remoteName}: ${error.message}`
+      if (!json) {
+        process.stderr.write(message + '\n')
+        return exitWith('', 1)
+      }
+      const result: HeadlessResult = { prompt, remote: options.remoteName, success: false, exitCode: 1, error: message, steps: [] }
+      return exitWith(JSON.stringify(result, null, 2) + '\n', 1)
+    }
+  }
+
+  const result = await runHeadless(prompt, { mode, json, remoteContext, stdinContent, debug: options.debug })
+  if (json) {
+    return exitWith(JSON.stringify(result, null, 2) + '\n', result.exitCode)
+  }
+  const output = mode === 'print' && result.success ? result.steps[result.steps.length - 1].command + '\n' : ''
+  return exitWith(output, result.exitCode)
+}
+
+/**
+ * 执行前为修改文件的命令创建撤销快照
+ * @returns 撤销条目 ID，命令不修改文件或备份失败时返回 undefined
+ */
+function snapshotForUndo(command: string, session: ShellSession | null): string | undefined {
+  try {
+    return createUndoSnapshot(command, { cwd: session?.getCwd(), env: session?.getEnv() })?.id
+  } catch (error: any) {
+    console.log('')
+    console2.warning(`无法创建撤销快照（${error.message}），执行后不能用 pls undo 还原`)
+    return undefined
+  }
+}
+
+/**
+ * 步骤被中断或超时后，询问是否让 AI 继续
+ */
+async function askContinueAfterInterrupt(): Promise<boolean> {
+  return askConfirm('让 AI 继续？', '继续', '停止')
+}
+
+/**
+ * 询问用户是否继续（回车 = 继续，Esc = 停止）
+ */
+async function askConfirm(prompt: string, confirmLabel: string, cancelLabel: string): Promise<boolean> {
+  const React = await import('react')
+  const { render } = await import('ink')
+  const { ConfirmationPrompt } = await import('../src/components/ConfirmationPrompt.js')
+
+  let shouldContinue = false
+  const { unmount, waitUntilExit } = render(
+    React.createElement(ConfirmationPrompt, {
+      prompt,
+      confirmLabel,
+      cancelLabel,
+      onConfirm: () => {
+        shouldContinue = true
+        unmount()
+      },
+      onCancel: () => unmount(),
+    })
+  )
+  await waitUntilExit()
+  return shouldContinue
+}
+
+/**
+ * 达到任务预算上限时，显示原因、已执行的步骤和用量
+ */
+function printBudgetSummary(limit: BudgetLimit, budget: TaskBudget, usage: TaskUsage, steps: ExecutedStep[]): void {
+  console2.warning(`⚠️  ${formatBudgetLimit(limit, budget)}`)
+  console.log('')
+  printExecutedSteps(steps)
+  console.log('')
+  console2.muted(formatTaskUsage(usage))
+  console.log('')
+}
+
+// pls history 显示的条数（更早的记录仍然保存着，可以按序号重新执行或导出）
+const HISTORY_DISPLAY_LIMIT = 20
+
+/**
+ * 显示命令历史（最新的在前）
+ */
+function displayCommandHistory(): void {
+  const history = getHistory()
+
+  if (history.length === 0) {
+    console.log('')
+    console2.muted('暂无历史记录')
+    console.log('')
+    return
+  }
+
+  console.log('')
+  console2.title('📜 命令历史:')
+  console2.muted('━'.repeat(50))
+  if (history.length > HISTORY_DISPLAY_LIMIT) {
+    console2.muted(`（共 ${history.length} 条，只显示最近 ${HISTORY_DISPLAY_LIMIT} 条）`)
+  }
+
+  history.slice(0, HISTORY_DISPLAY_LIMIT).forEach((item: any, index: number) => {
+    const status = item.executed
+      ? item.exitCode === 0
+        ? chalk.hex(getThemeColors().success)('✓')
+        : chalk.hex(getThemeColors().error)(`✗ 退出码:${item.exitCode}`)
+      : chalk.gray('(未执行)')
+
+    console.log(`\n${chalk.gray(`${index + 1}.`)} ${chalk.hex(getThemeColors().primary)(item.userPrompt)}`)
+
+    // 显示用户修改信息
+    if (item.userModified && item.aiGeneratedCommand) {
+      console.log(`   ${chalk.dim('AI 生成:')} ${chalk.gray(item.aiGeneratedCommand)}`)
+      console.log(`   ${chalk.dim('用户修改为:')} ${item.command} ${status} ${chalk.hex(getThemeColors().warning)('(已修改)')}`)
+    } else {
+      console.log(`   ${chalk.dim('→')} ${item.command} ${status}`)
+    }
+
+    if (item.alternatives) {
+      console.log(`   ${chalk.dim('备选:')} ${chalk.gray(formatAlternativeChoice(item.alternatives))}`)
+    }
+    if (item.refinements) {
+      console.log(`   ${chalk.dim('调整:')} ${chalk.gray(formatRefinements(item.refinements, item.aiGeneratedCommand || item.command))}`)
+    }
+    console.log(`   ${chalk.gray(item.taskId ? `${item.timestamp} · 任务 ${item.taskId}` : item.timestamp)}`)
+    if (item.undoId && hasUndoEntry(item.undoId)) {
+      console.log(`   ${chalk.hex(getThemeColors().info)(`↩ 可撤销 (pls undo ${item.undoId})`)}`)
+    }
+  })
+
+  console.log('')
+  console2.muted(`历史文件: ${getHistoryFilePath()}`)
+  console.log('')
+}
+
+/**
+ * 开始一轮 AI 对话（懒加载 Chat 组件，避免启动时加载 React/Ink）
+ */
+async function startChat(prompt: string, options: { debug?: boolean; stdinContent?: string } = {}): Promise<void> {
+  const React = await import('react')
+  const { render } = await import('ink')
+  const { Chat } = await import('../src/components/Chat.js')
+
+  render(
+    React.createElement(Chat, {
+      prompt,
+      debug: options.debug,
+      stdinContent: options.stdinContent,
+      showRoundCount: true,
+      onComplete: () => process.exit(0),
+    })
+  )
+}
+
+/**
+ * 交互式历史浏览器：重新执行、编辑后执行时退出浏览器，进入正常的确认流程
+ * 没有终端时（输出被重定向等）显示命令历史列表
+ */
+async function browseHistory(): Promise<void> {
+  if (!process.stdin.isTTY || !process.stdout.isTTY) {
+    displayCommandHistory()
+    return
+  }
+
+  const React = await import('react')
+  const { render } = await import('ink')
+  const { HistoryBrowser } = await import('../src/components/HistoryBrowser.js')
+
+  let browserResult: HistoryBrowserResult | null = null
+  const { waitUntilExit, unmount } = render(
+    React.createElement(HistoryBrowser, {
+      entries: {
+        local: loadBrowserEntries('local'),
+        remote: loadBrowserEntries('remote'),
+        chat: loadBrowserEntries('chat'),
+      },
+      onCopy: (entry: BrowserEntry, write: (data: string) => void) =>
+        copyToClipboard(getCopyText(entry), write) === 'system' ? '已复制到剪贴板' : '已请求终端复制（终端不支持 OSC 52 时不会生效）',
+      onSaveAlias: (name: string, entry: BrowserEntry) => {
+        addAlias(name, stripStepPrefix(entry.title), undefined, getReservedCommands())
+        return `已保存别名，使用 pls @${name.replace(/^@/, '')}`
+      },
+      onDelete: deleteBrowserEntry,
+      onExit: (result: HistoryBrowserResult | null) => {
+        browserResult = result
+        unmount()
+      },
+    })
+  )
+  await waitUntilExit()
+  await new Promise((resolve) => setTimeout(resolve, 10))
+
+  const result = browserResult as HistoryBrowserResult | null
+  if (!result) {
+    return
+  }
+
+  if (!isConfigValid()) {
+    console.log('')
+    console2.warning('⚠️  检测到尚未配置 API Key')
+    console2.info('请运行 pls config 启动交互式配置向导')
+    console.log('')
+    process.exit(1)
+  }
+
+  const { entry } = result
+  if (entry.tab === 'chat') {
+    await startChat(result.prompt ?? entry.title)
+    return
+  }
+
+  if (entry.remote && !getRemote(entry.remote)) {
+    console.log('')
+    console2.error(`远程服务器不存在: ${entry.remote}`)
+    console.log('')
+    process.exit(1)
+  }
+
+  try {
+    loadPolicy()
+  } catch (error: any) {
+    console.log('')
+    console2.error(error.message)
+    console.log('')
+    process.exit(1)
+  }
+
+  const prompt = stripStepPrefix(entry.title)
+  console.log('')
+  console2.info(`重新执行: ${prompt}${entry.remote ? ` [${entry.remote}]` : ''}`)
+
+  // 保存时被脱敏的命令和 pls history rerun 一样不能原样执行（编辑时也容易漏改），改为重新生成
+  const redacted = hasRedactedContent(entry.command ?? '')
+  if (redacted) {
+    console2.warning('⚠️  命令中有被脱敏的内容（[REDACTED]），不能原样执行，将重新生成')
+  }
+
+  // 没有生成命令的记录（AI 放弃、出错等）也重新生成
+  await runInteractiveTask(prompt, {
+    remoteName: entry.remote,
+    initialStep: entry.command?.trim() && !redacted
+      ? { command: entry.command, continue: false, reasoning: '', nextStepHint: '' }
+      : undefined,
+    initialEdit: result.action === 'edit',
   })
+}
+
+/**
+ * 显示历史搜索结果（匹配的关键词用主题色高亮）
+ */
+function displaySearchResults(results: SearchEntry[], terms: string[], limit: number): void {
+  const colors = getThemeColors()
+  const mark = (text: string) => chalk.hex(colors.warning).bold(text)
+
+  console.log('')
+  if (results.length === 0) {
+    console2.muted('没有找到匹配的历史记录')
+    console.log('')
+    return
+  }
+
+  console2.title('🔍 历史搜索:')
+  console2.muted('━'.repeat(50))
+  if (results.length > limit) {
+    console2.muted(`（找到 ${results.length} 条，只显示最近 ${limit} 条）`)
+  }
+
+  results.slice(0, limit).forEach((entry) => {
+    const label = formatSourceLabel(entry)
+    const status = entry.executed
+      ? entry.exitCode === 0
+        ? chalk.hex(colors.success)('✓')
+        : chalk.hex(colors.error)(`✗ 退出码:${entry.exitCode}`)
+      : chalk.gray('(未执行)')
+    const modified = entry.userModified ? ` ${chalk.hex(colors.warning)('(已修改)')}` : ''
+
+    const prompt = entry.prompt ? ` ${chalk.hex(colors.primary)(highlightTerms(entry.prompt, terms, mark))}` : ''
+    console.log(`\n${chalk.gray(`[${label}]`)}${prompt}`)
+    console.log(`   ${chalk.dim('→')} ${highlightTerms(entry.command, terms, mark)} ${status}${modified}`)
+
+    const snippet = findOutputSnippet(entry.output, terms)
+    if (snippet) {
+      console.log(`   ${chalk.dim('输出:')} ${chalk.gray(highlightTerms(snippet, terms, mark))}`)
+    }
+    const meta = [entry.timestamp, entry.cwd].filter(Boolean).join(' · ')
+    if (meta) {
+      console.log(`   ${chalk.gray(meta)}`)
+    }
+  })
+
+  console.log('')
+  console2.muted('pls history rerun <序号> 重新执行，服务器上的记录加 --from <服务器名>')
+  console.log('')
+}
+
+/**
+ * 列出已执行的步骤（✓ 成功 / ✗ 失败）
+ */
+function printExecutedSteps(steps: ExecutedStep[]): void {
+  const theme = getCurrentTheme()
+  steps.forEach((step, index) => {
+    const ok = step.exitCode === 0
+    const detail = step.policyDenied ? '被策略禁止' : ok ? '' : `退出码: ${step.exitCode}`
+    console.log(
+      `  ${chalk.hex(ok ? theme.success : theme.error)(ok ? '✓' : '✗')} ${index + 1}. ${step.command}` +
+        (detail ? ` ${chalk.gray(`(${detail})`)}` : '')
+    )
+  })
+}
 
 /**
  * 执行远程命令
@@ -1828,7 +2918,7 @@ program
 async function executeRemoteCommand(
   remoteName: string,
   command: string
-): Promise<{ exitCode: number; output: string; stdout: string; stderr: string }> {
+): Promise<{ exitCode: number; output: string; stdout: string; stderr: string; timedOut?: boolean }> {
   let stdout = ''
   let stderr = ''
 
@@ -1853,8 +2943,23 @@ async function executeRemoteCommand(
   const boxWidth = Math.max(console2.MIN_COMMAND_BOX_WIDTH, Math.min(actualMaxWidth + 4, termWidth - 2))
   console2.printSeparator(`远程输出 (${remoteName})`, boxWidth)
 
+  // Ctrl+C 和超时都通过中止信号结束 ssh，而不是结束 pls
+  const { signal, release } = trapInterrupt()
+  const controller = new AbortController()
+  const onAbort = () => controller.abort()
+  signal.addEventListener('abort', onAbort)
+  const timeout = getCommandTimeoutMs()
+  let timedOut = false
+  const timer = timeout
+    ? setTimeout(() => {
+        timedOut = true
+        controller.abort()
+      }, timeout)
+    : null
+
   try {
     const result = await sshExec(remoteName, actualCommand, {
+      signal: controller.signal,
       onStdout: (data) => {
         stdout += data
         process.stdout.write(data)
@@ -1870,10 +2975,11 @@ async function executeRemoteCommand(
     }
 
     return {
-      exitCode: result.exitCode,
+      exitCode: timedOut ? TIMEOUT_EXIT_CODE : result.exitCode,
       output: stdout + stderr,
       stdout,
       stderr,
+      timedOut,
     }
   } catch (error: any) {
     console2.printSeparator('', boxWidth)
@@ -1884,6 +2990,10 @@ async function executeRemoteCommand(
       stdout: '',
       stderr: error.message,
     }
+  } finally {
+    if (timer) clearTimeout(timer)
+    signal.removeEventListener('abort', onAbort)
+    release()
   }
 }
 
@@ -1896,15 +3006,26 @@ ${chalk.bold('示例:')}
   ${chalk.hex(getThemeColors().primary)('pls 查找大于 100MB 的文件')}        查找大文件
   ${chalk.hex(getThemeColors().primary)('pls 删除刚才创建的文件')}          AI 会参考历史记录
   ${chalk.hex(getThemeColors().primary)('pls --debug 压缩 logs 目录')}      显示调试信息
+  ${chalk.hex(getThemeColors().primary)('pls --print 查看磁盘占用')}        只输出命令，不执行
+  ${chalk.hex(getThemeColors().primary)('pls --yes --json 统计代码行数')}    直接执行，以 JSON 输出结果
+  ${chalk.hex(getThemeColors().primary)('pls -a 压缩这个目录')}            生成多个备选命令，方向键选择
+  ${chalk.hex(getThemeColors().primary)('pls --plan 部署这个项目')}         先列出步骤计划，确认后逐步执行
   ${chalk.hex(getThemeColors().primary)('pls chat tar 命令怎么用')}         AI 对话模式
   ${chalk.hex(getThemeColors().primary)('pls chat clear')}                 清空对话历史
-  ${chalk.hex(getThemeColors().primary)('pls history')}                    查看 pls 命令历史
+  ${chalk.hex(getThemeColors().primary)('pls history')}                    交互式浏览历史（重新执行、复制、删除）
   ${chalk.hex(getThemeColors().primary)('pls history clear')}              清空历史记录
+  ${chalk.hex(getThemeColors().primary)('pls history export 1 -f md')}     把任务导出为脚本或操作手册
+  ${chalk.hex(getThemeColors().primary)('pls history rerun 3 --on prod')}  在服务器上重新执行历史中的命令
+  ${chalk.hex(getThemeColors().primary)('pls undo')}                       撤销最近一次修改文件的命令
+  ${chalk.hex(getThemeColors().primary)('pls undo list')}                  查看可撤销的操作
+  ${chalk.hex(getThemeColors().primary)('pls sessions')}                   查看未完成的多步骤任务
+  ${chalk.hex(getThemeColors().primary)('pls resume')}                     继续最近一个未完成的任务
   ${chalk.hex(getThemeColors().primary)('pls alias')}                      查看命令别名
   ${chalk.hex(getThemeColors().primary)('pls alias add disk "查看磁盘"')}   添加别名
   ${chalk.hex(getThemeColors().primary)('pls disk')}                       使用别名（等同于 pls @disk）
   ${chalk.hex(getThemeColors().primary)('pls hook')}                       查看 shell hook 状态
   ${chalk.hex(getThemeColors().primary)('pls hook install')}               安装 shell hook（增强功能）
+  ${chalk.hex(getThemeColors().primary)('pls hook install --key ctrl+g')}  安装并绑定快捷键，按键把输入行替换为生成的命令
   ${chalk.hex(getThemeColors().primary)('pls hook uninstall')}             卸载 shell hook
   ${chalk.hex(getThemeColors().primary)('pls upgrade')}                    升级到最新版本
   ${chalk.hex(getThemeColors().primary)('pls config')}                     交互式配置
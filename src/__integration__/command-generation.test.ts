@@ -4,6 +4,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { useMemoryFs, toJsonl } from '../../tests/helpers/mocks'
 
 // Mock child_process 模块
 vi.mock('child_process', () => ({
@@ -22,6 +23,10 @@ vi.mock('fs', () => ({
     mkdirSync: vi.fn(),
     unlinkSync: vi.fn(),
     statSync: vi.fn(),
+    renameSync: vi.fn(),
+    rmSync: vi.fn(),
+    openSync: vi.fn(),
+    closeSync: vi.fn(),
   },
 }))
 
@@ -99,6 +104,11 @@ const mockSshExec = vi.mocked(sshExec)
 const mockGetRemote = vi.mocked(getRemote)
 const mockTestRemoteConnection = vi.mocked(testRemoteConnection)
 
+const HISTORY_FILE = '/home/testuser/.please/history.jsonl'
+const REMOTE_HISTORY_FILE = '/home/testuser/.please/remotes/server1/history.jsonl'
+
+let files: Map<string, string>
+
 // 重置模块辅助函数
 async function resetModules() {
   vi.resetModules()
@@ -113,15 +123,13 @@ beforeEach(() => {
   vi.clearAllMocks()
   mockOs.homedir.mockReturnValue('/home/testuser')
   mockOs.platform.mockReturnValue('linux')
-  mockFs.mkdirSync.mockImplementation(() => undefined)
-  mockFs.writeFileSync.mockImplementation(() => {})
-  mockFs.existsSync.mockReturnValue(true)
-  mockFs.readFileSync.mockReturnValue(JSON.stringify([]))
+  files = useMemoryFs(mockFs)
   mockSaveConfig.mockImplementation(() => {})
 
   // 重置配置
   Object.assign(mockConfig, {
     aliases: {},
+    historyRetention: undefined,
     commandHistoryLimit: 50,
     shellHistoryLimit: 20,
     shellHook: false,
@@ -138,13 +146,6 @@ afterEach(() => {
 
 describe('基础命令生成流程', () => {
   it('用户输入 → 历史记录 → 成功执行', async () => {
-    let savedHistory: any[] = []
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      if (path.toString().includes('history.json')) {
-        savedHistory = JSON.parse(content)
-      }
-    })
-
     const { history } = await resetModules()
 
     // 模拟完整流程: 用户输入 "检查磁盘" → AI 生成 "df -h" → 执行成功
@@ -156,6 +157,7 @@ describe('基础命令生成流程', () => {
       output: 'Filesystem      Size  Used Avail Use%',
     })
 
+    const savedHistory = history.getHistory()
     expect(savedHistory.length).toBe(1)
     expect(savedHistory[0].userPrompt).toBe('检查磁盘')
     expect(savedHistory[0].command).toBe('df -h')
@@ -165,13 +167,6 @@ describe('基础命令生成流程', () => {
   })
 
   it('命令执行失败应该记录退出码', async () => {
-    let savedHistory: any[] = []
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      if (path.toString().includes('history.json')) {
-        savedHistory = JSON.parse(content)
-      }
-    })
-
     const { history } = await resetModules()
 
     // 模拟执行失败
@@ -183,18 +178,12 @@ describe('基础命令生成流程', () => {
       output: 'find: /nonexistent: No such file or directory',
     })
 
+    const savedHistory = history.getHistory()
     expect(savedHistory[0].exitCode).toBe(1)
     expect(savedHistory[0].output).toContain('No such file or directory')
   })
 
   it('用户拒绝执行应该记录为未执行', async () => {
-    let savedHistory: any[] = []
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      if (path.toString().includes('history.json')) {
-        savedHistory = JSON.parse(content)
-      }
-    })
-
     const { history } = await resetModules()
 
     // 用户拒绝执行
@@ -207,6 +196,7 @@ describe('基础命令生成流程', () => {
       reason: 'user_rejected',
     })
 
+    const savedHistory = history.getHistory()
     expect(savedHistory[0].executed).toBe(false)
     expect(savedHistory[0].exitCode).toBeNull()
     expect(savedHistory[0].reason).toBe('user_rejected')
@@ -219,13 +209,6 @@ describe('基础命令生成流程', () => {
 
 describe('用户编辑命令流程', () => {
   it('用户修改命令应该记录 AI 生成和最终命令', async () => {
-    let savedHistory: any[] = []
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      if (path.toString().includes('history.json')) {
-        savedHistory = JSON.parse(content)
-      }
-    })
-
     const { history } = await resetModules()
 
     // AI 生成 "df -h"，用户修改为 "df -h /home"
@@ -239,13 +222,14 @@ describe('用户编辑命令流程', () => {
       output: '',
     })
 
+    const savedHistory = history.getHistory()
     expect(savedHistory[0].userModified).toBe(true)
     expect(savedHistory[0].aiGeneratedCommand).toBe('df -h')
     expect(savedHistory[0].command).toBe('df -h /home')
   })
 
   it('格式化历史应该区分 AI 生成和用户修改', async () => {
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([
+    files.set(HISTORY_FILE, toJsonl([
       {
         userPrompt: '检查磁盘',
         command: 'df -h /home',
@@ -350,12 +334,6 @@ describe('远程执行流程', () => {
       output: 'output',
     })
 
-    let savedHistory: any[] = []
-    mockFs.existsSync.mockReturnValue(false) // 历史文件不存在
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      savedHistory = JSON.parse(content)
-    })
-
     const { remoteHistory } = await resetModules()
 
     remoteHistory.addRemoteHistory('server1', {
@@ -366,6 +344,7 @@ describe('远程执行流程', () => {
       output: 'output',
     })
 
+    const savedHistory = remoteHistory.getRemoteHistory('server1')
     expect(savedHistory.length).toBe(1)
     expect(savedHistory[0].command).toBe('df -h')
     expect(savedHistory[0].exitCode).toBe(0)
@@ -378,12 +357,6 @@ describe('远程执行流程', () => {
       port: 22,
     } as any)
 
-    let savedHistory: any[] = []
-    mockFs.existsSync.mockReturnValue(false)
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      savedHistory = JSON.parse(content)
-    })
-
     const { remoteHistory } = await resetModules()
 
     remoteHistory.addRemoteHistory('server1', {
@@ -394,6 +367,7 @@ describe('远程执行流程', () => {
       output: 'nginx.service - A high performance web server\n   Active: inactive (dead)',
     })
 
+    const savedHistory = remoteHistory.getRemoteHistory('server1')
     expect(savedHistory[0].exitCode).toBe(3)
   })
 
@@ -404,7 +378,7 @@ describe('远程执行流程', () => {
       port: 22,
     } as any)
 
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([
+    files.set(REMOTE_HISTORY_FILE, toJsonl([
       {
         userPrompt: '检查磁盘',
         command: 'df -h',
@@ -429,14 +403,6 @@ describe('远程执行流程', () => {
 
 describe('多步骤命令流程', () => {
   it('连续命令应该全部记录', async () => {
-    let savedHistory: any[] = []
-    mockFs.existsSync.mockReturnValue(true)
-    // 使用 getter 函数来动态返回当前 savedHistory
-    mockFs.readFileSync.mockImplementation(() => JSON.stringify(savedHistory))
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      savedHistory = JSON.parse(content)
-    })
-
     const { history } = await resetModules()
 
     // 步骤 1: git status
@@ -466,6 +432,7 @@ describe('多步骤命令流程', () => {
       output: '[main abc1234] update',
     })
 
+    const savedHistory = history.getHistory()
     expect(savedHistory.length).toBe(3)
     // 检查是否包含所有命令
     const commands = savedHistory.map((h: any) => h.command)
@@ -475,13 +442,6 @@ describe('多步骤命令流程', () => {
   })
 
   it('成功和失败命令都应该记录', async () => {
-    let savedHistory: any[] = []
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockImplementation(() => JSON.stringify(savedHistory))
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      savedHistory = JSON.parse(content)
-    })
-
     const { history } = await resetModules()
 
     // 步骤 1: 成功
@@ -502,8 +462,9 @@ describe('多步骤命令流程', () => {
       output: 'Test failed: 2 assertions failed',
     })
 
+    const savedHistory = history.getHistory()
     expect(savedHistory.length).toBe(2)
-    // addHistory 使用 unshift，所以最新的在 index 0
+    // getHistory 返回最新的在前
     expect(savedHistory[0].exitCode).toBe(1) // npm test (最新)
     expect(savedHistory[1].exitCode).toBe(0) // npm run build
   })
@@ -514,23 +475,15 @@ describe('多步骤命令流程', () => {
 // ============================================================================
 
 describe('历史数量限制', () => {
-  it('应该遵守 commandHistoryLimit 配置', async () => {
-    mockConfig.commandHistoryLimit = 3
+  it('应该遵守 historyRetention 配置', async () => {
+    Object.assign(mockConfig, { historyRetention: 3 })
 
-    // 已有 3 条历史（实际存储顺序：newest first）
-    let existingHistory = [
+    // 已有 3 条历史（文件中从旧到新）
+    files.set(HISTORY_FILE, toJsonl([
       { userPrompt: '1', command: 'c1', executed: true, exitCode: 0, output: '', timestamp: '2024-01-01' },
       { userPrompt: '2', command: 'c2', executed: true, exitCode: 0, output: '', timestamp: '2024-01-02' },
       { userPrompt: '3', command: 'c3', executed: true, exitCode: 0, output: '', timestamp: '2024-01-03' },
-    ]
-
-    let savedHistory: any[] = []
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockImplementation(() => JSON.stringify(existingHistory))
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      savedHistory = JSON.parse(content)
-      existingHistory = savedHistory // 更新以便后续读取
-    })
+    ]))
 
     const { history } = await resetModules()
 
@@ -543,12 +496,11 @@ describe('历史数量限制', () => {
       output: '',
     })
 
-    // addHistory 使用 unshift 添加到开头，然后 truncate 从末尾删除
-    // [c1, c2, c3] → unshift c4 → [c4, c1, c2, c3] → truncate → [c4, c1, c2]
-    // 所以 c3 被删除，不是 c1
+    // 读取时只保留最近 3 条，最早的 c1 不再返回
+    const savedHistory = history.getHistory()
     expect(savedHistory.length).toBe(3)
     expect(savedHistory[0].command).toBe('c4') // 最新的在开头
-    expect(savedHistory[2].command).toBe('c2') // c3 被删除
+    expect(savedHistory[2].command).toBe('c2') // c1 被删除
   })
 })
 
@@ -558,13 +510,6 @@ describe('历史数量限制', () => {
 
 describe('builtin 命令处理', () => {
   it('builtin 命令应该标记为未执行', async () => {
-    let savedHistory: any[] = []
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      if (path.toString().includes('history.json')) {
-        savedHistory = JSON.parse(content)
-      }
-    })
-
     const { history } = await resetModules()
 
     history.addHistory({
@@ -576,12 +521,13 @@ describe('builtin 命令处理', () => {
       reason: 'builtin',
     })
 
+    const savedHistory = history.getHistory()
     expect(savedHistory[0].executed).toBe(false)
     expect(savedHistory[0].reason).toBe('builtin')
   })
 
   it('格式化历史应该显示 builtin 标记', async () => {
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([
+    files.set(HISTORY_FILE, toJsonl([
       {
         userPrompt: '删除文件',
         command: 'rm -rf /',
@@ -4,6 +4,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { useMemoryFs, toJsonl } from '../../tests/helpers/mocks'
 
 // Mock child_process 模块
 vi.mock('child_process', () => ({
@@ -24,6 +25,9 @@ vi.mock('fs', () => ({
     rmSync: vi.fn(),
     statSync: vi.fn(),
     copyFileSync: vi.fn(),
+    renameSync: vi.fn(),
+    openSync: vi.fn(),
+    closeSync: vi.fn(),
   },
 }))
 
@@ -330,6 +334,7 @@ describe('文件不存在处理', () => {
   it('添加历史时应该自动创建配置目录', async () => {
     mockFs.existsSync.mockReturnValue(false)
     mockFs.readFileSync.mockReturnValue('[]')
+    mockFs.statSync.mockReturnValue({ size: 0 } as any)
 
     const { history } = await resetModules()
     history.addHistory({
@@ -459,18 +464,13 @@ describe('空数据处理', () => {
 // ============================================================================
 
 describe('边界情况处理', () => {
+  beforeEach(() => {
+    useMemoryFs(mockFs)
+  })
+
   it('超长命令应该正常保存', async () => {
     const longCommand = 'echo ' + 'x'.repeat(10000)
 
-    let savedHistory: any[] = []
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([]))
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      if (path.toString().includes('history.json')) {
-        savedHistory = JSON.parse(content)
-      }
-    })
-
     const { history } = await resetModules()
     history.addHistory({
       userPrompt: '测试长命令',
@@ -480,21 +480,13 @@ describe('边界情况处理', () => {
       output: '',
     })
 
+    const savedHistory = history.getHistory()
     expect(savedHistory[0].command).toBe(longCommand)
   })
 
   it('特殊字符命令应该正常保存', async () => {
     const specialCommand = 'echo "hello\\nworld" | grep \'test\' && rm -rf /tmp/*'
 
-    let savedHistory: any[] = []
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([]))
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      if (path.toString().includes('history.json')) {
-        savedHistory = JSON.parse(content)
-      }
-    })
-
     const { history } = await resetModules()
     history.addHistory({
       userPrompt: '测试特殊字符',
@@ -504,6 +496,7 @@ describe('边界情况处理', () => {
       output: '',
     })
 
+    const savedHistory = history.getHistory()
     expect(savedHistory[0].command).toBe(specialCommand)
   })
 
@@ -511,15 +504,6 @@ describe('边界情况处理', () => {
     const unicodePrompt = '检查中文路径 /home/用户/文档'
     const unicodeCommand = 'ls /home/用户/文档'
 
-    let savedHistory: any[] = []
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([]))
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      if (path.toString().includes('history.json')) {
-        savedHistory = JSON.parse(content)
-      }
-    })
-
     const { history } = await resetModules()
     history.addHistory({
       userPrompt: unicodePrompt,
@@ -529,20 +513,12 @@ describe('边界情况处理', () => {
       output: '',
     })
 
+    const savedHistory = history.getHistory()
     expect(savedHistory[0].userPrompt).toBe(unicodePrompt)
     expect(savedHistory[0].command).toBe(unicodeCommand)
   })
 
   it('空 userPrompt 应该正常处理', async () => {
-    let savedHistory: any[] = []
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([]))
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      if (path.toString().includes('history.json')) {
-        savedHistory = JSON.parse(content)
-      }
-    })
-
     const { history } = await resetModules()
     history.addHistory({
       userPrompt: '',
@@ -552,20 +528,12 @@ describe('边界情况处理', () => {
       output: '',
     })
 
+    const savedHistory = history.getHistory()
     expect(savedHistory[0].userPrompt).toBe('')
     expect(savedHistory[0].command).toBe('ls')
   })
 
   it('null exitCode 应该正常处理', async () => {
-    let savedHistory: any[] = []
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([]))
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      if (path.toString().includes('history.json')) {
-        savedHistory = JSON.parse(content)
-      }
-    })
-
     const { history } = await resetModules()
     history.addHistory({
       userPrompt: '测试',
@@ -575,6 +543,7 @@ describe('边界情况处理', () => {
       output: '',
     })
 
+    const savedHistory = history.getHistory()
     expect(savedHistory[0].exitCode).toBeNull()
   })
 })
@@ -585,29 +554,25 @@ describe('边界情况处理', () => {
 
 describe('清理操作', () => {
   it('clearHistory 应该清空历史文件', async () => {
-    let writtenContent = ''
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      writtenContent = content
-    })
+    const files = useMemoryFs(mockFs)
+    files.set('/home/testuser/.please/history.jsonl', toJsonl([{ userPrompt: '测试', command: 'ls' }]))
 
     const { history } = await resetModules()
     history.clearHistory()
 
-    expect(JSON.parse(writtenContent)).toEqual([])
+    expect(history.getHistory()).toEqual([])
+    expect(files.has('/home/testuser/.please/history.jsonl')).toBe(false)
   })
 
   it('clearChatHistory 应该清空聊天历史', async () => {
-    let writtenContent = ''
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      writtenContent = content
-    })
+    const files = useMemoryFs(mockFs)
+    files.set('/home/testuser/.please/chat_history.jsonl', toJsonl([{ role: 'user', content: '你好' }]))
 
     const { chatHistory } = await resetModules()
     chatHistory.clearChatHistory()
 
-    expect(JSON.parse(writtenContent)).toEqual([])
+    expect(chatHistory.getChatHistory()).toEqual([])
+    expect(files.has('/home/testuser/.please/chat_history.jsonl')).toBe(false)
   })
 
   it('clearRemoteHistory 文件不存在时不应该报错', async () => {
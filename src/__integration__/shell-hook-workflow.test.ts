@@ -4,6 +4,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { useMemoryFs } from '../../tests/helpers/mocks'
 
 // Mock child_process 模块
 vi.mock('child_process', () => ({
@@ -29,6 +30,9 @@ vi.mock('fs', () => ({
     unlinkSync: vi.fn(),
     rmSync: vi.fn(),
     statSync: vi.fn(),
+    renameSync: vi.fn(),
+    openSync: vi.fn(),
+    closeSync: vi.fn(),
   },
 }))
 
@@ -334,17 +338,11 @@ describe('Shell 历史 AI 格式化', () => {
 // ============================================================================
 
 describe('pls 命令历史与 Shell 历史关联', () => {
-  it('addHistory 应该记录用户修改标记', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([]))
-
-    let savedHistory: any[] = []
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      if (path.toString().includes('history.json')) {
-        savedHistory = JSON.parse(content)
-      }
-    })
+  beforeEach(() => {
+    useMemoryFs(mockFs)
+  })
 
+  it('addHistory 应该记录用户修改标记', async () => {
     const { history } = await resetModules()
     history.addHistory({
       userPrompt: '检查磁盘',
@@ -356,22 +354,13 @@ describe('pls 命令历史与 Shell 历史关联', () => {
       output: '',
     })
 
+    const savedHistory = history.getHistory()
     expect(savedHistory.length).toBe(1)
     expect(savedHistory[0].userModified).toBe(true)
     expect(savedHistory[0].aiGeneratedCommand).toBe('df -h')
   })
 
   it('addHistory 应该记录 builtin 原因', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([]))
-
-    let savedHistory: any[] = []
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      if (path.toString().includes('history.json')) {
-        savedHistory = JSON.parse(content)
-      }
-    })
-
     const { history } = await resetModules()
     history.addHistory({
       userPrompt: '删除文件',
@@ -382,6 +371,7 @@ describe('pls 命令历史与 Shell 历史关联', () => {
       reason: 'builtin',
     })
 
+    const savedHistory = history.getHistory()
     expect(savedHistory[0].executed).toBe(false)
     expect(savedHistory[0].reason).toBe('builtin')
   })
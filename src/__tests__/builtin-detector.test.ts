@@ -0,0 +1,72 @@
+/**
+ * Builtin 检测器测试
+ * 测试当前 shell 中执行的 builtin 识别，以及子 shell、命令替换、包装命令的排除
+ */
+
+import { describe, it, expect } from 'vitest'
+import { detectBuiltin, formatBuiltins } from '../builtin-detector.js'
+
+// ============================================================================
+// detectBuiltin
+// ============================================================================
+
+describe('detectBuiltin', () => {
+  it('应识别链式命令中的 builtin', () => {
+    expect(detectBuiltin('cd build && export NODE_ENV=test && npm test')).toEqual({
+      hasBuiltin: true,
+      builtins: ['cd', 'export'],
+    })
+  })
+
+  it('普通命令不包含 builtin', () => {
+    expect(detectBuiltin('ls -la | grep foo').hasBuiltin).toBe(false)
+  })
+
+  it('引号中的内容不是命令', () => {
+    expect(detectBuiltin('echo "use cd; then export"').hasBuiltin).toBe(false)
+    expect(detectBuiltin(`git commit -m 'fix: cd into build dir'`).hasBuiltin).toBe(false)
+  })
+
+  it('前缀赋值后的 builtin 应被识别', () => {
+    expect(detectBuiltin('FOO=1 source ./env.sh').builtins).toEqual(['source'])
+  })
+
+  it('子 shell 和命令替换中的 builtin 不影响当前 shell', () => {
+    expect(detectBuiltin('(cd build && make)').hasBuiltin).toBe(false)
+    expect(detectBuiltin('echo $(cd /tmp && pwd)').hasBuiltin).toBe(false)
+    expect(detectBuiltin(`bash -c 'cd /srv && ls'`).hasBuiltin).toBe(false)
+  })
+
+  it('命令组中的 builtin 在当前 shell 中执行', () => {
+    expect(detectBuiltin('{ cd build; make; }').builtins).toEqual(['cd'])
+  })
+
+  it('sudo / env / xargs 会另起进程，不算 builtin', () => {
+    expect(detectBuiltin('sudo cd /root').hasBuiltin).toBe(false)
+    expect(detectBuiltin('find . -type d | xargs cd').hasBuiltin).toBe(false)
+  })
+
+  it('exec 会替换当前 shell', () => {
+    expect(detectBuiltin('exec zsh').builtins).toEqual(['exec'])
+  })
+
+  it('command -v 是 builtin 查询', () => {
+    expect(detectBuiltin('command -v git').builtins).toEqual(['command'])
+  })
+
+  it('结果应去重', () => {
+    expect(detectBuiltin('cd a; cd b').builtins).toEqual(['cd'])
+  })
+})
+
+// ============================================================================
+// formatBuiltins
+// ============================================================================
+
+describe('formatBuiltins', () => {
+  it('应以逗号连接', () => {
+    expect(formatBuiltins([])).toBe('')
+    expect(formatBuiltins(['cd'])).toBe('cd')
+    expect(formatBuiltins(['cd', 'export'])).toBe('cd, export')
+  })
+})
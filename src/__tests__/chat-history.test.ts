@@ -4,6 +4,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { useMemoryFs, toJsonl } from '../../tests/helpers/mocks'
 
 // Mock fs 模块
 vi.mock('fs', () => ({
@@ -11,6 +12,12 @@ vi.mock('fs', () => ({
     existsSync: vi.fn(),
     readFileSync: vi.fn(),
     writeFileSync: vi.fn(),
+    appendFileSync: vi.fn(),
+    renameSync: vi.fn(),
+    rmSync: vi.fn(),
+    openSync: vi.fn(),
+    closeSync: vi.fn(),
+    statSync: vi.fn(),
     mkdirSync: vi.fn(),
   },
 }))
@@ -54,20 +61,32 @@ const mockFs = vi.mocked(fs)
 const mockOs = vi.mocked(os)
 const mockGetConfig = vi.mocked(getConfig)
 
+const CHAT_HISTORY_FILE = '/home/testuser/.please/chat_history.jsonl'
+const LEGACY_CHAT_HISTORY_FILE = '/home/testuser/.please/chat_history.json'
+
+// 内存中的文件
+let files: Map<string, string>
+
 // 模块状态重置辅助
 async function resetChatHistoryModule() {
   vi.resetModules()
   return await import('../chat-history.js')
 }
 
+/**
+ * 写入对话历史文件（从旧到新）
+ */
+function seedChatHistory(messages: unknown[]) {
+  files.set(CHAT_HISTORY_FILE, toJsonl(messages))
+}
+
 beforeEach(() => {
   vi.clearAllMocks()
   mockOs.homedir.mockReturnValue('/home/testuser')
   mockGetConfig.mockReturnValue({
     chatHistoryLimit: 10,
   } as any)
-  mockFs.existsSync.mockReturnValue(true)
-  mockFs.writeFileSync.mockImplementation(() => {})
+  files = useMemoryFs(mockFs)
 })
 
 afterEach(() => {
@@ -84,8 +103,7 @@ describe('getChatHistory', () => {
       { role: 'user', content: '你好' },
       { role: 'assistant', content: '你好！有什么可以帮你的？' },
     ]
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(mockHistory))
+    seedChatHistory(mockHistory)
 
     const { getChatHistory } = await resetChatHistoryModule()
     const history = getChatHistory()
@@ -108,8 +126,7 @@ describe('getChatHistory', () => {
   })
 
   it('JSON 损坏时应该返回空数组', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue('{invalid json')
+    files.set(CHAT_HISTORY_FILE, '{invalid json')
 
     const { getChatHistory } = await resetChatHistoryModule()
     const history = getChatHistory()
@@ -117,6 +134,19 @@ describe('getChatHistory', () => {
     expect(history).toEqual([])
   })
 
+  it('应该自动迁移旧版本的 chat_history.json', async () => {
+    files.set(LEGACY_CHAT_HISTORY_FILE, JSON.stringify([
+      { role: 'user', content: '旧问题' },
+      { role: 'assistant', content: '旧回答' },
+    ]))
+
+    const { getChatHistory, addChatMessage } = await resetChatHistoryModule()
+    addChatMessage('新问题', '新回答')
+
+    expect(getChatHistory().map((msg) => msg.content)).toEqual(['旧问题', '旧回答', '新问题', '新回答'])
+    expect(files.has(`${LEGACY_CHAT_HISTORY_FILE}.bak`)).toBe(true)
+  })
+
   it('应该创建配置目录（如果不存在）', async () => {
     mockFs.existsSync.mockReturnValue(false)
 
@@ -136,18 +166,12 @@ describe('getChatHistory', () => {
 
 describe('addChatMessage', () => {
   it('应该添加用户消息和助手消息', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([]))
-
-    let writtenContent: string = ''
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      writtenContent = content
-    })
+    seedChatHistory([])
 
-    const { addChatMessage } = await resetChatHistoryModule()
+    const { addChatMessage, getChatHistory } = await resetChatHistoryModule()
     addChatMessage('你好', '你好！有什么可以帮你的？')
 
-    const saved = JSON.parse(writtenContent)
+    const saved = getChatHistory()
     expect(saved).toHaveLength(2)
     expect(saved[0].role).toBe('user')
     expect(saved[0].content).toBe('你好')
@@ -160,25 +184,19 @@ describe('addChatMessage', () => {
       { role: 'user', content: '第一条' },
       { role: 'assistant', content: '回复第一条' },
     ]
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(existingHistory))
+    seedChatHistory(existingHistory)
 
-    let writtenContent: string = ''
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      writtenContent = content
-    })
-
-    const { addChatMessage } = await resetChatHistoryModule()
+    const { addChatMessage, getChatHistory } = await resetChatHistoryModule()
     addChatMessage('第二条', '回复第二条')
 
-    const saved = JSON.parse(writtenContent)
+    const saved = getChatHistory()
     expect(saved).toHaveLength(4)
     expect(saved[2].content).toBe('第二条')
     expect(saved[3].content).toBe('回复第二条')
   })
 
-  it('应该限制历史轮数（chatHistoryLimit）', async () => {
-    mockGetConfig.mockReturnValue({ chatHistoryLimit: 2 } as any)
+  it('应该限制保存的历史轮数（historyRetention）', async () => {
+    mockGetConfig.mockReturnValue({ chatHistoryLimit: 10, historyRetention: 2 } as any)
 
     // 已有 2 轮（4条消息）
     const existingHistory = [
@@ -187,25 +205,19 @@ describe('addChatMessage', () => {
       { role: 'user', content: '2' },
       { role: 'assistant', content: 'r2' },
     ]
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(existingHistory))
-
-    let writtenContent: string = ''
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      writtenContent = content
-    })
+    seedChatHistory(existingHistory)
 
-    const { addChatMessage } = await resetChatHistoryModule()
+    const { addChatMessage, getChatHistory } = await resetChatHistoryModule()
     addChatMessage('3', 'r3')
 
-    const saved = JSON.parse(writtenContent)
+    const saved = getChatHistory()
     // 应该保留最近 2 轮 = 4 条消息
     expect(saved).toHaveLength(4)
     expect(saved[0].content).toBe('2') // 最早的 1 轮被删除
     expect(saved[2].content).toBe('3')
   })
 
-  it('默认 chatHistoryLimit 为 10', async () => {
+  it('默认发送给 AI 最近 10 轮（chatHistoryLimit）', async () => {
     mockGetConfig.mockReturnValue({} as any)
 
     const existingHistory: any[] = []
@@ -215,20 +227,46 @@ describe('addChatMessage', () => {
       existingHistory.push({ role: 'assistant', content: `a${i}` })
     }
 
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(existingHistory))
+    seedChatHistory(existingHistory)
 
-    let writtenContent: string = ''
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      writtenContent = content
-    })
-
-    const { addChatMessage } = await resetChatHistoryModule()
+    const { addChatMessage, getChatHistory, getChatHistoryForAI } = await resetChatHistoryModule()
     addChatMessage('新消息', '新回复')
 
-    const saved = JSON.parse(writtenContent)
-    // 应该保留最近 10 轮 = 20 条消息
-    expect(saved).toHaveLength(20)
+    // 全部保存，只发送最近 10 轮 = 20 条消息
+    expect(getChatHistory()).toHaveLength(24)
+    const sent = getChatHistoryForAI()
+    expect(sent).toHaveLength(20)
+    expect(sent[19].content).toBe('新回复')
+  })
+})
+
+// ============================================================================
+// deleteChatRound 测试
+// ============================================================================
+
+describe('deleteChatRound', () => {
+  it('应该同时删除问题和对应的回答', async () => {
+    const messages = [
+      { role: 'user', content: '问题1', timestamp: '2026-10-01T00:00:00Z' },
+      { role: 'assistant', content: '回答1', timestamp: '2026-10-01T00:00:00Z' },
+      { role: 'user', content: '问题2', timestamp: '2026-10-02T00:00:00Z' },
+      { role: 'assistant', content: '回答2', timestamp: '2026-10-02T00:00:00Z' },
+    ] as const
+    seedChatHistory([...messages])
+
+    const { deleteChatRound, getChatHistory } = await resetChatHistoryModule()
+
+    expect(deleteChatRound(messages[0])).toBe(true)
+    expect(getChatHistory().map((message) => message.content)).toEqual(['问题2', '回答2'])
+  })
+
+  it('没有匹配的问题时应该返回 false', async () => {
+    seedChatHistory([{ role: 'user', content: '问题1', timestamp: '2026-10-01T00:00:00Z' }])
+
+    const { deleteChatRound, getChatHistory } = await resetChatHistoryModule()
+
+    expect(deleteChatRound({ role: 'user', content: '问题1', timestamp: '2026-10-05T00:00:00Z' })).toBe(false)
+    expect(getChatHistory()).toHaveLength(1)
   })
 })
 
@@ -238,17 +276,12 @@ describe('addChatMessage', () => {
 
 describe('clearChatHistory', () => {
   it('应该清空聊天历史', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-
-    let writtenContent: string = ''
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      writtenContent = content
-    })
+    seedChatHistory([{ role: 'user', content: '你好' }, { role: 'assistant', content: '你好！' }])
 
-    const { clearChatHistory } = await resetChatHistoryModule()
+    const { clearChatHistory, getChatHistory } = await resetChatHistoryModule()
     clearChatHistory()
 
-    const saved = JSON.parse(writtenContent)
+    const saved = getChatHistory()
     expect(saved).toEqual([])
   })
 })
@@ -265,7 +298,7 @@ describe('getChatHistoryFilePath', () => {
     const filePath = getChatHistoryFilePath()
 
     expect(filePath).toContain('.please')
-    expect(filePath).toContain('chat_history.json')
+    expect(filePath).toContain('chat_history.jsonl')
   })
 })
 
@@ -275,8 +308,7 @@ describe('getChatHistoryFilePath', () => {
 
 describe('getChatRoundCount', () => {
   it('空历史应该返回 0', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([]))
+    seedChatHistory([])
 
     const { getChatRoundCount } = await resetChatHistoryModule()
     const count = getChatRoundCount()
@@ -293,8 +325,7 @@ describe('getChatRoundCount', () => {
       { role: 'user', content: '3' },
       { role: 'assistant', content: 'r3' },
     ]
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(history))
+    seedChatHistory(history)
 
     const { getChatRoundCount } = await resetChatHistoryModule()
     const count = getChatRoundCount()
@@ -309,8 +340,7 @@ describe('getChatRoundCount', () => {
       { role: 'user', content: '2' },
       // 缺少 assistant 回复
     ]
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(history))
+    seedChatHistory(history)
 
     const { getChatRoundCount } = await resetChatHistoryModule()
     const count = getChatRoundCount()
@@ -341,8 +371,7 @@ describe('displayChatHistory', () => {
       { role: 'user', content: '查看进程' },
       { role: 'assistant', content: '好的，我帮你查看' },
     ]
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(history))
+    seedChatHistory(history)
 
     const { displayChatHistory } = await resetChatHistoryModule()
     displayChatHistory()
@@ -355,8 +384,7 @@ describe('displayChatHistory', () => {
   })
 
   it('空历史时应该显示提示信息', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([]))
+    seedChatHistory([])
 
     const { displayChatHistory } = await resetChatHistoryModule()
     displayChatHistory()
@@ -372,8 +400,7 @@ describe('displayChatHistory', () => {
       { role: 'user', content: '用户问题2' },
       { role: 'assistant', content: 'AI回答2' },
     ]
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(history))
+    seedChatHistory(history)
 
     const { displayChatHistory } = await resetChatHistoryModule()
     displayChatHistory()
@@ -392,8 +419,7 @@ describe('displayChatHistory', () => {
       { role: 'user', content: '测试' },
       { role: 'assistant', content: '回复' },
     ]
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(history))
+    seedChatHistory(history)
 
     const { displayChatHistory } = await resetChatHistoryModule()
     displayChatHistory()
@@ -408,8 +434,7 @@ describe('displayChatHistory', () => {
       { role: 'user', content: '测试' },
       { role: 'assistant', content: '回复' },
     ]
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(history))
+    seedChatHistory(history)
 
     const { displayChatHistory } = await resetChatHistoryModule()
     displayChatHistory()
@@ -428,8 +453,7 @@ describe('displayChatHistory', () => {
       { role: 'user', content: '问题3' },
       { role: 'assistant', content: '回答3' },
     ]
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(history))
+    seedChatHistory(history)
 
     const { displayChatHistory } = await resetChatHistoryModule()
     displayChatHistory()
@@ -446,8 +470,7 @@ describe('displayChatHistory', () => {
       { role: 'user', content: '第二条问题' },
       { role: 'assistant', content: '第二条回答' },
     ]
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(history))
+    seedChatHistory(history)
 
     const { displayChatHistory } = await resetChatHistoryModule()
     displayChatHistory()
@@ -549,6 +549,7 @@ describe('数值配置项', () => {
     'commandHistoryLimit',
     'shellHistoryLimit',
     'userPreferencesTopK',
+    'historyRetention',
     'systemCacheExpireDays',
   ]
 
@@ -567,6 +568,83 @@ describe('数值配置项', () => {
       expect(config[field as keyof typeof config]).toBe(100)
     })
   })
+
+  it('historyRetention 默认保存 1000 条，与发送给 AI 的条数分开', async () => {
+    const { getConfig } = await resetConfigModule()
+    const config = getConfig()
+    expect(config.historyRetention).toBe(1000)
+    expect(config.commandHistoryLimit).toBe(validConfig.commandHistoryLimit)
+  })
+
+  it('commandTimeout 默认为 0（不限制）', async () => {
+    const { getConfig } = await resetConfigModule()
+    expect(getConfig().commandTimeout).toBe(0)
+  })
+
+  it('commandTimeout 应该接受 0 和正整数', async () => {
+    const { setConfigValue } = await resetConfigModule()
+    expect(setConfigValue('commandTimeout', '300').commandTimeout).toBe(300)
+    expect(setConfigValue('commandTimeout', '0').commandTimeout).toBe(0)
+  })
+
+  it('commandTimeout 应该拒绝负数和非整数', async () => {
+    const { setConfigValue } = await resetConfigModule()
+    expect(() => setConfigValue('commandTimeout', '-1')).toThrow('commandTimeout')
+    expect(() => setConfigValue('commandTimeout', 'abc')).toThrow('commandTimeout')
+  })
+
+  it('任务预算默认最多 20 步、连续失败 3 次，不限制 token', async () => {
+    const { getConfig } = await resetConfigModule()
+    expect(getConfig()).toMatchObject({ maxSteps: 20, maxConsecutiveFailures: 3, tokenBudget: 0 })
+  })
+
+  it('任务预算应该接受 0（不限制）并拒绝负数', async () => {
+    const { setConfigValue } = await resetConfigModule()
+    expect(setConfigValue('maxSteps', '0').maxSteps).toBe(0)
+    expect(setConfigValue('tokenBudget', '50000').tokenBudget).toBe(50000)
+    expect(() => setConfigValue('maxConsecutiveFailures', '-1')).toThrow('maxConsecutiveFailures')
+    expect(() => setConfigValue('tokenBudget', 'abc')).toThrow('tokenBudget')
+  })
+
+  it('redactPatterns 默认为空数组', async () => {
+    const { getConfig } = await resetConfigModule()
+    expect(getConfig().redactPatterns).toEqual([])
+  })
+
+  it('redactPatterns 应该接受 JSON 数组或单个正则', async () => {
+    const { setConfigValue } = await resetConfigModule()
+    expect(setConfigValue('redactPatterns', '["corp-[0-9]+", "tok_\\\\w+"]').redactPatterns).toEqual([
+      'corp-[0-9]+',
+      'tok_\\w+',
+    ])
+    expect(setConfigValue('redactPatterns', 'corp-[0-9]+').redactPatterns).toEqual(['corp-[0-9]+'])
+  })
+
+  it('redactPatterns 设为空字符串应清空', async () => {
+    const { setConfigValue } = await resetConfigModule()
+    expect(setConfigValue('redactPatterns', '').redactPatterns).toEqual([])
+  })
+
+  it('redactPatterns 应该拒绝无效正则', async () => {
+    const { setConfigValue } = await resetConfigModule()
+    expect(() => setConfigValue('redactPatterns', '(')).toThrow('无效的脱敏正则')
+    expect(() => setConfigValue('redactPatterns', '[1, 2]')).toThrow('redactPatterns')
+    expect(() => setConfigValue('redactPatterns', '.*')).toThrow('无效的脱敏正则')
+  })
+
+  it('hookKeybinding 应该接受 ctrl / alt 加字母并统一为小写', async () => {
+    const { setConfigValue } = await resetConfigModule()
+    expect(setConfigValue('hookKeybinding', 'Ctrl+G').hookKeybinding).toBe('ctrl+g')
+    expect(setConfigValue('hookKeybinding', 'alt+p').hookKeybinding).toBe('alt+p')
+    expect(setConfigValue('hookKeybinding', '').hookKeybinding).toBe('')
+  })
+
+  it('hookKeybinding 应该拒绝无效格式和终端保留按键', async () => {
+    const { setConfigValue } = await resetConfigModule()
+    expect(() => setConfigValue('hookKeybinding', 'f5')).toThrow('hookKeybinding')
+    expect(() => setConfigValue('hookKeybinding', 'ctrl+shift+g')).toThrow('hookKeybinding')
+    expect(() => setConfigValue('hookKeybinding', 'ctrl+c')).toThrow('不能绑定')
+  })
 })
 
 // ============================================================================
@@ -965,9 +1043,9 @@ describe('runConfigWizard', () => {
 
     mockReadline.createInterface.mockReturnValue({
       question: vi.fn((prompt, callback) => {
-        if (prompt.includes('Chat 历史保留轮数')) {
+        if (prompt.includes('发送给 AI 的对话轮数')) {
           callback('15')
-        } else if (prompt.includes('命令历史保留条数')) {
+        } else if (prompt.includes('发送给 AI 的命令历史条数')) {
           callback('25')
         } else if (prompt.includes('Shell 历史保留条数')) {
           callback('35')
@@ -997,7 +1075,7 @@ describe('runConfigWizard', () => {
 
     mockReadline.createInterface.mockReturnValue({
       question: vi.fn((prompt, callback) => {
-        if (prompt.includes('Chat 历史保留轮数')) {
+        if (prompt.includes('发送给 AI 的对话轮数')) {
           callback('invalid')
         } else {
           callback('')
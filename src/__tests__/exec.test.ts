@@ -0,0 +1,93 @@
+/**
+ * 本地命令执行测试
+ * 测试超时配置，以及真实 shell 中管道模式的输出捕获、超时和中断
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../config.js', () => ({
+  getConfig: vi.fn(() => ({ commandTimeout: 0 })),
+}))
+
+import { getConfig } from '../config.js'
+import { getCommandTimeoutMs, runPiped } from '../exec.js'
+
+const mockGetConfig = vi.mocked(getConfig)
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+// ============================================================================
+// getCommandTimeoutMs
+// ============================================================================
+
+describe('getCommandTimeoutMs', () => {
+  it('应该把秒换算成毫秒', () => {
+    mockGetConfig.mockReturnValue({ commandTimeout: 30 } as any)
+    expect(getCommandTimeoutMs()).toBe(30000)
+  })
+
+  it('未配置时不限制', () => {
+    mockGetConfig.mockReturnValue({ commandTimeout: 0 } as any)
+    expect(getCommandTimeoutMs()).toBeUndefined()
+  })
+})
+
+// ============================================================================
+// runPiped（真实 shell）
+// ============================================================================
+
+describe.skipIf(process.platform === 'win32')('runPiped', () => {
+  it('应该分别捕获 stdout 和 stderr 并实时转发', async () => {
+    const chunks: string[] = []
+    const result = await runPiped('echo out; echo err >&2; exit 3', { onStdout: (data) => chunks.push(data) })
+
+    expect(result.exitCode).toBe(3)
+    expect(result.stdout).toBe('out\n')
+    expect(result.stderr).toBe('err\n')
+    expect(chunks.join('')).toBe('out\n')
+  })
+
+  it('stdin 为 ignore 时读取输入的命令不应该卡住', async () => {
+    const result = await runPiped('cat', { stdin: 'ignore' })
+    expect(result.exitCode).toBe(0)
+  })
+
+  it('超时应中断命令并返回退出码 124', async () => {
+    const start = Date.now()
+    const result = await runPiped('sleep 5', { timeout: 200 })
+
+    expect(Date.now() - start).toBeLessThan(4000)
+    expect(result.timedOut).toBe(true)
+    expect(result.exitCode).toBe(124)
+  })
+
+  it('中止信号应中断命令并返回退出码 130', async () => {
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 200)
+    const result = await runPiped('sleep 5', { signal: controller.signal })
+
+    expect(result.exitCode).toBe(130)
+    expect(result.timedOut).toBe(false)
+  })
+
+  it('忽略 SIGINT 的命令应在宽限期后被强制结束', async () => {
+    const start = Date.now()
+    const result = await runPiped("trap '' INT; sleep 5", { timeout: 200, graceMs: 300 })
+
+    expect(Date.now() - start).toBeLessThan(4000)
+    expect(result.timedOut).toBe(true)
+    expect(result.exitCode).toBe(124)
+  })
+
+  it('Ctrl+C 对忽略 SIGINT 的命令同样在宽限期后生效', async () => {
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 200)
+    const start = Date.now()
+    const result = await runPiped("trap '' INT; sleep 5", { signal: controller.signal, graceMs: 300 })
+
+    expect(Date.now() - start).toBeLessThan(4000)
+    expect(result.exitCode).toBe(130)
+  })
+})
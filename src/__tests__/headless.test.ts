@@ -0,0 +1,229 @@
+/**
+ * 非交互模式测试
+ * 测试运行模式的判断，以及 --print / --yes 下的生成、安全检查和逐步执行
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+
+vi.mock('../multi-step.js', () => ({
+  generateMultiStepCommand: vi.fn(),
+}))
+
+vi.mock('../policy.js', () => ({
+  MAX_POLICY_DENIALS: 3,
+  checkCommandPolicy: vi.fn(() => ({ action: 'allow' })),
+  formatPolicyDecision: vi.fn((decision: any) => decision.rule?.pattern ?? ''),
+}))
+
+vi.mock('../history.js', () => ({
+  addHistory: vi.fn(),
+}))
+
+vi.mock('../remote-history.js', () => ({
+  addRemoteHistory: vi.fn(),
+}))
+
+vi.mock('../task-session.js', () => ({
+  createSessionId: vi.fn(() => '20260101-100000-abcd'),
+}))
+
+vi.mock('../undo.js', () => ({
+  createUndoSnapshot: vi.fn(() => null),
+}))
+
+vi.mock('../remote.js', () => ({
+  sshExec: vi.fn(),
+  getRemoteWorkDir: vi.fn(),
+  generateBatchRemoteCommands: vi.fn(),
+  executeBatchRemoteCommands: vi.fn(),
+}))
+
+vi.mock('../config.js', () => ({
+  getConfig: vi.fn(() => ({ commandTimeout: 0 })),
+}))
+
+vi.mock('../ui/theme.js', () => ({
+  getCurrentTheme: vi.fn(() => ({ error: '#ff0000', warning: '#ffff00', text: { muted: '#888888' } })),
+}))
+
+import { resolveHeadlessMode, runHeadless } from '../headless.js'
+import { generateMultiStepCommand } from '../multi-step.js'
+import { checkCommandPolicy } from '../policy.js'
+import { addHistory } from '../history.js'
+import { getConfig } from '../config.js'
+
+const mockGenerate = vi.mocked(generateMultiStepCommand)
+const mockPolicy = vi.mocked(checkCommandPolicy)
+const mockAddHistory = vi.mocked(addHistory)
+const mockGetConfig = vi.mocked(getConfig)
+
+/**
+ * 依次返回 AI 生成的步骤
+ */
+function mockSteps(...steps: Array<{ command: string; continue?: boolean; reasoning?: string }>) {
+  for (const step of steps) {
+    mockGenerate.mockResolvedValueOnce({
+      stepData: { continue: false, reasoning: '', nextStepHint: '', ...step },
+      tokens: 1000,
+    })
+  }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mockPolicy.mockReturnValue({ action: 'allow' })
+  mockGetConfig.mockReturnValue({ commandTimeout: 0 } as any)
+})
+
+// ============================================================================
+// resolveHeadlessMode
+// ============================================================================
+
+describe('resolveHeadlessMode', () => {
+  it('终端中没有参数时使用交互模式', () => {
+    expect(resolveHeadlessMode({}, true)).toBeNull()
+  })
+
+  it('应根据参数确定模式', () => {
+    expect(resolveHeadlessMode({ print: true }, true)).toEqual({ mode: 'print', json: false })
+    expect(resolveHeadlessMode({ yes: true }, true)).toEqual({ mode: 'execute', json: false })
+    expect(resolveHeadlessMode({ json: true }, true)).toEqual({ mode: 'print', json: true })
+    expect(resolveHeadlessMode({ yes: true, json: true }, true)).toEqual({ mode: 'execute', json: true })
+  })
+
+  it('没有终端时自动回退为 --print', () => {
+    expect(resolveHeadlessMode({}, false)).toEqual({ mode: 'print', json: false })
+    expect(resolveHeadlessMode({ yes: true }, false)).toEqual({ mode: 'execute', json: false })
+  })
+
+  it('参数冲突时抛出错误', () => {
+    expect(() => resolveHeadlessMode({ print: true, yes: true }, true)).toThrow('不能同时使用')
+    expect(() => resolveHeadlessMode({ print: true, json: true }, true)).toThrow('不能同时使用')
+  })
+})
+
+// ============================================================================
+// runHeadless
+// ============================================================================
+
+describe('runHeadless', () => {
+  it('print 模式只生成第一步，不执行', async () => {
+    mockSteps({ command: 'ls -la', continue: true })
+    const result = await runHeadless('看看文件', { mode: 'print', json: true })
+
+    expect(result).toMatchObject({ success: true, exitCode: 0 })
+    expect(result.steps).toHaveLength(1)
+    expect(result.steps[0]).toMatchObject({ command: 'ls -la', executed: false, policy: 'allow' })
+    expect(result.steps[0].risk.level).toBe('low')
+    expect(mockAddHistory).not.toHaveBeenCalled()
+  })
+
+  it.skipIf(process.platform === 'win32')('execute 模式应执行并记录结果', async () => {
+    mockSteps({ command: 'echo hello' })
+    const result = await runHeadless('打个招呼', { mode: 'execute', json: true })
+
+    expect(result).toMatchObject({ success: true, exitCode: 0 })
+    expect(result.steps[0]).toMatchObject({ executed: true, exitCode: 0 })
+    expect(result.steps[0].output).toContain('hello')
+    expect(mockAddHistory).toHaveBeenCalledWith(
+      expect.objectContaining({ command: 'echo hello', executed: true, exitCode: 0, taskId: '20260101-100000-abcd', step: 1 })
+    )
+  })
+
+  it.skipIf(process.platform === 'win32')('历史记录的执行目录应该是持久会话中 cd 之后的目录', async () => {
+    const dir = fs.realpathSync(os.tmpdir())
+    mockSteps({ command: `cd ${dir}`, continue: true }, { command: 'pwd' })
+    await runHeadless('切换目录', { mode: 'execute', json: true })
+
+    expect(mockAddHistory).toHaveBeenLastCalledWith(expect.objectContaining({ command: 'pwd', cwd: dir }))
+  })
+
+  it.skipIf(process.platform === 'win32')('失败后应让 AI 调整并继续多步骤任务', async () => {
+    mockSteps({ command: 'exit 3' }, { command: 'echo step1', continue: true }, { command: 'echo step2' })
+    const result = await runHeadless('多步任务', { mode: 'execute', json: true })
+
+    expect(result.success).toBe(true)
+    expect(result.steps.map((step) => step.exitCode)).toEqual([3, 0, 0])
+    expect(mockGenerate.mock.calls[1][1]?.[0]).toMatchObject({ command: 'exit 3', exitCode: 3 })
+  })
+
+  it('高风险命令不会自动执行', async () => {
+    mockSteps({ command: 'rm -rf build' })
+    const result = await runHeadless('删掉构建目录', { mode: 'execute', json: true })
+
+    expect(result).toMatchObject({ success: false, exitCode: 1 })
+    expect(result.steps[0]).toMatchObject({ executed: false, skipped: 'confirm' })
+  })
+
+  it('策略要求确认的命令不会自动执行', async () => {
+    mockPolicy.mockReturnValue({ action: 'confirm', rule: { pattern: 'docker', action: 'confirm', source: 'x' } })
+    mockSteps({ command: 'docker ps' })
+    const result = await runHeadless('看看容器', { mode: 'execute', json: true })
+
+    expect(result.steps[0].skipped).toBe('confirm')
+    expect(result.error).toContain('docker')
+  })
+
+  it('被策略禁止的命令应让 AI 换一种方式', async () => {
+    mockPolicy.mockImplementation((command) =>
+      command.startsWith('kubectl')
+        ? { action: 'deny', rule: { pattern: 'kubectl delete', action: 'deny', source: 'x' } }
+        : { action: 'allow' }
+    )
+    mockSteps({ command: 'kubectl delete pod web' }, { command: 'ls' })
+    const result = await runHeadless('重启 web', { mode: 'print', json: true })
+
+    expect(result.success).toBe(true)
+    expect(result.steps.map((step) => step.command)).toEqual(['kubectl delete pod web', 'ls'])
+    expect(result.steps[0].skipped).toBe('policy')
+    expect(mockGenerate.mock.calls[1][1]?.[0]).toMatchObject({ policyDenied: 'kubectl delete' })
+    expect(mockAddHistory).toHaveBeenCalledWith(expect.objectContaining({ reason: 'policy', executed: false }))
+  })
+
+  it('多次被禁止后停止', async () => {
+    mockPolicy.mockReturnValue({ action: 'deny', rule: { pattern: 'rm', action: 'deny', source: 'x' } })
+    mockSteps({ command: 'rm a' }, { command: 'rm b' }, { command: 'rm c' })
+    const result = await runHeadless('删除', { mode: 'print', json: true })
+
+    expect(result).toMatchObject({ success: false, exitCode: 1 })
+    expect(result.steps).toHaveLength(3)
+  })
+
+  it.skipIf(process.platform === 'win32')('连续失败达到上限时停止', async () => {
+    mockGetConfig.mockReturnValue({ commandTimeout: 0, maxSteps: 0, maxConsecutiveFailures: 2, tokenBudget: 0 } as any)
+    mockSteps({ command: 'exit 1' }, { command: 'exit 2' })
+    const result = await runHeadless('多步任务', { mode: 'execute', json: true })
+
+    expect(result).toMatchObject({ success: false, exitCode: 1 })
+    expect(result.steps).toHaveLength(2)
+    expect(result.error).toContain('maxConsecutiveFailures')
+  })
+
+  it('达到 token 预算时停止并返回用量', async () => {
+    mockGetConfig.mockReturnValue({ commandTimeout: 0, maxSteps: 0, maxConsecutiveFailures: 0, tokenBudget: 1500 } as any)
+    mockPolicy.mockReturnValue({ action: 'deny', rule: { pattern: 'rm', action: 'deny', source: 'x' } })
+    mockSteps({ command: 'rm a' }, { command: 'rm b' })
+    const result = await runHeadless('删除', { mode: 'print', json: true })
+
+    expect(result.steps).toHaveLength(2)
+    expect(result.error).toContain('tokenBudget')
+    expect(result.usage).toEqual({ steps: 2, consecutiveFailures: 2, tokens: 2000 })
+  })
+
+  it('AI 返回空命令时失败', async () => {
+    mockSteps({ command: '', reasoning: '无法完成' })
+    const result = await runHeadless('做不到的事', { mode: 'print', json: true })
+
+    expect(result).toMatchObject({ success: false, exitCode: 1, steps: [] })
+    expect(result.error).toContain('无法完成')
+  })
+
+  it('生成失败时返回错误', async () => {
+    mockGenerate.mockRejectedValueOnce(new Error('网络错误'))
+    const result = await runHeadless('随便', { mode: 'print', json: true })
+
+    expect(result.error).toContain('网络错误')
+  })
+})
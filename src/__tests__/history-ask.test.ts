@@ -0,0 +1,116 @@
+/**
+ * 历史问答测试
+ * 测试检索、发给 AI 的格式和引用解析
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  rankHistory,
+  formatEntriesForAsk,
+  extractCitations,
+  getRerunHint,
+} from '../history-ask.js'
+import type { SearchEntry } from '../history-search.js'
+
+const entries: SearchEntry[] = [
+  {
+    source: 'local', index: 3, prompt: '查看 nginx 日志', command: 'tail -n 100 /var/log/nginx/error.log',
+    executed: true, exitCode: 0, output: 'upstream timed out', timestamp: '2026-10-10T00:00:00Z',
+  },
+  {
+    source: 'remote', remote: 'web2', index: 1, prompt: '修复 502 错误', command: 'systemctl restart php-fpm',
+    executed: true, exitCode: 0, output: '', timestamp: '2026-10-12T00:00:00Z',
+  },
+  {
+    source: 'remote', remote: 'web2', index: 2, prompt: '更新证书', command: 'certbot renew',
+    executed: true, exitCode: 0, timestamp: '2026-10-15T00:00:00Z',
+  },
+  { source: 'shell', command: 'git status', executed: true, exitCode: 0, timestamp: '2026-10-16T00:00:00Z' },
+]
+
+// ============================================================================
+// rankHistory 测试
+// ============================================================================
+
+describe('rankHistory', () => {
+  it('不相关的记录不应该返回', () => {
+    const result = rankHistory(entries, '上周我是怎么修好 nginx 502 的', 10)
+
+    expect(result.map((item) => item.entry.command).sort()).toEqual(['systemctl restart php-fpm', 'tail -n 100 /var/log/nginx/error.log'])
+  })
+
+  it('应该按相关度排序，同分时新的在前', () => {
+    const result = rankHistory(entries, '502 nginx 日志', 10)
+    expect(result[0].entry.index).toBe(3)
+    expect(result[0].score).toBeGreaterThan(result[1].score)
+
+    const same = rankHistory([entries[1], { ...entries[1], index: 5, timestamp: '2026-10-18T00:00:00Z' }], '502', 10)
+    expect(same.map((item) => item.entry.index)).toEqual([5, 1])
+  })
+
+  it('应该匹配服务器名', () => {
+    const result = rankHistory(entries, 'which command did I use to renew certs on web2', 10)
+
+    expect(result[0].entry.command).toBe('certbot renew')
+    expect(result.every((item) => item.entry.remote === 'web2')).toBe(true)
+  })
+
+  it('应该只返回 limit 条', () => {
+    expect(rankHistory(entries, 'web2', 1)).toHaveLength(1)
+  })
+
+  it('问题中没有可用的词时应该返回空数组', () => {
+    expect(rankHistory(entries, 'how did I', 10)).toEqual([])
+  })
+})
+
+// ============================================================================
+// formatEntriesForAsk 测试
+// ============================================================================
+
+describe('formatEntriesForAsk', () => {
+  it('应该按编号列出来源、需求、命令和状态', () => {
+    const text = formatEntriesForAsk([entries[1], entries[3]])
+
+    expect(text).toContain('[1] 来源: web2 #1')
+    expect(text).toContain('需求: 修复 502 错误')
+    expect(text).toContain('命令: systemctl restart php-fpm')
+    expect(text).toContain('[2] 来源: Shell')
+    expect(text).toContain('状态: 退出码 0')
+  })
+
+  it('过长的输出应该截断', () => {
+    const text = formatEntriesForAsk([{ ...entries[0], output: 'x'.repeat(2000) }])
+
+    expect(text).toContain('...(已截断)')
+    expect(text.length).toBeLessThan(1000)
+  })
+
+  it('应该脱敏敏感信息', () => {
+    const text = formatEntriesForAsk([{ ...entries[0], command: 'mysql -u root --password hunter2' }])
+
+    expect(text).not.toContain('hunter2')
+  })
+})
+
+// ============================================================================
+// 引用测试
+// ============================================================================
+
+describe('extractCitations', () => {
+  it('应该按第一次出现的顺序返回引用的编号', () => {
+    expect(extractCitations('先重启 php-fpm [2]，之前看过日志 [1][2]', 3)).toEqual([2, 1])
+  })
+
+  it('应该支持 [1, 3] 这种写法并忽略超出范围的编号', () => {
+    expect(extractCitations('见 [1, 3] 和 [9]', 3)).toEqual([1, 3])
+  })
+})
+
+describe('getRerunHint', () => {
+  it('本地和服务器记录给出重新执行的命令，Shell 记录没有', () => {
+    expect(getRerunHint(entries[0])).toBe('pls history rerun 3')
+    expect(getRerunHint(entries[1])).toBe('pls history rerun 1 --from web2')
+    expect(getRerunHint(entries[3])).toBeUndefined()
+  })
+})
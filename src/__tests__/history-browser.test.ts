@@ -0,0 +1,165 @@
+/**
+ * 交互式历史浏览器数据测试
+ * 测试各标签页的记录读取、模糊过滤、删除和复制内容
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+// Mock 各类历史的读写
+vi.mock('../history.js', () => ({
+  getHistory: vi.fn(() => []),
+  deleteHistory: vi.fn(() => true),
+}))
+
+vi.mock('../remote-history.js', () => ({
+  getRemoteHistory: vi.fn(() => []),
+  deleteRemoteHistory: vi.fn(() => true),
+}))
+
+vi.mock('../chat-history.js', () => ({
+  getChatHistory: vi.fn(() => []),
+  deleteChatRound: vi.fn(() => true),
+}))
+
+vi.mock('../remote.js', () => ({
+  getRemotes: vi.fn(() => ({})),
+}))
+
+import { getHistory, deleteHistory } from '../history.js'
+import { getRemoteHistory, deleteRemoteHistory } from '../remote-history.js'
+import { getChatHistory, deleteChatRound } from '../chat-history.js'
+import { getRemotes } from '../remote.js'
+import {
+  loadBrowserEntries,
+  fuzzyScore,
+  filterBrowserEntries,
+  deleteBrowserEntry,
+  getCopyText,
+  type BrowserEntry,
+} from '../history-browser.js'
+
+const mockGetHistory = vi.mocked(getHistory)
+const mockGetRemoteHistory = vi.mocked(getRemoteHistory)
+const mockGetChatHistory = vi.mocked(getChatHistory)
+const mockGetRemotes = vi.mocked(getRemotes)
+
+function entry(title: string, command?: string): BrowserEntry {
+  const record = { userPrompt: title, command: command || '', executed: true, exitCode: 0 }
+  return { key: title, tab: 'local', title, command, record }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+// ============================================================================
+// loadBrowserEntries 测试
+// ============================================================================
+
+describe('loadBrowserEntries', () => {
+  it('本地标签页应该保持命令历史的顺序（最新的在前）', () => {
+    mockGetHistory.mockReturnValue([
+      { userPrompt: '新', command: 'ls', executed: true, exitCode: 0, cwd: '/tmp' },
+      { userPrompt: '旧', command: 'pwd', executed: false, exitCode: null },
+    ])
+
+    const result = loadBrowserEntries('local')
+
+    expect(result.map((e) => e.title)).toEqual(['新', '旧'])
+    expect(result[0]).toMatchObject({ tab: 'local', command: 'ls', cwd: '/tmp' })
+  })
+
+  it('服务器标签页应该合并所有服务器的记录并按时间排序', () => {
+    mockGetRemotes.mockReturnValue({ prod: {}, dev: {} } as any)
+    mockGetRemoteHistory.mockImplementation((name: string) =>
+      name === 'prod'
+        ? [{ userPrompt: 'p1', command: 'uptime', executed: true, exitCode: 0, output: '', timestamp: '2026-10-01T00:00:00Z' }]
+        : [{ userPrompt: 'd1', command: 'df -h', executed: true, exitCode: 0, output: '', timestamp: '2026-10-02T00:00:00Z' }]
+    )
+
+    const result = loadBrowserEntries('remote')
+
+    expect(result.map((e) => [e.remote, e.title])).toEqual([
+      ['dev', 'd1'],
+      ['prod', 'p1'],
+    ])
+  })
+
+  it('对话标签页应该把问题和回答配对，最新的在前', () => {
+    mockGetChatHistory.mockReturnValue([
+      { role: 'user', content: '问题1' },
+      { role: 'assistant', content: '回答1' },
+      { role: 'user', content: '问题2' },
+    ])
+
+    const result = loadBrowserEntries('chat')
+
+    expect(result.map((e) => [e.title, e.answer])).toEqual([
+      ['问题2', ''],
+      ['问题1', '回答1'],
+    ])
+  })
+})
+
+// ============================================================================
+// 模糊过滤测试
+// ============================================================================
+
+describe('fuzzyScore', () => {
+  it('字符按顺序出现即为匹配，不区分大小写', () => {
+    expect(fuzzyScore('dkps', 'docker ps')).not.toBeNull()
+    expect(fuzzyScore('DOCKER', 'docker ps')).not.toBeNull()
+    expect(fuzzyScore('spd', 'docker ps')).toBeNull()
+  })
+
+  it('连续匹配应该比分散匹配得分高', () => {
+    expect(fuzzyScore('log', 'tail logs')!).toBeGreaterThan(fuzzyScore('log', 'ls -l /opt/git')!)
+  })
+
+  it('空查询应该匹配所有内容', () => {
+    expect(fuzzyScore('  ', 'anything')).toBe(0)
+  })
+})
+
+describe('filterBrowserEntries', () => {
+  const entries = [entry('查看日志', 'ls -l /opt/git'), entry('跟踪日志', 'tail logs'), entry('检查磁盘', 'df -h')]
+
+  it('应该按得分排序，过滤掉不匹配的记录', () => {
+    expect(filterBrowserEntries(entries, 'log').map((e) => e.command)).toEqual(['tail logs', 'ls -l /opt/git'])
+  })
+
+  it('应该同时匹配需求', () => {
+    expect(filterBrowserEntries(entries, '磁盘').map((e) => e.command)).toEqual(['df -h'])
+  })
+
+  it('没有查询时应该原样返回', () => {
+    expect(filterBrowserEntries(entries, '')).toBe(entries)
+  })
+})
+
+// ============================================================================
+// 删除和复制测试
+// ============================================================================
+
+describe('deleteBrowserEntry', () => {
+  it('应该按标签页删除对应的历史', () => {
+    const local = entry('本地', 'ls')
+    deleteBrowserEntry(local)
+    expect(deleteHistory).toHaveBeenCalledWith(local.record)
+
+    const remote: BrowserEntry = { ...local, tab: 'remote', remote: 'prod' }
+    deleteBrowserEntry(remote)
+    expect(deleteRemoteHistory).toHaveBeenCalledWith('prod', remote.record)
+
+    const question = { role: 'user' as const, content: '问题' }
+    deleteBrowserEntry({ key: 'chat-0', tab: 'chat', title: '问题', record: question })
+    expect(deleteChatRound).toHaveBeenCalledWith(question)
+  })
+})
+
+describe('getCopyText', () => {
+  it('命令记录复制命令，对话复制回答', () => {
+    expect(getCopyText(entry('检查磁盘', 'df -h'))).toBe('df -h')
+    expect(getCopyText({ key: 'c', tab: 'chat', title: '问题', answer: '回答', record: { role: 'user', content: '问题' } })).toBe('回答')
+  })
+})
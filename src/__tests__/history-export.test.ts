@@ -0,0 +1,155 @@
+/**
+ * 历史导出测试
+ * 测试按序号 / 任务 ID 查找任务，以及导出为 bash 脚本和 Markdown 操作手册
+ */
+
+import { describe, it, expect } from 'vitest'
+import { execFileSync } from 'child_process'
+import type { HistoryRecord } from '../history.js'
+import {
+  parseExportFormat,
+  findTaskRecords,
+  exportTaskAsScript,
+  exportTaskAsRunbook,
+} from '../history-export.js'
+
+const TASK = '20260101-100000-abcd'
+
+/**
+ * 构造历史记录
+ */
+function record(step: number, command: string, extra: Partial<HistoryRecord> = {}): HistoryRecord {
+  return {
+    userPrompt: step === 1 ? '部署项目' : `[步骤${step}] 部署项目`,
+    command,
+    executed: true,
+    exitCode: 0,
+    output: '',
+    taskId: TASK,
+    step,
+    timestamp: '2026-01-01T10:00:00.000Z',
+    ...extra,
+  }
+}
+
+// 与 getHistory() 一致：最新的在前
+const history: HistoryRecord[] = [
+  record(3, 'docker run -d -p 80:80 app', { reasoning: '启动容器' }),
+  record(2, 'docker build -t app .', { reasoning: '构建镜像', exitCode: 1, output: 'no space left on device' }),
+  { userPrompt: '查看磁盘', command: 'df -h', executed: true, exitCode: 0, timestamp: '2026-01-01T09:59:00.000Z' },
+  record(1, 'npm ci', { reasoning: '安装依赖' }),
+]
+
+// ============================================================================
+// parseExportFormat
+// ============================================================================
+
+describe('parseExportFormat', () => {
+  it('应接受 sh 和 md', () => {
+    expect(parseExportFormat('sh')).toBe('sh')
+    expect(parseExportFormat('MD')).toBe('md')
+  })
+
+  it('其他格式应报错', () => {
+    expect(() => parseExportFormat('pdf')).toThrow('--format')
+  })
+})
+
+// ============================================================================
+// findTaskRecords
+// ============================================================================
+
+describe('findTaskRecords', () => {
+  it('按序号找到整个任务，并按步骤排序', () => {
+    expect(findTaskRecords(history, '1').map((r) => r.command)).toEqual([
+      'npm ci',
+      'docker build -t app .',
+      'docker run -d -p 80:80 app',
+    ])
+  })
+
+  it('按任务 ID 前缀查找', () => {
+    expect(findTaskRecords(history, '20260101-1000')).toHaveLength(3)
+  })
+
+  it('没有任务 ID 的旧记录单独导出', () => {
+    expect(findTaskRecords(history, '3').map((r) => r.command)).toEqual(['df -h'])
+  })
+
+  it('找不到时报错', () => {
+    expect(() => findTaskRecords(history, 'nope')).toThrow('找不到')
+    expect(() => findTaskRecords(history, '99')).toThrow('找不到')
+  })
+
+  it('前缀匹配到多个任务时报错', () => {
+    const other = record(1, 'ls', { taskId: '20260101-110000-beef' })
+    expect(() => findTaskRecords([other, ...history], '20260101')).toThrow('匹配到 2 个任务')
+  })
+})
+
+// ============================================================================
+// exportTaskAsScript
+// ============================================================================
+
+describe('exportTaskAsScript', () => {
+  const script = exportTaskAsScript(findTaskRecords(history, TASK))
+
+  it('应生成带 set -euo pipefail 的 bash 脚本', () => {
+    expect(script.startsWith('#!/usr/bin/env bash\n# 部署项目\n')).toBe(true)
+    expect(script).toContain('\nset -euo pipefail\n')
+    expect(script).toContain(`任务 ${TASK}`)
+  })
+
+  it('成功的命令保留，失败的命令注释掉', () => {
+    expect(script).toContain('# 1. 安装依赖\nnpm ci\n')
+    expect(script).toContain('# 失败（退出码 1），不执行:\n# docker build -t app .')
+    expect(script).toContain('# 3. 启动容器\ndocker run -d -p 80:80 app\n')
+  })
+
+  it.skipIf(process.platform === 'win32')('生成的脚本语法正确', () => {
+    expect(() => execFileSync('bash', ['-n'], { input: script })).not.toThrow()
+  })
+
+  it('历史不完整时提示缺少前面的步骤', () => {
+    const partial = exportTaskAsScript(findTaskRecords(history, TASK).slice(1))
+    expect(partial).toContain('# 注意：历史只保留了第 2 步及之后的记录')
+  })
+
+  it('多行说明应合并为一行注释', () => {
+    const output = exportTaskAsScript([record(1, 'ls', { reasoning: '第一行\n第二行' })])
+    expect(output).toContain('# 1. 第一行 第二行\n')
+  })
+
+  it('包含脱敏内容的命令应注释掉并提示填入实际的值', () => {
+    const output = exportTaskAsScript([record(1, 'mysql -u root -p[REDACTED] app < dump.sql')])
+    expect(output).toContain('# 命令中有保存时被脱敏的内容（[REDACTED]），填入实际的值后再取消注释:\n# mysql -u root -p[REDACTED] app < dump.sql\n')
+    expect(output).not.toMatch(/^mysql/m)
+  })
+})
+
+// ============================================================================
+// exportTaskAsRunbook
+// ============================================================================
+
+describe('exportTaskAsRunbook', () => {
+  const runbook = exportTaskAsRunbook(findTaskRecords(history, TASK))
+
+  it('应包含需求、步骤说明、命令和状态', () => {
+    expect(runbook.startsWith('# 部署项目\n')).toBe(true)
+    expect(runbook).toContain('## 1. 安装依赖\n\n```bash\nnpm ci\n```')
+    expect(runbook).toContain('状态：❌ 失败（退出码 1）')
+    expect(runbook).toContain('```text\nno space left on device\n```')
+  })
+
+  it('应截断过长的输出', () => {
+    const output = Array.from({ length: 50 }, (_, i) => `line ${i}`).join('\n')
+    const result = exportTaskAsRunbook([record(1, 'ls', { output })])
+    expect(result).toContain('line 19\n...(省略 30 行)')
+    expect(result).not.toContain('line 20\n')
+  })
+
+  it('应注明用户修改过的命令', () => {
+    const result = exportTaskAsRunbook([record(1, 'ls -la', { userModified: true, aiGeneratedCommand: 'ls' })])
+    expect(result).toContain('AI 原本生成的是 `ls`')
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * 重新执行历史命令测试
+ * 测试按序号取出记录、检测脱敏内容、解析 --on 目标，以及重新生成前后命令的差异
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getRerunEntry, hasRedactedContent, resolveRerunTarget, diffCommand } from '../history-rerun.js'
+
+const records = [
+  { userPrompt: '[步骤2] 部署项目', command: 'docker build -t app .' },
+  { userPrompt: '查看磁盘', command: 'df -h' },
+  { userPrompt: '清理日志', command: '' },
+]
+
+// ============================================================================
+// getRerunEntry
+// ============================================================================
+
+describe('getRerunEntry', () => {
+  it('应该按显示的序号（从 1 开始）取出记录', () => {
+    expect(getRerunEntry(records, '2')).toEqual({ prompt: '查看磁盘', command: 'df -h' })
+  })
+
+  it('应该去掉多步骤任务的 [步骤N] 前缀', () => {
+    expect(getRerunEntry(records, '1').prompt).toBe('部署项目')
+  })
+
+  it('序号超出范围时应该抛出错误', () => {
+    expect(() => getRerunEntry(records, '0')).toThrow('1 到 3')
+    expect(() => getRerunEntry(records, '4')).toThrow('1 到 3')
+  })
+
+  it('序号不是整数时应该抛出错误', () => {
+    expect(() => getRerunEntry(records, '1.5')).toThrow('整数')
+    expect(() => getRerunEntry(records, 'abc')).toThrow('整数')
+  })
+
+  it('没有历史记录时应该提示暂无记录', () => {
+    expect(() => getRerunEntry([], '1')).toThrow('暂无历史记录')
+  })
+
+  it('记录没有命令时应该提示用 --regenerate', () => {
+    expect(() => getRerunEntry(records, '3')).toThrow('--regenerate')
+  })
+})
+
+// ============================================================================
+// hasRedactedContent
+// ============================================================================
+
+describe('hasRedactedContent', () => {
+  it('保存时被脱敏的命令不能原样执行', () => {
+    expect(hasRedactedContent('mysql -u root -p[REDACTED] app')).toBe(true)
+    expect(hasRedactedContent('curl -H "Authorization: Bearer [REDACTED]" https://api.example.com')).toBe(true)
+  })
+
+  it('普通命令不受影响', () => {
+    expect(hasRedactedContent('df -h')).toBe(false)
+    expect(hasRedactedContent('echo REDACTED')).toBe(false)
+  })
+})
+
+// ============================================================================
+// resolveRerunTarget
+// ============================================================================
+
+describe('resolveRerunTarget', () => {
+  it('不传 --on 时应该在原来的地方执行', () => {
+    expect(resolveRerunTarget(undefined)).toBeUndefined()
+    expect(resolveRerunTarget('prod')).toBe('prod')
+  })
+
+  it('--on local 应该在本地执行', () => {
+    expect(resolveRerunTarget('prod', 'local')).toBeUndefined()
+  })
+
+  it('--on <remote> 应该在指定服务器执行', () => {
+    expect(resolveRerunTarget(undefined, 'prod')).toBe('prod')
+    expect(resolveRerunTarget('prod', 'staging')).toBe('staging')
+  })
+})
+
+// ============================================================================
+// diffCommand
+// ============================================================================
+
+describe('diffCommand', () => {
+  it('相同的命令应该全部标记为 same', () => {
+    expect(diffCommand('ls -la', 'ls  -la').every((token) => token.type === 'same')).toBe(true)
+  })
+
+  it('应该标记删除和新增的部分', () => {
+    expect(diffCommand('apt-get install -y nginx', 'dnf install -y nginx')).toEqual([
+      { text: 'apt-get', type: 'removed' },
+      { text: 'dnf', type: 'added' },
+      { text: 'install', type: 'same' },
+      { text: '-y', type: 'same' },
+      { text: 'nginx', type: 'same' },
+    ])
+  })
+
+  it('应该处理末尾追加的参数', () => {
+    expect(diffCommand('du -sh', 'du -sh --max-depth=1')).toEqual([
+      { text: 'du', type: 'same' },
+      { text: '-sh', type: 'same' },
+      { text: '--max-depth=1', type: 'added' },
+    ])
+  })
+
+  it('原命令为空时应该全部标记为新增', () => {
+    expect(diffCommand('', 'df -h').map((token) => token.type)).toEqual(['added', 'added'])
+  })
+})
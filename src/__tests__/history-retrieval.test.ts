@@ -0,0 +1,156 @@
+/**
+ * 历史检索测试
+ * 测试分词、BM25、工具提取、相关度打分和"最近 + 相关"的选择
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  tokenize,
+  bm25Scores,
+  extractTools,
+  scoreRelevance,
+  pickRelevant,
+  selectRecentAndRelevant,
+  type RetrievalCandidate,
+} from '../history-retrieval.js'
+
+const NOW = new Date('2026-10-19T00:00:00Z').getTime()
+
+function daysAgo(days: number): string {
+  return new Date(NOW - days * 24 * 60 * 60 * 1000).toISOString()
+}
+
+// ============================================================================
+// tokenize / bm25Scores 测试
+// ============================================================================
+
+describe('tokenize', () => {
+  it('英文按单词切分，去掉常见词和复数 s', () => {
+    expect(tokenize('Which command did I use to rotate certs on web2')).toEqual(['command', 'rotate', 'cert', 'web2'])
+  })
+
+  it('中文按相邻两个字切分', () => {
+    expect(tokenize('修好 nginx')).toEqual(['修好', 'nginx'])
+    expect(tokenize('修复证书')).toEqual(['修复', '复证', '证书'])
+  })
+
+  it('单独一个汉字保留原样', () => {
+    expect(tokenize('查 log')).toEqual(['查', 'log'])
+  })
+})
+
+describe('bm25Scores', () => {
+  it('不相关的文本得分为 0，少见的词权重更高', () => {
+    const scores = bm25Scores('nginx 502', ['重启 nginx', '修复 502 nginx', 'git status', 'nginx -t'])
+
+    expect(scores[2]).toBe(0)
+    expect(scores[1]).toBeGreaterThan(scores[0])
+  })
+
+  it('问题中没有可用的词时都为 0', () => {
+    expect(bm25Scores('how did I', ['how to'])).toEqual([0])
+  })
+})
+
+// ============================================================================
+// extractTools 测试
+// ============================================================================
+
+describe('extractTools', () => {
+  it('应该提取管道和命令链中每一段的命令名', () => {
+    expect(extractTools('sudo docker ps | grep web && kubectl get pods')).toEqual(['docker', 'grep', 'kubectl'])
+  })
+
+  it('应该跳过环境变量赋值并去掉路径', () => {
+    expect(extractTools('NODE_ENV=production /usr/local/bin/node server.js')).toEqual(['node'])
+  })
+})
+
+// ============================================================================
+// scoreRelevance 测试
+// ============================================================================
+
+describe('scoreRelevance', () => {
+  const deploy: RetrievalCandidate = { text: '部署到生产环境\n./deploy.sh prod', command: './deploy.sh prod', timestamp: daysAgo(3) }
+
+  it('"像上次那样部署"应该找到部署记录', () => {
+    const scores = scoreRelevance(
+      [deploy, { text: '查看磁盘\ndf -h', command: 'df -h', timestamp: daysAgo(1) }],
+      { prompt: '像上次那样部署', now: NOW }
+    )
+
+    expect(scores[0]).toBeGreaterThan(0)
+    expect(scores[1]).toBe(0)
+  })
+
+  it('需求里提到记录中用到的工具时应该算相关', () => {
+    const [score] = scoreRelevance([{ text: '看看容器', command: 'docker ps -a' }], { prompt: 'docker', now: NOW })
+
+    expect(score).toBeGreaterThan(0)
+  })
+
+  it('同一个目录执行的记录应该加分', () => {
+    const [other, same, sub] = scoreRelevance(
+      [
+        { ...deploy, cwd: '/srv/other' },
+        { ...deploy, cwd: '/srv/app' },
+        { ...deploy, cwd: '/srv/app/web' },
+      ],
+      { prompt: '部署', cwd: '/srv/app', now: NOW }
+    )
+
+    expect(same).toBeGreaterThan(sub)
+    expect(sub).toBeGreaterThan(other)
+  })
+
+  it('越久以前的记录得分越低，但不会降到 0', () => {
+    const [recent, old] = scoreRelevance([deploy, { ...deploy, timestamp: daysAgo(90) }], { prompt: '部署', now: NOW })
+
+    expect(recent).toBeGreaterThan(old)
+    expect(old).toBeGreaterThan(0)
+  })
+})
+
+// ============================================================================
+// pickRelevant / selectRecentAndRelevant 测试
+// ============================================================================
+
+describe('pickRelevant', () => {
+  const toCandidate = (text: string): RetrievalCandidate => ({ text })
+
+  it('应该按得分返回最多 count 条相关记录', () => {
+    expect(pickRelevant(['部署 web', 'ls', '部署 部署 api', '部署'], 2, { prompt: '部署', now: NOW }, toCandidate)).toHaveLength(2)
+    expect(pickRelevant(['ls', 'pwd'], 2, { prompt: '部署', now: NOW }, toCandidate)).toEqual([])
+  })
+
+  it('没有需求时应该返回空数组', () => {
+    expect(pickRelevant(['部署'], 2, { prompt: ' ', now: NOW }, toCandidate)).toEqual([])
+  })
+})
+
+describe('selectRecentAndRelevant', () => {
+  const items = ['r1', 'r2', 'r3', 'r4', 'r5', '部署 old', 'r7']
+  const toCandidate = (text: string): RetrievalCandidate => ({ text })
+
+  it('最近的占一半，剩下的给相关记录，不够时用最近的补齐', () => {
+    expect(selectRecentAndRelevant(items, 4, { prompt: '部署', now: NOW }, toCandidate)).toEqual({
+      recent: ['r1', 'r2', 'r3'],
+      relevant: ['部署 old'],
+    })
+  })
+
+  it('已经在最近记录里的相关记录不应该重复', () => {
+    const result = selectRecentAndRelevant(['部署 new', ...items], 4, { prompt: '部署', now: NOW }, toCandidate)
+
+    expect(result.recent).toEqual(['部署 new', 'r1', 'r2'])
+    expect(result.relevant).toEqual(['部署 old'])
+  })
+
+  it('记录不超过 limit 条或没有需求时只返回最近的记录', () => {
+    expect(selectRecentAndRelevant(items.slice(0, 3), 4, { prompt: '部署', now: NOW }, toCandidate)).toEqual({
+      recent: ['r1', 'r2', 'r3'],
+      relevant: [],
+    })
+    expect(selectRecentAndRelevant(items, 4, { prompt: '', now: NOW }, toCandidate).recent).toEqual(['r1', 'r2', 'r3', 'r4'])
+  })
+})
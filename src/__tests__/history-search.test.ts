@@ -0,0 +1,235 @@
+/**
+ * 历史搜索测试
+ * 测试收集各类历史、按关键词和条件过滤、时间解析和高亮
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+// Mock 各类历史的读取
+vi.mock('../history.js', () => ({
+  getHistory: vi.fn(() => []),
+}))
+
+vi.mock('../remote-history.js', () => ({
+  getRemoteHistory: vi.fn(() => []),
+}))
+
+vi.mock('../shell-hook.js', () => ({
+  getShellHistory: vi.fn(() => []),
+}))
+
+vi.mock('../remote.js', () => ({
+  getRemotes: vi.fn(() => ({})),
+}))
+
+import { getHistory } from '../history.js'
+import { getRemoteHistory } from '../remote-history.js'
+import { getShellHistory } from '../shell-hook.js'
+import { getRemotes } from '../remote.js'
+import {
+  parseSince,
+  parseLimit,
+  splitTerms,
+  collectSearchEntries,
+  searchHistory,
+  highlightTerms,
+  findOutputSnippet,
+  formatSourceLabel,
+  type SearchEntry,
+} from '../history-search.js'
+
+const mockGetHistory = vi.mocked(getHistory)
+const mockGetRemoteHistory = vi.mocked(getRemoteHistory)
+const mockGetShellHistory = vi.mocked(getShellHistory)
+const mockGetRemotes = vi.mocked(getRemotes)
+
+const entries: SearchEntry[] = [
+  {
+    source: 'local', index: 2, prompt: '检查磁盘', command: 'df -h', executed: true, exitCode: 0,
+    output: 'Filesystem  Size\n/dev/sda1  20G', cwd: '/home/user/proj', timestamp: '2026-10-10T00:00:00Z',
+  },
+  {
+    source: 'local', index: 1, prompt: '构建镜像', command: 'docker build -t app .', aiGeneratedCommand: 'docker build .',
+    userModified: true, executed: true, exitCode: 1, output: 'error: Dockerfile not found',
+    cwd: '/home/user/proj/api', timestamp: '2026-10-18T00:00:00Z',
+  },
+  {
+    source: 'remote', remote: 'prod', index: 1, prompt: '重启 nginx', command: 'systemctl restart nginx',
+    executed: true, exitCode: 0, timestamp: '2026-10-17T00:00:00Z',
+  },
+  { source: 'shell', command: 'docker ps', executed: true, exitCode: 0, timestamp: '2026-10-19T00:00:00Z' },
+  { source: 'local', index: 3, prompt: '删除日志', command: 'rm -rf logs', executed: false, exitCode: null },
+]
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+// ============================================================================
+// collectSearchEntries 测试
+// ============================================================================
+
+describe('collectSearchEntries', () => {
+  beforeEach(() => {
+    mockGetHistory.mockReturnValue([
+      { userPrompt: '新', command: 'ls', executed: true, exitCode: 0 },
+      { userPrompt: '旧', command: 'pwd', executed: true, exitCode: 0 },
+    ])
+    mockGetRemotes.mockReturnValue({ prod: {} } as any)
+    mockGetRemoteHistory.mockReturnValue([
+      { userPrompt: '远程', command: 'uptime', executed: true, exitCode: 0, output: '', timestamp: '2026-10-01' },
+    ])
+    mockGetShellHistory.mockReturnValue([
+      { cmd: 'git status', exit: 0, time: '2026-10-02' },
+      { cmd: 'pls 检查磁盘', exit: 0, time: '2026-10-03' },
+    ])
+  })
+
+  it('应该合并本地、服务器和 Shell 历史，序号与各自的历史列表一致', () => {
+    const result = collectSearchEntries()
+
+    expect(result.map((entry) => [entry.source, entry.index, entry.command])).toEqual([
+      ['local', 1, 'ls'],
+      ['local', 2, 'pwd'],
+      ['remote', 1, 'uptime'],
+      ['shell', undefined, 'git status'],
+    ])
+    expect(result[2].remote).toBe('prod')
+  })
+
+  it('Shell 历史中的 pls 调用不应该重复出现', () => {
+    expect(collectSearchEntries().some((entry) => entry.command.startsWith('pls'))).toBe(false)
+  })
+
+  it('指定服务器时只搜索这台服务器的命令历史', () => {
+    const result = collectSearchEntries('prod')
+
+    expect(result).toHaveLength(1)
+    expect(result[0]).toMatchObject({ source: 'remote', remote: 'prod', prompt: '远程' })
+    expect(mockGetHistory).not.toHaveBeenCalled()
+    expect(mockGetShellHistory).not.toHaveBeenCalled()
+  })
+})
+
+// ============================================================================
+// searchHistory 测试
+// ============================================================================
+
+describe('searchHistory', () => {
+  it('应该匹配需求、命令和输出，不区分大小写', () => {
+    expect(searchHistory(entries, { text: '磁盘' }).map((e) => e.command)).toEqual(['df -h'])
+    expect(searchHistory(entries, { text: 'NGINX' }).map((e) => e.command)).toEqual(['systemctl restart nginx'])
+    expect(searchHistory(entries, { text: 'dockerfile' }).map((e) => e.command)).toEqual(['docker build -t app .'])
+  })
+
+  it('多个关键词应该都匹配', () => {
+    expect(searchHistory(entries, { text: 'docker build' }).map((e) => e.command)).toEqual(['docker build -t app .'])
+  })
+
+  it('应该按时间排序，最新的在前，没有时间的排在最后', () => {
+    expect(searchHistory(entries, {}).map((e) => e.command)).toEqual([
+      'docker ps',
+      'docker build -t app .',
+      'systemctl restart nginx',
+      'df -h',
+      'rm -rf logs',
+    ])
+  })
+
+  it('--failed 只返回执行失败的命令', () => {
+    expect(searchHistory(entries, { failed: true }).map((e) => e.command)).toEqual(['docker build -t app .'])
+  })
+
+  it('--modified 只返回手动修改过的命令', () => {
+    expect(searchHistory(entries, { modified: true }).map((e) => e.command)).toEqual(['docker build -t app .'])
+  })
+
+  it('--since 只返回这段时间内的记录', () => {
+    const result = searchHistory(entries, { since: new Date('2026-10-17T00:00:00Z') })
+    expect(result.map((e) => e.command)).toEqual(['docker ps', 'docker build -t app .', 'systemctl restart nginx'])
+  })
+
+  it('--cwd 应该匹配目录及其子目录', () => {
+    expect(searchHistory(entries, { cwd: '/home/user/proj' })).toHaveLength(2)
+    expect(searchHistory(entries, { cwd: '/home/user/proj/api' }).map((e) => e.command)).toEqual(['docker build -t app .'])
+    expect(searchHistory(entries, { cwd: '/home/user/pro' })).toHaveLength(0)
+  })
+})
+
+describe('formatSourceLabel', () => {
+  it('应该显示来源和序号', () => {
+    expect(entries.map(formatSourceLabel)).toEqual(['本地 #2', '本地 #1', 'prod #1', 'Shell', '本地 #3'])
+  })
+})
+
+// ============================================================================
+// parseSince / parseLimit 测试
+// ============================================================================
+
+describe('parseSince', () => {
+  const now = new Date('2026-10-19T12:00:00Z')
+
+  it('应该解析相对时间', () => {
+    expect(parseSince('30m', now).toISOString()).toBe('2026-10-19T11:30:00.000Z')
+    expect(parseSince('12h', now).toISOString()).toBe('2026-10-19T00:00:00.000Z')
+    expect(parseSince('7d', now).toISOString()).toBe('2026-10-12T12:00:00.000Z')
+    expect(parseSince('2w', now).toISOString()).toBe('2026-10-05T12:00:00.000Z')
+  })
+
+  it('应该解析日期', () => {
+    expect(parseSince('2026-01-01T00:00:00Z', now).toISOString()).toBe('2026-01-01T00:00:00.000Z')
+  })
+
+  it('格式不正确时应该抛出错误', () => {
+    expect(() => parseSince('7days', now)).toThrow('--since 格式不正确')
+    expect(() => parseSince('', now)).toThrow('--since 格式不正确')
+  })
+})
+
+describe('parseLimit', () => {
+  it('应该只接受正整数', () => {
+    expect(parseLimit('5')).toBe(5)
+    expect(() => parseLimit('0')).toThrow('正整数')
+    expect(() => parseLimit('abc')).toThrow('正整数')
+  })
+})
+
+// ============================================================================
+// 高亮和输出摘要测试
+// ============================================================================
+
+describe('highlightTerms', () => {
+  const mark = (s: string) => `[${s}]`
+
+  it('应该标记所有匹配的关键词，保留原来的大小写', () => {
+    expect(highlightTerms('Docker build docker', splitTerms('docker'), mark)).toBe('[Docker] build [docker]')
+  })
+
+  it('关键词中的正则特殊字符应该按字面匹配', () => {
+    expect(highlightTerms('ls -la (all)', splitTerms('(all)'), mark)).toBe('ls -la [(all)]')
+  })
+
+  it('没有关键词时应该原样返回', () => {
+    expect(highlightTerms('df -h', [], mark)).toBe('df -h')
+  })
+})
+
+describe('findOutputSnippet', () => {
+  it('应该返回第一处匹配所在的行', () => {
+    expect(findOutputSnippet('line one\n  error: not found\nerror again', ['error'])).toBe('error: not found')
+  })
+
+  it('行太长时应该截取匹配附近的内容', () => {
+    const line = 'x'.repeat(200) + ' needle ' + 'y'.repeat(200)
+    const snippet = findOutputSnippet(line, ['needle'], 60)
+
+    expect(snippet).toContain('needle')
+    expect(snippet.startsWith('...')).toBe(true)
+    expect(snippet.endsWith('...')).toBe(true)
+  })
+
+  it('输出中没有匹配时应该返回空字符串', () => {
+    expect(findOutputSnippet('all good', ['error'])).toBe('')
+    expect(findOutputSnippet(undefined, ['error'])).toBe('')
+  })
+})
@@ -0,0 +1,254 @@
+/**
+ * 历史存储测试
+ * 测试 JSONL 追加、压缩、旧版本文件迁移和文件锁
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { useMemoryFs, toJsonl } from '../../tests/helpers/mocks'
+
+// Mock fs 模块
+vi.mock('fs', () => ({
+  default: {
+    existsSync: vi.fn(),
+    readFileSync: vi.fn(),
+    writeFileSync: vi.fn(),
+    appendFileSync: vi.fn(),
+    renameSync: vi.fn(),
+    linkSync: vi.fn(),
+    rmSync: vi.fn(),
+    openSync: vi.fn(),
+    closeSync: vi.fn(),
+    statSync: vi.fn(),
+    mkdirSync: vi.fn(),
+  },
+}))
+
+import fs from 'fs'
+import { readHistoryFile, appendHistoryFile, rewriteHistoryFile, deleteHistoryRecord, clearHistoryFile, withFileLock } from '../history-store.js'
+
+const mockFs = vi.mocked(fs)
+
+const FILE = { path: '/data/history.jsonl', legacyPath: '/data/history.json' }
+const LOCK_FILE = '/data/history.jsonl.lock'
+
+// 内存中的文件
+let files: Map<string, string>
+
+function lines(file: string): string[] {
+  return files.get(file)!.trim().split('\n')
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  files = useMemoryFs(mockFs)
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+// ============================================================================
+// readHistoryFile / appendHistoryFile 测试
+// ============================================================================
+
+describe('readHistoryFile', () => {
+  it('文件不存在时应该返回空数组', () => {
+    expect(readHistoryFile(FILE)).toEqual([])
+  })
+
+  it('应该跳过损坏的行和非对象的行', () => {
+    files.set(FILE.path, '{"n":1}\n[1,2]\n"text"\n{"n":2}\n{"n":')
+
+    expect(readHistoryFile(FILE)).toEqual([{ n: 1 }, { n: 2 }])
+  })
+})
+
+describe('appendHistoryFile', () => {
+  it('应该追加到文件末尾并自动创建目录', () => {
+    appendHistoryFile(FILE, [{ n: 1 }], 10)
+    appendHistoryFile(FILE, [{ n: 2 }, { n: 3 }], 10)
+
+    expect(mockFs.mkdirSync).toHaveBeenCalledWith('/data', { recursive: true })
+    expect(mockFs.writeFileSync).not.toHaveBeenCalled()
+    expect(readHistoryFile(FILE)).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }])
+  })
+
+  it('超出保留条数不多时不应该重写文件', () => {
+    files.set(FILE.path, toJsonl(Array.from({ length: 10 }, (_, n) => ({ n }))))
+
+    appendHistoryFile(FILE, [{ n: 10 }, { n: 11 }], 10)
+
+    expect(lines(FILE.path)).toHaveLength(12)
+  })
+
+  it('超出保留条数较多时应该压缩为最近的 retention 条', () => {
+    files.set(FILE.path, toJsonl(Array.from({ length: 12 }, (_, i) => ({ n: i + 10 }))))
+
+    appendHistoryFile(FILE, [{ n: 22 }], 10)
+
+    expect(readHistoryFile<{ n: number }>(FILE).map((record) => record.n)).toEqual([13, 14, 15, 16, 17, 18, 19, 20, 21, 22])
+  })
+
+  it('按文件大小估算没有超出时不应该读取整个文件', () => {
+    files.set(FILE.path, toJsonl(Array.from({ length: 10 }, (_, i) => ({ n: i + 10 }))))
+
+    appendHistoryFile(FILE, [{ n: 20 }], 10)
+
+    expect(mockFs.readFileSync).not.toHaveBeenCalled()
+    expect(lines(FILE.path)).toHaveLength(11)
+  })
+
+  it('估算超出但实际条数没有超出时不应该重写文件', () => {
+    files.set(FILE.path, toJsonl(Array.from({ length: 10 }, (_, i) => ({ n: i, output: 'x'.repeat(50) }))))
+
+    appendHistoryFile(FILE, [{ n: 10 }], 10)
+
+    expect(mockFs.writeFileSync).not.toHaveBeenCalled()
+    expect(lines(FILE.path)).toHaveLength(11)
+  })
+
+  it('写入完成后应该释放锁', () => {
+    appendHistoryFile(FILE, [{ n: 1 }], 10)
+
+    expect(files.has(LOCK_FILE)).toBe(false)
+  })
+})
+
+describe('rewriteHistoryFile', () => {
+  it('应该用返回的记录替换文件内容并释放锁', () => {
+    files.set(FILE.path, toJsonl([{ n: 1 }, { n: 2 }, { n: 3 }]))
+
+    rewriteHistoryFile<{ n: number }>(FILE, (records) => records.filter((record) => record.n !== 2))
+
+    expect(readHistoryFile(FILE)).toEqual([{ n: 1 }, { n: 3 }])
+    expect(files.has(LOCK_FILE)).toBe(false)
+  })
+})
+
+describe('deleteHistoryRecord', () => {
+  it('应该只删除最后一条匹配的记录', () => {
+    files.set(FILE.path, toJsonl([{ n: 1 }, { n: 2 }, { n: 1 }, { n: 3 }]))
+
+    expect(deleteHistoryRecord<{ n: number }>(FILE, (record) => record.n === 1)).toBe(true)
+    expect(readHistoryFile(FILE)).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }])
+  })
+
+  it('应该按 count 连同后面的记录一起删除', () => {
+    files.set(FILE.path, toJsonl([{ n: 1 }, { n: 2 }, { n: 3 }, { n: 4 }]))
+
+    deleteHistoryRecord<{ n: number }>(FILE, (record) => record.n === 2, () => 2)
+
+    expect(readHistoryFile(FILE)).toEqual([{ n: 1 }, { n: 4 }])
+  })
+
+  it('没有匹配的记录时应该返回 false 并保持原样', () => {
+    files.set(FILE.path, toJsonl([{ n: 1 }]))
+
+    expect(deleteHistoryRecord<{ n: number }>(FILE, (record) => record.n === 9)).toBe(false)
+    expect(readHistoryFile(FILE)).toEqual([{ n: 1 }])
+  })
+})
+
+// ============================================================================
+// 旧版本文件迁移测试
+// ============================================================================
+
+describe('旧版本文件迁移', () => {
+  it('应该把 JSON 数组迁移到 JSONL 并把旧文件改名为 .bak', () => {
+    files.set(FILE.legacyPath, JSON.stringify([{ n: 1 }, { n: 2 }]))
+
+    expect(readHistoryFile(FILE)).toEqual([{ n: 1 }, { n: 2 }])
+    expect(files.has(FILE.legacyPath)).toBe(false)
+    expect(files.has(`${FILE.legacyPath}.bak`)).toBe(true)
+  })
+
+  it('旧文件最新的在前时应该倒过来', () => {
+    files.set(FILE.legacyPath, JSON.stringify([{ n: 2 }, { n: 1 }]))
+
+    expect(readHistoryFile({ ...FILE, legacyNewestFirst: true })).toEqual([{ n: 1 }, { n: 2 }])
+  })
+
+  it('旧记录应该排在 JSONL 中已有记录的前面', () => {
+    files.set(FILE.legacyPath, JSON.stringify([{ n: 1 }]))
+
+    appendHistoryFile(FILE, [{ n: 2 }], 10)
+
+    expect(readHistoryFile(FILE)).toEqual([{ n: 1 }, { n: 2 }])
+  })
+
+  it('旧文件损坏时应该直接改名，不影响新记录', () => {
+    files.set(FILE.legacyPath, '{invalid json')
+
+    appendHistoryFile(FILE, [{ n: 1 }], 10)
+
+    expect(readHistoryFile(FILE)).toEqual([{ n: 1 }])
+    expect(files.has(`${FILE.legacyPath}.bak`)).toBe(true)
+  })
+})
+
+// ============================================================================
+// clearHistoryFile 测试
+// ============================================================================
+
+describe('clearHistoryFile', () => {
+  it('应该删除 JSONL 文件和旧版本文件', () => {
+    files.set(FILE.path, toJsonl([{ n: 1 }]))
+    files.set(FILE.legacyPath, '[]')
+
+    clearHistoryFile(FILE)
+
+    expect(files.has(FILE.path)).toBe(false)
+    expect(files.has(FILE.legacyPath)).toBe(false)
+  })
+
+  it('目录不存在时应该不报错', () => {
+    expect(() => clearHistoryFile(FILE)).not.toThrow()
+    expect(mockFs.openSync).not.toHaveBeenCalled()
+  })
+})
+
+// ============================================================================
+// withFileLock 测试
+// ============================================================================
+
+describe('withFileLock', () => {
+  it('出错时也应该释放锁', () => {
+    expect(() => withFileLock(FILE.path, () => {
+      throw new Error('写入失败')
+    })).toThrow('写入失败')
+    expect(files.has(LOCK_FILE)).toBe(false)
+  })
+
+  it('应该清理异常退出的进程留下的锁', () => {
+    files.set(LOCK_FILE, '')
+    mockFs.statSync.mockReturnValue({ mtimeMs: Date.now() - 60_000 } as any)
+
+    expect(withFileLock(FILE.path, () => 'ok')).toBe('ok')
+    expect(files.has(LOCK_FILE)).toBe(false)
+  })
+
+  it('过期锁已被其他进程换成新锁时不应该删掉新锁', () => {
+    files.set(LOCK_FILE, '')
+    // 看到的是过期的锁（inode 1），改名时拿到的已经是其他进程刚加的新锁（inode 2）
+    let lockStats = 0
+    mockFs.statSync.mockImplementation(((p: string) =>
+      p === LOCK_FILE && lockStats++ === 0 ? { mtimeMs: 0, ino: 1 } : { mtimeMs: Date.now(), ino: 2 }) as any)
+    let now = Date.now()
+    vi.spyOn(Date, 'now').mockImplementation(() => (now += 1000))
+
+    expect(() => withFileLock(FILE.path, () => 'ok')).toThrow('被其他 pls 进程占用')
+    expect(files.has(LOCK_FILE)).toBe(true)
+    expect([...files.keys()].some((file) => file.endsWith('.stale'))).toBe(false)
+  })
+
+  it('其他进程一直持有锁时应该超时报错', () => {
+    files.set(LOCK_FILE, '')
+    mockFs.statSync.mockReturnValue({ mtimeMs: Date.now() } as any)
+    // 每次取时间都前进 1 秒，避免真的等待
+    let now = Date.now()
+    vi.spyOn(Date, 'now').mockImplementation(() => (now += 1000))
+
+    expect(() => withFileLock(FILE.path, () => 'ok')).toThrow('被其他 pls 进程占用')
+    expect(files.has(LOCK_FILE)).toBe(true)
+  })
+})
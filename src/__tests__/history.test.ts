@@ -5,6 +5,7 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { plsHistory, emptyHistory } from '../../tests/fixtures/history'
+import { useMemoryFs, toJsonl } from '../../tests/helpers/mocks'
 
 // Mock fs 模块
 vi.mock('fs', () => ({
@@ -12,6 +13,12 @@ vi.mock('fs', () => ({
     existsSync: vi.fn(),
     readFileSync: vi.fn(),
     writeFileSync: vi.fn(),
+    appendFileSync: vi.fn(),
+    renameSync: vi.fn(),
+    rmSync: vi.fn(),
+    openSync: vi.fn(),
+    closeSync: vi.fn(),
+    statSync: vi.fn(),
     mkdirSync: vi.fn(),
   },
 }))
@@ -39,20 +46,32 @@ const mockFs = vi.mocked(fs)
 const mockOs = vi.mocked(os)
 const mockGetConfig = vi.mocked(getConfig)
 
+const HISTORY_FILE = '/home/testuser/.please/history.jsonl'
+const LEGACY_HISTORY_FILE = '/home/testuser/.please/history.json'
+
+// 内存中的文件
+let files: Map<string, string>
+
 // 模块状态重置辅助
 async function resetHistoryModule() {
   vi.resetModules()
   return await import('../history.js')
 }
 
+/**
+ * 写入历史文件（records 最新的在前，与 getHistory() 一致；文件中从旧到新）
+ */
+function seedHistory(records: unknown[]) {
+  files.set(HISTORY_FILE, toJsonl([...records].reverse()))
+}
+
 beforeEach(() => {
   vi.clearAllMocks()
   mockOs.homedir.mockReturnValue('/home/testuser')
   mockGetConfig.mockReturnValue({
     commandHistoryLimit: 10,
   } as any)
-  mockFs.existsSync.mockReturnValue(true)
-  mockFs.writeFileSync.mockImplementation(() => {})
+  files = useMemoryFs(mockFs)
 })
 
 afterEach(() => {
@@ -65,8 +84,7 @@ afterEach(() => {
 
 describe('getHistory', () => {
   it('应该返回历史记录数组', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(plsHistory))
+    seedHistory(plsHistory)
 
     const { getHistory } = await resetHistoryModule()
     const history = getHistory()
@@ -88,8 +106,7 @@ describe('getHistory', () => {
   })
 
   it('JSON 损坏时应该返回空数组', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue('{invalid json')
+    files.set(HISTORY_FILE, '{invalid json')
 
     const { getHistory } = await resetHistoryModule()
     const history = getHistory()
@@ -97,9 +114,31 @@ describe('getHistory', () => {
     expect(history).toEqual([])
   })
 
+  it('应该跳过损坏的行（如写了一半的最后一行）', async () => {
+    files.set(HISTORY_FILE, toJsonl([{ userPrompt: '旧', command: 'a' }]) + '{"userPrompt":"写了一')
+
+    const { getHistory } = await resetHistoryModule()
+
+    expect(getHistory().map((record) => record.command)).toEqual(['a'])
+  })
+
+  it('应该自动迁移旧版本的 history.json 并保留备份', async () => {
+    files.set(LEGACY_HISTORY_FILE, JSON.stringify([
+      { userPrompt: '新', command: 'b', executed: true, exitCode: 0 },
+      { userPrompt: '旧', command: 'a', executed: true, exitCode: 0 },
+    ]))
+
+    const { getHistory } = await resetHistoryModule()
+
+    expect(getHistory().map((record) => record.command)).toEqual(['b', 'a'])
+    expect(files.has(LEGACY_HISTORY_FILE)).toBe(false)
+    expect(files.has(`${LEGACY_HISTORY_FILE}.bak`)).toBe(true)
+    // 文件中从旧到新
+    expect(files.get(HISTORY_FILE)!.trim().split('\n').map((line) => JSON.parse(line).command)).toEqual(['a', 'b'])
+  })
+
   it('应该包含正确的历史记录字段', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(plsHistory))
+    seedHistory(plsHistory)
 
     const { getHistory } = await resetHistoryModule()
     const history = getHistory()
@@ -129,15 +168,9 @@ describe('getHistory', () => {
 
 describe('addHistory', () => {
   it('应该添加新记录到历史', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([]))
-
-    let writtenContent: string = ''
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      writtenContent = content
-    })
+    seedHistory([])
 
-    const { addHistory } = await resetHistoryModule()
+    const { addHistory, getHistory } = await resetHistoryModule()
     addHistory({
       userPrompt: '测试命令',
       command: 'echo test',
@@ -145,23 +178,17 @@ describe('addHistory', () => {
       exitCode: 0,
     })
 
-    const saved = JSON.parse(writtenContent)
+    const saved = getHistory()
     expect(saved.length).toBe(1)
     expect(saved[0].userPrompt).toBe('测试命令')
     expect(saved[0].command).toBe('echo test')
   })
 
   it('应该添加时间戳', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([]))
-
-    let writtenContent: string = ''
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      writtenContent = content
-    })
+    seedHistory([])
 
     const beforeTime = new Date().toISOString()
-    const { addHistory } = await resetHistoryModule()
+    const { addHistory, getHistory } = await resetHistoryModule()
     addHistory({
       userPrompt: '测试',
       command: 'test',
@@ -170,24 +197,27 @@ describe('addHistory', () => {
     })
     const afterTime = new Date().toISOString()
 
-    const saved = JSON.parse(writtenContent)
+    const saved = getHistory()
     expect(saved[0].timestamp).toBeDefined()
-    expect(saved[0].timestamp >= beforeTime).toBe(true)
-    expect(saved[0].timestamp <= afterTime).toBe(true)
+    expect(saved[0].timestamp! >= beforeTime).toBe(true)
+    expect(saved[0].timestamp! <= afterTime).toBe(true)
+  })
+
+  it('应该记录执行时所在的目录', async () => {
+    seedHistory([])
+
+    const { addHistory, getHistory } = await resetHistoryModule()
+    addHistory({ userPrompt: '测试', command: 'test', executed: true, exitCode: 0 })
+
+    expect(getHistory()[0].cwd).toBe(process.cwd())
   })
 
   it('应该将新记录添加到开头', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([
+    seedHistory([
       { userPrompt: '旧命令', command: 'old', executed: true, exitCode: 0 },
-    ]))
-
-    let writtenContent: string = ''
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      writtenContent = content
-    })
+    ])
 
-    const { addHistory } = await resetHistoryModule()
+    const { addHistory, getHistory } = await resetHistoryModule()
     addHistory({
       userPrompt: '新命令',
       command: 'new',
@@ -195,28 +225,22 @@ describe('addHistory', () => {
       exitCode: 0,
     })
 
-    const saved = JSON.parse(writtenContent)
+    const saved = getHistory()
     expect(saved[0].userPrompt).toBe('新命令')
     expect(saved[1].userPrompt).toBe('旧命令')
   })
 
-  it('应该限制历史记录条数（commandHistoryLimit）', async () => {
-    mockGetConfig.mockReturnValue({ commandHistoryLimit: 3 } as any)
+  it('应该限制保存的历史记录条数（historyRetention）', async () => {
+    mockGetConfig.mockReturnValue({ commandHistoryLimit: 10, historyRetention: 3 } as any)
 
     // 已有 3 条记录
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([
+    seedHistory([
       { userPrompt: '1', command: 'c1', executed: true, exitCode: 0 },
       { userPrompt: '2', command: 'c2', executed: true, exitCode: 0 },
       { userPrompt: '3', command: 'c3', executed: true, exitCode: 0 },
-    ]))
-
-    let writtenContent: string = ''
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      writtenContent = content
-    })
+    ])
 
-    const { addHistory } = await resetHistoryModule()
+    const { addHistory, getHistory } = await resetHistoryModule()
     addHistory({
       userPrompt: '新命令',
       command: 'new',
@@ -224,24 +248,45 @@ describe('addHistory', () => {
       exitCode: 0,
     })
 
-    const saved = JSON.parse(writtenContent)
+    const saved = getHistory()
     expect(saved.length).toBe(3) // 限制为 3 条
     expect(saved[0].userPrompt).toBe('新命令')
     expect(saved[2].userPrompt).toBe('2') // 最旧的被删除
   })
 
-  it('应该截断过长的输出', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([]))
+  it('应该追加到文件末尾，不重写已有记录', async () => {
+    seedHistory([{ userPrompt: '旧命令', command: 'old', executed: true, exitCode: 0 }])
+    const before = files.get(HISTORY_FILE)!
 
-    let writtenContent: string = ''
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      writtenContent = content
-    })
+    const { addHistory } = await resetHistoryModule()
+    addHistory({ userPrompt: '新命令', command: 'new', executed: true, exitCode: 0 })
 
-    const longOutput = 'a'.repeat(1000) // 超过 500 字符
+    const content = files.get(HISTORY_FILE)!
+    expect(content.startsWith(before)).toBe(true)
+    expect(JSON.parse(content.slice(before.length)).command).toBe('new')
+    expect(mockFs.appendFileSync).toHaveBeenCalledTimes(1)
+    expect(mockFs.writeFileSync).not.toHaveBeenCalled()
+  })
+
+  it('超出保存条数较多时应该压缩文件', async () => {
+    mockGetConfig.mockReturnValue({ commandHistoryLimit: 10, historyRetention: 5 } as any)
+    seedHistory(Array.from({ length: 6 }, (_, i) => ({
+      userPrompt: `旧命令${i}`, command: `old${i}`, executed: true, exitCode: 0,
+      timestamp: '2026-10-19T00:00:00.000Z', cwd: '/home/testuser',
+    })))
 
     const { addHistory } = await resetHistoryModule()
+    addHistory({ userPrompt: '新命令', command: 'new', executed: true, exitCode: 0 })
+
+    expect(files.get(HISTORY_FILE)!.trim().split('\n')).toHaveLength(5)
+  })
+
+  it('应该截断过长的输出', async () => {
+    seedHistory([])
+
+    const longOutput = 'a'.repeat(1000) // 超过 500 字符
+
+    const { addHistory, getHistory } = await resetHistoryModule()
     addHistory({
       userPrompt: '测试',
       command: 'test',
@@ -250,21 +295,15 @@ describe('addHistory', () => {
       output: longOutput,
     })
 
-    const saved = JSON.parse(writtenContent)
-    expect(saved[0].output.length).toBeLessThan(longOutput.length)
+    const saved = getHistory()
+    expect(saved[0].output!.length).toBeLessThan(longOutput.length)
     expect(saved[0].output).toContain('...(截断)')
   })
 
   it('应该记录 userModified 标记', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([]))
-
-    let writtenContent: string = ''
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      writtenContent = content
-    })
+    seedHistory([])
 
-    const { addHistory } = await resetHistoryModule()
+    const { addHistory, getHistory } = await resetHistoryModule()
     addHistory({
       userPrompt: '查看目录',
       aiGeneratedCommand: 'ls -la',
@@ -274,22 +313,16 @@ describe('addHistory', () => {
       exitCode: 0,
     })
 
-    const saved = JSON.parse(writtenContent)
+    const saved = getHistory()
     expect(saved[0].userModified).toBe(true)
     expect(saved[0].aiGeneratedCommand).toBe('ls -la')
     expect(saved[0].command).toBe('eza -la')
   })
 
   it('应该记录 builtin 原因', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([]))
-
-    let writtenContent: string = ''
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      writtenContent = content
-    })
+    seedHistory([])
 
-    const { addHistory } = await resetHistoryModule()
+    const { addHistory, getHistory } = await resetHistoryModule()
     addHistory({
       userPrompt: '删除文件',
       command: 'rm -rf *',
@@ -298,10 +331,99 @@ describe('addHistory', () => {
       reason: 'builtin',
     })
 
-    const saved = JSON.parse(writtenContent)
+    const saved = getHistory()
     expect(saved[0].executed).toBe(false)
     expect(saved[0].reason).toBe('builtin')
   })
+
+  it('应该脱敏命令和输出中的敏感信息', async () => {
+    seedHistory([])
+
+    const { addHistory, getHistory } = await resetHistoryModule()
+    addHistory({
+      userPrompt: '连接数据库',
+      command: 'mysql -u root -phunter2 app',
+      executed: true,
+      exitCode: 0,
+      output: 'DB_PASSWORD=hunter2',
+    })
+
+    const saved = getHistory()
+    expect(saved[0].command).toBe('mysql -u root -p[REDACTED] app')
+    expect(saved[0].output).toBe('DB_PASSWORD=[REDACTED]')
+  })
+
+  it('应该记录备选命令并脱敏', async () => {
+    seedHistory([])
+
+    const { addHistory, getHistory } = await resetHistoryModule()
+    addHistory({
+      userPrompt: '备份数据库',
+      command: 'pg_dump app > app.sql',
+      executed: true,
+      exitCode: 0,
+      alternatives: [
+        { command: 'pg_dump app > app.sql', description: 'SQL 文本', chosen: true },
+        { command: 'mysqldump -u root -phunter2 app > app.sql', description: 'MySQL', chosen: false },
+      ],
+    })
+
+    const saved = getHistory()
+    expect(saved[0].alternatives).toHaveLength(2)
+    expect(saved[0].alternatives![0].chosen).toBe(true)
+    expect(saved[0].alternatives![1].command).toBe('mysqldump -u root -p[REDACTED] app > app.sql')
+  })
+
+  it('应该按顺序记录调整过程并脱敏', async () => {
+    seedHistory([])
+
+    const { addHistory, getHistory } = await resetHistoryModule()
+    addHistory({
+      userPrompt: '连接数据库',
+      command: 'mysql -h db app',
+      executed: true,
+      exitCode: 0,
+      refinements: [
+        { command: 'mysql -u root -phunter2 app', feedback: '不要把密码写在命令里' },
+        { command: 'mysql app', feedback: '连 db 这台机器' },
+      ],
+    })
+
+    const saved = getHistory()
+    expect(saved[0].refinements).toEqual([
+      { command: 'mysql -u root -p[REDACTED] app', feedback: '不要把密码写在命令里' },
+      { command: 'mysql app', feedback: '连 db 这台机器' },
+    ])
+  })
+})
+
+// ============================================================================
+// deleteHistory 测试
+// ============================================================================
+
+describe('deleteHistory', () => {
+  const records = [
+    { userPrompt: '新', command: 'ls', executed: true, exitCode: 0, output: '', timestamp: '2026-10-02T00:00:00Z' },
+    { userPrompt: '旧', command: 'pwd', executed: true, exitCode: 0, output: '', timestamp: '2026-10-01T00:00:00Z' },
+  ]
+
+  it('应该只删除匹配的一条记录', async () => {
+    seedHistory(records)
+
+    const { deleteHistory, getHistory } = await resetHistoryModule()
+
+    expect(deleteHistory(records[1])).toBe(true)
+    expect(getHistory().map((record) => record.command)).toEqual(['ls'])
+  })
+
+  it('没有匹配的记录时应该返回 false 并保留原有记录', async () => {
+    seedHistory(records)
+
+    const { deleteHistory, getHistory } = await resetHistoryModule()
+
+    expect(deleteHistory({ ...records[0], timestamp: '2026-10-03T00:00:00Z' })).toBe(false)
+    expect(getHistory()).toHaveLength(2)
+  })
 })
 
 // ============================================================================
@@ -310,18 +432,15 @@ describe('addHistory', () => {
 
 describe('clearHistory', () => {
   it('应该清空历史记录', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-
-    let writtenContent: string = ''
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      writtenContent = content
-    })
+    seedHistory(plsHistory)
+    files.set(LEGACY_HISTORY_FILE, JSON.stringify(plsHistory))
 
-    const { clearHistory } = await resetHistoryModule()
+    const { clearHistory, getHistory } = await resetHistoryModule()
     clearHistory()
 
-    const saved = JSON.parse(writtenContent)
+    const saved = getHistory()
     expect(saved).toEqual([])
+    expect(files.has(LEGACY_HISTORY_FILE)).toBe(false)
   })
 })
 
@@ -331,8 +450,7 @@ describe('clearHistory', () => {
 
 describe('formatHistoryForAI', () => {
   it('应该格式化历史记录为字符串', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([
+    seedHistory([
       {
         userPrompt: '安装 git',
         command: 'brew install git',
@@ -340,7 +458,7 @@ describe('formatHistoryForAI', () => {
         exitCode: 0,
         timestamp: new Date().toISOString(),
       },
-    ]))
+    ])
 
     const { formatHistoryForAI } = await resetHistoryModule()
     const formatted = formatHistoryForAI()
@@ -351,8 +469,7 @@ describe('formatHistoryForAI', () => {
   })
 
   it('空历史应该返回空字符串', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([]))
+    seedHistory([])
 
     const { formatHistoryForAI } = await resetHistoryModule()
     const formatted = formatHistoryForAI()
@@ -360,9 +477,57 @@ describe('formatHistoryForAI', () => {
     expect(formatted).toBe('')
   })
 
+  it('只发送最近 commandHistoryLimit 条，更早的记录仍然保存', async () => {
+    mockGetConfig.mockReturnValue({ commandHistoryLimit: 2 } as any)
+    seedHistory([
+      { userPrompt: '第三条', command: 'c3', executed: true, exitCode: 0 },
+      { userPrompt: '第二条', command: 'c2', executed: true, exitCode: 0 },
+      { userPrompt: '第一条', command: 'c1', executed: true, exitCode: 0 },
+    ])
+
+    const { formatHistoryForAI, getHistory } = await resetHistoryModule()
+    const formatted = formatHistoryForAI()
+
+    expect(formatted).toContain('c3')
+    expect(formatted).toContain('c2')
+    expect(formatted).not.toContain('c1')
+    expect(getHistory()).toHaveLength(3)
+  })
+
+  it('传入当前需求时应该带上相关的更早记录，总条数不变', async () => {
+    mockGetConfig.mockReturnValue({ commandHistoryLimit: 4 } as any)
+    seedHistory([
+      ...Array.from({ length: 6 }, (_, i) => ({ userPrompt: `查看文件${i}`, command: `ls dir${i}`, executed: true, exitCode: 0 })),
+      { userPrompt: '部署到生产环境', command: './deploy.sh prod', executed: true, exitCode: 0 },
+      { userPrompt: '查看文件旧', command: 'ls old', executed: true, exitCode: 0 },
+    ])
+
+    const { formatHistoryForAI } = await resetHistoryModule()
+    const formatted = formatHistoryForAI('像上次那样部署')
+
+    expect(formatted).toContain('【与当前需求相关的更早记录】')
+    expect(formatted).toContain('./deploy.sh prod')
+    expect(formatted).toContain('ls dir0')
+    expect(formatted).toContain('ls dir2')
+    expect(formatted).not.toContain('ls dir3')
+    expect(formatHistoryForAI()).not.toContain('./deploy.sh prod')
+  })
+
+  it('没有相关记录时应该和只发送最近的记录一样', async () => {
+    mockGetConfig.mockReturnValue({ commandHistoryLimit: 2 } as any)
+    seedHistory([
+      { userPrompt: '第三条', command: 'c3', executed: true, exitCode: 0 },
+      { userPrompt: '第二条', command: 'c2', executed: true, exitCode: 0 },
+      { userPrompt: '第一条', command: 'c1', executed: true, exitCode: 0 },
+    ])
+
+    const { formatHistoryForAI } = await resetHistoryModule()
+
+    expect(formatHistoryForAI('重启 nginx')).toBe(formatHistoryForAI())
+  })
+
   it('失败命令应该显示退出码', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([
+    seedHistory([
       {
         userPrompt: '测试',
         command: 'false',
@@ -370,7 +535,7 @@ describe('formatHistoryForAI', () => {
         exitCode: 1,
         timestamp: new Date().toISOString(),
       },
-    ]))
+    ])
 
     const { formatHistoryForAI } = await resetHistoryModule()
     const formatted = formatHistoryForAI()
@@ -380,8 +545,7 @@ describe('formatHistoryForAI', () => {
   })
 
   it('builtin 命令应该标记未执行', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([
+    seedHistory([
       {
         userPrompt: '删除文件',
         command: 'rm -rf *',
@@ -390,7 +554,7 @@ describe('formatHistoryForAI', () => {
         reason: 'builtin',
         timestamp: new Date().toISOString(),
       },
-    ]))
+    ])
 
     const { formatHistoryForAI } = await resetHistoryModule()
     const formatted = formatHistoryForAI()
@@ -400,8 +564,7 @@ describe('formatHistoryForAI', () => {
   })
 
   it('用户修改的命令应该显示 AI 生成和用户修改', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([
+    seedHistory([
       {
         userPrompt: '查看目录',
         aiGeneratedCommand: 'ls -la',
@@ -411,7 +574,7 @@ describe('formatHistoryForAI', () => {
         exitCode: 0,
         timestamp: new Date().toISOString(),
       },
-    ]))
+    ])
 
     const { formatHistoryForAI } = await resetHistoryModule()
     const formatted = formatHistoryForAI()
@@ -422,9 +585,35 @@ describe('formatHistoryForAI', () => {
     expect(formatted).toContain('eza -la')
   })
 
+  it('被中断和超时的命令应该标记原因', async () => {
+    seedHistory([
+      {
+        userPrompt: '压缩日志',
+        command: 'tar czf logs.tgz /var/log',
+        executed: true,
+        exitCode: 130,
+        reason: 'interrupted',
+        timestamp: new Date().toISOString(),
+      },
+      {
+        userPrompt: '下载镜像',
+        command: 'docker pull big-image',
+        executed: true,
+        exitCode: 124,
+        reason: 'timeout',
+        timestamp: new Date().toISOString(),
+      },
+    ])
+
+    const { formatHistoryForAI } = await resetHistoryModule()
+    const formatted = formatHistoryForAI()
+
+    expect(formatted).toContain('✗ 退出码:130 (已中断)')
+    expect(formatted).toContain('✗ 退出码:124 (超时)')
+  })
+
   it('用户取消的命令应该正确标记', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([
+    seedHistory([
       {
         userPrompt: '测试',
         command: 'test',
@@ -432,7 +621,7 @@ describe('formatHistoryForAI', () => {
         exitCode: null,
         timestamp: new Date().toISOString(),
       },
-    ]))
+    ])
 
     const { formatHistoryForAI } = await resetHistoryModule()
     const formatted = formatHistoryForAI()
@@ -441,8 +630,7 @@ describe('formatHistoryForAI', () => {
   })
 
   it('应该包含标题', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([
+    seedHistory([
       {
         userPrompt: '测试',
         command: 'test',
@@ -450,7 +638,7 @@ describe('formatHistoryForAI', () => {
         exitCode: 0,
         timestamp: new Date().toISOString(),
       },
-    ]))
+    ])
 
     const { formatHistoryForAI } = await resetHistoryModule()
     const formatted = formatHistoryForAI()
@@ -459,8 +647,7 @@ describe('formatHistoryForAI', () => {
   })
 
   it('失败命令应该附加输出摘要', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([
+    seedHistory([
       {
         userPrompt: '测试',
         command: 'false',
@@ -469,7 +656,7 @@ describe('formatHistoryForAI', () => {
         output: 'Error: command failed\nsome details',
         timestamp: new Date().toISOString(),
       },
-    ]))
+    ])
 
     const { formatHistoryForAI } = await resetHistoryModule()
     const formatted = formatHistoryForAI()
@@ -477,6 +664,128 @@ describe('formatHistoryForAI', () => {
     expect(formatted).toContain('输出:')
     expect(formatted).toContain('Error: command failed')
   })
+
+  it('应该附加备选方案的选择情况', async () => {
+    seedHistory([
+      {
+        userPrompt: '压缩这个目录',
+        command: 'tar -czf dir.tar.gz dir',
+        executed: true,
+        exitCode: 0,
+        alternatives: [
+          { command: 'tar -czf dir.tar.gz dir', description: 'tar.gz', chosen: true },
+          { command: 'zip -r dir.zip dir', description: 'zip', chosen: false },
+        ],
+        timestamp: new Date().toISOString(),
+      },
+    ])
+
+    const { formatHistoryForAI } = await resetHistoryModule()
+    const formatted = formatHistoryForAI()
+
+    expect(formatted).toContain('备选方案: 选择了「tar.gz」，未选「zip」')
+  })
+
+  it('应该附加命令的调整过程', async () => {
+    seedHistory([
+      {
+        userPrompt: '找出大文件',
+        command: 'find . -maxdepth 1 -size +100M',
+        executed: true,
+        exitCode: 0,
+        refinements: [{ command: 'find . -size +100M', feedback: '只看当前目录，不要递归' }],
+        timestamp: new Date().toISOString(),
+      },
+    ])
+
+    const { formatHistoryForAI } = await resetHistoryModule()
+    const formatted = formatHistoryForAI()
+
+    expect(formatted).toContain('调整过程: find . -size +100M →「只看当前目录，不要递归」→ find . -maxdepth 1 -size +100M')
+  })
+})
+
+// ============================================================================
+// formatRelevantHistoryForAI 测试
+// ============================================================================
+
+describe('formatRelevantHistoryForAI', () => {
+  beforeEach(() => {
+    seedHistory([
+      { userPrompt: '部署到测试环境', command: './deploy.sh test', executed: true, exitCode: 0, timestamp: '2026-10-18T00:00:00Z' },
+      { userPrompt: '部署到生产环境', command: './deploy.sh prod', executed: true, exitCode: 0, timestamp: '2026-10-15T00:00:00Z' },
+      { userPrompt: '查看磁盘', command: 'df -h', executed: true, exitCode: 0, timestamp: '2026-10-14T00:00:00Z' },
+    ])
+  })
+
+  it('应该只返回指定时间之前的相关记录', async () => {
+    const { formatRelevantHistoryForAI } = await resetHistoryModule()
+    const formatted = formatRelevantHistoryForAI('部署', '2026-10-17T00:00:00Z')
+
+    expect(formatted).toContain('./deploy.sh prod')
+    expect(formatted).not.toContain('./deploy.sh test')
+    expect(formatted).not.toContain('df -h')
+  })
+
+  it('没有相关记录或没有需求时应该返回空字符串', async () => {
+    const { formatRelevantHistoryForAI } = await resetHistoryModule()
+
+    expect(formatRelevantHistoryForAI('重启 nginx')).toBe('')
+    expect(formatRelevantHistoryForAI('')).toBe('')
+  })
+})
+
+// ============================================================================
+// formatRefinements 测试
+// ============================================================================
+
+describe('formatRefinements', () => {
+  it('没有调整时返回空字符串', async () => {
+    const { formatRefinements } = await resetHistoryModule()
+    expect(formatRefinements(undefined, 'ls')).toBe('')
+    expect(formatRefinements([], 'ls')).toBe('')
+  })
+
+  it('应该按顺序串起每轮的命令和意见', async () => {
+    const { formatRefinements } = await resetHistoryModule()
+    const trail = formatRefinements(
+      [
+        { command: 'ls -R', feedback: '不要递归' },
+        { command: 'ls', feedback: '显示隐藏文件' },
+      ],
+      'ls -a'
+    )
+
+    expect(trail).toBe('ls -R →「不要递归」→ ls →「显示隐藏文件」→ ls -a')
+  })
+})
+
+// ============================================================================
+// formatAlternativeChoice 测试
+// ============================================================================
+
+describe('formatAlternativeChoice', () => {
+  it('没有备选命令时返回空字符串', async () => {
+    const { formatAlternativeChoice } = await resetHistoryModule()
+    expect(formatAlternativeChoice()).toBe('')
+    expect(formatAlternativeChoice([])).toBe('')
+  })
+
+  it('应该列出选中和未选的方案，没有说明时使用命令', async () => {
+    const { formatAlternativeChoice } = await resetHistoryModule()
+    const choice = formatAlternativeChoice([
+      { command: 'zip -r dir.zip dir', description: '', chosen: false },
+      { command: 'tar -czf dir.tar.gz dir', description: 'tar.gz', chosen: true },
+      { command: 'tar --zstd -cf dir.tar.zst dir', description: 'zstd', chosen: false },
+    ])
+
+    expect(choice).toBe('选择了「tar.gz」，未选「zip -r dir.zip dir」「zstd」')
+  })
+
+  it('都没有选中时应该说明', async () => {
+    const { formatAlternativeChoice } = await resetHistoryModule()
+    expect(formatAlternativeChoice([{ command: 'ls', description: '列出', chosen: false }])).toBe('都没有选，未选「列出」')
+  })
 })
 
 // ============================================================================
@@ -491,7 +800,7 @@ describe('getHistoryFilePath', () => {
     const path = getHistoryFilePath()
 
     expect(path).toContain('.please')
-    expect(path).toContain('history.json')
+    expect(path).toContain('history.jsonl')
   })
 })
 
@@ -501,8 +810,7 @@ describe('getHistoryFilePath', () => {
 
 describe('时间显示', () => {
   it('刚刚执行的命令应该显示"刚刚"', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([
+    seedHistory([
       {
         userPrompt: '测试',
         command: 'test',
@@ -510,7 +818,7 @@ describe('时间显示', () => {
         exitCode: 0,
         timestamp: new Date().toISOString(),
       },
-    ]))
+    ])
 
     const { formatHistoryForAI } = await resetHistoryModule()
     const formatted = formatHistoryForAI()
@@ -519,8 +827,7 @@ describe('时间显示', () => {
   })
 
   it('没有时间戳的记录应该显示"未知"', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([
+    seedHistory([
       {
         userPrompt: '测试',
         command: 'test',
@@ -528,7 +835,7 @@ describe('时间显示', () => {
         exitCode: 0,
         // 没有 timestamp
       },
-    ]))
+    ])
 
     const { formatHistoryForAI } = await resetHistoryModule()
     const formatted = formatHistoryForAI()
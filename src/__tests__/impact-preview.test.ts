@@ -0,0 +1,136 @@
+/**
+ * 文件系统影响预览测试
+ * 测试预览脚本的构建、输出解析，以及在真实目录中统计 rm / mv / find -delete 的影响范围
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { buildImpactScript, parseImpactOutput, previewImpact, formatSize } from '../impact-preview.js'
+
+// ============================================================================
+// buildImpactScript
+// ============================================================================
+
+describe('buildImpactScript', () => {
+  it('rm 应保留通配符交给 shell 展开', () => {
+    const script = buildImpactScript('rm -rf dist/* "build dir"')
+    expect(script).toContain('du -sk -- dist/* "build dir"')
+  })
+
+  it('mv 不统计最后的目标路径', () => {
+    expect(buildImpactScript('mv *.jpg archive/')).toContain('du -sk -- *.jpg;')
+    expect(buildImpactScript('mv -t archive/ a.jpg b.jpg')).toContain('du -sk -- a.jpg b.jpg;')
+  })
+
+  it('find -delete 应替换为 du', () => {
+    const script = buildImpactScript(`find . -name '*.log' -delete`)
+    expect(script).toContain(`find . -name '*.log' -exec du -sk {} +`)
+    expect(script).not.toContain('-delete')
+  })
+
+  it('find -exec rm 应替换为 du', () => {
+    const script = buildImpactScript('find /tmp -mtime +7 -exec rm -rf {} \\; -o -name x')
+    expect(script).toContain('find /tmp -mtime +7 -exec du -sk {} + -o -name x')
+    expect(script).not.toContain('rm')
+  })
+
+  it('多个命令应合并统计', () => {
+    const script = buildImpactScript('rm -rf dist && rm -rf build')
+    expect(script).toContain('du -sk -- dist; du -sk -- build;')
+  })
+
+  it('不删除 / 移动文件的命令不需要预览', () => {
+    expect(buildImpactScript('ls -la')).toBeNull()
+    expect(buildImpactScript(`find . -name '*.log'`)).toBeNull()
+    expect(buildImpactScript('rm -rf')).toBeNull()
+  })
+
+  it('无法安全预览时返回 null', () => {
+    expect(buildImpactScript('rm -rf $(cat list.txt)')).toBeNull()
+    expect(buildImpactScript('find . -name "*.tmp" | xargs rm')).toBeNull()
+    expect(buildImpactScript('find . -exec chmod 644 {} \\; -delete')).toBeNull()
+    expect(buildImpactScript('cd build && rm -rf *')).toBeNull()
+  })
+})
+
+// ============================================================================
+// parseImpactOutput
+// ============================================================================
+
+describe('parseImpactOutput', () => {
+  it('应解析路径和汇总行', () => {
+    expect(parseImpactOutput('4\tdist/a.js\n8\tdist/my file.js\n12 1536\n')).toEqual({
+      count: 12,
+      totalBytes: 1536 * 1024,
+      paths: ['dist/a.js', 'dist/my file.js'],
+    })
+  })
+
+  it('没有匹配时数量为 0', () => {
+    expect(parseImpactOutput('0 0\n')).toEqual({ count: 0, totalBytes: 0, paths: [] })
+  })
+
+  it('输出格式不对时返回 null', () => {
+    expect(parseImpactOutput('')).toBeNull()
+    expect(parseImpactOutput('du: command not found')).toBeNull()
+  })
+})
+
+// ============================================================================
+// formatSize
+// ============================================================================
+
+describe('formatSize', () => {
+  it('应使用合适的单位', () => {
+    expect(formatSize(0)).toBe('0 B')
+    expect(formatSize(2048)).toBe('2.0 KB')
+    expect(formatSize(1.5 * 1024 * 1024)).toBe('1.5 MB')
+  })
+})
+
+// ============================================================================
+// previewImpact（本地执行）
+// ============================================================================
+
+describe.skipIf(process.platform === 'win32')('previewImpact', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pls-impact-'))
+    fs.mkdirSync(path.join(dir, 'logs'))
+    for (const name of ['a.log', 'b.log', 'c.txt']) {
+      fs.writeFileSync(path.join(dir, 'logs', name), 'x'.repeat(4096))
+    }
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('应展开通配符统计 rm 的影响', async () => {
+    const summary = await previewImpact('rm logs/*.log', { cwd: dir })
+    expect(summary?.count).toBe(2)
+    expect(summary?.paths).toEqual(['logs/a.log', 'logs/b.log'])
+    expect(summary?.totalBytes).toBeGreaterThan(0)
+  })
+
+  it('find -delete 只统计不删除', async () => {
+    const summary = await previewImpact(`find . -name '*.log' -delete`, { cwd: dir })
+    expect(summary?.count).toBe(2)
+    expect(fs.existsSync(path.join(dir, 'logs', 'a.log'))).toBe(true)
+  })
+
+  it('应限制返回的路径数', async () => {
+    const summary = await previewImpact('mv logs/* /tmp/', { cwd: dir, limit: 1 })
+    expect(summary?.count).toBe(3)
+    expect(summary?.paths).toHaveLength(1)
+    expect(fs.readdirSync(path.join(dir, 'logs'))).toHaveLength(3)
+  })
+
+  it('没有匹配的文件时数量为 0', async () => {
+    const summary = await previewImpact('rm -f logs/*.bak', { cwd: dir })
+    expect(summary).toEqual({ count: 0, totalBytes: 0, paths: [] })
+  })
+})
@@ -0,0 +1,154 @@
+/**
+ * 多步骤命令生成测试
+ * 测试备选命令数量的解析、AI 返回结果的整理、调整命令时的对话消息，以及任务计划的整理
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../mastra-agent.js', () => ({
+  createShellAgent: vi.fn(),
+}))
+
+import {
+  parseAlternativeCount,
+  normalizeAlternatives,
+  buildCommandMessages,
+  normalizePlanSteps,
+  replacePlanRemainder,
+  DEFAULT_ALTERNATIVES,
+  MAX_ALTERNATIVES,
+  MAX_PLAN_STEPS,
+} from '../multi-step.js'
+import { formatTaskPlan, buildPlanRequest } from '../prompts.js'
+
+/**
+ * 构造备选命令
+ */
+function alternative(command: string, description = '') {
+  return { command, description, continue: false, reasoning: '', nextStepHint: '' }
+}
+
+// ============================================================================
+// parseAlternativeCount
+// ============================================================================
+
+describe('parseAlternativeCount', () => {
+  it('不带数量时使用默认值', () => {
+    expect(parseAlternativeCount(true)).toBe(DEFAULT_ALTERNATIVES)
+  })
+
+  it('应该解析数量', () => {
+    expect(parseAlternativeCount('2')).toBe(2)
+    expect(parseAlternativeCount(String(MAX_ALTERNATIVES))).toBe(MAX_ALTERNATIVES)
+  })
+
+  it('数量超出范围或不是整数时抛出错误', () => {
+    expect(() => parseAlternativeCount('1')).toThrow('--alternatives')
+    expect(() => parseAlternativeCount(String(MAX_ALTERNATIVES + 1))).toThrow('--alternatives')
+    expect(() => parseAlternativeCount('2.5')).toThrow('--alternatives')
+    expect(() => parseAlternativeCount('压缩')).toThrow('--alternatives')
+  })
+})
+
+// ============================================================================
+// normalizeAlternatives
+// ============================================================================
+
+describe('normalizeAlternatives', () => {
+  it('应该去掉空命令和重复命令', () => {
+    const result = normalizeAlternatives(
+      [alternative('tar -czf a.tar.gz a', 'tar.gz'), alternative('  '), alternative(' tar -czf a.tar.gz a '), alternative('zip -r a.zip a', 'zip')],
+      3
+    )
+
+    expect(result.map((item) => item.command)).toEqual(['tar -czf a.tar.gz a', 'zip -r a.zip a'])
+    expect(result[1].description).toBe('zip')
+  })
+
+  it('最多保留指定数量', () => {
+    const result = normalizeAlternatives([alternative('a'), alternative('b'), alternative('c')], 2)
+    expect(result).toHaveLength(2)
+  })
+
+  it('AI 没有返回数组时返回空数组', () => {
+    expect(normalizeAlternatives(undefined as any, 3)).toEqual([])
+  })
+})
+
+// ============================================================================
+// buildCommandMessages
+// ============================================================================
+
+describe('buildCommandMessages', () => {
+  it('没有调整时只有一条 User Message', () => {
+    expect(buildCommandMessages('<user_request>看看文件</user_request>')).toEqual([
+      { role: 'user', content: '<user_request>看看文件</user_request>' },
+    ])
+  })
+
+  it('每轮调整应追加被拒绝的命令和修改意见', () => {
+    const messages = buildCommandMessages('context', [
+      { command: 'find . -name "*.log"', feedback: '只看当前目录' },
+      { command: 'ls *.log', feedback: '按大小排序' },
+    ])
+
+    expect(messages.map((message) => message.role)).toEqual(['user', 'assistant', 'user', 'assistant', 'user'])
+    expect(JSON.parse(messages[1].content)).toEqual({ command: 'find . -name "*.log"' })
+    expect(messages[2].content).toContain('<refinement_feedback>\n只看当前目录\n</refinement_feedback>')
+    expect(messages[4].content).toContain('按大小排序')
+  })
+
+  it('修改意见中的敏感信息应脱敏', () => {
+    const messages = buildCommandMessages('context', [{ command: 'psql', feedback: '改成 mysql -u root -phunter2 app' }])
+    expect(messages[2].content).not.toContain('hunter2')
+  })
+})
+
+// ============================================================================
+// 任务计划
+// ============================================================================
+
+describe('normalizePlanSteps', () => {
+  it('应去掉空白步骤', () => {
+    const steps = ['  检查磁盘 ', '', '   ', '清理日志'].map((description) => ({ description }))
+    expect(normalizePlanSteps(steps)).toEqual(['检查磁盘', '清理日志'])
+  })
+
+  it(`最多保留 ${MAX_PLAN_STEPS} 步`, () => {
+    const steps = Array.from({ length: MAX_PLAN_STEPS + 3 }, (_, i) => ({ description: `步骤 ${i}` }))
+    expect(normalizePlanSteps(steps)).toHaveLength(MAX_PLAN_STEPS)
+  })
+})
+
+describe('replacePlanRemainder', () => {
+  it('应保留已完成的步骤，替换当前及之后的步骤', () => {
+    const plan = { steps: ['检查', '构建', '推送', '启动'], current: 1 }
+    expect(replacePlanRemainder(plan, ['安装依赖', '构建', '启动'])).toEqual({
+      steps: ['检查', '安装依赖', '构建', '启动'],
+      current: 1,
+    })
+  })
+})
+
+describe('formatTaskPlan', () => {
+  it('应标记已完成和当前步骤', () => {
+    expect(formatTaskPlan({ steps: ['检查', '构建', '启动'], current: 1 })).toBe(
+      '1. [已完成] 检查\n2. [当前] 构建\n3. 启动'
+    )
+  })
+})
+
+describe('buildPlanRequest', () => {
+  it('首次规划只要求返回步骤', () => {
+    const request = buildPlanRequest()
+    expect(request).toContain('<plan_request>')
+    expect(request).toContain('"steps"')
+    expect(request).not.toContain('当前计划')
+  })
+
+  it('重新规划时应带上当前计划和失败的步骤', () => {
+    const request = buildPlanRequest({ steps: ['检查', '构建'], current: 1 })
+    expect(request).toContain('2. [当前] 构建')
+    expect(request).toContain('第 2 步执行失败')
+  })
+})
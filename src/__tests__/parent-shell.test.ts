@@ -0,0 +1,107 @@
+/**
+ * 父 shell 命令交接模块测试
+ * 测试包装函数环境变量检测、脚本构建和命令文件写入
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  PARENT_CMD_FILE_ENV,
+  canEmitToParentShell,
+  buildParentShellScript,
+  emitToParentShell,
+} from '../parent-shell.js'
+
+let tmpDir: string
+let cmdFile: string
+const originalEnv = process.env[PARENT_CMD_FILE_ENV]
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pls-parent-test-'))
+  cmdFile = path.join(tmpDir, 'cmd')
+  delete process.env[PARENT_CMD_FILE_ENV]
+})
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true })
+  if (originalEnv === undefined) {
+    delete process.env[PARENT_CMD_FILE_ENV]
+  } else {
+    process.env[PARENT_CMD_FILE_ENV] = originalEnv
+  }
+})
+
+// ============================================================================
+// canEmitToParentShell
+// ============================================================================
+
+describe('canEmitToParentShell', () => {
+  it('未设置环境变量时应返回 false', () => {
+    expect(canEmitToParentShell()).toBe(false)
+  })
+
+  it('命令文件存在时应返回 true', () => {
+    fs.writeFileSync(cmdFile, '')
+    process.env[PARENT_CMD_FILE_ENV] = cmdFile
+    expect(canEmitToParentShell()).toBe(true)
+  })
+
+  it('命令文件不存在时应返回 false', () => {
+    process.env[PARENT_CMD_FILE_ENV] = cmdFile
+    expect(canEmitToParentShell()).toBe(false)
+  })
+
+  it('相对路径应被拒绝', () => {
+    process.env[PARENT_CMD_FILE_ENV] = 'relative/cmd'
+    expect(canEmitToParentShell()).toBe(false)
+  })
+})
+
+// ============================================================================
+// buildParentShellScript
+// ============================================================================
+
+describe('buildParentShellScript', () => {
+  it('没有 cwd 时应原样输出命令', () => {
+    expect(buildParentShellScript('cd ~/projects/app')).toBe('cd ~/projects/app\n')
+  })
+
+  it('cwd 与当前目录相同时不应切换目录', () => {
+    expect(buildParentShellScript('export FOO=1', process.cwd())).toBe('export FOO=1\n')
+  })
+
+  it('cwd 不同时应先切换目录', () => {
+    expect(buildParentShellScript('source .venv/bin/activate', '/tmp/my app')).toBe(
+      "cd -- '/tmp/my app' && source .venv/bin/activate\n"
+    )
+  })
+
+  it('cwd 中的单引号应被转义', () => {
+    expect(buildParentShellScript('ls', "/tmp/it's")).toBe("cd -- '/tmp/it'\\''s' && ls\n")
+  })
+})
+
+// ============================================================================
+// emitToParentShell
+// ============================================================================
+
+describe('emitToParentShell', () => {
+  it('应把命令写入包装函数提供的文件', () => {
+    fs.writeFileSync(cmdFile, '')
+    process.env[PARENT_CMD_FILE_ENV] = cmdFile
+
+    expect(emitToParentShell('cd /var/log')).toBe(true)
+    expect(fs.readFileSync(cmdFile, 'utf-8')).toBe('cd /var/log\n')
+  })
+
+  it('未通过包装函数启动时应返回 false', () => {
+    expect(emitToParentShell('cd /var/log')).toBe(false)
+  })
+
+  it('写入失败时应返回 false', () => {
+    process.env[PARENT_CMD_FILE_ENV] = path.join(tmpDir, 'missing-dir', 'cmd')
+    expect(emitToParentShell('cd /var/log')).toBe(false)
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * 执行策略测试
+ * 测试策略文件的查找和解析、规则匹配、优先级，以及供 AI 使用的格式化
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+// 全局策略放到临时目录中
+const { configDir } = vi.hoisted(() => {
+  const fs = require('fs') as typeof import('fs')
+  const os = require('os') as typeof import('os')
+  const path = require('path') as typeof import('path')
+  return { configDir: fs.mkdtempSync(path.join(os.tmpdir(), 'pls-policy-config-')) }
+})
+
+vi.mock('../config.js', () => ({
+  CONFIG_DIR: configDir,
+}))
+
+import { loadPolicy, checkCommandPolicy, formatPolicyDecision, formatPolicyForAI, POLICY_FILE_NAME } from '../policy.js'
+
+let root: string
+let project: string
+
+/**
+ * 写入策略文件
+ */
+function writePolicy(dir: string, policy: unknown, name: string = POLICY_FILE_NAME): void {
+  fs.writeFileSync(path.join(dir, name), typeof policy === 'string' ? policy : JSON.stringify(policy))
+}
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'pls-policy-'))
+  project = path.join(root, 'repo', 'src')
+  fs.mkdirSync(project, { recursive: true })
+})
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true })
+  fs.rmSync(path.join(configDir, 'policy.json'), { force: true })
+})
+
+// ============================================================================
+// loadPolicy
+// ============================================================================
+
+describe('loadPolicy', () => {
+  it('没有策略文件时返回空数组', () => {
+    expect(loadPolicy(project)).toEqual([])
+  })
+
+  it('应从当前目录逐级向上查找，全局策略在最后', () => {
+    writePolicy(path.join(root, 'repo'), { deny: ['kubectl delete'] })
+    writePolicy(project, { confirm: ['docker system prune'] })
+    writePolicy(configDir, { deny: ['git push --force'] }, 'policy.json')
+
+    const policy = loadPolicy(project)
+    expect(policy.map((rules) => rules[0].pattern)).toEqual(['docker system prune', 'kubectl delete', 'git push --force'])
+    expect(policy[1][0].source).toBe(path.join(root, 'repo', POLICY_FILE_NAME))
+  })
+
+  it('应支持带原因的规则', () => {
+    writePolicy(project, { deny: [{ pattern: 'kubectl delete', reason: '生产环境' }] })
+    expect(loadPolicy(project)[0][0]).toMatchObject({ pattern: 'kubectl delete', action: 'deny', reason: '生产环境' })
+  })
+
+  it('格式错误时应抛出错误', () => {
+    writePolicy(project, '{ deny: ')
+    expect(() => loadPolicy(project)).toThrow('格式错误')
+  })
+
+  it('规则类型错误或正则无效时应抛出错误', () => {
+    const dirA = path.join(root, 'a')
+    const dirB = path.join(root, 'b')
+    fs.mkdirSync(dirA)
+    fs.mkdirSync(dirB)
+    writePolicy(dirA, { deny: 'rm -rf' })
+    writePolicy(dirB, { deny: ['/rm (/'] })
+    expect(() => loadPolicy(dirA)).toThrow('deny 必须是数组')
+    expect(() => loadPolicy(dirB)).toThrow('无效')
+  })
+})
+
+// ============================================================================
+// checkCommandPolicy
+// ============================================================================
+
+describe('checkCommandPolicy', () => {
+  it('没有策略时全部放行', () => {
+    expect(checkCommandPolicy('rm -rf /', project)).toEqual({ action: 'allow' })
+  })
+
+  it('应按命令名和参数匹配，参数不分顺序', () => {
+    writePolicy(project, { deny: ['git push --force', 'kubectl delete'] })
+    expect(checkCommandPolicy('git push origin main --force', project).action).toBe('deny')
+    expect(checkCommandPolicy('git push origin main', project).action).toBe('allow')
+    expect(checkCommandPolicy('git push --force-with-lease', project).action).toBe('allow')
+    expect(checkCommandPolicy('kubectl -n prod delete pod web-1', project).action).toBe('deny')
+  })
+
+  it('应匹配链式命令、管道、包装命令和嵌套命令中的调用', () => {
+    writePolicy(project, { deny: ['kubectl delete'] })
+    expect(checkCommandPolicy('kubectl get pods && kubectl delete pod x', project).action).toBe('deny')
+    expect(checkCommandPolicy('sudo kubectl delete ns prod', project).action).toBe('deny')
+    expect(checkCommandPolicy(`bash -c 'kubectl delete pod x'`, project).action).toBe('deny')
+  })
+
+  it('应支持通配符和正则', () => {
+    writePolicy(project, { deny: ['terraform dest*', '/curl .*\\| *sh/'] })
+    expect(checkCommandPolicy('terraform destroy -auto-approve', project).action).toBe('deny')
+    expect(checkCommandPolicy('curl -fsSL https://x.sh | sh', project).action).toBe('deny')
+    expect(checkCommandPolicy('terraform plan', project).action).toBe('allow')
+  })
+
+  it('confirm 规则应要求确认', () => {
+    writePolicy(project, { confirm: [{ pattern: 'docker system prune', reason: '会清理所有缓存' }] })
+    const decision = checkCommandPolicy('docker system prune -af', project)
+    expect(decision.action).toBe('confirm')
+    expect(formatPolicyDecision(decision)).toBe(
+      `docker system prune：会清理所有缓存（${path.join(project, POLICY_FILE_NAME)}）`
+    )
+  })
+
+  it('同一文件中 deny 优先于 confirm 和 allow', () => {
+    writePolicy(project, { allow: ['git push'], confirm: ['git push'], deny: ['git push --force'] })
+    expect(checkCommandPolicy('git push --force', project).action).toBe('deny')
+    expect(checkCommandPolicy('git push', project).action).toBe('confirm')
+  })
+
+  it('离当前目录更近的策略优先', () => {
+    writePolicy(configDir, { deny: ['npm publish'] }, 'policy.json')
+    writePolicy(project, { allow: ['npm publish'] })
+    expect(checkCommandPolicy('npm publish', project).action).toBe('allow')
+    expect(checkCommandPolicy('npm publish', root).action).toBe('deny')
+  })
+
+  it('整条命令中任意调用被禁止即禁止', () => {
+    writePolicy(project, { confirm: ['docker system prune'], deny: ['kubectl delete'] })
+    expect(checkCommandPolicy('docker system prune; kubectl delete pod x', project).action).toBe('deny')
+  })
+})
+
+// ============================================================================
+// formatPolicyForAI
+// ============================================================================
+
+describe('formatPolicyForAI', () => {
+  it('没有策略时返回空字符串', () => {
+    expect(formatPolicyForAI(project)).toBe('')
+  })
+
+  it('应列出禁止和需要确认的命令', () => {
+    writePolicy(project, { deny: [{ pattern: 'kubectl delete', reason: '生产环境' }], confirm: ['docker system prune'] })
+    const result = formatPolicyForAI(project)
+    expect(result).toContain('【执行策略】')
+    expect(result).toContain('禁止: kubectl delete（生产环境）')
+    expect(result).toContain('需用户确认: docker system prune')
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * PTY 执行模块测试
+ * 测试终端输出清理、退出码换算和一次性 PTY 执行
+ */
+
+import { describe, it, expect } from 'vitest'
+import { cleanTerminalOutput, toExitCode, loadPty, runInPty } from '../pty.js'
+
+const ptyAvailable = process.platform !== 'win32' && (await loadPty()) !== null
+
+// ============================================================================
+// cleanTerminalOutput
+// ============================================================================
+
+describe('cleanTerminalOutput', () => {
+  it('应去掉颜色序列', () => {
+    expect(cleanTerminalOutput('\x1b[1;31merror\x1b[0m: failed')).toBe('error: failed')
+  })
+
+  it('应把 \\r\\n 统一为 \\n', () => {
+    expect(cleanTerminalOutput('a\r\nb\r\n')).toBe('a\nb\n')
+  })
+
+  it('进度条的 \\r 覆盖只保留最后一次', () => {
+    expect(cleanTerminalOutput('下载 10%\r下载 50%\r下载 100%\r\n完成\r\n')).toBe('下载 100%\n完成\n')
+  })
+
+  it('应去掉 OSC 标题序列', () => {
+    expect(cleanTerminalOutput('\x1b]0;my title\x07hello')).toBe('hello')
+  })
+
+  it('应去掉备用屏幕中的全屏内容', () => {
+    const raw = 'before\r\n\x1b[?1049h\x1b[H\x1b[2Jhtop screen\x1b[?1049lafter\r\n'
+    expect(cleanTerminalOutput(raw)).toBe('before\nafter\n')
+  })
+
+  it('应去掉光标移动和其他控制字符', () => {
+    expect(cleanTerminalOutput('\x1b[2K\x1b[1Gline\x07\n')).toBe('line\n')
+  })
+
+  it('普通文本应保持不变', () => {
+    expect(cleanTerminalOutput('total 8\n-rw-r--r-- 1 user  file.txt\n')).toBe('total 8\n-rw-r--r-- 1 user  file.txt\n')
+  })
+})
+
+// ============================================================================
+// toExitCode
+// ============================================================================
+
+describe('toExitCode', () => {
+  it('正常退出应返回原退出码', () => {
+    expect(toExitCode(0)).toBe(0)
+    expect(toExitCode(2)).toBe(2)
+  })
+
+  it('被信号终止时应返回 128 + 信号值', () => {
+    expect(toExitCode(0, 2)).toBe(130)
+    expect(toExitCode(0, 15)).toBe(143)
+  })
+})
+
+// ============================================================================
+// runInPty
+// ============================================================================
+
+describe.skipIf(!ptyAvailable)('runInPty', () => {
+  it('命令应运行在终端中并捕获输出', async () => {
+    const result = await runInPty('/bin/sh', ['-c', '[ -t 1 ] && echo tty; exit 3'])
+    expect(result).not.toBeNull()
+    expect(result!.exitCode).toBe(3)
+    expect(result!.output).toBe('tty\n')
+  })
+
+  it('应通过回调转发原始输出', async () => {
+    const chunks: string[] = []
+    await runInPty('/bin/sh', ['-c', 'echo hello'], { onData: (data) => chunks.push(data) })
+    expect(chunks.join('')).toContain('hello')
+  })
+
+  it('超时应中断命令并返回退出码 124', async () => {
+    const result = await runInPty('/bin/sh', ['-c', 'sleep 5'], { timeout: 200 })
+    expect(result!.timedOut).toBe(true)
+    expect(result!.exitCode).toBe(124)
+  })
+
+  it('中止信号应中断命令并返回退出码 130', async () => {
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 200)
+    const result = await runInPty('/bin/sh', ['-c', 'sleep 5'], { signal: controller.signal })
+    expect(result!.timedOut).toBe(false)
+    expect(result!.exitCode).toBe(130)
+  })
+})
@@ -3,7 +3,8 @@
  * 测试远程命令历史的读写、Shell 历史获取、格式化等功能
  */
 
-import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest'
+import { useMemoryFs, toJsonl } from '../../tests/helpers/mocks'
 
 // Mock fs 模块
 vi.mock('fs', () => ({
@@ -11,8 +12,14 @@ vi.mock('fs', () => ({
     existsSync: vi.fn(),
     readFileSync: vi.fn(),
     writeFileSync: vi.fn(),
+    appendFileSync: vi.fn(),
     mkdirSync: vi.fn(),
     unlinkSync: vi.fn(),
+    renameSync: vi.fn(),
+    rmSync: vi.fn(),
+    openSync: vi.fn(),
+    closeSync: vi.fn(),
+    statSync: vi.fn(),
   },
 }))
 
@@ -72,14 +79,35 @@ const mockGetConfig = vi.mocked(getConfig)
 const mockSshExec = vi.mocked(sshExec)
 const mockGetRemote = vi.mocked(getRemote)
 
+const REMOTE_HISTORY_FILE = '/home/testuser/.please/remotes/server1/history.jsonl'
+const LEGACY_REMOTE_HISTORY_FILE = '/home/testuser/.please/remotes/server1/history.json'
+
 // 模块状态重置辅助
 async function resetRemoteHistoryModule() {
   vi.resetModules()
   return await import('../remote-history.js')
 }
 
+// 命令历史读写走内存文件系统（shell 历史的测试直接 mock readFileSync）
+let files: Map<string, string>
+
+/**
+ * 写入远程命令历史（从旧到新）
+ */
+function seedRemoteHistory(records: unknown[]) {
+  files.set(REMOTE_HISTORY_FILE, toJsonl(records))
+}
+
+function useRemoteHistoryFs() {
+  beforeEach(() => {
+    files = useMemoryFs(mockFs)
+  })
+}
+
 beforeEach(() => {
   vi.clearAllMocks()
+  // 命令历史的测试换成了内存文件系统，这里还原
+  Object.values(mockFs).forEach((fn) => (fn as Mock).mockReset())
   mockGetConfig.mockReturnValue({
     commandHistoryLimit: 10,
     shellHistoryLimit: 15,
@@ -102,6 +130,8 @@ afterEach(() => {
 // ============================================================================
 
 describe('getRemoteHistory', () => {
+  useRemoteHistoryFs()
+
   it('应该返回远程命令历史数组', async () => {
     const mockHistory = [
       {
@@ -113,8 +143,7 @@ describe('getRemoteHistory', () => {
         timestamp: '2024-01-01T00:00:00.000Z',
       },
     ]
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(mockHistory))
+    seedRemoteHistory(mockHistory)
 
     const { getRemoteHistory } = await resetRemoteHistoryModule()
     const history = getRemoteHistory('server1')
@@ -124,8 +153,6 @@ describe('getRemoteHistory', () => {
   })
 
   it('文件不存在时应该返回空数组', async () => {
-    mockFs.existsSync.mockReturnValue(false)
-
     const { getRemoteHistory } = await resetRemoteHistoryModule()
     const history = getRemoteHistory('server1')
 
@@ -133,14 +160,26 @@ describe('getRemoteHistory', () => {
   })
 
   it('JSON 损坏时应该返回空数组', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue('{invalid json')
+    files.set(REMOTE_HISTORY_FILE, '{invalid json')
 
     const { getRemoteHistory } = await resetRemoteHistoryModule()
     const history = getRemoteHistory('server1')
 
     expect(history).toEqual([])
   })
+
+  it('应该自动迁移旧版本的 history.json', async () => {
+    files.set(LEGACY_REMOTE_HISTORY_FILE, JSON.stringify([
+      { userPrompt: '1', command: 'c1', executed: true, exitCode: 0, output: '' },
+      { userPrompt: '2', command: 'c2', executed: true, exitCode: 0, output: '' },
+    ]))
+
+    const { getRemoteHistory } = await resetRemoteHistoryModule()
+
+    expect(getRemoteHistory('server1').map((item) => item.command)).toEqual(['c1', 'c2'])
+    expect(files.has(LEGACY_REMOTE_HISTORY_FILE)).toBe(false)
+    expect(files.has(`${LEGACY_REMOTE_HISTORY_FILE}.bak`)).toBe(true)
+  })
 })
 
 // ============================================================================
@@ -148,15 +187,10 @@ describe('getRemoteHistory', () => {
 // ============================================================================
 
 describe('addRemoteHistory', () => {
-  it('应该添加远程命令历史记录', async () => {
-    mockFs.existsSync.mockReturnValue(false) // 历史文件不存在
+  useRemoteHistoryFs()
 
-    let writtenContent: string = ''
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      writtenContent = content
-    })
-
-    const { addRemoteHistory } = await resetRemoteHistoryModule()
+  it('应该添加远程命令历史记录', async () => {
+    const { addRemoteHistory, getRemoteHistory } = await resetRemoteHistoryModule()
     addRemoteHistory('server1', {
       userPrompt: '检查磁盘',
       command: 'df -h',
@@ -165,15 +199,13 @@ describe('addRemoteHistory', () => {
       output: 'Filesystem      Size  Used',
     })
 
-    const saved = JSON.parse(writtenContent)
+    const saved = getRemoteHistory('server1')
     expect(saved).toHaveLength(1)
     expect(saved[0].command).toBe('df -h')
     expect(saved[0].timestamp).toBeDefined()
   })
 
   it('应该创建服务器目录（如果不存在）', async () => {
-    mockFs.existsSync.mockReturnValue(false)
-
     const { addRemoteHistory } = await resetRemoteHistoryModule()
     addRemoteHistory('server1', {
       userPrompt: '测试',
@@ -189,22 +221,16 @@ describe('addRemoteHistory', () => {
     )
   })
 
-  it('应该限制历史数量（commandHistoryLimit）', async () => {
-    mockGetConfig.mockReturnValue({ commandHistoryLimit: 2 } as any)
+  it('应该限制保存的历史数量（historyRetention）', async () => {
+    mockGetConfig.mockReturnValue({ historyRetention: 2 } as any)
 
     const existingHistory = [
       { userPrompt: '1', command: 'c1', executed: true, exitCode: 0, output: '', timestamp: '2024-01-01' },
       { userPrompt: '2', command: 'c2', executed: true, exitCode: 0, output: '', timestamp: '2024-01-02' },
     ]
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(existingHistory))
-
-    let writtenContent: string = ''
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      writtenContent = content
-    })
+    seedRemoteHistory(existingHistory)
 
-    const { addRemoteHistory } = await resetRemoteHistoryModule()
+    const { addRemoteHistory, getRemoteHistory } = await resetRemoteHistoryModule()
     addRemoteHistory('server1', {
       userPrompt: '3',
       command: 'c3',
@@ -213,21 +239,14 @@ describe('addRemoteHistory', () => {
       output: '',
     })
 
-    const saved = JSON.parse(writtenContent)
+    const saved = getRemoteHistory('server1')
     expect(saved).toHaveLength(2)
     expect(saved[0].command).toBe('c2') // 最早的被删除
     expect(saved[1].command).toBe('c3')
   })
 
   it('应该记录 userModified 和 aiGeneratedCommand', async () => {
-    mockFs.existsSync.mockReturnValue(false)
-
-    let writtenContent: string = ''
-    mockFs.writeFileSync.mockImplementation((path: any, content: any) => {
-      writtenContent = content
-    })
-
-    const { addRemoteHistory } = await resetRemoteHistoryModule()
+    const { addRemoteHistory, getRemoteHistory } = await resetRemoteHistoryModule()
     addRemoteHistory('server1', {
       userPrompt: '检查磁盘',
       command: 'df -h /home',
@@ -238,34 +257,56 @@ describe('addRemoteHistory', () => {
       output: '',
     })
 
-    const saved = JSON.parse(writtenContent)
+    const saved = getRemoteHistory('server1')
     expect(saved[0].userModified).toBe(true)
     expect(saved[0].aiGeneratedCommand).toBe('df -h')
     expect(saved[0].command).toBe('df -h /home')
   })
 })
 
+// ============================================================================
+// deleteRemoteHistory 测试
+// ============================================================================
+
+describe('deleteRemoteHistory', () => {
+  useRemoteHistoryFs()
+
+  it('应该只删除匹配的一条记录', async () => {
+    const records = [
+      { userPrompt: '1', command: 'c1', executed: true, exitCode: 0, output: '', timestamp: '2026-10-01T00:00:00Z' },
+      { userPrompt: '2', command: 'c2', executed: true, exitCode: 0, output: '', timestamp: '2026-10-02T00:00:00Z' },
+    ]
+    seedRemoteHistory(records)
+
+    const { deleteRemoteHistory, getRemoteHistory } = await resetRemoteHistoryModule()
+
+    expect(deleteRemoteHistory('server1', records[0])).toBe(true)
+    expect(getRemoteHistory('server1').map((record) => record.command)).toEqual(['c2'])
+    expect(deleteRemoteHistory('server1', records[0])).toBe(false)
+  })
+})
+
 // ============================================================================
 // clearRemoteHistory 测试
 // ============================================================================
 
 describe('clearRemoteHistory', () => {
+  useRemoteHistoryFs()
+
   it('应该删除历史文件', async () => {
-    mockFs.existsSync.mockReturnValue(true)
+    seedRemoteHistory([{ userPrompt: '1', command: 'c1', executed: true, exitCode: 0, output: '' }])
 
     const { clearRemoteHistory } = await resetRemoteHistoryModule()
     clearRemoteHistory('server1')
 
-    expect(mockFs.unlinkSync).toHaveBeenCalled()
+    expect(files.has(REMOTE_HISTORY_FILE)).toBe(false)
   })
 
   it('文件不存在时应该不报错', async () => {
-    mockFs.existsSync.mockReturnValue(false)
-
     const { clearRemoteHistory } = await resetRemoteHistoryModule()
 
     expect(() => clearRemoteHistory('server1')).not.toThrow()
-    expect(mockFs.unlinkSync).not.toHaveBeenCalled()
+    expect(mockFs.rmSync).not.toHaveBeenCalled()
   })
 })
 
@@ -274,6 +315,8 @@ describe('clearRemoteHistory', () => {
 // ============================================================================
 
 describe('formatRemoteHistoryForAI', () => {
+  useRemoteHistoryFs()
+
   it('应该格式化远程命令历史供 AI 使用', async () => {
     const history = [
       {
@@ -285,8 +328,7 @@ describe('formatRemoteHistoryForAI', () => {
         timestamp: '2024-01-01',
       },
     ]
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(history))
+    seedRemoteHistory(history)
 
     const { formatRemoteHistoryForAI } = await resetRemoteHistoryModule()
     const formatted = formatRemoteHistoryForAI('server1')
@@ -297,8 +339,7 @@ describe('formatRemoteHistoryForAI', () => {
   })
 
   it('空历史应该返回空字符串', async () => {
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([]))
+    seedRemoteHistory([])
 
     const { formatRemoteHistoryForAI } = await resetRemoteHistoryModule()
     const formatted = formatRemoteHistoryForAI('server1')
@@ -317,8 +358,7 @@ describe('formatRemoteHistoryForAI', () => {
         timestamp: '2024-01-01',
       },
     ]
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(history))
+    seedRemoteHistory(history)
 
     const { formatRemoteHistoryForAI } = await resetRemoteHistoryModule()
     const formatted = formatRemoteHistoryForAI('server1')
@@ -339,8 +379,7 @@ describe('formatRemoteHistoryForAI', () => {
         timestamp: '2024-01-01',
       },
     ]
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(history))
+    seedRemoteHistory(history)
 
     const { formatRemoteHistoryForAI } = await resetRemoteHistoryModule()
     const formatted = formatRemoteHistoryForAI('server1')
@@ -362,8 +401,7 @@ describe('formatRemoteHistoryForAI', () => {
         timestamp: '2024-01-01',
       },
     ]
-    mockFs.existsSync.mockReturnValue(true)
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(history))
+    seedRemoteHistory(history)
 
     const { formatRemoteHistoryForAI } = await resetRemoteHistoryModule()
     const formatted = formatRemoteHistoryForAI('server1')
@@ -373,6 +411,20 @@ describe('formatRemoteHistoryForAI', () => {
     expect(formatted).toContain('用户修改')
     expect(formatted).toContain('df -h /home')
   })
+
+  it('只发送最近 commandHistoryLimit 条给 AI', async () => {
+    mockGetConfig.mockReturnValue({ commandHistoryLimit: 2, historyRetention: 100 } as any)
+    seedRemoteHistory(Array.from({ length: 5 }, (_, i) => ({
+      userPrompt: `需求${i}`, command: `c${i}`, executed: true, exitCode: 0, output: '',
+    })))
+
+    const { formatRemoteHistoryForAI } = await resetRemoteHistoryModule()
+    const formatted = formatRemoteHistoryForAI('server1')
+
+    expect(formatted).not.toContain('需求2')
+    expect(formatted).toContain('需求3')
+    expect(formatted).toContain('需求4')
+  })
 })
 
 // ============================================================================
@@ -421,6 +473,8 @@ describe('formatRemoteShellHistoryForAI', () => {
 // ============================================================================
 
 describe('displayRemoteHistory', () => {
+  useRemoteHistoryFs()
+
   let consoleLogSpy: ReturnType<typeof vi.spyOn>
 
   beforeEach(() => {
@@ -442,7 +496,7 @@ describe('displayRemoteHistory', () => {
         timestamp: '2024-01-01T00:00:00.000Z',
       },
     ]
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(history))
+    seedRemoteHistory(history)
 
     const { displayRemoteHistory } = await resetRemoteHistoryModule()
     displayRemoteHistory('server1')
@@ -464,7 +518,7 @@ describe('displayRemoteHistory', () => {
   })
 
   it('空历史时应该显示提示信息', async () => {
-    mockFs.readFileSync.mockReturnValue(JSON.stringify([]))
+    seedRemoteHistory([])
 
     const { displayRemoteHistory } = await resetRemoteHistoryModule()
     displayRemoteHistory('server1')
@@ -492,7 +546,7 @@ describe('displayRemoteHistory', () => {
         timestamp: '2024-01-02',
       },
     ]
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(history))
+    seedRemoteHistory(history)
 
     const { displayRemoteHistory } = await resetRemoteHistoryModule()
     displayRemoteHistory('server1')
@@ -516,7 +570,7 @@ describe('displayRemoteHistory', () => {
         timestamp: '2024-01-01',
       },
     ]
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(history))
+    seedRemoteHistory(history)
 
     const { displayRemoteHistory } = await resetRemoteHistoryModule()
     displayRemoteHistory('server1')
@@ -538,7 +592,7 @@ describe('displayRemoteHistory', () => {
         timestamp: '2024-01-01',
       },
     ]
-    mockFs.readFileSync.mockReturnValue(JSON.stringify(history))
+    seedRemoteHistory(history)
 
     const { displayRemoteHistory } = await resetRemoteHistoryModule()
     displayRemoteHistory('server1')
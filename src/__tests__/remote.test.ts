@@ -568,6 +568,19 @@ describe('sshExec', () => {
       expect.any(Object)
     )
   })
+  it('noPrompt 时需要输入密码应该直接报错', async () => {
+    mockGetConfig.mockReturnValue({
+      remotes: {
+        myserver: { host: 'host', user: 'root', port: 22, password: true },
+      },
+    } as any)
+    mockFs.existsSync.mockReturnValue(false) // No ControlMaster socket
+
+    const { sshExec } = await resetRemoteModule()
+
+    await expect(sshExec('myserver', 'ls', { noPrompt: true })).rejects.toThrow('需要输入密码')
+    expect(mockSpawn).not.toHaveBeenCalled()
+  })
 })
 
 // ============================================================================
@@ -0,0 +1,239 @@
+/**
+ * 命令风险分析模块测试
+ * 测试风险类别识别、风险等级计算、确认词判断和风险标记格式化
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  analyzeCommandRisk,
+  requiresConfirmWord,
+  formatRiskBadge,
+  HIGH_RISK_CONFIRM_WORD,
+} from '../risk-analyzer.js'
+
+// ============================================================================
+// 只读命令
+// ============================================================================
+
+describe('只读命令', () => {
+  it('常见查询命令应为低风险', () => {
+    const commands = ['ls -la', 'cat /etc/hosts', 'grep -r foo .', 'ps aux', 'df -h', 'pwd']
+    for (const command of commands) {
+      const risk = analyzeCommandRisk(command)
+      expect(risk.level, command).toBe('low')
+      expect(risk.categories, command).toEqual(['read_only'])
+    }
+  })
+
+  it('只读管道应为低风险', () => {
+    expect(analyzeCommandRisk('ps aux | grep node | head -5').level).toBe('low')
+  })
+
+  it('git/docker/kubectl 的只读子命令应为低风险', () => {
+    expect(analyzeCommandRisk('git status').level).toBe('low')
+    expect(analyzeCommandRisk('git log --oneline -10').level).toBe('low')
+    expect(analyzeCommandRisk('docker ps -a').level).toBe('low')
+    expect(analyzeCommandRisk('kubectl get pods').level).toBe('low')
+  })
+
+  it('空命令应为低风险', () => {
+    expect(analyzeCommandRisk('').level).toBe('low')
+    expect(analyzeCommandRisk('   ').level).toBe('low')
+  })
+
+  it('输出到 /dev/null 不算修改', () => {
+    expect(analyzeCommandRisk('ls 2>/dev/null').level).toBe('low')
+  })
+})
+
+// ============================================================================
+// 修改类命令
+// ============================================================================
+
+describe('修改类命令', () => {
+  it('创建/移动文件应为中风险', () => {
+    expect(analyzeCommandRisk('mkdir -p build').level).toBe('medium')
+    expect(analyzeCommandRisk('mv a.txt b.txt').level).toBe('medium')
+    expect(analyzeCommandRisk('touch foo').categories).toContain('modify')
+  })
+
+  it('重定向写文件应为中风险', () => {
+    const risk = analyzeCommandRisk('echo hello > out.txt')
+    expect(risk.level).toBe('medium')
+    expect(risk.categories).toContain('modify')
+  })
+
+  it('删除单个文件应为中风险', () => {
+    expect(analyzeCommandRisk('rm notes.txt').level).toBe('medium')
+  })
+
+  it('git 修改类子命令应为中风险', () => {
+    expect(analyzeCommandRisk('git commit -m "msg"').level).toBe('medium')
+    expect(analyzeCommandRisk('git branch feature').level).toBe('medium')
+  })
+
+  it('未知命令按修改处理', () => {
+    expect(analyzeCommandRisk('some-unknown-tool --run').level).toBe('medium')
+  })
+
+  it('wget 输出到 stdout 视为只读', () => {
+    expect(analyzeCommandRisk('wget -qO- https://example.com').level).toBe('low')
+    expect(analyzeCommandRisk('wget https://example.com/file.tar.gz').level).toBe('medium')
+  })
+})
+
+// ============================================================================
+// 破坏性命令
+// ============================================================================
+
+describe('破坏性命令', () => {
+  it('递归删除应为高风险', () => {
+    const risk = analyzeCommandRisk('rm -rf node_modules')
+    expect(risk.level).toBe('high')
+    expect(risk.categories).toContain('destructive')
+    expect(risk.reasons.length).toBeGreaterThan(0)
+  })
+
+  it('删除危险路径应给出路径原因', () => {
+    const risk = analyzeCommandRisk('rm -r /')
+    expect(risk.level).toBe('high')
+    expect(risk.reasons.some((r) => r.includes('/'))).toBe(true)
+  })
+
+  it('dd 写入设备应为高风险', () => {
+    expect(analyzeCommandRisk('dd if=image.iso of=/dev/sdb bs=4M').level).toBe('high')
+  })
+
+  it('格式化磁盘应为高风险', () => {
+    expect(analyzeCommandRisk('mkfs.ext4 /dev/sdb1').level).toBe('high')
+  })
+
+  it('find -delete 应为高风险', () => {
+    expect(analyzeCommandRisk('find . -name "*.log" -delete').level).toBe('high')
+    expect(analyzeCommandRisk('find . -name "*.tmp" -exec rm {} \\;').level).toBe('high')
+  })
+
+  it('git 丢弃改动的操作应为高风险', () => {
+    expect(analyzeCommandRisk('git reset --hard HEAD~1').level).toBe('high')
+    expect(analyzeCommandRisk('git push --force origin main').level).toBe('high')
+    expect(analyzeCommandRisk('git clean -fd').level).toBe('high')
+  })
+
+  it('子命令前的全局选项及其值不应该被当作子命令', () => {
+    expect(analyzeCommandRisk('git -C repo push -f').level).toBe('high')
+    expect(analyzeCommandRisk('git -c core.pager=cat --git-dir .git reset --hard').level).toBe('high')
+    expect(analyzeCommandRisk('git -C repo status').level).toBe('low')
+    expect(analyzeCommandRisk('kubectl -n prod delete pod web-1').level).toBe('high')
+  })
+
+  it('kubectl delete 应为高风险', () => {
+    expect(analyzeCommandRisk('kubectl delete pod web-1').level).toBe('high')
+  })
+
+  it('fork 炸弹应为高风险', () => {
+    expect(analyzeCommandRisk(':(){ :|:& };:').level).toBe('high')
+  })
+
+  it('链式命令中任意一段危险即为高风险', () => {
+    expect(analyzeCommandRisk('cd /tmp && rm -rf build').level).toBe('high')
+  })
+})
+
+// ============================================================================
+// 提权与远程代码
+// ============================================================================
+
+describe('提权与远程代码', () => {
+  it('sudo 只读命令应为中风险', () => {
+    const risk = analyzeCommandRisk('sudo cat /var/log/syslog')
+    expect(risk.level).toBe('medium')
+    expect(risk.categories).toContain('privilege')
+  })
+
+  it('sudo 修改命令应为高风险', () => {
+    const risk = analyzeCommandRisk('sudo apt install nginx')
+    expect(risk.level).toBe('high')
+    expect(risk.categories).toContain('privilege')
+    expect(risk.categories).toContain('modify')
+  })
+
+  it('curl | sh 应为高风险远程代码', () => {
+    const risk = analyzeCommandRisk('curl -fsSL https://get.example.com | sh')
+    expect(risk.level).toBe('high')
+    expect(risk.categories).toContain('remote_code')
+  })
+
+  it('进程替换执行远程脚本应为高风险', () => {
+    expect(analyzeCommandRisk('bash <(curl -s https://example.com/install.sh)').level).toBe('high')
+  })
+
+  it('环境变量前缀不影响识别', () => {
+    expect(analyzeCommandRisk('FOO=1 rm -rf dist').level).toBe('high')
+  })
+
+  it('sh -c "$(curl ...)" 应为高风险远程代码', () => {
+    expect(analyzeCommandRisk('sh -c "$(curl -fsSL https://example.com/install.sh)"').categories).toContain('remote_code')
+  })
+
+  it('管道中不相关的下载不算远程代码', () => {
+    expect(analyzeCommandRisk('curl -s https://example.com > page.html; cat page.html | bash -n').categories).not.toContain(
+      'remote_code'
+    )
+  })
+})
+
+// ============================================================================
+// 基于语法解析的识别
+// ============================================================================
+
+describe('基于语法解析的识别', () => {
+  it('引号中的危险文本不应误判', () => {
+    expect(analyzeCommandRisk(`echo "rm -rf /"`).level).toBe('low')
+    expect(analyzeCommandRisk(`grep 'sudo rm' notes.txt`).level).toBe('low')
+  })
+
+  it('命令替换和子 shell 中的命令也要分析', () => {
+    expect(analyzeCommandRisk('echo $(rm -rf build)').level).toBe('high')
+    expect(analyzeCommandRisk('(cd /tmp && rm -rf cache)').level).toBe('high')
+  })
+
+  it('sh -c 中的脚本也要分析', () => {
+    expect(analyzeCommandRisk(`bash -c 'rm -rf ~/tmp'`).level).toBe('high')
+  })
+
+  it('xargs 执行的命令也要分析', () => {
+    expect(analyzeCommandRisk('find . -name "*.bak" | xargs rm -rf').level).toBe('high')
+  })
+
+  it('here-doc 内容不是命令', () => {
+    expect(analyzeCommandRisk('cat <<EOF\nrm -rf /\nEOF').level).toBe('low')
+  })
+
+  it('2>&1 不算写文件', () => {
+    expect(analyzeCommandRisk('ls missing 2>&1 | head').level).toBe('low')
+  })
+})
+
+// ============================================================================
+// 确认词与风险标记
+// ============================================================================
+
+describe('requiresConfirmWord', () => {
+  it('仅高风险命令需要输入确认词', () => {
+    expect(requiresConfirmWord(analyzeCommandRisk('rm -rf dist'))).toBe(true)
+    expect(requiresConfirmWord(analyzeCommandRisk('mkdir foo'))).toBe(false)
+    expect(requiresConfirmWord(analyzeCommandRisk('ls'))).toBe(false)
+  })
+
+  it('确认词为 yes', () => {
+    expect(HIGH_RISK_CONFIRM_WORD).toBe('yes')
+  })
+})
+
+describe('formatRiskBadge', () => {
+  it('应包含等级和类别', () => {
+    expect(formatRiskBadge(analyzeCommandRisk('ls'))).toBe('低风险 · 只读')
+    expect(formatRiskBadge(analyzeCommandRisk('sudo rm -rf /var/cache'))).toContain('高风险')
+    expect(formatRiskBadge(analyzeCommandRisk('sudo rm -rf /var/cache'))).toContain('提权')
+  })
+})
@@ -16,6 +16,11 @@ vi.mock('fs', () => ({
     copyFileSync: vi.fn(),
     mkdirSync: vi.fn(),
     unlinkSync: vi.fn(),
+    openSync: vi.fn(),
+    closeSync: vi.fn(),
+    rmSync: vi.fn(),
+    renameSync: vi.fn(),
+    statSync: vi.fn(),
   },
 }))
 
@@ -30,6 +35,7 @@ vi.mock('os', () => ({
 const mockConfig = {
   shellHook: false,
   shellHistoryLimit: 10,
+  hookKeybinding: '',
 }
 
 vi.mock('../config.js', () => ({
@@ -110,6 +116,7 @@ beforeEach(() => {
   // 重置 mockConfig
   mockConfig.shellHook = false
   mockConfig.shellHistoryLimit = 10
+  mockConfig.hookKeybinding = ''
   // 默认返回 zsh
   mockPlatformDetectShell.mockReturnValue('zsh')
 })
@@ -158,6 +165,86 @@ describe('installShellHook', () => {
     expect(mockSetConfigValue).toHaveBeenCalledWith('shellHook', true)
   })
 
+  it('安装的 hook 应该包含 pls 包装函数', async () => {
+    mockFs.existsSync.mockImplementation((p: any) => {
+      const pathStr = p.toString()
+      if (pathStr.includes('.zshrc') && !pathStr.includes('backup')) return true
+      if (pathStr.includes('.please')) return true
+      return false
+    })
+    mockFs.readFileSync.mockReturnValue(EMPTY_ZSHRC)
+
+    const { installShellHook } = await resetShellHookModule()
+    await installShellHook()
+
+    const hookContent = mockFs.appendFileSync.mock.calls[0][1] as string
+    expect(hookContent).toContain('__pls_wrapper()')
+    expect(hookContent).toContain('PLS_PARENT_CMD_FILE="$__pls_file" command "$__pls_bin" "$@"')
+    expect(hookContent).toContain('pls() { __pls_wrapper pls "$@"; }')
+    expect(hookContent).toContain('please() { __pls_wrapper please "$@"; }')
+    // 包装函数应在结束标记之前
+    expect(hookContent.indexOf('__pls_wrapper()')).toBeLessThan(hookContent.indexOf(HOOK_END_MARKER))
+  })
+
+  it('命令频率统计应跳过前缀赋值和包装命令', async () => {
+    mockFs.existsSync.mockImplementation((p: any) => {
+      const pathStr = p.toString()
+      if (pathStr.includes('.zshrc') && !pathStr.includes('backup')) return true
+      if (pathStr.includes('.please')) return true
+      return false
+    })
+    mockFs.readFileSync.mockReturnValue(EMPTY_ZSHRC)
+
+    const { installShellHook } = await resetShellHookModule()
+    await installShellHook()
+
+    const hookContent = mockFs.appendFileSync.mock.calls[0][1] as string
+    expect(hookContent).toContain('__pls_command_name()')
+    expect(hookContent).toContain('local cmd_name=$(__pls_command_name "$__PLS_LAST_CMD")')
+    expect(hookContent).not.toContain(`awk '{print $1}'`)
+  })
+
+  it('默认不绑定快捷键', async () => {
+    mockFs.existsSync.mockImplementation((p: any) => p.toString().includes('.zshrc') && !p.toString().includes('backup'))
+    mockFs.readFileSync.mockReturnValue(EMPTY_ZSHRC)
+
+    const { installShellHook } = await resetShellHookModule()
+    await installShellHook()
+
+    const hookContent = mockFs.appendFileSync.mock.calls[0][1] as string
+    expect(hookContent).not.toContain('__pls_widget')
+  })
+
+  it('zsh 应通过 ZLE 小部件绑定快捷键', async () => {
+    mockConfig.hookKeybinding = 'ctrl+g'
+    mockFs.existsSync.mockImplementation((p: any) => p.toString().includes('.zshrc') && !p.toString().includes('backup'))
+    mockFs.readFileSync.mockReturnValue(EMPTY_ZSHRC)
+
+    const { installShellHook } = await resetShellHookModule()
+    await installShellHook()
+
+    const hookContent = mockFs.appendFileSync.mock.calls[0][1] as string
+    expect(hookContent).toContain('command pls --print -- "$BUFFER" </dev/null')
+    expect(hookContent).toContain('zle -N __pls_widget')
+    expect(hookContent).toContain("bindkey '^G' __pls_widget")
+    expect(hookContent.indexOf('__pls_widget()')).toBeLessThan(hookContent.indexOf(HOOK_END_MARKER))
+  })
+
+  it('bash 应通过 bind -x 绑定快捷键', async () => {
+    mockConfig.hookKeybinding = 'alt+g'
+    mockPlatformDetectShell.mockReturnValue('bash')
+    mockFs.existsSync.mockImplementation((p: any) => /\.bash(rc|_profile)$/.test(p.toString()))
+    mockFs.readFileSync.mockReturnValue('')
+
+    const { installShellHook } = await resetShellHookModule()
+    await installShellHook()
+
+    const hookContent = mockFs.appendFileSync.mock.calls[0][1] as string
+    expect(hookContent).toContain('command pls --print -- "$READLINE_LINE" </dev/null')
+    expect(hookContent).toContain('READLINE_POINT=${#READLINE_LINE}')
+    expect(hookContent).toContain(`bind -x '"\\eg": __pls_widget'`)
+  })
+
   it('已安装时应该跳过并返回 true', async () => {
     mockFs.existsSync.mockReturnValue(true)
     mockFs.readFileSync.mockReturnValue(ZSHRC_WITH_HOOK)
@@ -431,6 +518,48 @@ describe('getShellHistory - JSONL 解析', () => {
     expect(history).toEqual([])
   })
 
+  it('应该脱敏并持有锁写回历史文件', async () => {
+    mockConfig.shellHook = true
+    mockFs.existsSync.mockReturnValue(true)
+    mockFs.readFileSync.mockReturnValue('{"cmd":"mysql -u root -phunter2 app","exit":0,"time":"2024-01-01T00:00:00Z"}\n')
+
+    const { getShellHistory } = await resetShellHookModule()
+    const history = getShellHistory()
+
+    expect(history[0].cmd).not.toContain('hunter2')
+    const historyFile = path.join('/home/testuser/.please', 'shell_history.jsonl')
+    expect(mockFs.openSync).toHaveBeenCalledWith(`${historyFile}.lock`, 'wx')
+    const written = mockFs.writeFileSync.mock.calls[0][1] as string
+    expect(written).not.toContain('hunter2')
+    expect(written.endsWith('\n')).toBe(true)
+    expect(mockFs.renameSync).toHaveBeenCalledWith(expect.stringMatching(/\.tmp$/), historyFile)
+  })
+
+  it('没有需要脱敏的内容时不应该写回', async () => {
+    mockConfig.shellHook = true
+    mockFs.existsSync.mockReturnValue(true)
+    mockFs.readFileSync.mockReturnValue('{"cmd":"ls -la","exit":0,"time":"2024-01-01T00:00:00Z"}\n')
+
+    const { getShellHistory } = await resetShellHookModule()
+    getShellHistory()
+
+    expect(mockFs.writeFileSync).not.toHaveBeenCalled()
+  })
+
+  it('读取之后 hook 又写入了新记录时不应该写回（下次读取再脱敏）', async () => {
+    mockConfig.shellHook = true
+    mockFs.existsSync.mockReturnValue(true)
+    const before = '{"cmd":"mysql -phunter2","exit":0,"time":"2024-01-01T00:00:00Z"}\n'
+    mockFs.readFileSync
+      .mockReturnValueOnce(before)
+      .mockReturnValueOnce(before + '{"cmd":"ls","exit":0,"time":"2024-01-01T00:00:01Z"}\n')
+
+    const { getShellHistory } = await resetShellHookModule()
+    expect(getShellHistory()[0].cmd).not.toContain('hunter2')
+
+    expect(mockFs.writeFileSync).not.toHaveBeenCalled()
+  })
+
   it('读取文件失败时应该返回空数组', async () => {
     mockConfig.shellHook = true
     mockFs.existsSync.mockReturnValue(true)
@@ -0,0 +1,273 @@
+/**
+ * Shell 命令解析器测试
+ * 测试引号、命令替换、子 shell、here-doc、前缀赋值、包装命令和控制结构的解析
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseShellCommand } from '../shell-parser.js'
+
+/**
+ * 只取命令名，便于断言
+ */
+function names(command: string): string[] {
+  return parseShellCommand(command).map((c) => c.name)
+}
+
+// ============================================================================
+// 基础拆分
+// ============================================================================
+
+describe('基础拆分', () => {
+  it('应按 && || ; & 换行拆分命令', () => {
+    expect(names('cd build && make || echo fail; ls & pwd\nwhoami')).toEqual([
+      'cd', 'make', 'echo', 'ls', 'pwd', 'whoami',
+    ])
+  })
+
+  it('空命令应返回空数组', () => {
+    expect(parseShellCommand('')).toEqual([])
+    expect(parseShellCommand('   ')).toEqual([])
+  })
+
+  it('应记录管道关系', () => {
+    const [ps, grep, head] = parseShellCommand('ps aux | grep node | head -5')
+    expect(ps.pipedFrom).toBe(false)
+    expect(grep.pipedFrom).toBe(true)
+    expect(head.pipedFrom).toBe(true)
+    expect(new Set([ps.pipeline, grep.pipeline, head.pipeline]).size).toBe(1)
+  })
+
+  it('不同管道的编号不同', () => {
+    const [a, b] = parseShellCommand('ls; ls')
+    expect(a.pipeline).not.toBe(b.pipeline)
+  })
+
+  it('应忽略注释', () => {
+    expect(names('ls # rm -rf /')).toEqual(['ls'])
+  })
+})
+
+// ============================================================================
+// 引号与转义
+// ============================================================================
+
+describe('引号与转义', () => {
+  it('引号中的分隔符不应拆分命令', () => {
+    const result = parseShellCommand(`echo 'a; b' "c && d" | wc -l`)
+    expect(result.map((c) => c.name)).toEqual(['echo', 'wc'])
+    expect(result[0].args).toEqual(['a; b', 'c && d'])
+  })
+
+  it('应去掉引号并处理转义', () => {
+    const [cmd] = parseShellCommand(`grep "say \\"hi\\"" my\\ file.txt`)
+    expect(cmd.args).toEqual(['say "hi"', 'my file.txt'])
+  })
+
+  it('应处理 $\'...\' 字符串', () => {
+    const [cmd] = parseShellCommand(`printf $'a\\tb'`)
+    expect(cmd.args).toEqual(['a\tb'])
+  })
+
+  it('转义的分号是普通参数', () => {
+    const [cmd] = parseShellCommand('find . -name "*.tmp" -exec rm {} \\;')
+    expect(cmd.name).toBe('find')
+    expect(cmd.args).toEqual(['.', '-name', '*.tmp', '-exec', 'rm', '{}', ';'])
+  })
+
+  it('rawWords 应保留原始文本', () => {
+    const [cmd] = parseShellCommand(`rm -rf "my dir"/* $HOME/tmp`)
+    expect(cmd.words).toEqual(['rm', '-rf', 'my dir/*', '$HOME/tmp'])
+    expect(cmd.rawWords).toEqual(['rm', '-rf', '"my dir"/*', '$HOME/tmp'])
+  })
+
+  it('行尾反斜杠是续行', () => {
+    const [cmd] = parseShellCommand('docker run \\\n  -it ubuntu')
+    expect(cmd.args).toEqual(['run', '-it', 'ubuntu'])
+  })
+})
+
+// ============================================================================
+// 嵌套命令
+// ============================================================================
+
+describe('嵌套命令', () => {
+  it('应解析 $(...) 中的命令并关联到所属命令', () => {
+    const result = parseShellCommand('echo "$(cd /tmp && pwd)"')
+    expect(result.map((c) => c.name)).toEqual(['echo', 'cd', 'pwd'])
+    expect(result[0].context).toBe('main')
+    expect(result[1].context).toBe('substitution')
+    expect(result[1].parent).toBe(0)
+    expect(result[2].parent).toBe(0)
+  })
+
+  it('应解析反引号中的命令', () => {
+    const result = parseShellCommand('kill `cat app.pid`')
+    expect(result.map((c) => c.name)).toEqual(['kill', 'cat'])
+    expect(result[1].parent).toBe(0)
+  })
+
+  it('$((...)) 是算术展开，不是命令', () => {
+    expect(names('echo $((1 + 2))')).toEqual(['echo'])
+  })
+
+  it('应解析进程替换中的命令', () => {
+    const result = parseShellCommand('diff <(sort a.txt) <(sort b.txt)')
+    expect(result.map((c) => c.name)).toEqual(['diff', 'sort', 'sort'])
+    expect(result[1].context).toBe('substitution')
+  })
+
+  it('子 shell 中的命令应标记为 subshell', () => {
+    const result = parseShellCommand('(cd build && make) | tee log')
+    expect(result.map((c) => [c.name, c.context])).toEqual([
+      ['cd', 'subshell'],
+      ['make', 'subshell'],
+      ['tee', 'main'],
+    ])
+    expect(result[2].pipedFrom).toBe(true)
+  })
+
+  it('命令组 { ...; } 在当前 shell 中执行', () => {
+    const result = parseShellCommand('{ cd build; make; }')
+    expect(result.map((c) => [c.name, c.context])).toEqual([
+      ['cd', 'main'],
+      ['make', 'main'],
+    ])
+  })
+
+  it('应解析 sh -c 中的脚本', () => {
+    const result = parseShellCommand(`sudo sh -c 'cd /srv && rm -rf cache'`)
+    expect(result.map((c) => c.name)).toEqual(['sh', 'cd', 'rm'])
+    expect(result[1].context).toBe('subshell')
+    expect(result[2].parent).toBe(0)
+  })
+
+  it('多层嵌套时 parent 应指向直接所属的命令', () => {
+    const result = parseShellCommand('echo $(basename $(pwd))')
+    expect(result.map((c) => c.name)).toEqual(['echo', 'basename', 'pwd'])
+    expect(result[1].parent).toBe(0)
+    expect(result[2].parent).toBe(1)
+  })
+})
+
+// ============================================================================
+// 前缀赋值与包装命令
+// ============================================================================
+
+describe('前缀赋值与包装命令', () => {
+  it('应拆出前缀赋值', () => {
+    const [cmd] = parseShellCommand('NODE_ENV=production PORT=3000 node server.js')
+    expect(cmd.name).toBe('node')
+    expect(cmd.assignments).toEqual(['NODE_ENV=production', 'PORT=3000'])
+    expect(cmd.args).toEqual(['server.js'])
+  })
+
+  it('只有赋值时命令名为空', () => {
+    const [cmd] = parseShellCommand('FOO=bar')
+    expect(cmd.name).toBe('')
+    expect(cmd.assignments).toEqual(['FOO=bar'])
+  })
+
+  it('引号开头的词不是赋值', () => {
+    expect(names('"FOO=bar" ls')).toEqual(['FOO=bar'])
+  })
+
+  it('应跳过包装命令及其选项', () => {
+    const [cmd] = parseShellCommand('sudo -u deploy env -i PATH=/bin nice -n 10 time ./build.sh --release')
+    expect(cmd.name).toBe('./build.sh')
+    expect(cmd.args).toEqual(['--release'])
+    expect(cmd.wrappers).toEqual(['sudo', 'env', 'nice', 'time'])
+    expect(cmd.assignments).toEqual(['PATH=/bin'])
+  })
+
+  it('xargs 后面是真正执行的命令', () => {
+    const result = parseShellCommand('find . -name "*.log" | xargs -I {} rm -f {}')
+    expect(result[1].name).toBe('rm')
+    expect(result[1].args).toEqual(['-f', '{}'])
+    expect(result[1].wrappers).toEqual(['xargs'])
+  })
+
+  it('timeout 应跳过时长参数', () => {
+    const [cmd] = parseShellCommand('timeout -s KILL 30s curl https://example.com')
+    expect(cmd.name).toBe('curl')
+  })
+
+  it('command -v 是查询，不是包装命令', () => {
+    const [cmd] = parseShellCommand('command -v git')
+    expect(cmd.name).toBe('command')
+    expect(cmd.args).toEqual(['-v', 'git'])
+  })
+})
+
+// ============================================================================
+// 重定向
+// ============================================================================
+
+describe('重定向', () => {
+  it('应解析重定向及文件描述符', () => {
+    const [cmd] = parseShellCommand('make > build.log 2>&1 < /dev/null')
+    expect(cmd.args).toEqual([])
+    expect(cmd.redirections).toEqual([
+      { op: '>', target: 'build.log' },
+      { op: '>&', fd: 2, target: '1' },
+      { op: '<', target: '/dev/null' },
+    ])
+  })
+
+  it('应解析 &> 和 >>', () => {
+    const [cmd] = parseShellCommand('npm test &>> "test output.log"')
+    expect(cmd.redirections).toEqual([{ op: '&>>', target: 'test output.log' }])
+  })
+
+  it('应读取 here-doc 内容，内容中的命令不会被解析', () => {
+    const result = parseShellCommand('cat <<EOF > notes.txt\nrm -rf /\nEOF\nls')
+    expect(result.map((c) => c.name)).toEqual(['cat', 'ls'])
+    expect(result[0].redirections).toEqual([
+      { op: '<<', target: 'EOF', heredoc: 'rm -rf /\n' },
+      { op: '>', target: 'notes.txt' },
+    ])
+  })
+
+  it('<<- 应去掉 here-doc 每行开头的制表符', () => {
+    const [cmd] = parseShellCommand("cat <<-'END'\n\thello\n\tEND")
+    expect(cmd.redirections[0]).toEqual({ op: '<<-', target: 'END', heredoc: 'hello\n' })
+  })
+
+  it('只有重定向时也应返回命令', () => {
+    const [cmd] = parseShellCommand('> empty.txt')
+    expect(cmd.name).toBe('')
+    expect(cmd.redirections).toEqual([{ op: '>', target: 'empty.txt' }])
+  })
+})
+
+// ============================================================================
+// 控制结构
+// ============================================================================
+
+describe('控制结构', () => {
+  it('if / while 中的保留字不是命令', () => {
+    expect(names('if [ -f a ]; then cat a; else touch a; fi')).toEqual(['[', 'cat', 'touch'])
+    expect(names('while read line; do echo "$line"; done < list.txt')).toEqual(['read', 'echo', ''])
+  })
+
+  it('for 头部不是命令', () => {
+    expect(names('for f in *.log; do gzip "$f"; done')).toEqual(['gzip'])
+  })
+
+  it('case 的模式不是命令', () => {
+    expect(names('case "$1" in start|run) npm start;; *) echo usage;; esac')).toEqual(['npm', 'echo'])
+  })
+
+  it('[[ ... ]] 中的 && 不拆分命令', () => {
+    const result = parseShellCommand('[[ -f a && -f b ]] && echo ok')
+    expect(result.map((c) => c.name)).toEqual(['[[', 'echo'])
+  })
+
+  it('函数定义的名字不是命令', () => {
+    expect(names('greet() { echo hi; }; greet')).toEqual(['echo', 'greet'])
+    expect(names('function greet { echo hi; }')).toEqual(['echo'])
+  })
+
+  it('! 取反不影响命令名', () => {
+    expect(names('! grep -q foo file')).toEqual(['grep'])
+  })
+})
@@ -0,0 +1,259 @@
+/**
+ * 持久 Shell 会话模块测试
+ * 测试环境变量解析/对比，以及真实 bash 会话（管道 / PTY）中 cd / export / 退出码的延续
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { execSync } from 'child_process'
+import {
+  createShellSession,
+  parseEnvOutput,
+  diffEnv,
+  supportsShellSession,
+  type ShellSession,
+} from '../shell-session.js'
+import { loadPty } from '../pty.js'
+
+function hasBash(): boolean {
+  if (process.platform === 'win32') return false
+  try {
+    execSync('command -v bash', { stdio: 'ignore' })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// ============================================================================
+// parseEnvOutput
+// ============================================================================
+
+describe('parseEnvOutput', () => {
+  it('应解析 KEY=VALUE 行', () => {
+    expect(parseEnvOutput('FOO=bar\nHOME=/home/test\n')).toEqual({ FOO: 'bar', HOME: '/home/test' })
+  })
+
+  it('值中包含 = 时应保留完整值', () => {
+    expect(parseEnvOutput('OPTS=a=1,b=2\n')).toEqual({ OPTS: 'a=1,b=2' })
+  })
+
+  it('多行值应拼接到上一个变量', () => {
+    expect(parseEnvOutput('MULTI=line1\nline2\nNEXT=x\n')).toEqual({ MULTI: 'line1\nline2', NEXT: 'x' })
+  })
+
+  it('空内容应返回空对象', () => {
+    expect(parseEnvOutput('')).toEqual({})
+  })
+})
+
+// ============================================================================
+// diffEnv
+// ============================================================================
+
+describe('diffEnv', () => {
+  it('应识别新增和修改的变量', () => {
+    expect(diffEnv({ A: '1', B: '2' }, { A: '1', B: '3', C: '4' })).toEqual({ B: '3', C: '4' })
+  })
+
+  it('被删除的变量应标记为 null', () => {
+    expect(diffEnv({ A: '1', B: '2' }, { A: '1' })).toEqual({ B: null })
+  })
+
+  it('应忽略 PWD/OLDPWD/_ 等易变变量', () => {
+    expect(diffEnv({ PWD: '/a', _: 'x' }, { PWD: '/b', OLDPWD: '/a', _: 'y' })).toEqual({})
+  })
+})
+
+// ============================================================================
+// supportsShellSession
+// ============================================================================
+
+describe('supportsShellSession', () => {
+  it('fish 和 PowerShell 不支持持久会话', () => {
+    expect(supportsShellSession('fish')).toBe(false)
+    expect(supportsShellSession('powershell7')).toBe(false)
+    expect(supportsShellSession('cmd')).toBe(false)
+  })
+})
+
+const ptyAvailable = hasBash() && (await loadPty()) !== null
+
+// ============================================================================
+// createShellSession（真实 bash，管道模式）
+// ============================================================================
+
+describe.skipIf(!hasBash())('createShellSession - 管道模式', () => {
+  let session: ShellSession | null = null
+  let workDir: string
+
+  beforeEach(async () => {
+    workDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'pls-session-test-')))
+    fs.mkdirSync(path.join(workDir, 'build'))
+    session = await createShellSession({ shell: 'bash', cwd: workDir, pty: false })
+  })
+
+  afterEach(() => {
+    session?.close()
+    fs.rmSync(workDir, { recursive: true, force: true })
+  })
+
+  it('cd 应延续到下一步', async () => {
+    const first = await session!.run('cd build')
+    expect(first.exitCode).toBe(0)
+    expect(first.cwd).toBe(path.join(workDir, 'build'))
+
+    const second = await session!.run('pwd')
+    expect(second.stdout.trim()).toBe(path.join(workDir, 'build'))
+    expect(session!.getCwd()).toBe(path.join(workDir, 'build'))
+  })
+
+  it('export 应延续到下一步并记录环境变量变化', async () => {
+    const first = await session!.run('export PLS_TEST_VAR=hello')
+    expect(first.envChanges).toEqual({ PLS_TEST_VAR: 'hello' })
+
+    const second = await session!.run('echo $PLS_TEST_VAR')
+    expect(second.stdout).toBe('hello\n')
+    expect(second.envChanges).toEqual({})
+
+    const third = await session!.run('unset PLS_TEST_VAR')
+    expect(third.envChanges).toEqual({ PLS_TEST_VAR: null })
+  })
+
+  it('应捕获退出码和 stderr', async () => {
+    const result = await session!.run('echo oops >&2; false')
+    expect(result.exitCode).toBe(1)
+    expect(result.stderr).toBe('oops\n')
+    expect(result.stdout).toBe('')
+  })
+
+  it('应启用 pipefail', async () => {
+    const result = await session!.run('false | cat')
+    expect(result.exitCode).toBe(1)
+  })
+
+  it('没有结尾换行的输出应完整保留', async () => {
+    const result = await session!.run('printf abc')
+    expect(result.stdout).toBe('abc')
+    expect(result.exitCode).toBe(0)
+  })
+
+  it('应通过回调实时转发输出', async () => {
+    const chunks: string[] = []
+    await session!.run('echo one; echo two', { onStdout: (data) => chunks.push(data) })
+    expect(chunks.join('')).toBe('one\ntwo\n')
+  })
+
+  it('命令不应读取会话自身的输入', async () => {
+    const result = await session!.run('cat')
+    expect(result.exitCode).toBe(0)
+    expect(result.stdout).toBe('')
+  })
+
+  it('exit 后会话应自动重启并保留 cwd', async () => {
+    await session!.run('cd build')
+    const exited = await session!.run('exit 3')
+    expect(exited.exitCode).toBe(3)
+
+    const after = await session!.run('pwd')
+    expect(after.exitCode).toBe(0)
+    expect(after.stdout.trim()).toBe(path.join(workDir, 'build'))
+  })
+
+  it('超时应中断命令，会话仍可继续使用', async () => {
+    const start = Date.now()
+    const result = await session!.run('sleep 5', {}, { timeout: 200 })
+    expect(Date.now() - start).toBeLessThan(4000)
+    expect(result.timedOut).toBe(true)
+    expect(result.exitCode).toBe(124)
+
+    const after = await session!.run('echo ok')
+    expect(after.stdout).toBe('ok\n')
+  })
+
+  it('中止信号应中断命令并返回退出码 130', async () => {
+    await session!.run('cd build')
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 200)
+    const result = await session!.run('sleep 5', {}, { signal: controller.signal })
+    expect(result.exitCode).toBe(130)
+    expect(result.timedOut).toBe(false)
+
+    const after = await session!.run('pwd')
+    expect(after.stdout.trim()).toBe(path.join(workDir, 'build'))
+  })
+
+  it('关闭后再执行应报错', async () => {
+    session!.close()
+    await expect(session!.run('true')).rejects.toThrow('Shell 会话已关闭')
+  })
+})
+
+// ============================================================================
+// createShellSession（真实 bash，PTY 模式）
+// ============================================================================
+
+describe.skipIf(!ptyAvailable)('createShellSession - PTY 模式', () => {
+  let session: ShellSession | null = null
+  let workDir: string
+
+  beforeEach(async () => {
+    workDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'pls-session-test-')))
+    fs.mkdirSync(path.join(workDir, 'build'))
+    session = await createShellSession({ shell: 'bash', cwd: workDir })
+  })
+
+  afterEach(() => {
+    session?.close()
+    fs.rmSync(workDir, { recursive: true, force: true })
+  })
+
+  it('应运行在 PTY 中', async () => {
+    expect(session!.pty).toBe(true)
+    const result = await session!.run('[ -t 0 ] && [ -t 1 ] && echo tty')
+    expect(result.stdout).toBe('tty\n')
+  })
+
+  it('cd 和 export 应延续到下一步', async () => {
+    const first = await session!.run('cd build && export PLS_TEST_VAR=1')
+    expect(first.cwd).toBe(path.join(workDir, 'build'))
+    expect(first.envChanges).toEqual({ PLS_TEST_VAR: '1' })
+
+    const second = await session!.run('pwd; echo $PLS_TEST_VAR')
+    expect(second.stdout).toBe(`${path.join(workDir, 'build')}\n1\n`)
+  })
+
+  it('捕获的输出应去掉 ANSI 序列并合并 stderr', async () => {
+    const result = await session!.run(`printf '\\033[31mred\\033[0m\\n'; echo oops >&2; (exit 2)`)
+    expect(result.exitCode).toBe(2)
+    expect(result.output).toBe('red\noops\n')
+    expect(result.stderr).toBe('')
+  })
+
+  it('原始输出回调应保留颜色', async () => {
+    const chunks: string[] = []
+    await session!.run(`printf '\\033[32mok\\033[0m\\n'`, { onStdout: (data) => chunks.push(data) })
+    expect(chunks.join('')).toContain('\x1b[32m')
+  })
+
+  it('exit 后会话应自动重启并保留 cwd', async () => {
+    await session!.run('cd build')
+    const exited = await session!.run('exit 4')
+    expect(exited.exitCode).toBe(4)
+
+    const after = await session!.run('pwd')
+    expect(after.stdout.trim()).toBe(path.join(workDir, 'build'))
+  })
+
+  it('中止信号应中断命令，会话仍可继续使用', async () => {
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 200)
+    const result = await session!.run('sleep 5', {}, { signal: controller.signal })
+    expect(result.exitCode).toBe(130)
+
+    const after = await session!.run('echo ok')
+    expect(after.stdout).toBe('ok\n')
+  })
+})
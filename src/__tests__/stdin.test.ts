@@ -0,0 +1,99 @@
+/**
+ * 管道输入测试
+ * 测试管道内容的读取、清理和截断
+ */
+
+import { describe, it, expect } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import { PassThrough } from 'stream'
+import { readPipedStdin, truncateStdinContent } from '../stdin.js'
+
+/**
+ * 模拟管道输入
+ */
+function pipe(...chunks: string[]): PassThrough {
+  const stream = new PassThrough()
+  for (const chunk of chunks) {
+    stream.write(chunk)
+  }
+  stream.end()
+  return stream
+}
+
+// ============================================================================
+// readPipedStdin
+// ============================================================================
+
+describe('readPipedStdin', () => {
+  it('stdin 是终端时不读取', async () => {
+    const stream = Object.assign(pipe('hello'), { isTTY: true })
+    expect(await readPipedStdin(stream)).toBeNull()
+  })
+
+  it('应读取全部管道内容', async () => {
+    expect(await readPipedStdin(pipe('line 1\n', 'line 2\n'))).toBe('line 1\nline 2\n')
+  })
+
+  it('应去掉颜色等控制字符', async () => {
+    expect(await readPipedStdin(pipe('\x1b[31merror\x1b[0m: boom\r\n'))).toBe('error: boom\n')
+  })
+
+  it('内容为空时返回 null', async () => {
+    expect(await readPipedStdin(pipe())).toBeNull()
+    expect(await readPipedStdin(pipe('  \n\n'))).toBeNull()
+  })
+
+  it('上游中途停顿时应该一直读到结束', async () => {
+    const stream = new PassThrough()
+    stream.write('first\n')
+    setTimeout(() => stream.end('second\n'), 50)
+    expect(await readPipedStdin(stream)).toBe('first\nsecond\n')
+  })
+
+  it('stdin 不是管道或文件时不读取', async () => {
+    const fd = fs.openSync(os.tmpdir(), 'r')
+    try {
+      expect(await readPipedStdin(pipe('hello'), undefined, fd)).toBeNull()
+    } finally {
+      fs.closeSync(fd)
+    }
+  })
+
+  it('超出上限时保留开头和结尾', async () => {
+    const content = await readPipedStdin(pipe('HEAD', 'x'.repeat(100), 'TAIL'), 20)
+    expect(content).toMatch(/^HEAD/)
+    expect(content).toMatch(/TAIL$/)
+    expect(content).toContain('...(省略 88 个字符)...')
+  })
+})
+
+// ============================================================================
+// truncateStdinContent
+// ============================================================================
+
+describe('truncateStdinContent', () => {
+  it('未超出长度时原样返回', () => {
+    expect(truncateStdinContent('a\nb\nc', 100)).toBe('a\nb\nc')
+  })
+
+  it('应按行保留开头和更多的结尾', () => {
+    const lines = Array.from({ length: 100 }, (_, i) => `line ${String(i).padStart(2, '0')}`)
+    const result = truncateStdinContent(lines.join('\n'), 240)
+    const kept = result.split('\n')
+
+    expect(kept[0]).toBe('line 00')
+    expect(kept[kept.length - 1]).toBe('line 99')
+    expect(result).toMatch(/\.\.\.\(省略 \d+ 行\)\.\.\./)
+    const marker = kept.findIndex((line) => line.startsWith('...'))
+    expect(kept.length - 1 - marker).toBeGreaterThan(marker)
+    expect(result.length).toBeLessThanOrEqual(260)
+  })
+
+  it('单行过长时按字符截断', () => {
+    const result = truncateStdinContent('{' + 'a'.repeat(1000) + '}', 90)
+    expect(result.startsWith('{aaa')).toBe(true)
+    expect(result.endsWith('aaa}')).toBe(true)
+    expect(result).toContain('...(省略 912 个字符)...')
+  })
+})
@@ -0,0 +1,141 @@
+/**
+ * 任务预算测试
+ * 测试步数、连续失败和 token 上限的检查，以及追加预算和 token 估算
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../config.js', () => ({
+  getConfig: vi.fn(() => ({ maxSteps: 20, maxConsecutiveFailures: 3, tokenBudget: 0 })),
+}))
+
+import {
+  getTaskBudget,
+  createTaskUsage,
+  checkTaskBudget,
+  extendTaskBudget,
+  estimateTokens,
+  formatBudgetLimit,
+  formatTaskUsage,
+  formatTokens,
+} from '../task-budget.js'
+
+const budget = { maxSteps: 5, maxConsecutiveFailures: 3, tokenBudget: 10000 }
+
+// ============================================================================
+// getTaskBudget
+// ============================================================================
+
+describe('getTaskBudget', () => {
+  it('应从配置读取预算', () => {
+    expect(getTaskBudget()).toEqual({ maxSteps: 20, maxConsecutiveFailures: 3, tokenBudget: 0 })
+  })
+})
+
+// ============================================================================
+// checkTaskBudget
+// ============================================================================
+
+describe('createTaskUsage', () => {
+  const step = (exitCode: number, output = '') => ({ command: 'x', continue: true, reasoning: '', nextStepHint: '', exitCode, output })
+
+  it('新任务从 0 开始', () => {
+    expect(createTaskUsage()).toEqual({ steps: 0, consecutiveFailures: 0, tokens: 0 })
+  })
+
+  it('继续任务时应计入已有的步数和结尾的连续失败次数', () => {
+    expect(createTaskUsage([step(1), step(0), step(1), step(2)])).toEqual({ steps: 4, consecutiveFailures: 2, tokens: 0 })
+  })
+
+  it('继续任务不应该绕过上限', () => {
+    const budget = { maxSteps: 3, maxConsecutiveFailures: 2, tokenBudget: 0 }
+    expect(checkTaskBudget(budget, createTaskUsage([step(0), step(1), step(1)]))).toBe('failures')
+    expect(checkTaskBudget(budget, createTaskUsage([step(0), step(0), step(0)]))).toBe('steps')
+  })
+
+  it('有输出的 SIGPIPE 退出码算成功', () => {
+    expect(createTaskUsage([step(1), step(141, 'PID USER')]).consecutiveFailures).toBe(0)
+  })
+})
+
+describe('checkTaskBudget', () => {
+  it('未达到上限时返回 null', () => {
+    expect(checkTaskBudget(budget, createTaskUsage())).toBeNull()
+    expect(checkTaskBudget(budget, { steps: 4, consecutiveFailures: 2, tokens: 9999 })).toBeNull()
+  })
+
+  it('应检查各项上限', () => {
+    expect(checkTaskBudget(budget, { steps: 5, consecutiveFailures: 0, tokens: 0 })).toBe('steps')
+    expect(checkTaskBudget(budget, { steps: 3, consecutiveFailures: 3, tokens: 0 })).toBe('failures')
+    expect(checkTaskBudget(budget, { steps: 1, consecutiveFailures: 0, tokens: 12000 })).toBe('tokens')
+  })
+
+  it('同时达到多项上限时连续失败优先', () => {
+    expect(checkTaskBudget(budget, { steps: 5, consecutiveFailures: 3, tokens: 20000 })).toBe('failures')
+  })
+
+  it('0 表示不限制', () => {
+    const unlimited = { maxSteps: 0, maxConsecutiveFailures: 0, tokenBudget: 0 }
+    expect(checkTaskBudget(unlimited, { steps: 1000, consecutiveFailures: 100, tokens: 1e9 })).toBeNull()
+  })
+})
+
+// ============================================================================
+// extendTaskBudget
+// ============================================================================
+
+describe('extendTaskBudget', () => {
+  it('应在当前用量基础上追加一份额度', () => {
+    const usage = { steps: 5, consecutiveFailures: 3, tokens: 10500 }
+    expect(extendTaskBudget(budget, usage, 'steps', budget)).toEqual({ ...budget, maxSteps: 10 })
+    expect(extendTaskBudget(budget, usage, 'failures', budget)).toEqual({ ...budget, maxConsecutiveFailures: 6 })
+    expect(extendTaskBudget(budget, usage, 'tokens', budget)).toEqual({ ...budget, tokenBudget: 20500 })
+  })
+
+  it('追加后不再达到上限', () => {
+    const usage = { steps: 5, consecutiveFailures: 0, tokens: 0 }
+    const extended = extendTaskBudget(budget, usage, 'steps', budget)
+    expect(checkTaskBudget(extended, usage)).toBeNull()
+  })
+})
+
+// ============================================================================
+// estimateTokens
+// ============================================================================
+
+describe('estimateTokens', () => {
+  it('英文大约 4 个字符一个 token', () => {
+    expect(estimateTokens('ls -la /tmp')).toBe(3)
+  })
+
+  it('中文大约一个字一个 token', () => {
+    expect(estimateTokens('查看磁盘占用')).toBe(6)
+    expect(estimateTokens('查看 /tmp')).toBe(4)
+  })
+
+  it('空文本为 0', () => {
+    expect(estimateTokens('')).toBe(0)
+  })
+})
+
+// ============================================================================
+// 格式化
+// ============================================================================
+
+describe('格式化', () => {
+  it('formatTokens 超过 1000 时用 k 表示', () => {
+    expect(formatTokens(800)).toBe('800')
+    expect(formatTokens(12345)).toBe('12.3k')
+  })
+
+  it('formatBudgetLimit 应说明达到的上限和配置项', () => {
+    expect(formatBudgetLimit('steps', budget)).toContain('maxSteps')
+    expect(formatBudgetLimit('failures', budget)).toContain('连续失败 3 次')
+    expect(formatBudgetLimit('tokens', budget)).toContain('10.0k')
+  })
+
+  it('formatTaskUsage 没有连续失败时省略', () => {
+    expect(formatTaskUsage({ steps: 5, consecutiveFailures: 0, tokens: 1200 })).toBe('共 5 步 · 约 1.2k tokens')
+    expect(formatTaskUsage({ steps: 5, consecutiveFailures: 2, tokens: 300 })).toBe('共 5 步 · 连续失败 2 次 · 约 300 tokens')
+  })
+})
@@ -0,0 +1,182 @@
+/**
+ * 任务会话测试
+ * 测试会话的保存、读取、脱敏、清理和环境变量还原
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+
+// 会话目录放到临时目录中
+const { configDir } = vi.hoisted(() => {
+  const fs = require('fs') as typeof import('fs')
+  const os = require('os') as typeof import('os')
+  const path = require('path') as typeof import('path')
+  return { configDir: fs.mkdtempSync(path.join(os.tmpdir(), 'pls-session-config-')) }
+})
+
+vi.mock('../config.js', () => ({
+  CONFIG_DIR: configDir,
+  getConfig: vi.fn(() => ({ redactPatterns: [] })),
+}))
+
+import {
+  createTaskSession,
+  saveTaskSession,
+  getTaskSessions,
+  getTaskSession,
+  getSessionEnvChanges,
+  removeTaskSession,
+  clearTaskSessions,
+  type TaskSession,
+} from '../task-session.js'
+
+/**
+ * 构造已执行的步骤
+ */
+function step(command: string, exitCode = 0, extra: Record<string, unknown> = {}) {
+  return { command, continue: true, reasoning: '', nextStepHint: '', exitCode, output: '', ...extra }
+}
+
+/**
+ * 构造并保存会话（updatedAt 由保存时间决定，用 ID 区分先后）
+ */
+function saved(prompt: string, steps = [step('ls')]): TaskSession {
+  const session = createTaskSession(prompt, { cwd: '/tmp/project' })
+  session.steps = steps
+  saveTaskSession(session)
+  return session
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+  clearTaskSessions()
+})
+
+// ============================================================================
+// 保存和读取
+// ============================================================================
+
+describe('saveTaskSession', () => {
+  it('应保存需求、目录和已执行的步骤', () => {
+    const session = saved('部署项目', [step('npm ci'), step('npm run build', 1)])
+    const loaded = getTaskSession(session.id)
+
+    expect(loaded).toMatchObject({ id: session.id, prompt: '部署项目', cwd: '/tmp/project' })
+    expect(loaded?.steps.map((s) => s.command)).toEqual(['npm ci', 'npm run build'])
+    expect(fs.existsSync(path.join(configDir, 'sessions', `${session.id}.json`))).toBe(true)
+  })
+
+  it('再次保存应覆盖同一个会话', () => {
+    const session = saved('部署项目')
+    session.steps.push(step('npm test'))
+    saveTaskSession(session)
+
+    expect(getTaskSessions()).toHaveLength(1)
+    expect(getTaskSession(session.id)?.steps).toHaveLength(2)
+  })
+
+  it('命令、输出、AI 说明和环境变量中的敏感信息应脱敏', () => {
+    const session = saved('连数据库', [
+      step('mysql -u root -phunter2 app', 0, {
+        output: 'password=hunter2',
+        reasoning: '使用 mysql -u root -phunter2 app 连接数据库',
+        nextStepHint: '再用 mysql -phunter2 查看表',
+        envChanges: { DB_PASSWORD: 'hunter2', APP_ENV: 'prod' },
+      }),
+    ])
+    const content = fs.readFileSync(path.join(configDir, 'sessions', `${session.id}.json`), 'utf-8')
+
+    expect(content).not.toContain('hunter2')
+    expect(getTaskSession(session.id)?.steps[0].envChanges?.APP_ENV).toBe('prod')
+  })
+
+  it('只保留最近 20 个会话', () => {
+    vi.useFakeTimers()
+    for (let i = 0; i < 22; i++) {
+      vi.setSystemTime(new Date(2026, 0, 1, 0, 0, i))
+      saved(`任务 ${i}`)
+    }
+
+    const sessions = getTaskSessions()
+    expect(sessions).toHaveLength(20)
+    expect(sessions[0].prompt).toBe('任务 21')
+    expect(sessions.map((s) => s.prompt)).not.toContain('任务 0')
+  })
+})
+
+// ============================================================================
+// getTaskSession
+// ============================================================================
+
+describe('getTaskSession', () => {
+  it('不传 ID 时返回最近更新的会话', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2026, 0, 1, 10))
+    const older = saved('旧任务')
+    vi.setSystemTime(new Date(2026, 0, 1, 11))
+    saved('新任务')
+    vi.setSystemTime(new Date(2026, 0, 1, 12))
+    saveTaskSession(older)
+
+    expect(getTaskSession()?.prompt).toBe('旧任务')
+  })
+
+  it('ID 可以只写开头几位', () => {
+    const session = saved('部署项目')
+    expect(getTaskSession(session.id.slice(0, 17))?.id).toBe(session.id)
+  })
+
+  it('前缀匹配到多个会话时抛出错误', () => {
+    saved('任务 1')
+    saved('任务 2')
+    expect(() => getTaskSession('2')).toThrow('匹配到 2 个会话')
+  })
+
+  it('没有会话时返回 null', () => {
+    expect(getTaskSession()).toBeNull()
+    expect(getTaskSession('nope')).toBeNull()
+  })
+
+  it('应跳过损坏的会话文件', () => {
+    saved('部署项目')
+    fs.writeFileSync(path.join(configDir, 'sessions', 'broken.json'), '{')
+    expect(getTaskSessions()).toHaveLength(1)
+  })
+})
+
+// ============================================================================
+// removeTaskSession
+// ============================================================================
+
+describe('removeTaskSession', () => {
+  it('任务完成后删除会话', () => {
+    const session = saved('部署项目')
+    removeTaskSession(session.id)
+    expect(getTaskSession(session.id)).toBeNull()
+  })
+})
+
+// ============================================================================
+// getSessionEnvChanges
+// ============================================================================
+
+describe('getSessionEnvChanges', () => {
+  it('应按步骤顺序合并环境变量变化', () => {
+    const session = createTaskSession('配置环境')
+    session.steps = [
+      step('export A=1 B=2', 0, { envChanges: { A: '1', B: '2' } }),
+      step('export A=3; unset B', 0, { envChanges: { A: '3', B: null } }),
+    ]
+    expect(getSessionEnvChanges(session)).toEqual({ A: '3', B: null })
+  })
+
+  it('被脱敏的值不还原', () => {
+    const session = createTaskSession('配置环境')
+    session.steps = [
+      step('export TOKEN=x', 0, { envChanges: { API_TOKEN: 'old' } }),
+      step('export TOKEN=y', 0, { envChanges: { API_TOKEN: '[REDACTED]', APP_ENV: 'prod' } }),
+    ]
+    expect(getSessionEnvChanges(session)).toEqual({ APP_ENV: 'prod' })
+  })
+})
@@ -0,0 +1,166 @@
+/**
+ * 撤销日志测试
+ * 在临时目录中执行真实命令，测试 rm / mv / sed -i / chmod / 重定向的备份和还原
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { execSync } from 'child_process'
+
+// 撤销目录放到临时目录中
+const { configDir } = vi.hoisted(() => {
+  const fs = require('fs') as typeof import('fs')
+  const os = require('os') as typeof import('os')
+  const path = require('path') as typeof import('path')
+  return { configDir: fs.mkdtempSync(path.join(os.tmpdir(), 'pls-undo-config-')) }
+})
+
+vi.mock('../config.js', () => ({
+  CONFIG_DIR: configDir,
+  getConfig: vi.fn(() => ({ redactPatterns: [] })),
+}))
+
+import { createUndoSnapshot, restoreUndo, getUndoEntries, hasUndoEntry } from '../undo.js'
+
+let dir: string
+
+/**
+ * 在临时目录中执行命令
+ */
+function run(command: string): void {
+  execSync(command, { cwd: dir, shell: '/bin/sh', stdio: 'ignore' })
+}
+
+function read(name: string): string {
+  return fs.readFileSync(path.join(dir, name), 'utf-8')
+}
+
+function exists(name: string): boolean {
+  return fs.existsSync(path.join(dir, name))
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pls-undo-'))
+  fs.writeFileSync(path.join(dir, 'a.txt'), 'hello a')
+  fs.writeFileSync(path.join(dir, 'b.txt'), 'hello b')
+  fs.mkdirSync(path.join(dir, 'sub'))
+  fs.writeFileSync(path.join(dir, 'sub', 'c.txt'), 'hello c')
+})
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true })
+  fs.rmSync(path.join(configDir, 'undo'), { recursive: true, force: true })
+})
+
+// ============================================================================
+// createUndoSnapshot
+// ============================================================================
+
+describe.skipIf(process.platform === 'win32')('createUndoSnapshot', () => {
+  it('不修改文件的命令不创建条目', () => {
+    expect(createUndoSnapshot('ls -la | grep txt', { cwd: dir })).toBeNull()
+    expect(createUndoSnapshot('echo hi > /dev/null 2>&1', { cwd: dir })).toBeNull()
+    expect(getUndoEntries()).toEqual([])
+  })
+
+  it('应展开通配符并备份被删除的文件', () => {
+    const manifest = createUndoSnapshot('rm -f *.txt', { cwd: dir })
+    expect(manifest?.paths.map((p) => [path.basename(p.path), p.kind])).toEqual([
+      ['a.txt', 'file'],
+      ['b.txt', 'file'],
+    ])
+    expect(hasUndoEntry(manifest!.id)).toBe(true)
+  })
+
+  it('mv 应记录目标路径', () => {
+    const manifest = createUndoSnapshot('mv a.txt sub/', { cwd: dir })
+    expect(manifest?.paths).toContainEqual({ path: path.join(dir, 'sub', 'a.txt'), kind: 'created' })
+  })
+
+  it('路径无法在执行前确定时抛出错误', () => {
+    expect(() => createUndoSnapshot('rm $(cat list.txt)', { cwd: dir })).toThrow()
+    expect(() => createUndoSnapshot('ls | xargs rm', { cwd: dir })).toThrow()
+    expect(() => createUndoSnapshot('cd sub && rm c.txt', { cwd: dir })).toThrow()
+  })
+})
+
+// ============================================================================
+// restoreUndo
+// ============================================================================
+
+describe.skipIf(process.platform === 'win32')('restoreUndo', () => {
+  it('应还原 rm -rf 删除的目录', () => {
+    createUndoSnapshot('rm -rf sub a.txt', { cwd: dir })
+    run('rm -rf sub a.txt')
+
+    const manifest = restoreUndo()
+    expect(manifest?.command).toBe('rm -rf sub a.txt')
+    expect(read('sub/c.txt')).toBe('hello c')
+    expect(read('a.txt')).toBe('hello a')
+    expect(getUndoEntries()).toEqual([])
+  })
+
+  it('应撤销 mv：还原源文件并删除目标', () => {
+    createUndoSnapshot('mv a.txt renamed.txt', { cwd: dir })
+    run('mv a.txt renamed.txt')
+
+    restoreUndo()
+    expect(read('a.txt')).toBe('hello a')
+    expect(exists('renamed.txt')).toBe(false)
+  })
+
+  it('mv 覆盖已有文件时应还原被覆盖的文件', () => {
+    createUndoSnapshot('mv a.txt b.txt', { cwd: dir })
+    run('mv a.txt b.txt')
+
+    restoreUndo()
+    expect(read('a.txt')).toBe('hello a')
+    expect(read('b.txt')).toBe('hello b')
+  })
+
+  it('应还原 sed -i 修改的文件', () => {
+    createUndoSnapshot(`sed -i.bak 's/hello/bye/' a.txt sub/c.txt`, { cwd: dir })
+    run(`sed -i.bak 's/hello/bye/' a.txt sub/c.txt`)
+    expect(read('a.txt')).toBe('bye a')
+
+    restoreUndo()
+    expect(read('a.txt')).toBe('hello a')
+    expect(read('sub/c.txt')).toBe('hello c')
+  })
+
+  it('应还原 chmod 修改的权限', () => {
+    fs.chmodSync(path.join(dir, 'a.txt'), 0o644)
+    createUndoSnapshot('chmod -R 700 a.txt sub', { cwd: dir })
+    run('chmod -R 700 a.txt sub')
+
+    restoreUndo()
+    expect(fs.statSync(path.join(dir, 'a.txt')).mode & 0o777).toBe(0o644)
+  })
+
+  it('应撤销重定向：还原被覆盖的文件，删除新建的文件', () => {
+    createUndoSnapshot('echo new > a.txt && echo log >> new.log', { cwd: dir })
+    run('echo new > a.txt && echo log >> new.log')
+
+    restoreUndo()
+    expect(read('a.txt')).toBe('hello a')
+    expect(exists('new.log')).toBe(false)
+  })
+
+  it('应撤销指定条目', () => {
+    const first = createUndoSnapshot('rm a.txt', { cwd: dir })
+    createUndoSnapshot('rm b.txt', { cwd: dir })
+    run('rm a.txt b.txt')
+
+    restoreUndo(first!.id)
+    expect(exists('a.txt')).toBe(true)
+    expect(exists('b.txt')).toBe(false)
+    expect(getUndoEntries()).toHaveLength(1)
+  })
+
+  it('没有可撤销的条目时返回 null', () => {
+    expect(restoreUndo()).toBeNull()
+    expect(restoreUndo('not-exist')).toBeNull()
+  })
+})
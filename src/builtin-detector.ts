@@ -5,6 +5,8 @@
  * 这些命令在子进程中执行可能无效或行为异常
  */
 
+import { parseShellCommand } from './shell-parser.js'
+
 // Shell 内置命令列表
 const SHELL_BUILTINS: readonly string[] = [
   // 目录相关
@@ -65,32 +67,28 @@ export interface BuiltinResult {
   builtins: string[]
 }
 
+// 在当前 shell 中执行后续命令的包装命令（sudo、env、xargs 等会另起进程，其后的 builtin 不影响当前 shell）
+const SHELL_WRAPPERS = new Set(['command', 'builtin', 'exec', 'time'])
+
 /**
- * 提取命令中的所有命令名
+ * 提取在当前 shell 中执行的所有命令名
+ * 子 shell、命令替换中的 cd / export 本来就只作用于子进程，不算
  */
 function extractCommandNames(command: string): string[] {
-  // 按分隔符拆分（&&, ||, ;, |, &, 换行）
-  // 注意：| 是管道，两边都在子进程中执行，所以也算
-  const parts = command.split(/[;&|]+|\n+/)
-
   const commandNames: string[] = []
 
-  for (const part of parts) {
-    const trimmed = part.trim()
-    if (!trimmed) continue
+  for (const invocation of parseShellCommand(command)) {
+    if (invocation.context !== 'main') continue
 
-    // 提取第一个单词（命令名）
-    // 处理 sudo、env 等前缀
-    const words = trimmed.split(/\s+/)
+    const wrappers = invocation.wrappers.map((w) => w.toLowerCase())
+    if (wrappers.some((w) => !SHELL_WRAPPERS.has(w))) continue
 
-    // 跳过 sudo、env 等
-    let i = 0
-    while (i < words.length && ['sudo', 'env', 'nohup', 'nice'].includes(words[i])) {
-      i++
+    // exec 本身会替换当前 shell
+    if (wrappers.includes('exec')) {
+      commandNames.push('exec')
     }
-
-    if (i < words.length) {
-      commandNames.push(words[i])
+    if (invocation.name) {
+      commandNames.push(invocation.name)
     }
   }
 
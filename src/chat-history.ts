@@ -3,6 +3,8 @@ import path from 'path'
 import os from 'os'
 import chalk from 'chalk'
 import { getConfig } from './config.js'
+import { redactSecrets } from './redact.js'
+import { readHistoryFile, appendHistoryFile, clearHistoryFile, deleteHistoryRecord, type HistoryFile } from './history-store.js'
 import { getCurrentTheme } from './ui/theme.js'
 
 // 获取主题颜色
@@ -14,7 +16,13 @@ function getColors() {
 }
 
 const CONFIG_DIR = path.join(os.homedir(), '.please')
-const CHAT_HISTORY_FILE = path.join(CONFIG_DIR, 'chat_history.json')
+const CHAT_HISTORY_FILE: HistoryFile = {
+  path: path.join(CONFIG_DIR, 'chat_history.jsonl'),
+  legacyPath: path.join(CONFIG_DIR, 'chat_history.json'),
+}
+
+// pls history chat 显示的轮数
+const DISPLAY_LIMIT = 20
 
 /**
  * 聊天消息
@@ -22,6 +30,7 @@ const CHAT_HISTORY_FILE = path.join(CONFIG_DIR, 'chat_history.json')
 export interface ChatMessage {
   role: 'user' | 'assistant'
   content: string
+  timestamp?: string
 }
 
 /**
@@ -34,69 +43,70 @@ function ensureConfigDir(): void {
 }
 
 /**
- * 读取对话历史
+ * 本地最多保存的对话轮数
+ */
+function getRetentionRounds(): number {
+  return getConfig().historyRetention || 1000
+}
+
+/**
+ * 读取保存的全部对话历史（从旧到新）
  */
 export function getChatHistory(): ChatMessage[] {
   ensureConfigDir()
-
-  if (!fs.existsSync(CHAT_HISTORY_FILE)) {
-    return []
-  }
-
-  try {
-    const content = fs.readFileSync(CHAT_HISTORY_FILE, 'utf-8')
-    return JSON.parse(content) as ChatMessage[]
-  } catch {
-    return []
-  }
+  return readHistoryFile<ChatMessage>(CHAT_HISTORY_FILE).slice(-getRetentionRounds() * 2)
 }
 
 /**
- * 保存对话历史
+ * 发送给 AI 的对话历史（最近 chatHistoryLimit 轮）
  */
-function saveChatHistory(history: ChatMessage[]): void {
-  ensureConfigDir()
-  fs.writeFileSync(CHAT_HISTORY_FILE, JSON.stringify(history, null, 2))
+export function getChatHistoryForAI(): ChatMessage[] {
+  const maxRounds = getConfig().chatHistoryLimit || 10
+  return getChatHistory().slice(-maxRounds * 2)
 }
 
 /**
  * 添加一轮对话（用户问题 + AI 回答）
  */
 export function addChatMessage(userMessage: string, assistantMessage: string): void {
-  const config = getConfig()
-  const history = getChatHistory()
-
-  // 添加新的对话
-  history.push({ role: 'user', content: userMessage })
-  history.push({ role: 'assistant', content: assistantMessage })
-
-  // 计算当前轮数（每 2 条消息 = 1 轮）
-  const currentRounds = Math.floor(history.length / 2)
-  const maxRounds = config.chatHistoryLimit || 10
-
-  // 如果超出限制，移除最早的对话
-  if (currentRounds > maxRounds) {
-    // 需要移除的轮数
-    const removeRounds = currentRounds - maxRounds
-    // 移除最早的 N 轮（N*2 条消息）
-    history.splice(0, removeRounds * 2)
-  }
+  const timestamp = new Date().toISOString()
+
+  // 一轮对话的两条消息一次写入（脱敏后保存）
+  appendHistoryFile<ChatMessage>(
+    CHAT_HISTORY_FILE,
+    [
+      { role: 'user', content: redactSecrets(userMessage), timestamp },
+      { role: 'assistant', content: redactSecrets(assistantMessage), timestamp },
+    ],
+    getRetentionRounds() * 2
+  )
+}
 
-  saveChatHistory(history)
+/**
+ * 删除一轮对话（用户问题和紧跟着的 AI 回答）
+ * @param question 这一轮的用户问题（旧版本的记录没有时间戳，按内容匹配）
+ * @returns 是否找到并删除
+ */
+export function deleteChatRound(question: ChatMessage): boolean {
+  return deleteHistoryRecord<ChatMessage>(
+    CHAT_HISTORY_FILE,
+    (item) => item.role === 'user' && item.content === question.content && item.timestamp === question.timestamp,
+    (messages, i) => (messages[i + 1]?.role === 'assistant' ? 2 : 1)
+  )
 }
 
 /**
  * 清空对话历史
  */
 export function clearChatHistory(): void {
-  saveChatHistory([])
+  clearHistoryFile(CHAT_HISTORY_FILE)
 }
 
 /**
  * 获取对话历史文件路径
  */
 export function getChatHistoryFilePath(): string {
-  return CHAT_HISTORY_FILE
+  return CHAT_HISTORY_FILE.path
 }
 
 /**
@@ -121,8 +131,8 @@ export function displayChatHistory(): void {
     return
   }
 
-  // 只提取用户消息
-  const userMessages = history.filter((msg) => msg.role === 'user')
+  // 只提取用户消息，只显示最近的几轮
+  const userMessages = history.filter((msg) => msg.role === 'user').slice(-DISPLAY_LIMIT)
 
   console.log('')
   console.log(chalk.bold(`对话历史（最近 ${userMessages.length} 轮）:`))
@@ -134,7 +144,9 @@ export function displayChatHistory(): void {
   })
 
   console.log(chalk.gray('━'.repeat(50)))
-  console.log(chalk.gray(`配置: 保留最近 ${config.chatHistoryLimit} 轮对话`))
-  console.log(chalk.gray(`文件: ${CHAT_HISTORY_FILE}`))
+  console.log(
+    chalk.gray(`配置: 保存 ${getChatRoundCount()} 轮（最多 ${getRetentionRounds()} 轮），发送给 AI 最近 ${config.chatHistoryLimit} 轮`)
+  )
+  console.log(chalk.gray(`文件: ${CHAT_HISTORY_FILE.path}`))
   console.log('')
 }
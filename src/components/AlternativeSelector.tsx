@@ -0,0 +1,65 @@
+import React, { useState } from 'react'
+import { Box, Text, useInput } from 'ink'
+import { analyzeCommandRisk, formatRiskBadge } from '../risk-analyzer.js'
+import type { CommandAlternative } from '../multi-step.js'
+import { getCurrentTheme } from '../ui/theme.js'
+
+interface AlternativeSelectorProps {
+  alternatives: CommandAlternative[]
+  onSelect: (index: number) => void
+  onCancel: () => void
+}
+
+/**
+ * AlternativeSelector 组件 - 备选命令列表
+ * ↑/↓ 或 j/k 移动，数字键直接选择，回车 = 选择，Esc = 取消
+ */
+export const AlternativeSelector: React.FC<AlternativeSelectorProps> = ({ alternatives, onSelect, onCancel }) => {
+  const theme = getCurrentTheme()
+  const [selected, setSelected] = useState(0)
+
+  useInput((input, key) => {
+    if (key.upArrow || input === 'k') {
+      setSelected((index) => (index - 1 + alternatives.length) % alternatives.length)
+    } else if (key.downArrow || input === 'j') {
+      setSelected((index) => (index + 1) % alternatives.length)
+    } else if (key.return) {
+      onSelect(selected)
+    } else if (key.escape) {
+      onCancel()
+    } else if (key.ctrl && input === 'c') {
+      process.exit(0)
+    } else if (/^[1-9]$/.test(input) && Number(input) <= alternatives.length) {
+      onSelect(Number(input) - 1)
+    }
+  })
+
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      <Text bold color={theme.primary}>
+        选择一个方案:
+      </Text>
+      {alternatives.map((alternative, index) => {
+        const active = index === selected
+        const risk = analyzeCommandRisk(alternative.command)
+        const riskColor = risk.level === 'high' ? theme.error : risk.level === 'medium' ? theme.warning : theme.success
+        return (
+          <Box key={index} flexDirection="column" marginTop={index === 0 ? 0 : 1}>
+            <Text color={active ? theme.primary : theme.text.secondary}>
+              {active ? '❯ ' : '  '}
+              {index + 1}. {alternative.description || alternative.command}{' '}
+              <Text color={riskColor}>[{formatRiskBadge(risk)}]</Text>
+            </Text>
+            <Text color={active ? theme.text.primary : theme.text.muted}>
+              {'     '}
+              {alternative.command}
+            </Text>
+          </Box>
+        )
+      })}
+      <Box marginTop={1}>
+        <Text color={theme.text.secondary}>[↑↓ 选择 / 回车确定 / Esc 取消]</Text>
+      </Box>
+    </Box>
+  )
+}
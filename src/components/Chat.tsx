@@ -10,6 +10,7 @@ interface ChatProps {
   prompt: string
   debug?: boolean
   showRoundCount?: boolean
+  stdinContent?: string  // 管道输入
   onComplete: () => void
 }
 
@@ -27,7 +28,7 @@ interface DebugInfo {
  * Chat 组件 - AI 对话模式
  * 使用正常渲染，完成后保持最后一帧在终端
  */
-export function Chat({ prompt, debug, showRoundCount, onComplete }: ChatProps) {
+export function Chat({ prompt, debug, showRoundCount, stdinContent, onComplete }: ChatProps) {
   const theme = getCurrentTheme()
   const [status, setStatus] = useState<Status>('thinking')
   const [content, setContent] = useState('')
@@ -45,7 +46,7 @@ export function Chat({ prompt, debug, showRoundCount, onComplete }: ChatProps) {
     }
 
     // 调用 AI（如果需要 debug 信息，则开启）
-    chatWithMastra(prompt, { debug, onChunk })
+    chatWithMastra(prompt, { debug, stdinContent, onChunk })
       .then((result) => {
         const endTime = Date.now()
         setDuration(endTime - startTime)
@@ -63,7 +64,7 @@ export function Chat({ prompt, debug, showRoundCount, onComplete }: ChatProps) {
         setContent(error.message)
         setTimeout(onComplete, 100)
       })
-  }, [prompt, debug, onComplete])
+  }, [prompt, debug, stdinContent, onComplete])
 
   return (
     <Box flexDirection="column">
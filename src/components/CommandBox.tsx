@@ -2,21 +2,27 @@ import React from 'react'
 import { Box, Text } from 'ink'
 import { getCurrentTheme } from '../ui/theme.js'
 import { getDisplayWidth, wrapText, MIN_COMMAND_BOX_WIDTH } from '../utils/console.js'
+import { formatRiskBadge, type RiskAnalysis } from '../risk-analyzer.js'
 
 interface CommandBoxProps {
   command: string
   title?: string
+  risk?: RiskAnalysis  // 风险分析结果（显示在标题栏）
 }
 
 /**
  * CommandBox 组件 - 显示带边框和标题的命令框
  */
-export const CommandBox: React.FC<CommandBoxProps> = ({ command, title = '生成命令' }) => {
+export const CommandBox: React.FC<CommandBoxProps> = ({ command, title = '生成命令', risk }) => {
   const theme = getCurrentTheme()
 
+  // 风险标记：[高风险 · 破坏性]
+  const badge = risk ? `[${formatRiskBadge(risk)}]` : ''
+  const badgeColor = risk?.level === 'high' ? theme.error : risk?.level === 'medium' ? theme.warning : theme.success
+
   // 获取终端宽度，限制最大宽度
   const termWidth = process.stdout.columns || 80
-  const titleWidth = getDisplayWidth(title)
+  const titleWidth = getDisplayWidth(title) + (badge ? getDisplayWidth(badge) + 1 : 0)
 
   // 计算最大内容宽度（终端宽度 - 边框和内边距）
   const maxContentWidth = termWidth - 6 // 减去 '│ ' 和 ' │' 以及一些余量
@@ -35,16 +41,20 @@ export const CommandBox: React.FC<CommandBoxProps> = ({ command, title = '生成
   )
   const boxWidth = Math.max(MIN_COMMAND_BOX_WIDTH, Math.min(actualMaxWidth + 4, termWidth - 2))
 
-  // 顶部边框：┌─ 生成命令 ─────┐
+  // 顶部边框：┌─ 生成命令 [低风险 · 只读] ─────┐
   const topPadding = boxWidth - titleWidth - 5
-  const topBorder = '┌─ ' + title + ' ' + '─'.repeat(Math.max(0, topPadding)) + '┐'
+  const topRight = ' ' + '─'.repeat(Math.max(0, topPadding)) + '┐'
 
   // 底部边框
   const bottomBorder = '└' + '─'.repeat(boxWidth - 2) + '┘'
 
   return (
     <Box flexDirection="column" marginY={1}>
-      <Text color={theme.warning}>{topBorder}</Text>
+      <Text>
+        <Text color={theme.warning}>{'┌─ ' + title}</Text>
+        {badge && <Text color={badgeColor}>{' ' + badge}</Text>}
+        <Text color={theme.warning}>{topRight}</Text>
+      </Text>
       {wrappedLines.map((line, index) => {
         const lineWidth = getDisplayWidth(line)
         const padding = ' '.repeat(Math.max(0, boxWidth - lineWidth - 4))
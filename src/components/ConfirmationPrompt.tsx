@@ -1,5 +1,6 @@
-import React from 'react'
+import React, { useState } from 'react'
 import { Text, useInput } from 'ink'
+import TextInput from 'ink-text-input'
 import { getCurrentTheme } from '../ui/theme.js'
 
 interface ConfirmationPromptProps {
@@ -7,20 +8,46 @@ interface ConfirmationPromptProps {
   onConfirm: () => void
   onCancel: () => void
   onEdit?: () => void  // 新增：编辑回调
+  onRefine?: () => void  // 用自然语言提修改意见，让 AI 重新生成
+  confirmWord?: string  // 高风险命令：需要输入确认词才能执行
+  confirmLabel?: string  // 回车对应的操作名，默认"执行"
+  cancelLabel?: string  // Esc 对应的操作名，默认"取消"
 }
 
 /**
  * ConfirmationPrompt 组件 - 单键确认提示
- * 回车 = 确认，E = 编辑，Esc = 取消，Ctrl+C = 退出
+ * 回车 = 确认，E = 编辑，F = 调整，Esc = 取消，Ctrl+C = 退出
+ * 设置 confirmWord 时：输入确认词 + 回车 = 确认，Tab = 编辑，Ctrl+F = 调整，Esc = 取消
  */
 export const ConfirmationPrompt: React.FC<ConfirmationPromptProps> = ({
   prompt,
   onConfirm,
   onCancel,
   onEdit,
+  onRefine,
+  confirmWord,
+  confirmLabel = '执行',
+  cancelLabel = '取消',
 }) => {
   const theme = getCurrentTheme()
+  const [typed, setTyped] = useState('')
+  const [mismatch, setMismatch] = useState(false)
+
   useInput((input, key) => {
+    if (confirmWord) {
+      // 确认词模式：回车由 TextInput 处理，字母键用于输入
+      if (key.escape) {
+        onCancel()
+      } else if (key.tab && onEdit) {
+        onEdit()
+      } else if (key.ctrl && input === 'f' && onRefine) {
+        onRefine()
+      } else if (key.ctrl && input === 'c') {
+        process.exit(0)
+      }
+      return
+    }
+
     if (key.return) {
       // 回车键
       onConfirm()
@@ -30,19 +57,46 @@ export const ConfirmationPrompt: React.FC<ConfirmationPromptProps> = ({
     } else if ((input === 'e' || input === 'E') && onEdit) {
       // E 键进入编辑模式
       onEdit()
+    } else if ((input === 'f' || input === 'F') && onRefine) {
+      // F 键提修改意见
+      onRefine()
     } else if (key.ctrl && input === 'c') {
       // Ctrl+C
       process.exit(0)
     }
   })
 
+  if (confirmWord) {
+    const handleSubmit = (value: string) => {
+      if (value.trim() === confirmWord) {
+        onConfirm()
+      } else {
+        setMismatch(true)
+        setTyped('')
+      }
+    }
+
+    return (
+      <Text>
+        <Text bold color={theme.error}>
+          {prompt}
+        </Text>
+        <Text color={theme.text.secondary}>
+          {` [输入 ${confirmWord} 回车${confirmLabel}${onEdit ? ' / Tab 编辑' : ''}${onRefine ? ' / Ctrl+F 调整' : ''} / Esc ${cancelLabel}] `}
+        </Text>
+        {mismatch && <Text color={theme.error}>(输入不匹配) </Text>}
+        <TextInput value={typed} onChange={setTyped} onSubmit={handleSubmit} />
+      </Text>
+    )
+  }
+
   return (
     <Text>
       <Text bold color={theme.warning}>
         {prompt}
       </Text>
       <Text color={theme.text.secondary}>
-        {onEdit ? ' [回车执行 / E 编辑 / Esc 取消] ' : ' [回车执行 / Esc 取消] '}
+        {` [回车${confirmLabel}${onEdit ? ' / E 编辑' : ''}${onRefine ? ' / F 调整' : ''} / Esc ${cancelLabel}] `}
       </Text>
     </Text>
   )
@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react'
+import { Box, Text } from 'ink'
+import Spinner from 'ink-spinner'
+import { MarkdownDisplay } from './MarkdownDisplay.js'
+import { askHistoryWithMastra } from '../mastra-chat.js'
+import { formatEntriesForAsk, extractCitations, getRerunHint } from '../history-ask.js'
+import { formatSourceLabel, type SearchEntry } from '../history-search.js'
+import { getCurrentTheme } from '../ui/theme.js'
+
+interface HistoryAskProps {
+  question: string
+  entries: SearchEntry[]  // 检索到的相关记录（按相关度排序）
+  onComplete: () => void
+}
+
+type Status = 'thinking' | 'streaming' | 'done' | 'error'
+
+/**
+ * HistoryAsk 组件 - 根据历史记录回答问题，回答后列出引用的记录
+ */
+export function HistoryAsk({ question, entries, onComplete }: HistoryAskProps) {
+  const theme = getCurrentTheme()
+  const [status, setStatus] = useState<Status>('thinking')
+  const [content, setContent] = useState('')
+  const [duration, setDuration] = useState(0)
+
+  useEffect(() => {
+    const startTime = Date.now()
+
+    const onChunk = (chunk: string) => {
+      setStatus('streaming')
+      setContent((prev) => prev + chunk)
+    }
+
+    askHistoryWithMastra(question, formatEntriesForAsk(entries), { onChunk })
+      .then((reply) => {
+        setContent(reply)
+        setDuration(Date.now() - startTime)
+        setStatus('done')
+        setTimeout(onComplete, 100)
+      })
+      .catch((error: any) => {
+        setStatus('error')
+        setContent(error.message)
+        setTimeout(onComplete, 100)
+      })
+  }, [question, entries, onComplete])
+
+  const citations = status === 'done' ? extractCitations(content, entries.length) : []
+
+  return (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text color={theme.text.secondary}>(从历史中找到 {entries.length} 条相关记录)</Text>
+      </Box>
+
+      {status === 'thinking' && (
+        <Box>
+          <Text color={theme.info}>
+            <Spinner type="dots" /> 思考中...
+          </Text>
+        </Box>
+      )}
+
+      {(status === 'streaming' || status === 'done') && content && (
+        <Box marginLeft={2} marginRight={2}>
+          <MarkdownDisplay text={content} terminalWidth={96} />
+        </Box>
+      )}
+
+      {status === 'error' && (
+        <Box marginTop={1} marginLeft={2}>
+          <Text color={theme.error}>❌ 错误: {content}</Text>
+        </Box>
+      )}
+
+      {/* 引用的记录 */}
+      {citations.length > 0 && (
+        <Box flexDirection="column" marginTop={1}>
+          <Text color={theme.text.secondary}>引用:</Text>
+          {citations.map((n) => {
+            const entry = entries[n - 1]
+            const hint = getRerunHint(entry)
+            const time = entry.timestamp ? new Date(entry.timestamp).toLocaleString('zh-CN') : ''
+            return (
+              <Box key={n} flexDirection="column" marginLeft={2}>
+                <Text>
+                  <Text color={theme.primary}>[{n}]</Text>{' '}
+                  <Text color={theme.text.secondary}>{[formatSourceLabel(entry), time].filter(Boolean).join(' · ')}</Text>
+                  {entry.prompt ? <Text> {entry.prompt}</Text> : null}
+                </Text>
+                <Text>
+                  {'    '}
+                  <Text color={theme.text.muted}>→</Text> {entry.command}{' '}
+                  {entry.executed ? (
+                    entry.exitCode === 0 ? (
+                      <Text color={theme.success}>✓</Text>
+                    ) : (
+                      <Text color={theme.error}>✗ 退出码:{entry.exitCode}</Text>
+                    )
+                  ) : (
+                    <Text color={theme.text.muted}>(未执行)</Text>
+                  )}
+                </Text>
+                {hint && <Text color={theme.text.muted}>{'    '}{hint}</Text>}
+              </Box>
+            )
+          })}
+        </Box>
+      )}
+
+      {status === 'done' && duration > 0 && (
+        <Box marginTop={1}>
+          <Text color={theme.text.secondary}>({(duration / 1000).toFixed(2)}s)</Text>
+        </Box>
+      )}
+    </Box>
+  )
+}
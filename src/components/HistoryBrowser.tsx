@@ -0,0 +1,334 @@
+import React, { useState } from 'react'
+import { Box, Text, useInput, useStdout } from 'ink'
+import TextInput from 'ink-text-input'
+import { MarkdownDisplay } from './MarkdownDisplay.js'
+import { getCurrentTheme } from '../ui/theme.js'
+import {
+  BROWSER_TABS,
+  BROWSER_TAB_LABELS,
+  filterBrowserEntries,
+  type BrowserEntry,
+  type BrowserTab,
+} from '../history-browser.js'
+
+// 列表一次显示的条数
+const LIST_HEIGHT = 8
+
+// 详情中最多显示的输出 / 回答行数
+const DETAIL_LINES = 12
+
+export interface HistoryBrowserResult {
+  action: 'rerun' | 'edit'
+  entry: BrowserEntry
+  prompt?: string  // 对话编辑后的问题
+}
+
+interface HistoryBrowserProps {
+  entries: Record<BrowserTab, BrowserEntry[]>
+  onCopy: (entry: BrowserEntry, write: (data: string) => void) => string  // write 写到终端（不打乱界面），返回提示信息
+  onSaveAlias: (name: string, entry: BrowserEntry) => string  // 返回提示信息，失败时抛出错误
+  onDelete: (entry: BrowserEntry) => boolean
+  onExit: (result: HistoryBrowserResult | null) => void
+}
+
+type Mode = 'browse' | 'filter' | 'alias' | 'edit_question' | 'confirm_delete'
+
+/**
+ * 截取前几行，超出时注明省略的行数
+ */
+function takeLines(text: string, count: number): string {
+  const lines = text.trimEnd().split('\n')
+  if (lines.length <= count) {
+    return lines.join('\n')
+  }
+  return [...lines.slice(0, count), `...(还有 ${lines.length - count} 行)`].join('\n')
+}
+
+function formatTime(timestamp?: string): string {
+  return timestamp ? new Date(timestamp).toLocaleString('zh-CN') : ''
+}
+
+/**
+ * HistoryBrowser 组件 - 交互式历史浏览器
+ * ↑/↓ 或 j/k 移动，Tab / ←→ 切换标签页，/ 模糊过滤，回车或 r 重新执行，e 编辑后执行，
+ * c 复制，a 存为别名，d 删除，q / Esc 退出
+ */
+export const HistoryBrowser: React.FC<HistoryBrowserProps> = ({ entries: initialEntries, onCopy, onSaveAlias, onDelete, onExit }) => {
+  const theme = getCurrentTheme()
+  const { stdout, write } = useStdout()
+  const width = stdout?.columns || 80
+
+  const [entries, setEntries] = useState(initialEntries)
+  const [tab, setTab] = useState<BrowserTab>(BROWSER_TABS.find((t) => initialEntries[t].length > 0) ?? 'local')
+  const [query, setQuery] = useState('')
+  const [selected, setSelected] = useState(0)
+  const [mode, setMode] = useState<Mode>('browse')
+  const [input, setInput] = useState('')
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null)
+
+  const visible = filterBrowserEntries(entries[tab], query)
+  const current: BrowserEntry | undefined = visible[Math.min(selected, visible.length - 1)]
+
+  const move = (delta: number) => {
+    if (visible.length === 0) return
+    setSelected((index) => (Math.min(index, visible.length - 1) + delta + visible.length) % visible.length)
+  }
+
+  const switchTab = (delta: number) => {
+    const index = BROWSER_TABS.indexOf(tab)
+    setTab(BROWSER_TABS[(index + delta + BROWSER_TABS.length) % BROWSER_TABS.length])
+    setSelected(0)
+    setMessage(null)
+  }
+
+  const updateQuery = (value: string) => {
+    setQuery(value)
+    setSelected(0)
+  }
+
+  const handleAction = (inputKey: string) => {
+    if (!current) return
+    setMessage(null)
+
+    if (inputKey === 'r') {
+      onExit({ action: 'rerun', entry: current })
+    } else if (inputKey === 'e') {
+      if (current.tab === 'chat') {
+        // 对话在这里改问题，命令在确认界面里编辑
+        setInput(current.title)
+        setMode('edit_question')
+      } else {
+        onExit({ action: 'edit', entry: current })
+      }
+    } else if (inputKey === 'c') {
+      setMessage({ text: onCopy(current, write) })
+    } else if (inputKey === 'a') {
+      if (current.tab === 'chat') {
+        setMessage({ text: '对话不能保存为别名（别名用于生成命令）', error: true })
+        return
+      }
+      setInput('')
+      setMode('alias')
+    } else if (inputKey === 'd') {
+      setMode('confirm_delete')
+    }
+  }
+
+  const confirmDelete = () => {
+    setMode('browse')
+    if (!current) return
+    if (!onDelete(current)) {
+      setMessage({ text: '没有找到这条记录（可能已被其他 pls 进程删除）', error: true })
+      return
+    }
+    setEntries((all) => ({ ...all, [tab]: all[tab].filter((entry) => entry !== current) }))
+    setSelected((index) => Math.max(0, Math.min(index, visible.length - 2)))
+    setMessage({ text: '已删除' })
+  }
+
+  const submitAlias = (name: string) => {
+    if (!current) return
+    try {
+      setMessage({ text: onSaveAlias(name, current) })
+      setMode('browse')
+    } catch (error: any) {
+      setMessage({ text: error.message, error: true })
+    }
+  }
+
+  const submitQuestion = (question: string) => {
+    if (!current || !question.trim()) return
+    onExit({ action: 'rerun', entry: current, prompt: question.trim() })
+  }
+
+  useInput((inputKey, key) => {
+    if (key.ctrl && inputKey === 'c') {
+      process.exit(0)
+    }
+
+    // 输入别名或问题时，其他按键交给输入框
+    if (mode === 'alias' || mode === 'edit_question') {
+      if (key.escape) {
+        setMode('browse')
+        setMessage(null)
+      }
+      return
+    }
+
+    if (mode === 'confirm_delete') {
+      // 默认不删除（[y/N]），回车也当作取消
+      if (inputKey === 'y' || inputKey === 'Y') {
+        confirmDelete()
+      } else {
+        setMode('browse')
+      }
+      return
+    }
+
+    if (key.upArrow) return move(-1)
+    if (key.downArrow) return move(1)
+    if (key.tab) return switchTab(key.shift ? -1 : 1)
+
+    if (mode === 'filter') {
+      if (key.return) {
+        setMode('browse')
+      } else if (key.escape) {
+        updateQuery('')
+        setMode('browse')
+      } else if (key.backspace || key.delete) {
+        updateQuery(query.slice(0, -1))
+      } else if (inputKey && !key.ctrl && !key.meta) {
+        updateQuery(query + inputKey)
+      }
+      return
+    }
+
+    if (key.leftArrow) return switchTab(-1)
+    if (key.rightArrow) return switchTab(1)
+
+    if (inputKey === 'k') {
+      move(-1)
+    } else if (inputKey === 'j') {
+      move(1)
+    } else if (inputKey === '/') {
+      setMode('filter')
+      setMessage(null)
+    } else if (key.return) {
+      handleAction('r')
+    } else if (['r', 'e', 'c', 'a', 'd'].includes(inputKey)) {
+      handleAction(inputKey)
+    } else if (key.escape && query) {
+      updateQuery('')
+    } else if (inputKey === 'q' || key.escape) {
+      onExit(null)
+    }
+  })
+
+  // 列表窗口：让选中的一条尽量在中间
+  const selectedIndex = Math.min(selected, Math.max(visible.length - 1, 0))
+  const start = Math.max(0, Math.min(selectedIndex - Math.floor(LIST_HEIGHT / 2), visible.length - LIST_HEIGHT))
+  const rows = visible.slice(start, start + LIST_HEIGHT)
+
+  const renderStatus = (entry: BrowserEntry) => {
+    if (!entry.executed) {
+      return <Text color={theme.text.muted}>(未执行)</Text>
+    }
+    return entry.exitCode === 0 ? (
+      <Text color={theme.success}>✓</Text>
+    ) : (
+      <Text color={theme.error}>✗ {entry.exitCode}</Text>
+    )
+  }
+
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      {/* 标签页 */}
+      <Box>
+        <Text bold color={theme.primary}>
+          📜 历史{'  '}
+        </Text>
+        {BROWSER_TABS.map((t) => (
+          <Text key={t} color={t === tab ? theme.primary : theme.text.muted} bold={t === tab} inverse={t === tab}>
+            {` ${BROWSER_TAB_LABELS[t]} ${entries[t].length} `}
+          </Text>
+        ))}
+      </Box>
+
+      {/* 过滤 */}
+      {(mode === 'filter' || query) && (
+        <Text color={mode === 'filter' ? theme.primary : theme.text.secondary}>
+          / {query}
+          {mode === 'filter' ? '█' : ''}
+          {query ? <Text color={theme.text.muted}>{`  (${visible.length} 条)`}</Text> : null}
+        </Text>
+      )}
+
+      {/* 列表 */}
+      <Box flexDirection="column" marginTop={1}>
+        {visible.length === 0 && (
+          <Text color={theme.text.muted}>{query ? '  没有匹配的记录' : '  暂无记录'}</Text>
+        )}
+        {rows.map((entry, i) => {
+          const active = start + i === selectedIndex
+          return (
+            <Box key={entry.key}>
+              <Text color={active ? theme.primary : theme.text.secondary} wrap="truncate-end">
+                {active ? '❯ ' : '  '}
+                {entry.remote ? <Text color={theme.info}>[{entry.remote}] </Text> : null}
+                {entry.title.replace(/\s*\n\s*/g, ' ')}
+                {entry.command ? <Text color={active ? theme.text.primary : theme.text.muted}>{`  ${entry.command.replace(/\s*\n\s*/g, ' ')}`}</Text> : null}
+              </Text>
+              {entry.tab !== 'chat' && <Text> {renderStatus(entry)}</Text>}
+            </Box>
+          )
+        })}
+      </Box>
+
+      {/* 详情 */}
+      {current && (
+        <Box flexDirection="column" marginTop={1} borderStyle="round" borderColor={theme.border} paddingX={1}>
+          {current.tab === 'chat' ? (
+            <>
+              <Text color={theme.primary}>问题: {current.title}</Text>
+              <Box marginTop={1} flexDirection="column">
+                <MarkdownDisplay text={takeLines(current.answer || '（没有回答）', DETAIL_LINES)} terminalWidth={width - 4} />
+              </Box>
+            </>
+          ) : (
+            <>
+              <Text color={theme.primary}>需求: {current.title}</Text>
+              {current.userModified && current.aiGeneratedCommand ? (
+                <>
+                  <Text color={theme.text.muted}>AI 生成: {current.aiGeneratedCommand}</Text>
+                  <Text>
+                    用户修改为: {current.command} <Text color={theme.warning}>(已修改)</Text>
+                  </Text>
+                </>
+              ) : (
+                <Text>命令: {current.command}</Text>
+              )}
+              <Text>
+                状态: {current.executed ? (current.exitCode === 0 ? <Text color={theme.success}>✓ 成功</Text> : <Text color={theme.error}>✗ 退出码 {current.exitCode}</Text>) : <Text color={theme.text.muted}>未执行</Text>}
+              </Text>
+              {current.output?.trim() ? (
+                <Box flexDirection="column" marginTop={1}>
+                  <Text color={theme.text.secondary}>输出:</Text>
+                  <Text color={theme.text.muted}>{takeLines(current.output, DETAIL_LINES)}</Text>
+                </Box>
+              ) : null}
+            </>
+          )}
+          <Text color={theme.text.muted}>
+            {[current.remote && `服务器 ${current.remote}`, current.cwd, formatTime(current.timestamp)].filter(Boolean).join(' · ')}
+          </Text>
+        </Box>
+      )}
+
+      {/* 输入框 / 确认 / 提示 */}
+      {mode === 'alias' && (
+        <Box>
+          <Text color={theme.primary}>别名（pls @别名 使用）: </Text>
+          <TextInput value={input} onChange={setInput} onSubmit={submitAlias} />
+        </Box>
+      )}
+      {mode === 'edit_question' && (
+        <Box>
+          <Text color={theme.primary}>{'> '}</Text>
+          <TextInput value={input} onChange={setInput} onSubmit={submitQuestion} />
+        </Box>
+      )}
+      {mode === 'confirm_delete' && <Text color={theme.warning}>删除这条记录？[y/N]</Text>}
+      {message && <Text color={message.error ? theme.error : theme.success}>{message.text}</Text>}
+
+      <Box marginTop={1}>
+        <Text color={theme.text.secondary}>
+          {mode === 'filter'
+            ? '[输入过滤 / ↑↓ 选择 / 回车完成 / Esc 清空]'
+            : mode === 'alias' || mode === 'edit_question'
+              ? '[回车确定 / Esc 取消]'
+              : '[↑↓ 选择 / Tab 切换 / 过滤: / / 回车重新执行 / e 编辑后执行 / c 复制 / a 存为别名 / d 删除 / q 退出]'}
+        </Text>
+      </Box>
+    </Box>
+  )
+}
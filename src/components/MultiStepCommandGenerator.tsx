@@ -1,14 +1,28 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef } from 'react'
 import { Box, Text, useInput } from 'ink'
 import TextInput from 'ink-text-input'
 import Spinner from 'ink-spinner'
-import { generateMultiStepCommand, type CommandStep, type ExecutedStep, type RemoteContext } from '../multi-step.js'
+import {
+  generateMultiStepCommand,
+  generateCommandAlternatives,
+  type CommandStep,
+  type CommandAlternative,
+  type ExecutedStep,
+  type RemoteContext,
+  type TaskPlan,
+} from '../multi-step.js'
+import type { HistoryAlternative, HistoryRefinement } from '../history.js'
 import { detectBuiltin, formatBuiltins } from '../builtin-detector.js'
+import { analyzeCommandRisk, requiresConfirmWord, HIGH_RISK_CONFIRM_WORD, type RiskAnalysis } from '../risk-analyzer.js'
+import { previewImpact, formatSize, type ImpactSummary } from '../impact-preview.js'
+import { checkCommandPolicy, formatPolicyDecision, type PolicyDecision } from '../policy.js'
 import { CommandBox } from './CommandBox.js'
+import { AlternativeSelector } from './AlternativeSelector.js'
 import { ConfirmationPrompt } from './ConfirmationPrompt.js'
 import { Duration } from './Duration.js'
 import { getCurrentTheme } from '../ui/theme.js'
 import { getConfig } from '../config.js'
+import { diffCommand } from '../history-rerun.js'
 
 interface MultiStepCommandGeneratorProps {
   prompt: string
@@ -21,6 +35,11 @@ interface MultiStepCommandGeneratorProps {
     cancelled?: boolean
     hasBuiltin?: boolean
     builtins?: string[]
+    emitToParent?: boolean         // 交给父 shell 执行（通过 pls 包装函数）
+    policyDenied?: boolean         // 被执行策略禁止
+    alternatives?: HistoryAlternative[]  // 用户从中选择的备选命令
+    refinements?: HistoryRefinement[]    // 确认前的调整过程
+    tokens?: number                      // 这一步生成命令大约消耗的 token
     reasoning?: string
     needsContinue?: boolean
     nextStepHint?: string
@@ -30,12 +49,23 @@ interface MultiStepCommandGeneratorProps {
   currentStepNumber?: number
   remoteContext?: RemoteContext  // 远程执行上下文
   isRemote?: boolean             // 是否为远程执行（远程执行时不检测 builtin）
+  persistentSession?: boolean    // 是否在持久 shell 会话中执行（任务中途的 builtin 可以生效）
+  parentShell?: boolean          // 是否可以把 builtin 交回父 shell 执行（通过 pls 包装函数启动）
+  stdinContent?: string          // 管道输入
+  alternativeCount?: number      // 第一步生成多个备选命令供选择
+  plan?: TaskPlan                // 用户确认过的任务计划（--plan）
+  initialStep?: CommandStep      // 直接展示的命令，不调用 AI（pls history rerun）
+  initialEdit?: boolean          // 直接展示的命令先进入编辑（历史浏览器中的编辑后执行）
+  previousCommand?: string       // 重新生成前的命令，显示和新命令的差异（pls history rerun --regenerate）
 }
 
 type State =
   | { type: 'thinking' }
+  | { type: 'choosing'; alternatives: CommandAlternative[] }  // 在备选命令中选择
   | { type: 'showing_command'; stepData: CommandStep }
   | { type: 'editing'; stepData: CommandStep }  // 新增：编辑状态
+  | { type: 'refining'; stepData: CommandStep }  // 输入修改意见，让 AI 重新生成
+  | { type: 'confirming_edit'; stepData: CommandStep; command: string }  // 编辑后的命令为高风险，需要再次确认
   | { type: 'cancelled'; command: string }
   | { type: 'error'; error: string }
 
@@ -50,6 +80,14 @@ export const MultiStepCommandGenerator: React.FC<MultiStepCommandGeneratorProps>
   currentStepNumber = 1,
   remoteContext,
   isRemote = false,
+  persistentSession = false,
+  parentShell = false,
+  stdinContent,
+  alternativeCount,
+  plan,
+  initialStep,
+  initialEdit = false,
+  previousCommand,
   onStepComplete,
 }) => {
   const theme = getCurrentTheme()
@@ -57,139 +95,312 @@ export const MultiStepCommandGenerator: React.FC<MultiStepCommandGeneratorProps>
   const [thinkDuration, setThinkDuration] = useState(0)
   const [debugInfo, setDebugInfo] = useState<any>(null)
   const [editedCommand, setEditedCommand] = useState('')  // 新增：编辑后的命令
+  const [impact, setImpact] = useState<{ command: string; summary: ImpactSummary | null; loading: boolean } | null>(null)
+  const choiceRef = useRef<HistoryAlternative[] | undefined>(undefined)  // 选中的备选命令（随结果一起记录到历史）
+  const refinementsRef = useRef<HistoryRefinement[]>([])  // 每轮调整的命令和意见（随结果一起记录到历史）
+  const [feedback, setFeedback] = useState('')
+  const tokensRef = useRef(0)  // 这一步所有生成（含备选和调整）消耗的 token
 
-  // 监听编辑模式下的 Esc 键
+  // 步骤进度：有计划时显示 当前/总数 和这一步的说明，否则总步数未知
+  const stepProgress = plan
+    ? `步骤 ${plan.current + 1}/${Math.max(plan.steps.length, plan.current + 1)}`
+    : `步骤 ${currentStepNumber}/?`
+  const planStep = plan?.steps[plan.current]
+
+  // 只在第一步提供备选命令，后续步骤依赖前面的执行结果
+  const withAlternatives = !!alternativeCount && previousSteps.length === 0
+
+  // builtin 是否需要在父 shell 中执行：远程执行不需要；持久会话中还有后续步骤时，builtin 会延续到后续步骤，也不需要
+  const needsParentShell = (stepData: CommandStep) =>
+    !isRemote && !(persistentSession && stepData.continue === true) && detectBuiltin(stepData.command).hasBuiltin
+
+  // 需要父 shell 但不是通过包装函数启动的，只能提示手动执行
+  const isBlockedBuiltin = (stepData: CommandStep) => !parentShell && needsParentShell(stepData)
+
+  // 本地多步骤任务以上一步执行后的目录为准
+  const stepCwd = [...previousSteps].reverse().find((step) => step.cwd)?.cwd
+
+  // 执行策略（离当前目录最近的 .pls-policy.json 优先）
+  const getPolicy = (command: string) => checkCommandPolicy(command, stepCwd)
+
+  // 高风险命令或策略要求确认的命令，需要输入确认词
+  const needsConfirmWord = (command: string) =>
+    requiresConfirmWord(analyzeCommandRisk(command)) || getPolicy(command).action === 'confirm'
+
+  // 监听编辑模式和调整模式下的 Esc 键
   useInput(
     (input, key) => {
       if (state.type === 'editing' && key.escape) {
         handleEditCancel()
+      } else if (state.type === 'refining' && key.escape) {
+        setFeedback('')
+        setState({ type: 'showing_command', stepData: state.stepData })
       }
     },
-    { isActive: state.type === 'editing' }
+    { isActive: state.type === 'editing' || state.type === 'refining' }
   )
 
-  // 初始化：调用 Mastra 生成命令
-  useEffect(() => {
+  const refinementsOrUndefined = () => (refinementsRef.current.length > 0 ? refinementsRef.current : undefined)
+
+  // 结束这一步，带上消耗的 token
+  const complete: typeof onStepComplete = (step) => onStepComplete({ ...step, tokens: tokensRef.current })
+
+  // 展示 AI 生成的命令：放弃、builtin、策略禁止时直接结束，否则按 editMode 显示或编辑（edit 为 true 时总是编辑）
+  const presentStep = (stepData: CommandStep, edit = false) => {
+    // 如果 AI 返回空命令且决定不继续，说明 AI 放弃了
+    // 直接结束，不显示命令框
+    if (!stepData.command.trim() && stepData.continue === false) {
+      setTimeout(() => {
+        complete({
+          command: '',
+          confirmed: false,
+          reasoning: stepData.reasoning,
+          needsContinue: false,
+        })
+      }, 100)
+      return
+    }
+
+    // 检测 builtin（优先检测，但远程执行和持久会话的中间步骤跳过）
+    if (isBlockedBuiltin(stepData)) {
+      const { builtins } = detectBuiltin(stepData.command)
+      // 有 builtin 且无法生效，不管什么模式都不编辑，直接提示
+      setState({
+        type: 'showing_command',
+        stepData,
+      })
+      setTimeout(() => {
+        complete({
+          command: stepData.command,
+          confirmed: false,
+          hasBuiltin: true,
+          builtins,
+          reasoning: stepData.reasoning,
+          needsContinue: stepData.continue,
+          alternatives: choiceRef.current,
+          refinements: refinementsOrUndefined(),
+        })
+      }, 100)
+      return
+    }
+
+    // 被执行策略禁止：显示原因，交给上层让 AI 换一种方式
+    if (getPolicy(stepData.command).action === 'deny') {
+      setState({
+        type: 'showing_command',
+        stepData,
+      })
+      setTimeout(() => {
+        complete({
+          command: stepData.command,
+          confirmed: false,
+          policyDenied: true,
+          reasoning: stepData.reasoning,
+          needsContinue: stepData.continue,
+          alternatives: choiceRef.current,
+          refinements: refinementsOrUndefined(),
+        })
+      }, 100)
+      return
+    }
+
+    // 根据 editMode 决定进入哪个状态
+    const config = getConfig()
+    const autoEdit = edit || config.editMode === 'auto'
+
+    if (autoEdit) {
+      // auto 模式：直接进入编辑状态
+      setEditedCommand(stepData.command)
+      setState({
+        type: 'editing',
+        stepData,
+      })
+    } else {
+      // manual 模式：显示命令，等待用户操作
+      setState({
+        type: 'showing_command',
+        stepData,
+      })
+    }
+  }
+
+  // 调用 Mastra 生成命令（有调整意见时带上之前的命令和意见；调整后不再提供备选命令）
+  const runGeneration = (refinements: HistoryRefinement[]) => {
     const thinkStart = Date.now()
 
-    generateMultiStepCommand(prompt, previousSteps, { debug, remoteContext })
+    const generate =
+      withAlternatives && refinements.length === 0
+        ? generateCommandAlternatives(prompt, alternativeCount!, { debug, remoteContext, stdinContent })
+        : generateMultiStepCommand(prompt, previousSteps, { debug, remoteContext, stdinContent, refinements, plan })
+
+    generate
       .then((result) => {
         const thinkEnd = Date.now()
         setThinkDuration(thinkEnd - thinkStart)
+        tokensRef.current += result.tokens
 
         // 保存调试信息
         if (debug && result.debugInfo) {
           setDebugInfo(result.debugInfo)
         }
 
-        // 如果 AI 返回空命令且决定不继续，说明 AI 放弃了
-        // 直接结束，不显示命令框
-        if (!result.stepData.command.trim() && result.stepData.continue === false) {
-          setTimeout(() => {
-            onStepComplete({
-              command: '',
-              confirmed: false,
-              reasoning: result.stepData.reasoning,
-              needsContinue: false,
-            })
-          }, 100)
+        if ('alternatives' in result) {
+          // 只有一个可用方案时不需要选择
+          if (result.alternatives.length === 1) {
+            presentStep(result.alternatives[0])
+          } else {
+            setState({ type: 'choosing', alternatives: result.alternatives })
+          }
           return
         }
 
-        // 检测 builtin（优先检测，但远程执行时跳过）
-        const { hasBuiltin, builtins } = detectBuiltin(result.stepData.command)
-
-        if (hasBuiltin && !isRemote) {
-          // 有 builtin 且是本地执行，不管什么模式都不编辑，直接提示
-          setState({
-            type: 'showing_command',
-            stepData: result.stepData,
-          })
-          setTimeout(() => {
-            onStepComplete({
-              command: result.stepData.command,
-              confirmed: false,
-              hasBuiltin: true,
-              builtins,
-              reasoning: result.stepData.reasoning,
-              needsContinue: result.stepData.continue,
-            })
-          }, 100)
-          return
-        }
-
-        // 根据 editMode 决定进入哪个状态
-        const config = getConfig()
-        const autoEdit = config.editMode === 'auto'
-
-        if (autoEdit) {
-          // auto 模式：直接进入编辑状态
-          setEditedCommand(result.stepData.command)
-          setState({
-            type: 'editing',
-            stepData: result.stepData,
-          })
-        } else {
-          // manual 模式：显示命令，等待用户操作
-          setState({
-            type: 'showing_command',
-            stepData: result.stepData,
-          })
-        }
+        presentStep(result.stepData)
       })
       .catch((error: any) => {
         setState({ type: 'error', error: error.message })
         setTimeout(() => {
-          onStepComplete({
+          complete({
             command: '',
             confirmed: false,
             cancelled: true,
           })
         }, 100)
       })
+  }
+
+  // 初始化：生成第一条命令（重新执行历史命令时直接展示，按意见调整时才调用 AI）
+  useEffect(() => {
+    if (initialStep) {
+      presentStep(initialStep, initialEdit)
+    } else {
+      runGeneration([])
+    }
   }, [prompt, previousSteps, debug, remoteContext])
 
+  // 显示命令时预览文件系统影响（rm / mv / find -delete 等）
+  const shownCommand = state.type === 'showing_command' ? state.stepData.command : null
+  useEffect(() => {
+    if (shownCommand === null || impact?.command === shownCommand) {
+      return
+    }
+
+    let active = true
+    setImpact({ command: shownCommand, summary: null, loading: true })
+
+    // 本地多步骤任务以上一步执行后的环境变量为准
+    const env: NodeJS.ProcessEnv = { ...process.env }
+    for (const step of previousSteps) {
+      for (const [key, value] of Object.entries(step.envChanges || {})) {
+        if (value === null) {
+          delete env[key]
+        } else {
+          env[key] = value
+        }
+      }
+    }
+
+    previewImpact(shownCommand, { remoteName: remoteContext?.name, cwd: stepCwd, env }).then((summary) => {
+      if (active) {
+        setImpact({ command: shownCommand, summary, loading: false })
+      }
+    })
+    return () => {
+      active = false
+    }
+  }, [shownCommand])
+
+  // 选择备选命令：记录选择情况，之后按普通命令确认 / 编辑
+  const handleChoose = (index: number) => {
+    if (state.type === 'choosing') {
+      choiceRef.current = state.alternatives.map((alternative, i) => ({
+        command: alternative.command,
+        description: alternative.description,
+        chosen: i === index,
+      }))
+      const { description, ...stepData } = state.alternatives[index]
+      presentStep(stepData)
+    }
+  }
+
   // 处理确认
   const handleConfirm = () => {
     if (state.type === 'showing_command') {
-      onStepComplete({
+      complete({
         command: state.stepData.command,
         aiGeneratedCommand: state.stepData.command,  // 原始命令
         userModified: false,
         confirmed: true,
+        emitToParent: needsParentShell(state.stepData),
         reasoning: state.stepData.reasoning,
         needsContinue: state.stepData.continue,
         nextStepHint: state.stepData.nextStepHint,
+        alternatives: choiceRef.current,
+        refinements: refinementsOrUndefined(),
         debugInfo: debugInfo,
       })
     }
   }
 
+  // 进入调整：输入修改意见
+  const handleRefine = () => {
+    if (state.type === 'showing_command') {
+      setFeedback('')
+      setState({ type: 'refining', stepData: state.stepData })
+    }
+  }
+
+  // 提交修改意见，AI 基于原始需求、被拒绝的命令和意见重新生成
+  const handleRefineSubmit = (value: string) => {
+    if (state.type === 'refining' && value.trim()) {
+      refinementsRef.current = [...refinementsRef.current, { command: state.stepData.command, feedback: value.trim() }]
+      setFeedback('')
+      setImpact(null)
+      setState({ type: 'thinking' })
+      runGeneration(refinementsRef.current)
+    }
+  }
+
   // 处理编辑
   const handleEdit = () => {
     if (state.type === 'showing_command') {
       setEditedCommand(state.stepData.command)  // 初始化为 AI 生成的命令
       setState({ type: 'editing', stepData: state.stepData })
+    } else if (state.type === 'confirming_edit') {
+      // 回到编辑状态，保留已编辑的内容
+      setState({ type: 'editing', stepData: state.stepData })
     }
   }
 
   // 编辑完成确认
   const handleEditConfirm = () => {
     if (state.type === 'editing') {
-      const modified = editedCommand !== state.stepData.command
-      onStepComplete({
-        command: editedCommand,  // 使用编辑后的命令
-        aiGeneratedCommand: state.stepData.command,  // 保存 AI 原始命令
-        userModified: modified,
-        confirmed: true,
-        reasoning: state.stepData.reasoning,
-        needsContinue: state.stepData.continue,
-        nextStepHint: state.stepData.nextStepHint,
-        debugInfo: debugInfo,
-      })
+      // 编辑后的命令是高风险的（或策略要求确认），需要输入确认词
+      if (needsConfirmWord(editedCommand)) {
+        setState({ type: 'confirming_edit', stepData: state.stepData, command: editedCommand })
+        return
+      }
+      completeEdited(state.stepData, editedCommand)
     }
   }
 
+  // 提交编辑后的命令
+  const completeEdited = (stepData: CommandStep, command: string) => {
+    const modified = command !== stepData.command
+    complete({
+      command,  // 使用编辑后的命令
+      aiGeneratedCommand: stepData.command,  // 保存 AI 原始命令
+      userModified: modified,
+      confirmed: true,
+      emitToParent: needsParentShell({ ...stepData, command }),
+      reasoning: stepData.reasoning,
+      needsContinue: stepData.continue,
+      nextStepHint: stepData.nextStepHint,
+      alternatives: choiceRef.current,
+      refinements: refinementsOrUndefined(),
+      debugInfo: debugInfo,
+    })
+  }
+
   // 取消编辑
   const handleEditCancel = () => {
     if (state.type === 'editing') {
@@ -199,7 +410,7 @@ export const MultiStepCommandGenerator: React.FC<MultiStepCommandGeneratorProps>
         // auto 模式：Esc 直接取消整个操作
         setState({ type: 'cancelled', command: state.stepData.command })
         setTimeout(() => {
-          onStepComplete({
+          complete({
             command: state.stepData.command,
             confirmed: false,
             cancelled: true,
@@ -214,10 +425,19 @@ export const MultiStepCommandGenerator: React.FC<MultiStepCommandGeneratorProps>
 
   // 处理取消
   const handleCancel = () => {
-    if (state.type === 'showing_command') {
+    if (state.type === 'choosing') {
+      setState({ type: 'cancelled', command: '' })
+      setTimeout(() => {
+        complete({
+          command: '',
+          confirmed: false,
+          cancelled: true,
+        })
+      }, 100)
+    } else if (state.type === 'showing_command' || state.type === 'confirming_edit') {
       setState({ type: 'cancelled', command: state.stepData.command })
       setTimeout(() => {
-        onStepComplete({
+        complete({
           command: state.stepData.command,
           confirmed: false,
           cancelled: true,
@@ -226,6 +446,24 @@ export const MultiStepCommandGenerator: React.FC<MultiStepCommandGeneratorProps>
     }
   }
 
+  // 思考阶段的提示文字
+  const getThinkingText = () => {
+    const server = remoteContext ? ` (${remoteContext.name})` : ''
+    if (refinementsRef.current.length > 0) {
+      return `正在根据意见调整（第 ${refinementsRef.current.length} 次）...`
+    }
+    if (withAlternatives) {
+      return `正在生成 ${alternativeCount} 个备选方案${server}...`
+    }
+    if (planStep) {
+      return `正在生成${stepProgress}: ${planStep}${server}...`
+    }
+    if (remoteContext) {
+      return currentStepNumber === 1 ? `正在为 ${remoteContext.name} 思考...` : `正在规划步骤 ${currentStepNumber}${server}...`
+    }
+    return currentStepNumber === 1 ? '正在思考...' : `正在规划步骤 ${currentStepNumber}...`
+  }
+
   return (
     <Box flexDirection="column">
       {/* 思考阶段 */}
@@ -233,10 +471,7 @@ export const MultiStepCommandGenerator: React.FC<MultiStepCommandGeneratorProps>
         <Box>
           <Text color={theme.info}>
             <Spinner type="dots" />{' '}
-            {remoteContext
-              ? (currentStepNumber === 1 ? `正在为 ${remoteContext.name} 思考...` : `正在规划步骤 ${currentStepNumber} (${remoteContext.name})...`)
-              : (currentStepNumber === 1 ? '正在思考...' : `正在规划步骤 ${currentStepNumber}...`)
-            }
+            {getThinkingText()}
           </Text>
         </Box>
       )}
@@ -249,6 +484,11 @@ export const MultiStepCommandGenerator: React.FC<MultiStepCommandGeneratorProps>
         </Box>
       )}
 
+      {/* 备选命令列表 */}
+      {state.type === 'choosing' && (
+        <AlternativeSelector alternatives={state.alternatives} onSelect={handleChoose} onCancel={handleCancel} />
+      )}
+
       {/* 显示步骤信息和命令 */}
       {state.type === 'showing_command' && (
         <>
@@ -286,9 +526,12 @@ export const MultiStepCommandGenerator: React.FC<MultiStepCommandGeneratorProps>
           )}
 
           {/* 步骤信息（仅多步骤时显示） */}
-          {state.stepData.continue === true && (
+          {(state.stepData.continue === true || plan) && (
             <Box flexDirection="column" marginTop={1}>
-              <Text color={theme.text.secondary}>步骤 {currentStepNumber}/?</Text>
+              <Text color={theme.text.secondary}>
+                {stepProgress}
+                {planStep ? `: ${planStep}` : ''}
+              </Text>
               {state.stepData.reasoning && (
                 <Text color={theme.text.muted}>原因: {state.stepData.reasoning}</Text>
               )}
@@ -298,19 +541,74 @@ export const MultiStepCommandGenerator: React.FC<MultiStepCommandGeneratorProps>
             </Box>
           )}
 
+          {/* 调整过程 */}
+          {refinementsRef.current.length > 0 && (
+            <Box marginTop={1}>
+              <Text color={theme.text.muted}>
+                已按意见调整 {refinementsRef.current.length} 次: {refinementsRef.current.map((r) => `「${r.feedback}」`).join('')}
+              </Text>
+            </Box>
+          )}
+
           {/* 命令框 */}
-          <CommandBox command={state.stepData.command} />
+          <CommandBox command={state.stepData.command} risk={analyzeCommandRisk(state.stepData.command)} />
+
+          {/* 与原命令的差异（重新生成时） */}
+          {previousCommand !== undefined && (
+            <Box flexDirection="column">
+              {previousCommand.trim() === state.stepData.command.trim() ? (
+                <Text color={theme.text.muted}>与原命令相同</Text>
+              ) : (
+                <>
+                  <Text color={theme.text.muted}>与原命令的差异:</Text>
+                  <Text>
+                    {diffCommand(previousCommand, state.stepData.command).map((token, index) => (
+                      <Text
+                        key={index}
+                        color={token.type === 'added' ? theme.success : token.type === 'removed' ? theme.error : theme.text.secondary}
+                        strikethrough={token.type === 'removed'}
+                      >
+                        {index > 0 ? ' ' : ''}
+                        {token.text}
+                      </Text>
+                    ))}
+                  </Text>
+                </>
+              )}
+            </Box>
+          )}
+
+          {/* 影响范围预览 */}
+          {impact && impact.command === state.stepData.command && (
+            <ImpactPreview summary={impact.summary} loading={impact.loading} />
+          )}
+
+          {/* 高风险原因 */}
+          <RiskReasons risk={analyzeCommandRisk(state.stepData.command)} />
+
+          {/* 执行策略 */}
+          <PolicyNotice decision={getPolicy(state.stepData.command)} />
 
           {/* Builtin 警告（仅本地执行时显示） */}
-          {!isRemote && (() => {
-            const { hasBuiltin, builtins } = detectBuiltin(state.stepData.command)
-            if (hasBuiltin) {
+          {(() => {
+            if (isBlockedBuiltin(state.stepData)) {
+              const { builtins } = detectBuiltin(state.stepData.command)
               return (
                 <Box flexDirection="column" marginY={1}>
                   <Text color={theme.error}>
                     ⚠️  此命令包含 shell 内置命令（{formatBuiltins(builtins)}），无法在子进程中生效
                   </Text>
-                  <Text color={theme.warning}>💡 请手动复制到终端执行</Text>
+                  <Text color={theme.warning}>💡 请手动复制到终端执行（运行 pls hook install 后可自动在当前 shell 中执行）</Text>
+                </Box>
+              )
+            }
+            if (needsParentShell(state.stepData)) {
+              const { builtins } = detectBuiltin(state.stepData.command)
+              return (
+                <Box marginBottom={1}>
+                  <Text color={theme.info}>
+                    💡 包含 shell 内置命令（{formatBuiltins(builtins)}），确认后将在当前 shell 中执行
+                  </Text>
                 </Box>
               )
             }
@@ -318,24 +616,64 @@ export const MultiStepCommandGenerator: React.FC<MultiStepCommandGeneratorProps>
           })()}
 
           {/* 确认提示 */}
-          {(isRemote || !detectBuiltin(state.stepData.command).hasBuiltin) && (
+          {!isBlockedBuiltin(state.stepData) && getPolicy(state.stepData.command).action !== 'deny' && (
             <ConfirmationPrompt
               prompt="执行？"
               onConfirm={handleConfirm}
               onCancel={handleCancel}
               onEdit={handleEdit}  // 新增：编辑回调
+              onRefine={handleRefine}
+              confirmWord={needsConfirmWord(state.stepData.command) ? HIGH_RISK_CONFIRM_WORD : undefined}
             />
           )}
         </>
       )}
 
+      {/* 输入修改意见 */}
+      {state.type === 'refining' && (
+        <>
+          <CommandBox command={state.stepData.command} risk={analyzeCommandRisk(state.stepData.command)} />
+          <Box flexDirection="row">
+            <Text color={theme.primary}>{'修改意见: '}</Text>
+            <TextInput
+              value={feedback}
+              onChange={setFeedback}
+              onSubmit={handleRefineSubmit}
+              placeholder="例如：只看当前目录，不要递归"
+            />
+          </Box>
+          <Box marginTop={1}>
+            <Text color={theme.text.secondary}>[回车重新生成 / Esc 返回]</Text>
+          </Box>
+        </>
+      )}
+
+      {/* 编辑后的高风险命令确认 */}
+      {state.type === 'confirming_edit' && (
+        <>
+          <CommandBox command={state.command} title="修改后命令" risk={analyzeCommandRisk(state.command)} />
+          <RiskReasons risk={analyzeCommandRisk(state.command)} />
+          <PolicyNotice decision={getPolicy(state.command)} />
+          <ConfirmationPrompt
+            prompt="执行？"
+            onConfirm={() => completeEdited(state.stepData, state.command)}
+            onCancel={handleCancel}
+            onEdit={handleEdit}
+            confirmWord={HIGH_RISK_CONFIRM_WORD}
+          />
+        </>
+      )}
+
       {/* 编辑模式 */}
       {state.type === 'editing' && (
         <>
           {/* 步骤信息（仅多步骤时显示） */}
-          {state.stepData.continue === true && (
+          {(state.stepData.continue === true || plan) && (
             <Box flexDirection="column" marginTop={1}>
-              <Text color={theme.text.secondary}>步骤 {currentStepNumber}/?</Text>
+              <Text color={theme.text.secondary}>
+                {stepProgress}
+                {planStep ? `: ${planStep}` : ''}
+              </Text>
               {state.stepData.reasoning && (
                 <Text color={theme.text.muted}>原因: {state.stepData.reasoning}</Text>
               )}
@@ -343,7 +681,7 @@ export const MultiStepCommandGenerator: React.FC<MultiStepCommandGeneratorProps>
           )}
 
           {/* 命令框（AI 建议） */}
-          <CommandBox command={state.stepData.command} />
+          <CommandBox command={state.stepData.command} risk={analyzeCommandRisk(state.stepData.command)} />
 
           {/* 编辑框 */}
           <Box flexDirection="row">
@@ -378,3 +716,88 @@ export const MultiStepCommandGenerator: React.FC<MultiStepCommandGeneratorProps>
     </Box>
   )
 }
+
+/**
+ * 影响范围预览：路径数、总大小和前几个路径
+ */
+const ImpactPreview: React.FC<{ summary: ImpactSummary | null; loading: boolean }> = ({ summary, loading }) => {
+  const theme = getCurrentTheme()
+
+  if (loading) {
+    return (
+      <Box marginBottom={1}>
+        <Text color={theme.text.muted}>
+          <Spinner type="dots" /> 正在统计影响范围...
+        </Text>
+      </Box>
+    )
+  }
+
+  if (!summary) {
+    return null
+  }
+
+  if (summary.count === 0) {
+    return (
+      <Box marginBottom={1}>
+        <Text color={theme.text.muted}>📂 没有匹配的文件</Text>
+      </Box>
+    )
+  }
+
+  const rest = summary.count - summary.paths.length
+  return (
+    <Box flexDirection="column" marginBottom={1}>
+      <Text color={theme.warning}>
+        📂 将影响 {summary.count} 个路径，共 {formatSize(summary.totalBytes)}
+      </Text>
+      {summary.paths.map((p, index) => (
+        <Text key={index} color={theme.text.secondary}>
+          {'   '}{p}
+        </Text>
+      ))}
+      {rest > 0 && <Text color={theme.text.muted}>{'   '}... 还有 {rest} 个</Text>}
+    </Box>
+  )
+}
+
+/**
+ * 执行策略提示（禁止或需要确认时显示）
+ */
+const PolicyNotice: React.FC<{ decision: PolicyDecision }> = ({ decision }) => {
+  const theme = getCurrentTheme()
+
+  if (decision.action === 'allow') {
+    return null
+  }
+
+  return (
+    <Box marginBottom={1}>
+      <Text color={decision.action === 'deny' ? theme.error : theme.warning}>
+        {decision.action === 'deny' ? '🚫 执行策略禁止此命令: ' : '🔒 执行策略要求确认: '}
+        {formatPolicyDecision(decision)}
+      </Text>
+    </Box>
+  )
+}
+
+/**
+ * 高风险原因列表（仅高风险时显示）
+ */
+const RiskReasons: React.FC<{ risk: RiskAnalysis }> = ({ risk }) => {
+  const theme = getCurrentTheme()
+
+  if (risk.level !== 'high' || risk.reasons.length === 0) {
+    return null
+  }
+
+  return (
+    <Box flexDirection="column" marginBottom={1}>
+      {risk.reasons.map((reason, index) => (
+        <Text key={index} color={theme.error}>
+          ⚠️  {reason}
+        </Text>
+      ))}
+    </Box>
+  )
+}
@@ -0,0 +1,199 @@
+import React, { useState, useEffect } from 'react'
+import { Box, Text, useInput } from 'ink'
+import TextInput from 'ink-text-input'
+import Spinner from 'ink-spinner'
+import { generateTaskPlan, type ExecutedStep, type RemoteContext, type TaskPlan } from '../multi-step.js'
+import { Duration } from './Duration.js'
+import { getCurrentTheme } from '../ui/theme.js'
+
+interface PlanReviewProps {
+  prompt: string
+  debug?: boolean
+  previousSteps?: ExecutedStep[]
+  currentPlan?: TaskPlan         // 重新规划时的当前计划（当前步骤执行失败）
+  remoteContext?: RemoteContext
+  stdinContent?: string
+  onComplete: (result: { steps: string[]; tokens: number } | { cancelled: true }) => void
+}
+
+interface PlanItem {
+  description: string
+  enabled: boolean
+}
+
+type State =
+  | { type: 'thinking' }
+  | { type: 'reviewing' }
+  | { type: 'editing'; index: number }
+  | { type: 'error'; error: string }
+
+/**
+ * PlanReview 组件 - 生成任务计划并让用户确认
+ * ↑/↓ 选择，Shift+↑/↓ 调整顺序，空格 = 勾选/跳过，E = 编辑，回车 = 开始执行，Esc = 取消
+ */
+export const PlanReview: React.FC<PlanReviewProps> = ({
+  prompt,
+  debug,
+  previousSteps = [],
+  currentPlan,
+  remoteContext,
+  stdinContent,
+  onComplete,
+}) => {
+  const theme = getCurrentTheme()
+  const [state, setState] = useState<State>({ type: 'thinking' })
+  const [thinkDuration, setThinkDuration] = useState(0)
+  const [items, setItems] = useState<PlanItem[]>([])
+  const [cursor, setCursor] = useState(0)
+  const [draft, setDraft] = useState('')
+  const [tokens, setTokens] = useState(0)  // 生成计划消耗的 token
+
+  // 重新规划时，已完成的步骤只展示不编辑
+  const completedSteps = currentPlan ? currentPlan.steps.slice(0, currentPlan.current) : []
+
+  useEffect(() => {
+    const thinkStart = Date.now()
+
+    generateTaskPlan(prompt, previousSteps, { debug, remoteContext, stdinContent, currentPlan })
+      .then(({ steps, tokens }) => {
+        setThinkDuration(Date.now() - thinkStart)
+        setTokens(tokens)
+        setItems(steps.map((description) => ({ description, enabled: true })))
+        setState({ type: 'reviewing' })
+      })
+      .catch((error: any) => {
+        setState({ type: 'error', error: error.message })
+        setTimeout(() => onComplete({ cancelled: true }), 100)
+      })
+  }, [])
+
+  // 交换两个步骤的位置，光标跟随被移动的步骤
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= items.length) {
+      return
+    }
+    const next = [...items]
+    ;[next[from], next[to]] = [next[to], next[from]]
+    setItems(next)
+    setCursor(to)
+  }
+
+  useInput(
+    (input, key) => {
+      if (key.upArrow && key.shift) {
+        move(cursor, cursor - 1)
+      } else if (key.downArrow && key.shift) {
+        move(cursor, cursor + 1)
+      } else if (key.upArrow) {
+        setCursor((cursor - 1 + items.length) % items.length)
+      } else if (key.downArrow) {
+        setCursor((cursor + 1) % items.length)
+      } else if (input === ' ') {
+        setItems(items.map((item, index) => (index === cursor ? { ...item, enabled: !item.enabled } : item)))
+      } else if (input === 'e' || input === 'E') {
+        setDraft(items[cursor].description)
+        setState({ type: 'editing', index: cursor })
+      } else if (key.return) {
+        const steps = items.filter((item) => item.enabled).map((item) => item.description)
+        if (steps.length > 0) {
+          onComplete({ steps, tokens })
+        }
+      } else if (key.escape) {
+        onComplete({ cancelled: true })
+      } else if (key.ctrl && input === 'c') {
+        process.exit(0)
+      }
+    },
+    { isActive: state.type === 'reviewing' }
+  )
+
+  // 编辑模式下 Esc 放弃修改
+  useInput(
+    (input, key) => {
+      if (key.escape) {
+        setState({ type: 'reviewing' })
+      }
+    },
+    { isActive: state.type === 'editing' }
+  )
+
+  const handleEditSubmit = (value: string) => {
+    if (state.type === 'editing' && value.trim()) {
+      setItems(items.map((item, index) => (index === state.index ? { ...item, description: value.trim() } : item)))
+      setState({ type: 'reviewing' })
+    }
+  }
+
+  const enabledCount = items.filter((item) => item.enabled).length
+
+  return (
+    <Box flexDirection="column">
+      {state.type === 'thinking' && (
+        <Box>
+          <Text color={theme.info}>
+            <Spinner type="dots" /> {currentPlan ? '正在重新规划剩余步骤...' : '正在规划任务步骤...'}
+          </Text>
+        </Box>
+      )}
+
+      {state.type !== 'thinking' && thinkDuration > 0 && (
+        <Box>
+          <Text color={theme.success}>✓ 规划完成 </Text>
+          <Duration ms={thinkDuration} />
+        </Box>
+      )}
+
+      {(state.type === 'reviewing' || state.type === 'editing') && (
+        <Box flexDirection="column" marginTop={1}>
+          <Text bold color={theme.primary}>
+            {currentPlan ? `第 ${currentPlan.current + 1} 步失败，调整后的计划:` : `任务计划（共 ${items.length} 步）:`}
+          </Text>
+
+          {completedSteps.map((step, index) => (
+            <Text key={`done-${index}`} color={theme.text.muted}>
+              {'  '}✓ {index + 1}. {step}
+            </Text>
+          ))}
+
+          {items.map((item, index) => {
+            const active = index === cursor
+            const number = completedSteps.length + items.slice(0, index + 1).filter((i) => i.enabled).length
+            if (state.type === 'editing' && state.index === index) {
+              return (
+                <Box key={index} flexDirection="row">
+                  <Text color={theme.primary}>{'❯ [x] '}</Text>
+                  <TextInput value={draft} onChange={setDraft} onSubmit={handleEditSubmit} />
+                </Box>
+              )
+            }
+            return (
+              <Text
+                key={index}
+                color={!item.enabled ? theme.text.dim : active ? theme.primary : theme.text.secondary}
+                strikethrough={!item.enabled}
+              >
+                {active ? '❯ ' : '  '}
+                {item.enabled ? `[x] ${number}. ` : '[ ] '}
+                {item.description}
+              </Text>
+            )
+          })}
+
+          <Box marginTop={1}>
+            <Text color={theme.text.secondary}>
+              {state.type === 'editing'
+                ? '[回车保存 / Esc 放弃修改]'
+                : `[↑↓ 选择 / Shift+↑↓ 移动 / 空格 跳过 / E 编辑 / 回车执行 ${enabledCount} 步 / Esc 取消]`}
+            </Text>
+          </Box>
+        </Box>
+      )}
+
+      {state.type === 'error' && (
+        <Box marginTop={1}>
+          <Text color={theme.error}>❌ 规划失败: {state.error}</Text>
+        </Box>
+      )}
+    </Box>
+  )
+}
@@ -4,6 +4,7 @@ import os from 'os'
 import readline from 'readline'
 import chalk from 'chalk'
 import { getCurrentTheme, isValidTheme, getAllThemeMetadata, type ThemeName } from './ui/theme.js'
+import { validateRedactPattern } from './redact.js'
 
 // 获取主题颜色
 function getColors() {
@@ -80,9 +81,10 @@ export interface Config {
   model: string
   provider: Provider
   shellHook: boolean
-  chatHistoryLimit: number
-  commandHistoryLimit: number
+  chatHistoryLimit: number             // 发送给 AI 的对话轮数
+  commandHistoryLimit: number          // 发送给 AI 的命令历史条数
   shellHistoryLimit: number
+  historyRetention: number             // 命令历史、对话历史（按轮）和每台服务器的命令历史在本地最多保存多少条
   userPreferencesTopK: number          // 用户偏好显示的命令数量（默认 20）
   editMode: EditMode
   theme: ThemeName
@@ -90,6 +92,12 @@ export interface Config {
   remotes: Record<string, RemoteConfig>  // 远程服务器配置
   defaultRemote?: string                  // 默认远程服务器名称
   systemCacheExpireDays?: number          // 系统信息缓存过期天数（默认 7 天）
+  commandTimeout: number                  // 单步命令执行超时（秒），0 表示不限制
+  maxSteps: number                        // 多步骤任务最多执行的步数，0 表示不限制
+  maxConsecutiveFailures: number          // 多步骤任务最多连续失败的次数，0 表示不限制
+  tokenBudget: number                     // 单个任务大约可消耗的 token 数，0 表示不限制
+  redactPatterns: string[]                // 自定义脱敏正则（在内置规则之外追加）
+  hookKeybinding: string                  // Shell Hook 快捷键（如 ctrl+g），把输入行替换为生成的命令，空字符串表示不绑定
 }
 
 /**
@@ -104,6 +112,7 @@ const DEFAULT_CONFIG: Config = {
   chatHistoryLimit: 5,
   commandHistoryLimit: 5,
   shellHistoryLimit: 10,
+  historyRetention: 1000,
   userPreferencesTopK: 20,  // 默认显示 Top 20
   editMode: 'manual',
   theme: 'dark',
@@ -111,6 +120,12 @@ const DEFAULT_CONFIG: Config = {
   remotes: {},
   defaultRemote: '',
   systemCacheExpireDays: 7,
+  commandTimeout: 0,
+  maxSteps: 20,
+  maxConsecutiveFailures: 3,  // 第一次失败后最多再重试 2 次
+  tokenBudget: 0,
+  redactPatterns: [],
+  hookKeybinding: '',
 }
 
 /**
@@ -161,6 +176,62 @@ export function saveConfig(config: Config): void {
   fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2))
 }
 
+/**
+ * 解析 redactPatterns 配置值
+ * 支持 JSON 数组（'["pattern1", "pattern2"]'）或单个正则，空字符串表示清空
+ */
+function parseRedactPatterns(value: string | boolean | number): string[] {
+  const str = String(value).trim()
+  if (!str) {
+    return []
+  }
+
+  let patterns: string[]
+  if (str.startsWith('[')) {
+    try {
+      patterns = JSON.parse(str)
+    } catch {
+      throw new Error('redactPatterns 必须是 JSON 字符串数组或单个正则')
+    }
+    if (!Array.isArray(patterns) || patterns.some((p) => typeof p !== 'string')) {
+      throw new Error('redactPatterns 必须是 JSON 字符串数组或单个正则')
+    }
+  } else {
+    patterns = [str]
+  }
+
+  for (const pattern of patterns) {
+    const error = validateRedactPattern(pattern)
+    if (error) {
+      throw new Error(`无效的脱敏正则 ${pattern}: ${error}`)
+    }
+  }
+  return patterns
+}
+
+// 终端里已有固定用途、不能绑定的 Ctrl 组合键（中断、EOF、退格、Tab、回车等）
+const RESERVED_CTRL_KEYS = ['c', 'd', 'h', 'i', 'j', 'm', 'z']
+
+/**
+ * 解析 hookKeybinding 配置值
+ * 支持 ctrl+<字母> 和 alt+<字母>，空字符串表示不绑定
+ */
+export function parseHookKeybinding(value: string | boolean | number): string {
+  const str = String(value).trim().toLowerCase()
+  if (!str) {
+    return ''
+  }
+
+  const match = str.match(/^(ctrl|alt)\+([a-z])$/)
+  if (!match) {
+    throw new Error('hookKeybinding 必须是 ctrl+<字母> 或 alt+<字母>，例如 ctrl+g')
+  }
+  if (match[1] === 'ctrl' && RESERVED_CTRL_KEYS.includes(match[2])) {
+    throw new Error(`${str} 是终端的常用按键，不能绑定`)
+  }
+  return str
+}
+
 /**
  * 设置单个配置项
  */
@@ -174,12 +245,28 @@ export function setConfigValue(key: string, value: string | boolean | number): C
   // 处理特殊类型
   if (key === 'shellHook') {
     config.shellHook = value === 'true' || value === true
-  } else if (key === 'chatHistoryLimit' || key === 'commandHistoryLimit' || key === 'shellHistoryLimit' || key === 'userPreferencesTopK' || key === 'systemCacheExpireDays') {
+  } else if (key === 'chatHistoryLimit' || key === 'commandHistoryLimit' || key === 'shellHistoryLimit' || key === 'historyRetention' || key === 'userPreferencesTopK' || key === 'systemCacheExpireDays') {
     const num = typeof value === 'number' ? value : parseInt(String(value), 10)
     if (isNaN(num) || num < 1) {
       throw new Error(`${key} 必须是大于 0 的整数`)
     }
     config[key] = num
+  } else if (key === 'commandTimeout') {
+    const num = typeof value === 'number' ? value : parseInt(String(value), 10)
+    if (isNaN(num) || num < 0) {
+      throw new Error('commandTimeout 必须是大于等于 0 的整数（0 表示不限制）')
+    }
+    config.commandTimeout = num
+  } else if (key === 'maxSteps' || key === 'maxConsecutiveFailures' || key === 'tokenBudget') {
+    const num = typeof value === 'number' ? value : parseInt(String(value), 10)
+    if (isNaN(num) || num < 0) {
+      throw new Error(`${key} 必须是大于等于 0 的整数（0 表示不限制）`)
+    }
+    config[key] = num
+  } else if (key === 'redactPatterns') {
+    config.redactPatterns = parseRedactPatterns(value)
+  } else if (key === 'hookKeybinding') {
+    config.hookKeybinding = parseHookKeybinding(value)
   } else if (key === 'provider') {
     const strValue = String(value)
     if (!VALID_PROVIDERS.includes(strValue as Provider)) {
@@ -251,10 +338,35 @@ export function displayConfig(): void {
   console.log(`  ${chalk.hex(colors.primary)('chatHistoryLimit')}:    ${config.chatHistoryLimit} 轮`)
   console.log(`  ${chalk.hex(colors.primary)('commandHistoryLimit')}: ${config.commandHistoryLimit} 条`)
   console.log(`  ${chalk.hex(colors.primary)('shellHistoryLimit')}:   ${config.shellHistoryLimit} 条`)
+  console.log(`  ${chalk.hex(colors.primary)('historyRetention')}:    ${config.historyRetention} 条`)
   console.log(`  ${chalk.hex(colors.primary)('userPreferencesTopK')}: ${config.userPreferencesTopK} 个`)
   if (config.systemCacheExpireDays !== undefined) {
     console.log(`  ${chalk.hex(colors.primary)('systemCacheExpireDays')}: ${config.systemCacheExpireDays} 天`)
   }
+  console.log(
+    `  ${chalk.hex(colors.primary)('commandTimeout')}:      ${
+      config.commandTimeout > 0 ? `${config.commandTimeout} 秒` : chalk.gray('不限制')
+    }`
+  )
+  console.log(`  ${chalk.hex(colors.primary)('maxSteps')}:            ${config.maxSteps > 0 ? `${config.maxSteps} 步` : chalk.gray('不限制')}`)
+  console.log(
+    `  ${chalk.hex(colors.primary)('maxConsecutiveFailures')}: ${
+      config.maxConsecutiveFailures > 0 ? `${config.maxConsecutiveFailures} 次` : chalk.gray('不限制')
+    }`
+  )
+  console.log(
+    `  ${chalk.hex(colors.primary)('tokenBudget')}:         ${
+      config.tokenBudget > 0 ? `${config.tokenBudget} tokens` : chalk.gray('不限制')
+    }`
+  )
+  console.log(
+    `  ${chalk.hex(colors.primary)('redactPatterns')}:      ${
+      config.redactPatterns.length > 0 ? config.redactPatterns.join(', ') : chalk.gray('(仅内置规则)')
+    }`
+  )
+  console.log(
+    `  ${chalk.hex(colors.primary)('hookKeybinding')}:      ${config.hookKeybinding || chalk.gray('(未绑定)')}`
+  )
 
   // 动态显示主题信息
   const themeMetadata = getAllThemeMetadata().find((m) => m.name === config.theme)
@@ -357,7 +469,7 @@ export async function runConfigWizard(): Promise<void> {
     }
 
     // 7. Chat History Limit
-    const chatHistoryPrompt = `${chalk.hex(colors.primary)('Chat 历史保留轮数')}\n${chalk.gray('默认:')} ${chalk.hex(colors.secondary)(config.chatHistoryLimit)} ${chalk.gray('→')} `
+    const chatHistoryPrompt = `${chalk.hex(colors.primary)('发送给 AI 的对话轮数')}\n${chalk.gray('默认:')} ${chalk.hex(colors.secondary)(config.chatHistoryLimit)} ${chalk.gray('→')} `
     const chatHistoryLimit = await question(rl, chatHistoryPrompt)
     if (chatHistoryLimit.trim()) {
       const num = parseInt(chatHistoryLimit.trim(), 10)
@@ -369,7 +481,7 @@ export async function runConfigWizard(): Promise<void> {
     }
 
     // 8. Command History Limit
-    const commandHistoryPrompt = `${chalk.hex(colors.primary)('命令历史保留条数')}\n${chalk.gray('默认:')} ${chalk.hex(colors.secondary)(config.commandHistoryLimit)} ${chalk.gray('→')} `
+    const commandHistoryPrompt = `${chalk.hex(colors.primary)('发送给 AI 的命令历史条数')}\n${chalk.gray('默认:')} ${chalk.hex(colors.secondary)(config.commandHistoryLimit)} ${chalk.gray('→')} `
     const commandHistoryLimit = await question(rl, commandHistoryPrompt)
     if (commandHistoryLimit.trim()) {
       const num = parseInt(commandHistoryLimit.trim(), 10)
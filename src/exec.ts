@@ -0,0 +1,117 @@
+import { spawn } from 'child_process'
+import { getConfig } from './config.js'
+import {
+  buildShellExecConfig,
+  isWindows,
+  killProcessGroup,
+  TIMEOUT_EXIT_CODE,
+  INTERRUPTED_EXIT_CODE,
+} from './utils/platform.js'
+
+/**
+ * 本地命令执行的公共部分（交互模式和非交互模式共用）
+ * 超时配置、执行期间接管 Ctrl+C，以及 PTY 和持久会话都不可用时的管道模式
+ */
+
+// 中断后等待命令自行退出的时间，超过后强制结束
+const INTERRUPT_GRACE_MS = 3000
+
+export interface PipedResult {
+  exitCode: number
+  output: string
+  stdout: string
+  stderr: string
+  timedOut: boolean
+}
+
+/**
+ * 单步命令执行超时（毫秒），未配置时不限制
+ */
+export function getCommandTimeoutMs(): number | undefined {
+  const seconds = getConfig().commandTimeout
+  return seconds > 0 ? seconds * 1000 : undefined
+}
+
+/**
+ * 执行期间接管 Ctrl+C：转发给正在执行的命令，而不是结束 pls
+ */
+export function trapInterrupt(): { signal: AbortSignal; release: () => void } {
+  const controller = new AbortController()
+  const onSigint = () => controller.abort()
+  process.on('SIGINT', onSigint)
+  return {
+    signal: controller.signal,
+    release: () => process.off('SIGINT', onSigint),
+  }
+}
+
+/**
+ * 以管道模式执行命令（捕获输出，但命令拿不到终端）
+ * 命令在独立进程组中运行，Ctrl+C / 超时时整组中断（退出码 130 / 124），忽略 SIGINT 的命令在宽限期后强制结束
+ * @throws 无法启动 shell 时抛出错误
+ */
+export function runPiped(
+  command: string,
+  options: {
+    onStdout?: (data: string) => void
+    onStderr?: (data: string) => void
+    timeout?: number                // 超时时间（毫秒）
+    signal?: AbortSignal            // 中止信号（如用户按 Ctrl+C）
+    stdin?: 'pipe' | 'ignore'       // 非交互模式不给命令 stdin
+    graceMs?: number                // 中断后等待命令自行退出的时间（默认 3 秒）
+  } = {}
+): Promise<PipedResult> {
+  return new Promise((resolve, reject) => {
+    const execConfig = buildShellExecConfig(command)
+    const child = spawn(execConfig.shell, execConfig.args, {
+      detached: !isWindows(),
+      stdio: [options.stdin ?? 'pipe', 'pipe', 'pipe'],
+    })
+
+    let stdout = ''
+    let stderr = ''
+
+    // 中断：先发 SIGINT，宽限期后仍未结束则强制结束
+    let interrupted = false
+    let timedOut = false
+    let killTimer: NodeJS.Timeout | null = null
+    const interrupt = () => {
+      if (interrupted) return
+      interrupted = true
+      killProcessGroup(child.pid, 'SIGINT')
+      killTimer = setTimeout(() => killProcessGroup(child.pid, 'SIGKILL'), options.graceMs ?? INTERRUPT_GRACE_MS)
+    }
+    const timeoutTimer = options.timeout
+      ? setTimeout(() => {
+          timedOut = true
+          interrupt()
+        }, options.timeout)
+      : null
+    options.signal?.addEventListener('abort', interrupt)
+    if (options.signal?.aborted) interrupt()
+
+    const cleanup = () => {
+      if (timeoutTimer) clearTimeout(timeoutTimer)
+      if (killTimer) clearTimeout(killTimer)
+      options.signal?.removeEventListener('abort', interrupt)
+    }
+
+    child.stdout?.on('data', (data) => {
+      stdout += data
+      options.onStdout?.(data.toString())
+    })
+    child.stderr?.on('data', (data) => {
+      stderr += data
+      options.onStderr?.(data.toString())
+    })
+    child.on('close', (code) => {
+      cleanup()
+      const exitCode = timedOut ? TIMEOUT_EXIT_CODE : interrupted ? INTERRUPTED_EXIT_CODE : code || 0
+      resolve({ exitCode, output: stdout + stderr, stdout, stderr, timedOut })
+    })
+    child.on('error', (err) => {
+      cleanup()
+      reject(err)
+    })
+  })
+}
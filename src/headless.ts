@@ -0,0 +1,486 @@
+import chalk from 'chalk'
+import { generateMultiStepCommand, type CommandStep, type ExecutedStep, type RemoteContext } from './multi-step.js'
+import { analyzeCommandRisk, requiresConfirmWord, type RiskAnalysis } from './risk-analyzer.js'
+import { checkCommandPolicy, formatPolicyDecision, MAX_POLICY_DENIALS, type PolicyAction } from './policy.js'
+import { detectBuiltin, formatBuiltins } from './builtin-detector.js'
+import { canEmitToParentShell, emitToParentShell } from './parent-shell.js'
+import { createShellSession, type ShellSession } from './shell-session.js'
+import { createUndoSnapshot } from './undo.js'
+import { addHistory } from './history.js'
+import { addRemoteHistory } from './remote-history.js'
+import { sshExec, getRemoteWorkDir, generateBatchRemoteCommands, executeBatchRemoteCommands } from './remote.js'
+import { createSessionId } from './task-session.js'
+import { getTaskBudget, createTaskUsage, checkTaskBudget, formatBudgetLimit, type TaskUsage } from './task-budget.js'
+import { getCurrentTheme } from './ui/theme.js'
+import { getCommandTimeoutMs, trapInterrupt, runPiped } from './exec.js'
+import { TIMEOUT_EXIT_CODE, INTERRUPTED_EXIT_CODE } from './utils/platform.js'
+
+/**
+ * 非交互模式（用于脚本、编辑器和其他工具调用）
+ *
+ * --print  只生成命令，stdout 只输出命令本身
+ * --yes    不询问直接执行（执行策略、高风险确认等安全检查照常生效）
+ * --json   以 JSON 输出生成的命令和执行结果
+ *
+ * 达到任务预算（maxSteps / maxConsecutiveFailures / tokenBudget）时直接停止，不会追加。
+ *
+ * 非交互模式下不渲染 Ink 界面，提示信息都输出到 stderr。
+ */
+
+export type HeadlessMode = 'print' | 'execute'
+
+export interface HeadlessOptions {
+  print?: boolean
+  yes?: boolean
+  json?: boolean
+}
+
+/**
+ * 单个步骤的结果
+ */
+export interface HeadlessStepResult extends CommandStep {
+  risk: RiskAnalysis
+  policy: PolicyAction
+  policyRule?: string    // 命中的策略规则
+  executed: boolean
+  skipped?: 'policy' | 'confirm' | 'builtin' | 'parent_shell'  // 未执行的原因
+  exitCode?: number
+  output?: string
+  cwd?: string
+  durationMs?: number
+}
+
+/**
+ * 整个任务的结果
+ */
+export interface HeadlessResult {
+  prompt: string
+  remote?: string
+  success: boolean
+  exitCode: number  // pls 的退出码
+  error?: string
+  steps: HeadlessStepResult[]
+  usage?: TaskUsage  // 步数、连续失败次数和大约消耗的 token
+}
+
+/**
+ * 批量远程执行中单台服务器的结果
+ */
+export interface HeadlessBatchItem {
+  server: string
+  command: string
+  risk: RiskAnalysis
+  policy: PolicyAction
+  policyRule?: string
+  executed: boolean
+  exitCode?: number
+  output?: string
+}
+
+/**
+ * 批量远程执行的结果
+ */
+export interface HeadlessBatchResult {
+  prompt: string
+  success: boolean
+  exitCode: number
+  error?: string
+  servers: HeadlessBatchItem[]
+}
+
+/**
+ * 根据命令行参数和终端状态确定运行模式
+ * 没有可用的终端时（cron、CI、编辑器插件等）自动回退为 --print，避免卡在按键确认上
+ * @param hasTTY 是否有终端可以接收按键（stdin 被管道占用时会重新打开 /dev/tty）
+ * @returns 非交互模式，交互模式时返回 null
+ * @throws 参数冲突时抛出错误
+ */
+export function resolveHeadlessMode(
+  options: HeadlessOptions,
+  hasTTY: boolean
+): { mode: HeadlessMode; json: boolean } | null {
+  if (options.print && options.yes) {
+    throw new Error('--print 和 --yes 不能同时使用')
+  }
+  if (options.print && options.json) {
+    throw new Error('--print 和 --json 不能同时使用')
+  }
+
+  if (options.yes) {
+    return { mode: 'execute', json: !!options.json }
+  }
+  if (options.print || options.json || !hasTTY) {
+    return { mode: 'print', json: !!options.json }
+  }
+  return null
+}
+
+/**
+ * 输出提示信息到 stderr（stdout 只留给命令或命令输出）
+ */
+function notice(message: string, color: 'error' | 'warning' | 'muted' = 'muted'): void {
+  const theme = getCurrentTheme()
+  const hex = color === 'muted' ? theme.text.muted : theme[color]
+  process.stderr.write(chalk.hex(hex)(message) + '\n')
+}
+
+interface RunResult {
+  exitCode: number
+  output: string
+  stdout: string
+  cwd?: string
+  envChanges?: Record<string, string | null>
+  timedOut: boolean
+}
+
+/**
+ * 执行本地命令（管道模式，不占用终端）
+ * stream 为 true 时把命令输出原样转发到 stdout / stderr
+ */
+function runLocalCommand(command: string, session: ShellSession | null, stream: boolean): Promise<RunResult> {
+  const timeout = getCommandTimeoutMs()
+  const { signal, release } = trapInterrupt()
+  const onStdout = (data: string) => stream && process.stdout.write(data)
+  const onStderr = (data: string) => stream && process.stderr.write(data)
+
+  const run: Promise<RunResult> = session
+    ? session.run(command, { onStdout, onStderr }, { timeout, signal })
+    : runPiped(command, { onStdout, onStderr, timeout, signal, stdin: 'ignore' })
+  return run
+    .catch((err) => ({ exitCode: 1, output: err.message, stdout: '', timedOut: false }))
+    .finally(release)
+}
+
+/**
+ * 执行远程命令（设置了工作目录时自动添加 cd 前缀）
+ * stdin 不是终端时不交互输入密码
+ */
+async function runRemoteCommand(remoteName: string, command: string, stream: boolean): Promise<RunResult> {
+  const workDir = getRemoteWorkDir(remoteName)
+  const actualCommand = workDir ? `cd ${workDir} && ${command}` : command
+
+  const { signal, release } = trapInterrupt()
+  const controller = new AbortController()
+  const onAbort = () => controller.abort()
+  signal.addEventListener('abort', onAbort)
+  const timeout = getCommandTimeoutMs()
+  let timedOut = false
+  const timer = timeout
+    ? setTimeout(() => {
+        timedOut = true
+        controller.abort()
+      }, timeout)
+    : null
+
+  let stdout = ''
+  let stderr = ''
+  try {
+    const result = await sshExec(remoteName, actualCommand, {
+      signal: controller.signal,
+      noPrompt: !process.stdin.isTTY,
+      onStdout: (data) => {
+        stdout += data
+        if (stream) process.stdout.write(data)
+      },
+      onStderr: (data) => {
+        stderr += data
+        if (stream) process.stderr.write(data)
+      },
+    })
+    return { exitCode: timedOut ? TIMEOUT_EXIT_CODE : result.exitCode, output: stdout + stderr, stdout, timedOut }
+  } catch (error: any) {
+    return { exitCode: 1, output: error.message, stdout: '', timedOut: false }
+  } finally {
+    if (timer) clearTimeout(timer)
+    signal.removeEventListener('abort', onAbort)
+    release()
+  }
+}
+
+/**
+ * 非交互地执行任务
+ * print 模式只生成第一步命令；execute 模式逐步执行直到 AI 认为任务完成
+ * 被执行策略禁止的命令会让 AI 换一种方式；需要输入确认词的命令不会自动执行
+ */
+export async function runHeadless(
+  prompt: string,
+  options: { mode: HeadlessMode; json: boolean; remoteContext?: RemoteContext; stdinContent?: string; debug?: boolean }
+): Promise<HeadlessResult> {
+  const { mode, json, remoteContext } = options
+  const remoteName = remoteContext?.name
+  const stream = mode === 'execute' && !json
+  const budget = getTaskBudget()
+  const usage = createTaskUsage()
+  const result: HeadlessResult = { prompt, remote: remoteName, success: false, exitCode: 1, steps: [], usage }
+
+  const fail = (error: string, exitCode: number = 1): HeadlessResult => {
+    if (!json) notice(`✗ ${error}`, 'error')
+    return { ...result, success: false, exitCode, error }
+  }
+  const succeed = (): HeadlessResult => ({ ...result, success: true, exitCode: 0 })
+
+  const record = (entry: Parameters<typeof addHistory>[0]) => {
+    if (remoteName) {
+      addRemoteHistory(remoteName, { ...entry, output: entry.output || '' })
+    } else {
+      addHistory(entry)
+    }
+  }
+
+  // 本地执行时所有步骤共用一个持久会话（管道模式，不占用终端）
+  const session =
+    mode === 'execute' && !remoteName ? await createShellSession({ pty: false }).catch(() => null) : null
+
+  const executedSteps: ExecutedStep[] = []
+  const taskId = createSessionId()
+  let lastStepFailed = false
+  let policyDenials = 0
+
+  try {
+    while (true) {
+      const stepNumber = result.steps.length + 1
+      const limit = checkTaskBudget(budget, usage)
+      if (limit) {
+        return fail(`${formatBudgetLimit(limit, budget)}，任务停止`)
+      }
+
+      let stepData: CommandStep
+      try {
+        const generated = await generateMultiStepCommand(prompt, executedSteps, {
+          debug: options.debug,
+          remoteContext,
+          stdinContent: options.stdinContent,
+        })
+        stepData = generated.stepData
+        usage.tokens += generated.tokens
+        if (options.debug && generated.debugInfo) {
+          notice(JSON.stringify(generated.debugInfo, null, 2))
+        }
+      } catch (error: any) {
+        return fail(`生成命令失败: ${error.message}`)
+      }
+
+      const command = stepData.command.trim()
+      // AI 返回空命令，或上一步失败后用 echo 说明放弃
+      if (!command || (lastStepFailed && stepData.continue === false && command.startsWith('echo'))) {
+        return fail(stepData.reasoning ? `AI 决定停止尝试: ${stepData.reasoning}` : 'AI 没有生成命令')
+      }
+
+      const cwd = session?.getCwd()
+      const risk = analyzeCommandRisk(command)
+      const policy = checkCommandPolicy(command, cwd)
+      const step: HeadlessStepResult = {
+        ...stepData,
+        command,
+        risk,
+        policy: policy.action,
+        policyRule: formatPolicyDecision(policy) || undefined,
+        executed: false,
+      }
+      result.steps.push(step)
+      usage.steps++
+
+      const historyEntry = {
+        userPrompt: stepNumber === 1 ? prompt : `[步骤${stepNumber}] ${stepData.reasoning || prompt}`,
+        taskId,
+        step: stepNumber,
+        reasoning: stepData.reasoning,
+        command,
+        aiGeneratedCommand: command,
+        userModified: false,
+        executed: false,
+        exitCode: null,
+        output: '',
+        cwd,  // 持久会话中 cd 之后的目录（没有会话时为 pls 的启动目录）
+      }
+
+      // 被执行策略禁止：不执行，把原因告诉 AI 换一种方式
+      if (policy.action === 'deny') {
+        step.skipped = 'policy'
+        record({ ...historyEntry, reason: 'policy' })
+        if (!json) notice(`🚫 执行策略禁止此命令: ${step.policyRule}`, 'error')
+        if (++policyDenials >= MAX_POLICY_DENIALS) {
+          return fail('AI 多次生成被禁止的命令，任务停止')
+        }
+        executedSteps.push({ ...stepData, exitCode: 1, output: '', policyDenied: step.policyRule })
+        usage.consecutiveFailures++
+        lastStepFailed = true
+        continue
+      }
+      policyDenials = 0
+
+      if (mode === 'print') {
+        return succeed()
+      }
+
+      // 高风险命令和策略要求确认的命令必须由用户输入确认词，不能自动执行
+      if (requiresConfirmWord(risk) || policy.action === 'confirm') {
+        step.skipped = 'confirm'
+        return fail(
+          policy.action === 'confirm'
+            ? `执行策略要求确认，不会自动执行: ${step.policyRule}`
+            : `高风险命令需要确认，不会自动执行: ${risk.reasons.join('；')}`
+        )
+      }
+
+      // builtin 在子进程中执行无效（持久会话中还有后续步骤时除外）：交回父 shell，否则不执行
+      if (!remoteName && !(session && stepData.continue === true) && detectBuiltin(command).hasBuiltin) {
+        if (canEmitToParentShell() && emitToParentShell(command, cwd)) {
+          step.skipped = 'parent_shell'
+          record({ ...historyEntry, reason: 'parent_shell' })
+          return succeed()
+        }
+        step.skipped = 'builtin'
+        record({ ...historyEntry, reason: 'builtin' })
+        return fail(`命令包含 ${formatBuiltins(detectBuiltin(command).builtins)}，需要在当前 shell 中执行: ${command}`)
+      }
+
+      // 执行（本地修改文件的命令先备份，pls undo 可还原）
+      let undoId: string | undefined
+      if (!remoteName) {
+        try {
+          undoId = createUndoSnapshot(command, { cwd, env: session?.getEnv() })?.id
+        } catch (error: any) {
+          if (!json) notice(`⚠️  无法创建撤销快照（${error.message}），执行后不能用 pls undo 还原`, 'warning')
+        }
+      }
+      if (!json) notice(`$ ${command}`)
+      const execStart = Date.now()
+      const run = remoteName
+        ? await runRemoteCommand(remoteName, command, stream)
+        : await runLocalCommand(command, session, stream)
+
+      const stopReason = run.timedOut ? 'timeout' : run.exitCode === INTERRUPTED_EXIT_CODE ? 'interrupted' : undefined
+      Object.assign(step, {
+        executed: true,
+        exitCode: run.exitCode,
+        output: run.output,
+        cwd: run.cwd,
+        durationMs: Date.now() - execStart,
+      })
+      record({ ...historyEntry, executed: true, exitCode: run.exitCode, output: run.output, reason: stopReason, undoId })
+      executedSteps.push({
+        ...stepData,
+        exitCode: run.exitCode,
+        output: run.output,
+        cwd: run.cwd,
+        envChanges: run.envChanges,
+        stopReason,
+      })
+
+      // 没有人可以决定是否继续，中断或超时直接结束
+      if (stopReason) {
+        return fail(stopReason === 'timeout' ? '执行超时' : '已中断', run.exitCode)
+      }
+
+      // 退出码 141（SIGPIPE）且有输出时视为成功，例如 ps aux | head -3
+      const isSuccess = run.exitCode === 0 || (run.exitCode === 141 && run.stdout.trim().length > 0)
+      if (!isSuccess) {
+        if (!json) notice(`步骤 ${stepNumber} 执行失败，退出码: ${run.exitCode}，正在请 AI 调整策略...`, 'warning')
+        usage.consecutiveFailures++
+        lastStepFailed = true
+        continue
+      }
+      usage.consecutiveFailures = 0
+      lastStepFailed = false
+
+      if (stepData.continue !== true) {
+        return succeed()
+      }
+    }
+  } finally {
+    session?.close()
+  }
+}
+
+/**
+ * 非交互地在多台服务器上执行
+ * print 模式只生成命令；execute 模式下有需要确认的命令时整体不执行，被策略禁止的服务器跳过
+ */
+export async function runHeadlessBatch(
+  prompt: string,
+  servers: string[],
+  options: { mode: HeadlessMode; json: boolean; stdinContent?: string; debug?: boolean }
+): Promise<HeadlessBatchResult> {
+  const { mode, json } = options
+  const result: HeadlessBatchResult = { prompt, success: false, exitCode: 1, servers: [] }
+  const fail = (error: string): HeadlessBatchResult => {
+    if (!json) notice(`✗ ${error}`, 'error')
+    return { ...result, error }
+  }
+
+  let commands: Awaited<ReturnType<typeof generateBatchRemoteCommands>>
+  try {
+    commands = await generateBatchRemoteCommands(servers, prompt, {
+      debug: options.debug,
+      stdinContent: options.stdinContent,
+    })
+  } catch (error: any) {
+    return fail(`生成命令失败: ${error.message}`)
+  }
+
+  result.servers = commands.map(({ server, command }) => {
+    const policy = checkCommandPolicy(command)
+    return {
+      server,
+      command,
+      risk: analyzeCommandRisk(command),
+      policy: policy.action,
+      policyRule: formatPolicyDecision(policy) || undefined,
+      executed: false,
+    }
+  })
+
+  const allowed = result.servers.filter((item) => item.policy !== 'deny')
+  for (const item of result.servers.filter((item) => item.policy === 'deny')) {
+    if (!json) notice(`🚫 ${item.server}: 执行策略禁止此命令: ${item.policyRule}`, 'error')
+    addRemoteHistory(item.server, {
+      userPrompt: prompt,
+      command: item.command,
+      aiGeneratedCommand: item.command,
+      userModified: false,
+      executed: false,
+      exitCode: null,
+      output: '',
+      reason: 'policy',
+    })
+  }
+  if (allowed.length === 0) {
+    return fail('所有服务器的命令都被执行策略禁止')
+  }
+
+  if (mode === 'print') {
+    return { ...result, success: true, exitCode: 0 }
+  }
+
+  const unconfirmed = allowed.filter((item) => requiresConfirmWord(item.risk) || item.policy === 'confirm')
+  if (unconfirmed.length > 0) {
+    return fail(`${unconfirmed.map((item) => item.server).join(', ')} 的命令需要确认，不会自动执行`)
+  }
+
+  const { signal, release } = trapInterrupt()
+  const results = await executeBatchRemoteCommands(
+    commands.filter(({ server }) => allowed.some((item) => item.server === server)),
+    { timeout: getCommandTimeoutMs(), signal }
+  )
+  release()
+
+  for (const { server, command, exitCode, output } of results) {
+    Object.assign(result.servers.find((item) => item.server === server)!, { executed: true, exitCode, output })
+    addRemoteHistory(server, {
+      userPrompt: prompt,
+      command,
+      aiGeneratedCommand: command,
+      userModified: false,
+      executed: true,
+      exitCode,
+      output,
+      reason: exitCode === TIMEOUT_EXIT_CODE ? 'timeout' : exitCode === INTERRUPTED_EXIT_CODE ? 'interrupted' : undefined,
+    })
+  }
+
+  // 与交互模式一致：全部失败 2，部分失败 1，全部成功 0
+  const allSuccess = allowed.length === servers.length && results.every((r) => r.exitCode === 0)
+  const allFailed = results.every((r) => r.exitCode !== 0)
+  return { ...result, success: allSuccess, exitCode: allFailed ? 2 : allSuccess ? 0 : 1 }
+}
@@ -0,0 +1,88 @@
+import { redactSecrets } from './redact.js'
+import { formatSourceLabel, type SearchEntry } from './history-search.js'
+import { bm25Scores } from './history-retrieval.js'
+
+/**
+ * 用自然语言问历史（pls history ask）
+ *
+ * 先在本地用 BM25 给历史记录打分（见 history-retrieval.ts），只把最相关的几条发给 AI；
+ * 发出去的记录按 [1]、[2] 编号，AI 回答时用编号引用，回答后面列出被引用的记录
+ */
+
+export interface RankedEntry {
+  entry: SearchEntry
+  score: number
+}
+
+// 每条记录最多发给 AI 的输出长度
+const OUTPUT_CHARS = 500
+
+/**
+ * 一条记录参与打分的文本（需求、命令、服务器名和输出的开头）
+ */
+function entryText(entry: SearchEntry): string {
+  return [entry.prompt, entry.command, entry.aiGeneratedCommand, entry.remote, entry.output?.slice(0, 2000)]
+    .filter(Boolean)
+    .join('\n')
+}
+
+/**
+ * 按 BM25 给历史记录打分，返回得分最高的 limit 条（同分时新的在前），不相关的记录不返回
+ */
+export function rankHistory(entries: SearchEntry[], question: string, limit: number): RankedEntry[] {
+  const scores = bm25Scores(question, entries.map(entryText))
+
+  return entries
+    .map((entry, i) => ({ entry, score: scores[i], time: entry.timestamp ? new Date(entry.timestamp).getTime() : -Infinity }))
+    .filter((item) => item.score > 0)
+    .sort((a, b) => b.score - a.score || b.time - a.time)
+    .slice(0, limit)
+    .map(({ entry, score }) => ({ entry, score }))
+}
+
+/**
+ * 把检索到的记录格式化给 AI，按 [1]、[2] 编号
+ */
+export function formatEntriesForAsk(entries: SearchEntry[]): string {
+  return entries
+    .map((entry, i) => {
+      const lines = [`[${i + 1}] 来源: ${formatSourceLabel(entry)}`]
+      if (entry.timestamp) lines.push(`时间: ${entry.timestamp}`)
+      if (entry.cwd) lines.push(`目录: ${entry.cwd}`)
+      if (entry.prompt) lines.push(`需求: ${entry.prompt}`)
+      if (entry.userModified && entry.aiGeneratedCommand) lines.push(`AI 生成: ${entry.aiGeneratedCommand}（用户修改后执行）`)
+      lines.push(`命令: ${entry.command}`)
+      lines.push(`状态: ${entry.executed ? `退出码 ${entry.exitCode}` : '未执行'}`)
+
+      const output = entry.output?.trim()
+      if (output) {
+        lines.push(`输出: ${output.length > OUTPUT_CHARS ? output.slice(0, OUTPUT_CHARS) + '...(已截断)' : output}`)
+      }
+      return redactSecrets(lines.join('\n'))
+    })
+    .join('\n\n')
+}
+
+/**
+ * 回答中引用的记录编号（按第一次出现的顺序，去掉超出范围的编号）
+ */
+export function extractCitations(answer: string, count: number): number[] {
+  const cited: number[] = []
+  for (const match of answer.matchAll(/\[(\d+(?:\s*[,，]\s*\d+)*)\]/g)) {
+    for (const n of match[1].split(/[,，]/).map((s) => Number(s.trim()))) {
+      if (n >= 1 && n <= count && !cited.includes(n)) {
+        cited.push(n)
+      }
+    }
+  }
+  return cited
+}
+
+/**
+ * 重新执行一条记录的命令（Shell 记录不在命令历史里，没有）
+ */
+export function getRerunHint(entry: SearchEntry): string | undefined {
+  if (entry.source === 'local') return `pls history rerun ${entry.index}`
+  if (entry.source === 'remote') return `pls history rerun ${entry.index} --from ${entry.remote}`
+  return undefined
+}
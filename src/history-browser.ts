@@ -0,0 +1,182 @@
+import { getHistory, deleteHistory, type HistoryRecord } from './history.js'
+import { getRemoteHistory, deleteRemoteHistory, type RemoteHistoryRecord } from './remote-history.js'
+import { getChatHistory, deleteChatRound, type ChatMessage } from './chat-history.js'
+import { getRemotes } from './remote.js'
+
+/**
+ * 交互式历史浏览器（pls history）的数据部分
+ *
+ * 本地命令历史、服务器命令历史和对话历史分成三个标签页，最新的在前；
+ * 过滤用模糊匹配（输入的字符按顺序出现即可），连续匹配和词首匹配排得更靠前
+ */
+
+export type BrowserTab = 'local' | 'remote' | 'chat'
+
+export const BROWSER_TABS: BrowserTab[] = ['local', 'remote', 'chat']
+
+export const BROWSER_TAB_LABELS: Record<BrowserTab, string> = {
+  local: '本地',
+  remote: '服务器',
+  chat: '对话',
+}
+
+export interface BrowserEntry {
+  key: string
+  tab: BrowserTab
+  title: string                // 需求或问题
+  command?: string             // 命令（对话没有）
+  aiGeneratedCommand?: string
+  userModified?: boolean
+  executed?: boolean
+  exitCode?: number | null
+  output?: string
+  answer?: string              // 对话的回答
+  remote?: string              // 服务器名（服务器标签页）
+  cwd?: string
+  timestamp?: string
+  record: HistoryRecord | RemoteHistoryRecord | ChatMessage  // 原始记录（删除时用于匹配）
+}
+
+/**
+ * 读取一个标签页的记录（最新的在前）
+ */
+export function loadBrowserEntries(tab: BrowserTab): BrowserEntry[] {
+  if (tab === 'local') {
+    return getHistory().map((record, i) => ({
+      key: `local-${i}`,
+      tab,
+      title: record.userPrompt,
+      command: record.command,
+      aiGeneratedCommand: record.aiGeneratedCommand,
+      userModified: record.userModified,
+      executed: record.executed,
+      exitCode: record.exitCode,
+      output: record.output,
+      cwd: record.cwd,
+      timestamp: record.timestamp,
+      record,
+    }))
+  }
+
+  if (tab === 'remote') {
+    const entries: BrowserEntry[] = []
+    for (const name of Object.keys(getRemotes())) {
+      getRemoteHistory(name).forEach((record, i) => {
+        entries.push({
+          key: `remote-${name}-${i}`,
+          tab,
+          title: record.userPrompt,
+          command: record.command,
+          aiGeneratedCommand: record.aiGeneratedCommand,
+          userModified: record.userModified,
+          executed: record.executed,
+          exitCode: record.exitCode,
+          output: record.output,
+          remote: name,
+          timestamp: record.timestamp,
+          record,
+        })
+      })
+    }
+    // 多台服务器的记录按时间合在一起
+    return entries.sort((a, b) => (b.timestamp || '').localeCompare(a.timestamp || ''))
+  }
+
+  const messages = getChatHistory()
+  const entries: BrowserEntry[] = []
+  messages.forEach((message, i) => {
+    if (message.role !== 'user') return
+    const reply = messages[i + 1]?.role === 'assistant' ? messages[i + 1].content : ''
+    entries.push({
+      key: `chat-${i}`,
+      tab,
+      title: message.content,
+      answer: reply,
+      timestamp: message.timestamp,
+      record: message,
+    })
+  })
+  return entries.reverse()
+}
+
+/**
+ * 从 text 的 start 位置开始贪心匹配 query，返回得分
+ */
+function matchFrom(q: string, t: string, start: number): number | null {
+  let score = 0
+  let position = start - 1
+  let streak = 0
+
+  for (const char of q) {
+    const found = t.indexOf(char, position + 1)
+    if (found === -1) return null
+
+    streak = found === position + 1 && position >= start ? streak + 1 : 0
+    score += 1 + streak * 3
+    if (found === 0 || /[\s/\-_.]/.test(t[found - 1])) score += 3
+    position = found
+  }
+
+  return score - start * 0.01
+}
+
+/**
+ * 模糊匹配得分，不匹配时返回 null
+ * query 的字符按顺序出现在 text 中即为匹配；连续匹配、词首匹配加分，越靠前越好
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase().replace(/\s+/g, '')
+  if (!q) return 0
+
+  // 从第一个字符的每个出现位置各试一次，取最高分（"log" 应该匹配 "tail logs" 中的 logs）
+  const t = text.toLowerCase()
+  let best: number | null = null
+  for (let start = t.indexOf(q[0]); start !== -1; start = t.indexOf(q[0], start + 1)) {
+    const score = matchFrom(q, t, start)
+    if (score === null) break
+    best = best === null ? score : Math.max(best, score)
+  }
+  return best
+}
+
+/**
+ * 按模糊匹配过滤（匹配需求、命令、回答和服务器名），得分高的在前，同分保持原来的顺序
+ */
+export function filterBrowserEntries(entries: BrowserEntry[], query: string): BrowserEntry[] {
+  if (!query.trim()) {
+    return entries
+  }
+
+  return entries
+    .map((entry, order) => {
+      const scores = [entry.title, entry.command, entry.answer, entry.remote]
+        .filter((text): text is string => !!text)
+        .map((text) => fuzzyScore(query, text))
+        .filter((score): score is number => score !== null)
+      return { entry, order, score: scores.length > 0 ? Math.max(...scores) : null }
+    })
+    .filter((item): item is { entry: BrowserEntry; order: number; score: number } => item.score !== null)
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .map(({ entry }) => entry)
+}
+
+/**
+ * 删除一条记录
+ * @returns 是否找到并删除
+ */
+export function deleteBrowserEntry(entry: BrowserEntry): boolean {
+  if (entry.tab === 'local') {
+    return deleteHistory(entry.record as HistoryRecord)
+  }
+  if (entry.tab === 'remote') {
+    return deleteRemoteHistory(entry.remote!, entry.record as RemoteHistoryRecord)
+  }
+  return deleteChatRound(entry.record as ChatMessage)
+}
+
+/**
+ * 复制的内容：命令记录复制命令，对话复制回答
+ */
+export function getCopyText(entry: BrowserEntry): string {
+  return entry.tab === 'chat' ? entry.answer || entry.title : entry.command || ''
+}
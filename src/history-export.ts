@@ -0,0 +1,193 @@
+import type { HistoryRecord } from './history.js'
+import { hasRedactedContent } from './history-rerun.js'
+
+/**
+ * 把历史中的一个任务导出为可复用的 shell 脚本或 Markdown 操作手册
+ *
+ * sh: 带注释的 bash 脚本（set -euo pipefail），只保留执行成功的命令，失败和未执行的命令注释掉，
+ *     包含被脱敏内容（[REDACTED]）的命令也注释掉，提示填入实际的值
+ * md: 操作手册，包含需求、每一步的说明、命令和截断后的输出
+ */
+
+export type ExportFormat = 'sh' | 'md'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['sh', 'md']
+
+// 操作手册中每一步最多显示的输出行数
+const MAX_OUTPUT_LINES = 20
+
+/**
+ * 解析 --format 参数
+ */
+export function parseExportFormat(value: string): ExportFormat {
+  const format = value.trim().toLowerCase()
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    throw new Error(`--format 必须是以下之一: ${EXPORT_FORMATS.join(', ')}`)
+  }
+  return format as ExportFormat
+}
+
+/**
+ * 按 ID 找出一个任务的所有步骤（从早到晚）
+ * @param history 历史记录（最新的在前，与 getHistory() 一致）
+ * @param id pls history 中的序号，或任务 ID（可以只写开头几位）
+ * @throws 找不到或 ID 前缀匹配到多个任务时抛出错误
+ */
+export function findTaskRecords(history: HistoryRecord[], id: string): HistoryRecord[] {
+  let taskId: string | undefined
+
+  if (/^\d+$/.test(id) && Number(id) >= 1 && Number(id) <= history.length) {
+    const record = history[Number(id) - 1]
+    if (!record.taskId) {
+      return [record]
+    }
+    taskId = record.taskId
+  } else {
+    const taskIds = [...new Set(history.map((record) => record.taskId).filter((t): t is string => !!t))]
+    const matches = taskIds.includes(id) ? [id] : taskIds.filter((t) => t.startsWith(id))
+    if (matches.length > 1) {
+      throw new Error(`"${id}" 匹配到 ${matches.length} 个任务，请写完整的任务 ID`)
+    }
+    taskId = matches[0]
+  }
+
+  if (!taskId) {
+    throw new Error(`找不到历史记录 "${id}"`)
+  }
+
+  return history
+    .filter((record) => record.taskId === taskId)
+    .reverse()
+    .sort((a, b) => (a.step ?? 0) - (b.step ?? 0))
+}
+
+/**
+ * 任务的原始需求（第一步的 userPrompt；旧记录后续步骤带有 [步骤N] 前缀）
+ */
+function getTaskPrompt(records: HistoryRecord[]): string {
+  const first = records.find((record) => (record.step ?? 1) === 1) ?? records[0]
+  return first.userPrompt.replace(/^\[步骤\d+\]\s*/, '')
+}
+
+/**
+ * 命令是否执行成功（交给父 shell 执行的 builtin 也算）
+ */
+function isSucceeded(record: HistoryRecord): boolean {
+  return (record.executed && record.exitCode === 0) || record.reason === 'parent_shell'
+}
+
+/**
+ * 步骤的状态说明
+ */
+function describeStatus(record: HistoryRecord): string {
+  if (record.executed) {
+    if (record.exitCode === 0) return '成功'
+    if (record.reason === 'interrupted') return '已中断'
+    if (record.reason === 'timeout') return '超时'
+    return `失败（退出码 ${record.exitCode}）`
+  }
+  if (record.reason === 'parent_shell') return '交给当前 shell 执行'
+  if (record.reason === 'policy') return '被执行策略禁止'
+  if (record.reason === 'builtin') return '包含 builtin，未执行'
+  return '未执行'
+}
+
+/**
+ * 历史只保留了部分步骤时的提示
+ */
+function getMissingStepsNote(records: HistoryRecord[]): string {
+  const firstStep = records[0].step ?? 1
+  return firstStep > 1 ? `历史只保留了第 ${firstStep} 步及之后的记录，前面的步骤需要自己补上（historyRetention）` : ''
+}
+
+function formatDate(timestamp?: string): string {
+  return timestamp ? new Date(timestamp).toLocaleString('zh-CN') : '未知时间'
+}
+
+/**
+ * 单行注释（去掉换行）
+ */
+function comment(text: string): string {
+  return `# ${text.replace(/\s*\n\s*/g, ' ')}`
+}
+
+/**
+ * 导出为 bash 脚本
+ */
+export function exportTaskAsScript(records: HistoryRecord[]): string {
+  const lines = ['#!/usr/bin/env bash', comment(getTaskPrompt(records))]
+  const header = [`由 pls 导出于 ${formatDate(new Date().toISOString())}`]
+  if (records[0].taskId) header.push(`任务 ${records[0].taskId}`)
+  lines.push(comment(header.join(' · ')))
+
+  const note = getMissingStepsNote(records)
+  if (note) lines.push(comment(`注意：${note}`))
+
+  lines.push('', 'set -euo pipefail')
+
+  records.forEach((record, index) => {
+    const step = record.step ?? index + 1
+    lines.push('')
+    lines.push(comment(`${step}. ${record.reasoning || getTaskPrompt([record])}`))
+    if (isSucceeded(record) && hasRedactedContent(record.command)) {
+      lines.push(comment('命令中有保存时被脱敏的内容（[REDACTED]），填入实际的值后再取消注释:'))
+      lines.push(...record.command.split('\n').map((line) => `# ${line}`))
+    } else if (isSucceeded(record)) {
+      lines.push(record.command)
+    } else {
+      lines.push(comment(`${describeStatus(record)}，不执行:`))
+      lines.push(...record.command.split('\n').map((line) => `# ${line}`))
+    }
+  })
+
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * 截断输出：最多保留 MAX_OUTPUT_LINES 行
+ */
+function trimOutput(output: string): string {
+  const lines = output.trimEnd().split('\n')
+  if (lines.length <= MAX_OUTPUT_LINES) {
+    return lines.join('\n')
+  }
+  return [...lines.slice(0, MAX_OUTPUT_LINES), `...(省略 ${lines.length - MAX_OUTPUT_LINES} 行)`].join('\n')
+}
+
+/**
+ * 导出为 Markdown 操作手册
+ */
+export function exportTaskAsRunbook(records: HistoryRecord[]): string {
+  const lines = [`# ${getTaskPrompt(records)}`, '']
+  const meta = [`由 pls 导出于 ${formatDate(new Date().toISOString())}`, `执行于 ${formatDate(records[0].timestamp)}`]
+  if (records[0].taskId) meta.push(`任务 \`${records[0].taskId}\``)
+  lines.push(`> ${meta.join(' · ')}`)
+
+  const note = getMissingStepsNote(records)
+  if (note) lines.push('>', `> ⚠️ ${note}`)
+
+  records.forEach((record, index) => {
+    const step = record.step ?? index + 1
+    const fence = record.command.includes('```') ? '~~~' : '```'
+    lines.push('', `## ${step}. ${record.reasoning || getTaskPrompt([record])}`, '')
+    lines.push(`${fence}bash`, record.command, fence, '')
+    if (record.userModified && record.aiGeneratedCommand) {
+      lines.push(`AI 原本生成的是 \`${record.aiGeneratedCommand}\`，执行前手动修改过。`, '')
+    }
+    lines.push(`状态：${isSucceeded(record) ? '✅' : '❌'} ${describeStatus(record)}`)
+
+    if (record.output?.trim()) {
+      const outputFence = record.output.includes('```') ? '~~~' : '```'
+      lines.push('', '输出：', '', `${outputFence}text`, trimOutput(record.output), outputFence)
+    }
+  })
+
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * 按格式导出
+ */
+export function exportTask(records: HistoryRecord[], format: ExportFormat): string {
+  return format === 'sh' ? exportTaskAsScript(records) : exportTaskAsRunbook(records)
+}
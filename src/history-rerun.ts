@@ -0,0 +1,104 @@
+import { REDACTED } from './redact.js'
+
+/**
+ * 重新执行历史中的命令（pls history rerun）
+ *
+ * 默认把原命令直接交给确认流程；--regenerate 用当前的系统信息重新生成，并显示和原命令的差异；
+ * --on 在另一台服务器（或本地）上重放
+ */
+
+/**
+ * 重新执行的目标：undefined 表示本地，否则为服务器名
+ */
+export type RerunTarget = string | undefined
+
+export interface RerunEntry {
+  prompt: string    // 原始需求（去掉多步骤任务的 [步骤N] 前缀）
+  command: string   // 当时实际执行（或确认）的命令
+}
+
+export interface DiffToken {
+  text: string
+  type: 'same' | 'added' | 'removed'
+}
+
+/**
+ * 去掉多步骤任务后续步骤记录中的 [步骤N] 前缀
+ */
+export function stripStepPrefix(prompt: string): string {
+  return prompt.replace(/^\[步骤\d+\]\s*/, '')
+}
+
+/**
+ * 按 pls history（或 pls remote history）中显示的序号取出一条记录
+ * @param records 历史记录，顺序与显示时一致
+ * @param n 显示的序号（从 1 开始）
+ * @throws 序号无效或记录中没有命令时抛出错误
+ */
+export function getRerunEntry(records: Array<{ userPrompt: string; command: string }>, n: string): RerunEntry {
+  const index = Number(n)
+  if (!/^\d+$/.test(n.trim()) || index < 1 || index > records.length) {
+    throw new Error(
+      records.length === 0 ? '暂无历史记录' : `序号必须是 1 到 ${records.length} 之间的整数`
+    )
+  }
+
+  const record = records[index - 1]
+  if (!record.command.trim()) {
+    throw new Error(`第 ${index} 条记录没有生成命令，可以用 --regenerate 重新生成`)
+  }
+
+  return { prompt: stripStepPrefix(record.userPrompt), command: record.command }
+}
+
+/**
+ * 命令中是否有保存历史时被脱敏的内容（[REDACTED]），这种命令不能原样执行，只能重新生成
+ */
+export function hasRedactedContent(command: string): boolean {
+  return command.includes(REDACTED)
+}
+
+/**
+ * 解析 --on 参数：local 表示本地，其他为服务器名；不传时在原来的地方执行
+ */
+export function resolveRerunTarget(source: RerunTarget, on?: string): RerunTarget {
+  if (on === undefined) {
+    return source
+  }
+  return on.trim() === 'local' ? undefined : on.trim()
+}
+
+/**
+ * 按空白分词比较两条命令（最长公共子序列），用于显示重新生成前后的差异
+ */
+export function diffCommand(oldCommand: string, newCommand: string): DiffToken[] {
+  const a = oldCommand.trim().split(/\s+/).filter(Boolean)
+  const b = newCommand.trim().split(/\s+/).filter(Boolean)
+
+  // lcs[i][j] = a[i..] 与 b[j..] 的最长公共子序列长度
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const tokens: DiffToken[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      tokens.push({ text: a[i], type: 'same' })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      tokens.push({ text: a[i++], type: 'removed' })
+    } else {
+      tokens.push({ text: b[j++], type: 'added' })
+    }
+  }
+  while (i < a.length) tokens.push({ text: a[i++], type: 'removed' })
+  while (j < b.length) tokens.push({ text: b[j++], type: 'added' })
+
+  return tokens
+}
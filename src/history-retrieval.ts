@@ -0,0 +1,192 @@
+import path from 'path'
+
+/**
+ * 历史检索：按当前需求给历史记录打分
+ *
+ * 发给 AI 的 <command_history> 不再只是最近 N 条，而是"最近的几条 + 与当前需求相关的更早记录"，
+ * 这样"像上次那样部署"也能找到三天前的部署记录。打分由几部分组成：
+ * - 词面相似度（BM25，中文按相邻两个字切分）
+ * - 同一个目录（或子目录）执行的加分
+ * - 需求里提到了记录中用到的工具（docker、kubectl 等）加分
+ * - 越久以前的记录得分越低（半衰期 14 天）
+ */
+
+export interface RetrievalCandidate {
+  text: string          // 参与词面匹配的文本（需求、命令等）
+  command?: string      // 执行的命令（提取用到的工具）
+  cwd?: string
+  timestamp?: string
+}
+
+export interface RetrievalContext {
+  prompt: string
+  cwd?: string
+  now?: number
+}
+
+// BM25 参数（常用取值）
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+// 得分减半所需的天数
+const RECENCY_HALF_LIFE_DAYS = 14
+
+// 英文问句里的常见词，不参与打分
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'i', 'me', 'my', 'we', 'our', 'you', 'it', 'is', 'was', 'were', 'be', 'been',
+  'do', 'did', 'does', 'to', 'of', 'in', 'on', 'at', 'for', 'with', 'and', 'or', 'how', 'what',
+  'which', 'when', 'where', 'why', 'that', 'this', 'use', 'used', 'last', 'ago',
+])
+
+// 命令前面的修饰词，不算作用到的工具
+const COMMAND_PREFIXES = new Set(['sudo', 'env', 'time', 'nohup', 'exec', 'command'])
+
+/**
+ * 分词：英文、数字按单词（去掉复数 s），中文按相邻两个字（"修好"、"好了"），单独一个汉字保留原样
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = []
+  for (const run of text.toLowerCase().match(/[a-z0-9_]+|[一-鿿]+/g) || []) {
+    if (/^[一-鿿]/.test(run)) {
+      if (run.length === 1) {
+        tokens.push(run)
+      }
+      for (let i = 0; i + 1 < run.length; i++) {
+        tokens.push(run.slice(i, i + 2))
+      }
+    } else if (!STOP_WORDS.has(run)) {
+      tokens.push(run.length > 3 && run.endsWith('s') && !run.endsWith('ss') ? run.slice(0, -1) : run)
+    }
+  }
+  return tokens
+}
+
+/**
+ * 按 BM25 计算每篇文本与 query 的词面相似度（不相关为 0）
+ */
+export function bm25Scores(query: string, texts: string[]): number[] {
+  const queryTerms = [...new Set(tokenize(query))]
+  if (queryTerms.length === 0 || texts.length === 0) {
+    return texts.map(() => 0)
+  }
+
+  const docs = texts.map((text) => {
+    const freq = new Map<string, number>()
+    const tokens = tokenize(text)
+    for (const token of tokens) {
+      freq.set(token, (freq.get(token) || 0) + 1)
+    }
+    return { freq, length: tokens.length }
+  })
+
+  const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / docs.length || 1
+  const idf = new Map<string, number>()
+  for (const term of queryTerms) {
+    const df = docs.filter((doc) => doc.freq.has(term)).length
+    idf.set(term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5)))
+  }
+
+  return docs.map((doc) => {
+    let score = 0
+    for (const term of queryTerms) {
+      const tf = doc.freq.get(term)
+      if (!tf) continue
+      score += idf.get(term)! * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / avgLength)))
+    }
+    return score
+  })
+}
+
+/**
+ * 命令中用到的工具（管道、&&、; 分隔的每一段的命令名）
+ */
+export function extractTools(command: string): string[] {
+  const tools = new Set<string>()
+  for (const segment of command.split(/\|\||&&|[|;&\n]/)) {
+    const words = segment.trim().split(/\s+/).filter((word) => !/^\w+=/.test(word))
+    const name = words.find((word) => !COMMAND_PREFIXES.has(word) && !word.startsWith('-'))
+    if (name) {
+      tools.add(path.basename(name).toLowerCase())
+    }
+  }
+  return [...tools]
+}
+
+function isSameOrSubdir(dir: string, base: string): boolean {
+  return dir === base || dir.startsWith(base.endsWith(path.sep) ? base : base + path.sep)
+}
+
+/**
+ * 给候选记录打分（不相关为 0）
+ * 需求和记录的词面或用到的工具至少要有一样对得上，目录和时间只用来调整得分
+ */
+export function scoreRelevance(candidates: RetrievalCandidate[], context: RetrievalContext): number[] {
+  const now = context.now ?? Date.now()
+  const promptTerms = new Set(tokenize(context.prompt))
+  const lexical = bm25Scores(context.prompt, candidates.map((candidate) => candidate.text))
+
+  return candidates.map((candidate, i) => {
+    const toolMatches = candidate.command ? extractTools(candidate.command).filter((tool) => promptTerms.has(tool)).length : 0
+    if (lexical[i] === 0 && toolMatches === 0) {
+      return 0
+    }
+
+    let score = lexical[i] + Math.min(toolMatches, 2)
+    if (context.cwd && candidate.cwd) {
+      if (candidate.cwd === context.cwd) {
+        score += 1
+      } else if (isSameOrSubdir(candidate.cwd, context.cwd) || isSameOrSubdir(context.cwd, candidate.cwd)) {
+        score += 0.5
+      }
+    }
+
+    if (candidate.timestamp) {
+      const ageDays = Math.max(0, now - new Date(candidate.timestamp).getTime()) / (24 * 60 * 60 * 1000)
+      score *= 0.5 + 0.5 * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS)
+    }
+    return score
+  })
+}
+
+/**
+ * 选出得分最高的 count 条相关记录（按得分从高到低，同分保持原来的顺序），不相关的不选
+ */
+export function pickRelevant<T>(
+  items: T[],
+  count: number,
+  context: RetrievalContext,
+  toCandidate: (item: T) => RetrievalCandidate
+): T[] {
+  if (count <= 0 || !context.prompt.trim()) {
+    return []
+  }
+
+  const scores = scoreRelevance(items.map(toCandidate), context)
+  return items
+    .map((item, i) => ({ item, score: scores[i], order: i }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .slice(0, count)
+    .map(({ item }) => item)
+}
+
+/**
+ * 从历史中选出"最近的"和"相关的"记录，一共不超过 limit 条
+ * 最近的至少占一半，剩下的名额给更早的相关记录，相关记录不够时仍用最近的补齐
+ * @param items 历史记录（最新的在前）
+ */
+export function selectRecentAndRelevant<T>(
+  items: T[],
+  limit: number,
+  context: RetrievalContext,
+  toCandidate: (item: T) => RetrievalCandidate
+): { recent: T[]; relevant: T[] } {
+  if (items.length <= limit) {
+    return { recent: items, relevant: [] }
+  }
+
+  const recentCount = Math.ceil(limit / 2)
+  const relevant = pickRelevant(items.slice(recentCount), limit - recentCount, context, toCandidate)
+  const recent = items.filter((item) => !relevant.includes(item)).slice(0, limit - relevant.length)
+  return { recent, relevant }
+}
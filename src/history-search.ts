@@ -0,0 +1,182 @@
+import path from 'path'
+import { getHistory } from './history.js'
+import { getRemoteHistory } from './remote-history.js'
+import { getShellHistory } from './shell-hook.js'
+import { getRemotes } from './remote.js'
+
+/**
+ * 历史搜索（pls history search）
+ *
+ * 把本地命令历史、各服务器的命令历史和 Shell Hook 记录的命令合在一起，
+ * 按关键词（需求、命令、输出）和条件过滤，最新的在前
+ */
+
+export interface SearchEntry {
+  source: 'local' | 'remote' | 'shell'
+  remote?: string       // source 为 remote 时的服务器名
+  index?: number        // 在 pls history / pls remote history 中的序号（rerun 使用），Shell 记录没有
+  prompt?: string       // 用户需求，Shell 记录没有
+  command: string
+  aiGeneratedCommand?: string
+  userModified?: boolean
+  output?: string
+  executed: boolean
+  exitCode: number | null
+  cwd?: string
+  timestamp?: string
+}
+
+export interface SearchOptions {
+  text?: string
+  failed?: boolean      // 只看执行失败的
+  modified?: boolean    // 只看执行前手动修改过的
+  since?: Date
+  cwd?: string          // 只看在这个目录（及子目录）执行的
+}
+
+// 相对时间的单位（--since 7d）
+const SINCE_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+}
+
+/**
+ * 解析 --since：相对时间（30m / 12h / 7d / 2w）或日期（2026-01-01）
+ */
+export function parseSince(value: string, now: Date = new Date()): Date {
+  const relative = value.trim().match(/^(\d+)([mhdw])$/)
+  if (relative) {
+    return new Date(now.getTime() - Number(relative[1]) * SINCE_UNITS[relative[2]])
+  }
+
+  const date = new Date(value.trim())
+  if (!value.trim() || isNaN(date.getTime())) {
+    throw new Error('--since 格式不正确，例如 30m、12h、7d、2w 或 2026-01-01')
+  }
+  return date
+}
+
+/**
+ * 解析 --limit
+ */
+export function parseLimit(value: string): number {
+  if (!/^\d+$/.test(value.trim()) || Number(value) < 1) {
+    throw new Error('--limit 必须是正整数')
+  }
+  return Number(value)
+}
+
+/**
+ * 把关键词拆成多个词（每个词都要匹配，不区分大小写）
+ */
+export function splitTerms(text?: string): string[] {
+  return (text || '').toLowerCase().split(/\s+/).filter(Boolean)
+}
+
+/**
+ * 收集要搜索的历史
+ * @param remote 只搜索这台服务器的命令历史；不传时搜索本地、Shell 和所有服务器
+ */
+export function collectSearchEntries(remote?: string): SearchEntry[] {
+  if (remote) {
+    return getRemoteHistory(remote).map((record, i) => ({ ...record, source: 'remote', remote, index: i + 1, prompt: record.userPrompt }))
+  }
+
+  const entries: SearchEntry[] = getHistory().map((record, i) => ({
+    ...record,
+    source: 'local',
+    index: i + 1,
+    prompt: record.userPrompt,
+  }))
+
+  for (const name of Object.keys(getRemotes())) {
+    getRemoteHistory(name).forEach((record, i) => {
+      entries.push({ ...record, source: 'remote', remote: name, index: i + 1, prompt: record.userPrompt })
+    })
+  }
+
+  // 通过 pls 执行的命令已经在命令历史里了，Shell 记录中的 pls 调用不再重复
+  for (const item of getShellHistory()) {
+    if (/^(pls|please)(\s|$)/.test(item.cmd.trim())) continue
+    entries.push({ source: 'shell', command: item.cmd, executed: true, exitCode: item.exit, timestamp: item.time })
+  }
+
+  return entries
+}
+
+function isFailed(entry: SearchEntry): boolean {
+  return entry.executed && entry.exitCode !== 0
+}
+
+function isInDirectory(entry: SearchEntry, dir: string): boolean {
+  return !!entry.cwd && (entry.cwd === dir || entry.cwd.startsWith(dir.endsWith(path.sep) ? dir : dir + path.sep))
+}
+
+/**
+ * 过滤并按时间排序（最新的在前，没有时间的排在最后）
+ */
+export function searchHistory(entries: SearchEntry[], options: SearchOptions): SearchEntry[] {
+  const terms = splitTerms(options.text)
+  const dir = options.cwd ? path.resolve(options.cwd) : undefined
+
+  return entries
+    .filter((entry) => {
+      if (options.failed && !isFailed(entry)) return false
+      if (options.modified && !entry.userModified) return false
+      if (options.since && (!entry.timestamp || new Date(entry.timestamp) < options.since)) return false
+      if (dir && !isInDirectory(entry, dir)) return false
+
+      const haystack = [entry.prompt, entry.command, entry.aiGeneratedCommand, entry.output]
+        .filter(Boolean)
+        .join('\n')
+        .toLowerCase()
+      return terms.every((term) => haystack.includes(term))
+    })
+    .map((entry, order) => ({ entry, order, time: entry.timestamp ? new Date(entry.timestamp).getTime() : -Infinity }))
+    .sort((a, b) => b.time - a.time || a.order - b.order)
+    .map(({ entry }) => entry)
+}
+
+/**
+ * 记录的来源：本地 #3、prod #2（序号即 pls history rerun 的序号）、Shell
+ */
+export function formatSourceLabel(entry: SearchEntry): string {
+  if (entry.source === 'local') return `本地 #${entry.index}`
+  if (entry.source === 'remote') return `${entry.remote} #${entry.index}`
+  return 'Shell'
+}
+
+/**
+ * 高亮文本中所有匹配的关键词（不区分大小写）
+ * @param mark 给匹配部分上色的函数
+ */
+export function highlightTerms(text: string, terms: string[], mark: (s: string) => string): string {
+  if (terms.length === 0) {
+    return text
+  }
+  const escaped = terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  return text.replace(new RegExp(`(${escaped.join('|')})`, 'gi'), (match) => mark(match))
+}
+
+/**
+ * 输出中第一处匹配所在的行（截取匹配附近的内容），没有匹配时返回空字符串
+ */
+export function findOutputSnippet(output: string | undefined, terms: string[], width = 100): string {
+  if (!output || terms.length === 0) {
+    return ''
+  }
+
+  for (const line of output.split('\n')) {
+    const lower = line.toLowerCase()
+    const position = Math.min(...terms.map((term) => lower.indexOf(term)).filter((i) => i >= 0))
+    if (position === Infinity) continue
+
+    const text = line.trim()
+    const start = Math.max(0, position - (line.length - line.trimStart().length) - Math.floor(width / 3))
+    const snippet = text.slice(start, start + width)
+    return `${start > 0 ? '...' : ''}${snippet}${start + width < text.length ? '...' : ''}`
+  }
+  return ''
+}
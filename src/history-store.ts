@@ -0,0 +1,261 @@
+import fs from 'fs'
+import path from 'path'
+
+/**
+ * 历史存储（命令历史、对话历史、远程服务器命令历史共用）
+ *
+ * 每条记录一行 JSON（JSONL），新记录直接追加到文件末尾，不再读出整个文件再重写。
+ * 写入时持有 <file>.lock，多个 pls 进程同时写入不会互相覆盖；
+ * 超出保留条数一定比例后才压缩一次（写临时文件再改名），是否超出先按文件大小估算，追加时不用读出整个文件；
+ * 读取时跳过写了一半的行。
+ * 旧版本的 JSON 数组文件在第一次读写时自动迁移，原文件改名为 .bak 保留。
+ */
+
+export interface HistoryFile {
+  path: string                 // JSONL 文件
+  legacyPath?: string          // 旧版本的 JSON 数组文件
+  legacyNewestFirst?: boolean  // 旧文件是否最新的在前（history.json 是，其他是从旧到新）
+}
+
+// 超出保留条数的比例达到这个值时压缩（避免每次追加都重写整个文件）
+const COMPACT_SLACK = 0.2
+
+// 等待锁的最长时间，超时说明其他进程卡住了
+const LOCK_TIMEOUT = 3000
+
+// 锁文件超过这个时间视为持有锁的进程已经异常退出
+const STALE_LOCK_MS = 10000
+
+/**
+ * 同步等待（历史读写都是同步的，等锁时不能 await）
+ */
+function sleep(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms)
+}
+
+/**
+ * 删除过期的锁：先改名为只属于自己的文件再删除，多个进程同时发现过期时只有一个能改名成功；
+ * 改名拿到的不是刚才看到的那个锁（其他进程已经删掉过期锁并重新加锁）时放回去
+ * @param ino 判断过期时锁文件的 inode
+ */
+function removeStaleLock(lockFile: string, ino: number): void {
+  const staleFile = `${lockFile}.${process.pid}.stale`
+  try {
+    fs.renameSync(lockFile, staleFile)
+  } catch {
+    return  // 已经被其他进程删除或改名
+  }
+
+  try {
+    if (fs.statSync(staleFile).ino !== ino) {
+      fs.linkSync(staleFile, lockFile)  // 锁文件已存在时失败，不会覆盖
+    }
+  } catch {
+    // 放不回去说明又有进程加了锁，这个锁的持有者释放时只会删除新的锁文件
+  } finally {
+    fs.rmSync(staleFile, { force: true })
+  }
+}
+
+/**
+ * 持有文件锁执行 fn（通过独占创建 <file>.lock 实现）
+ * @throws 等待超时时抛出错误
+ */
+export function withFileLock<T>(file: string, fn: () => T): T {
+  const lockFile = `${file}.lock`
+  const start = Date.now()
+  let fd: number
+
+  while (true) {
+    try {
+      fd = fs.openSync(lockFile, 'wx')
+      break
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') {
+        throw error
+      }
+    }
+
+    try {
+      const stat = fs.statSync(lockFile)
+      if (Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+        removeStaleLock(lockFile, stat.ino)
+        continue
+      }
+    } catch {
+      // 锁刚好被释放，重试
+      continue
+    }
+
+    if (Date.now() - start > LOCK_TIMEOUT) {
+      throw new Error(`历史文件被其他 pls 进程占用，请稍后重试（或删除 ${lockFile}）`)
+    }
+    sleep(20)
+  }
+
+  try {
+    return fn()
+  } finally {
+    fs.closeSync(fd)
+    fs.rmSync(lockFile, { force: true })
+  }
+}
+
+/**
+ * 读取 JSONL 文件中的记录（从旧到新），跳过损坏和写了一半的行
+ */
+function readLines<T>(file: string): T[] {
+  if (!fs.existsSync(file)) {
+    return []
+  }
+
+  let content: string
+  try {
+    content = fs.readFileSync(file, 'utf-8')
+  } catch {
+    return []
+  }
+
+  const records: T[] = []
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue
+    try {
+      const record = JSON.parse(line)
+      if (record && typeof record === 'object' && !Array.isArray(record)) {
+        records.push(record as T)
+      }
+    } catch {
+      // 跳过损坏的行
+    }
+  }
+  return records
+}
+
+/**
+ * 整体写入（写临时文件再改名，读取方不会读到写了一半的文件）
+ */
+function writeLines(file: string, records: unknown[]): void {
+  const tmpFile = `${file}.${process.pid}.tmp`
+  fs.writeFileSync(tmpFile, records.map((record) => JSON.stringify(record) + '\n').join(''))
+  fs.renameSync(tmpFile, file)
+}
+
+function ensureDir(file: string): void {
+  const dir = path.dirname(file)
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true })
+  }
+}
+
+/**
+ * 迁移旧版本的 JSON 数组文件（需要持有锁）
+ * 旧记录比 JSONL 中已有的记录早，放在前面；读不了的旧文件保持原样，下次再试
+ */
+function migrateLegacyFile(file: HistoryFile): void {
+  if (!file.legacyPath || !fs.existsSync(file.legacyPath)) {
+    return
+  }
+
+  let legacy: unknown[]
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file.legacyPath, 'utf-8'))
+    legacy = Array.isArray(parsed) ? parsed : []
+  } catch (error: any) {
+    if (!(error instanceof SyntaxError)) {
+      return
+    }
+    legacy = []  // 内容损坏，没有可迁移的记录
+  }
+
+  const records = legacy.filter((record) => record && typeof record === 'object' && !Array.isArray(record))
+  if (file.legacyNewestFirst) {
+    records.reverse()
+  }
+
+  writeLines(file.path, [...records, ...readLines(file.path)])
+  fs.renameSync(file.legacyPath, `${file.legacyPath}.bak`)
+}
+
+/**
+ * 读取历史记录（从旧到新）
+ */
+export function readHistoryFile<T>(file: HistoryFile): T[] {
+  if (file.legacyPath && fs.existsSync(file.legacyPath)) {
+    ensureDir(file.path)
+    withFileLock(file.path, () => migrateLegacyFile(file))
+  }
+  return readLines<T>(file.path)
+}
+
+/**
+ * 追加历史记录，超出保留条数较多时压缩为最近的 retention 条
+ */
+export function appendHistoryFile<T>(file: HistoryFile, records: T[], retention: number): void {
+  ensureDir(file.path)
+  withFileLock(file.path, () => {
+    migrateLegacyFile(file)
+    const content = records.map((record) => JSON.stringify(record) + '\n').join('')
+    fs.appendFileSync(file.path, content)
+
+    // 先按文件大小估算条数（以这次追加的记录的平均大小计），估算超出时才读出整个文件
+    const limit = retention + Math.ceil(retention * COMPACT_SLACK)
+    const recordBytes = Buffer.byteLength(content) / Math.max(records.length, 1)
+    if (fs.statSync(file.path).size <= limit * recordBytes) {
+      return
+    }
+
+    const all = readLines<T>(file.path)
+    if (all.length > limit) {
+      writeLines(file.path, all.slice(-retention))
+    }
+  })
+}
+
+/**
+ * 改写历史记录（删除单条记录等），fn 收到全部记录（从旧到新），返回要保留的记录
+ */
+export function rewriteHistoryFile<T>(file: HistoryFile, fn: (records: T[]) => T[]): void {
+  ensureDir(file.path)
+  withFileLock(file.path, () => {
+    migrateLegacyFile(file)
+    writeLines(file.path, fn(readLines<T>(file.path)))
+  })
+}
+
+/**
+ * 删除最后一条满足 match 的记录（从新往旧找，在锁内匹配，期间有其他 pls 进程写入也不会删错）
+ * @param count 从这条记录开始一共删除几条（对话历史连同后面的 AI 回答一起删），默认 1
+ * @returns 是否找到并删除
+ */
+export function deleteHistoryRecord<T>(
+  file: HistoryFile,
+  match: (record: T) => boolean,
+  count: (records: T[], index: number) => number = () => 1
+): boolean {
+  let deleted = false
+  rewriteHistoryFile<T>(file, (records) => {
+    for (let i = records.length - 1; i >= 0; i--) {
+      if (match(records[i])) {
+        deleted = true
+        return [...records.slice(0, i), ...records.slice(i + count(records, i))]
+      }
+    }
+    return records
+  })
+  return deleted
+}
+
+/**
+ * 清空历史记录（旧版本的文件一起删除）
+ */
+export function clearHistoryFile(file: HistoryFile): void {
+  if (!fs.existsSync(path.dirname(file.path))) {
+    return
+  }
+  withFileLock(file.path, () => {
+    fs.rmSync(file.path, { force: true })
+    if (file.legacyPath) {
+      fs.rmSync(file.legacyPath, { force: true })
+    }
+  })
+}
@@ -2,12 +2,37 @@ import fs from 'fs'
 import path from 'path'
 import os from 'os'
 import { getConfig } from './config.js'
+import { redactSecrets } from './redact.js'
+import { readHistoryFile, appendHistoryFile, clearHistoryFile, deleteHistoryRecord, type HistoryFile } from './history-store.js'
+import { selectRecentAndRelevant, pickRelevant, type RetrievalCandidate } from './history-retrieval.js'
 
 const CONFIG_DIR = path.join(os.homedir(), '.please')
-const HISTORY_FILE = path.join(CONFIG_DIR, 'history.json')
+const HISTORY_FILE: HistoryFile = {
+  path: path.join(CONFIG_DIR, 'history.jsonl'),
+  legacyPath: path.join(CONFIG_DIR, 'history.json'),
+  legacyNewestFirst: true,
+}
 const MAX_HISTORY = 10
+const HISTORY_RETENTION = 1000
 const MAX_OUTPUT_LENGTH = 500
 
+/**
+ * 备选命令（--alternatives 时记录用户选中和放弃的方案，供偏好学习使用）
+ */
+export interface HistoryAlternative {
+  command: string
+  description: string
+  chosen: boolean
+}
+
+/**
+ * 一轮调整：用户没有执行的命令，以及提出的修改意见
+ */
+export interface HistoryRefinement {
+  command: string
+  feedback: string
+}
+
 /**
  * 历史记录项
  */
@@ -19,10 +44,59 @@ export interface HistoryRecord {
   executed: boolean
   exitCode: number | null
   output?: string
-  reason?: 'builtin' | string
+  reason?: 'builtin' | 'parent_shell' | 'interrupted' | 'timeout' | 'policy' | string
+  undoId?: string      // 撤销条目 ID（执行前备份了被修改的文件，可用 pls undo 还原）
+  alternatives?: HistoryAlternative[]  // 用户从中选择的备选命令
+  refinements?: HistoryRefinement[]    // 确认前的调整过程（按顺序）
+  taskId?: string      // 所属任务（多步骤任务的各步共用，pls history export 按任务导出）
+  step?: number        // 在任务中是第几步
+  reasoning?: string   // AI 对这一步的说明
+  cwd?: string         // 执行时所在的目录（pls history search --cwd）
   timestamp?: string
 }
 
+/**
+ * 中断 / 超时的状态后缀（用于历史展示）
+ */
+export function formatInterruptSuffix(reason?: string): string {
+  if (reason === 'interrupted') return ' (已中断)'
+  if (reason === 'timeout') return ' (超时)'
+  return ''
+}
+
+/**
+ * 备选命令的选择情况（用于历史展示和发给 AI）
+ * 例如：选择了「tar.gz，兼容性最好」，未选「zip」「zstd」
+ */
+export function formatAlternativeChoice(alternatives?: HistoryAlternative[]): string {
+  if (!alternatives || alternatives.length === 0) {
+    return ''
+  }
+
+  const label = (alternative: HistoryAlternative) => `「${alternative.description || alternative.command}」`
+  const chosen = alternatives.find((alternative) => alternative.chosen)
+  const rejected = alternatives.filter((alternative) => !alternative.chosen)
+
+  const parts = [chosen ? `选择了${label(chosen)}` : '都没有选']
+  if (rejected.length > 0) {
+    parts.push(`未选${rejected.map(label).join('')}`)
+  }
+  return parts.join('，')
+}
+
+/**
+ * 命令的调整过程（用于历史展示和发给 AI）
+ * 例如：ls -R →「只看当前目录」→ ls -la
+ */
+export function formatRefinements(refinements: HistoryRefinement[] | undefined, finalCommand: string): string {
+  if (!refinements || refinements.length === 0) {
+    return ''
+  }
+
+  const rounds = refinements.map((refinement) => `${refinement.command} →「${refinement.feedback}」→ `)
+  return rounds.join('') + finalCommand
+}
+
 /**
  * 确保配置目录存在
  */
@@ -33,107 +107,174 @@ function ensureConfigDir(): void {
 }
 
 /**
- * 读取历史记录
+ * 本地最多保存的历史条数
  */
-export function getHistory(): HistoryRecord[] {
-  ensureConfigDir()
-
-  if (!fs.existsSync(HISTORY_FILE)) {
-    return []
-  }
-
-  try {
-    const content = fs.readFileSync(HISTORY_FILE, 'utf-8')
-    return JSON.parse(content) as HistoryRecord[]
-  } catch {
-    return []
-  }
+function getRetention(): number {
+  return getConfig().historyRetention || HISTORY_RETENTION
 }
 
 /**
- * 保存历史记录
+ * 读取保存的全部历史记录（最新的在前）
  */
-function saveHistory(history: HistoryRecord[]): void {
+export function getHistory(): HistoryRecord[] {
   ensureConfigDir()
-  fs.writeFileSync(HISTORY_FILE, JSON.stringify(history, null, 2))
+  return readHistoryFile<HistoryRecord>(HISTORY_FILE).reverse().slice(0, getRetention())
 }
 
 /**
  * 添加一条历史记录
  */
 export function addHistory(record: HistoryRecord): void {
-  const config = getConfig()
-  const history = getHistory()
+  // 脱敏（命令、输出中的密码、Token 等不落盘）
+  record.userPrompt = redactSecrets(record.userPrompt)
+  record.command = redactSecrets(record.command)
+  if (record.aiGeneratedCommand) {
+    record.aiGeneratedCommand = redactSecrets(record.aiGeneratedCommand)
+  }
+  if (record.output) {
+    record.output = redactSecrets(record.output)
+  }
+  if (record.reasoning) {
+    record.reasoning = redactSecrets(record.reasoning)
+  }
+  if (record.refinements) {
+    record.refinements = record.refinements.map((refinement) => ({
+      command: redactSecrets(refinement.command),
+      feedback: redactSecrets(refinement.feedback),
+    }))
+  }
+  if (record.alternatives) {
+    record.alternatives = record.alternatives.map((alternative) => ({
+      ...alternative,
+      command: redactSecrets(alternative.command),
+    }))
+  }
 
   // 截断输出
   if (record.output && record.output.length > MAX_OUTPUT_LENGTH) {
     record.output = record.output.slice(0, MAX_OUTPUT_LENGTH) + '...(截断)'
   }
 
-  // 添加时间戳
+  // 添加时间戳和执行目录（持久会话中由调用方传入 cd 之后的目录）
   record.timestamp = new Date().toISOString()
+  record.cwd = record.cwd || process.cwd()
 
-  // 添加到开头
-  history.unshift(record)
-
-  // 保留最近 N 条（从配置读取）
-  const maxHistory = config.commandHistoryLimit || MAX_HISTORY
-  if (history.length > maxHistory) {
-    history.length = maxHistory
-  }
+  appendHistoryFile(HISTORY_FILE, [record], getRetention())
+}
 
-  saveHistory(history)
+/**
+ * 删除一条历史记录（按时间、需求和命令匹配，期间有其他 pls 进程写入也不会删错）
+ * @returns 是否找到并删除
+ */
+export function deleteHistory(record: HistoryRecord): boolean {
+  return deleteHistoryRecord<HistoryRecord>(
+    HISTORY_FILE,
+    (item) => item.timestamp === record.timestamp && item.userPrompt === record.userPrompt && item.command === record.command
+  )
 }
 
 /**
  * 清空历史记录
  */
 export function clearHistory(): void {
-  saveHistory([])
+  clearHistoryFile(HISTORY_FILE)
 }
 
 /**
- * 格式化历史记录供 AI 使用
+ * 一条历史记录发给 AI 的格式
  */
-export function formatHistoryForAI(): string {
-  const history = getHistory()
+function formatRecordForAI(item: HistoryRecord, index: number): string {
+  const timeAgo = getTimeAgo(item.timestamp || '')
 
-  if (history.length === 0) {
-    return ''
+  let status: string
+  if (item.executed) {
+    status = item.exitCode === 0 ? '✓' : `✗ 退出码:${item.exitCode}${formatInterruptSuffix(item.reason)}`
+  } else if (item.reason === 'builtin') {
+    status = '(包含 builtin，未执行)'
+  } else if (item.reason === 'parent_shell') {
+    status = '(交给当前 shell 执行)'
+  } else if (item.reason === 'policy') {
+    status = '(被执行策略禁止)'
+  } else {
+    status = '(用户取消执行)'
   }
 
-  const lines = history
-    .map((item, index) => {
-      const timeAgo = getTimeAgo(item.timestamp || '')
+  // 备选方案的选择和确认前的调整过程
+  const choice = formatAlternativeChoice(item.alternatives)
+  const refinement = formatRefinements(item.refinements, item.aiGeneratedCommand || item.command)
+  const extraLines =
+    (choice ? `\n   备选方案: ${choice}` : '') + (refinement ? `\n   调整过程: ${refinement}` : '')
 
-      let status: string
-      if (item.executed) {
-        status = item.exitCode === 0 ? '✓' : `✗ 退出码:${item.exitCode}`
-      } else if (item.reason === 'builtin') {
-        status = '(包含 builtin，未执行)'
-      } else {
-        status = '(用户取消执行)'
-      }
+  // 检查是否用户修改了命令
+  if (item.userModified && item.aiGeneratedCommand) {
+    // 用户修改了命令
+    return `${index + 1}. [${timeAgo}] "${item.userPrompt}" → AI 生成: ${item.aiGeneratedCommand} / 用户修改为: ${item.command} ${status}${extraLines}`
+  } else {
+    // 未修改，使用原格式
+    let line = `${index + 1}. [${timeAgo}] "${item.userPrompt}" → ${item.command} ${status}`
 
-      // 检查是否用户修改了命令
-      if (item.userModified && item.aiGeneratedCommand) {
-        // 用户修改了命令
-        return `${index + 1}. [${timeAgo}] "${item.userPrompt}" → AI 生成: ${item.aiGeneratedCommand} / 用户修改为: ${item.command} ${status}`
-      } else {
-        // 未修改，使用原格式
-        let line = `${index + 1}. [${timeAgo}] "${item.userPrompt}" → ${item.command} ${status}`
+    // 如果有输出且命令失败，附加输出摘要
+    if (item.output && item.exitCode !== 0) {
+      line += `\n   输出: ${item.output.split('\n')[0]}` // 只取第一行
+    }
 
-        // 如果有输出且命令失败，附加输出摘要
-        if (item.output && item.exitCode !== 0) {
-          line += `\n   输出: ${item.output.split('\n')[0]}` // 只取第一行
-        }
+    return line + extraLines
+  }
+}
 
-        return line
-      }
-    })
-    .reverse() // 从旧到新排列
+/**
+ * 历史检索用的候选（需求和命令参与词面匹配）
+ */
+function toRetrievalCandidate(item: HistoryRecord): RetrievalCandidate {
+  return {
+    text: [item.userPrompt, item.command, item.aiGeneratedCommand].filter(Boolean).join('\n'),
+    command: item.command,
+    cwd: item.cwd,
+    timestamp: item.timestamp,
+  }
+}
+
+/**
+ * 格式化历史记录供 AI 使用（一共 commandHistoryLimit 条）
+ * 传入当前需求时，一半名额给最近的记录，另一半给与需求相关的更早记录（见 history-retrieval.ts）
+ */
+export function formatHistoryForAI(prompt: string = ''): string {
+  const limit = getConfig().commandHistoryLimit || MAX_HISTORY
+  const { recent, relevant } = selectRecentAndRelevant(
+    getHistory(),
+    limit,
+    { prompt, cwd: process.cwd() },
+    toRetrievalCandidate
+  )
+
+  if (recent.length === 0 && relevant.length === 0) {
+    return ''
+  }
+
+  const lines = recent.map(formatRecordForAI).reverse() // 从旧到新排列
+  const result = `【最近通过 pls 执行的命令】\n${lines.join('\n')}`
+
+  return relevant.length > 0 ? `${result}\n\n${formatRelevantSection(relevant)}` : result
+}
+
+/**
+ * 与当前需求相关的更早记录（按相关度排列）
+ */
+function formatRelevantSection(records: HistoryRecord[]): string {
+  return `【与当前需求相关的更早记录】\n${records.map(formatRecordForAI).join('\n')}`
+}
+
+/**
+ * 与当前需求相关的 pls 记录，供 Shell 历史使用（Shell Hook 只保留最近几条，更早的相关操作从 pls 历史中找）
+ * @param before 只找这个时间之前的记录（已经出现在 Shell 历史里的不再重复）
+ */
+export function formatRelevantHistoryForAI(prompt: string, before?: string): string {
+  const limit = Math.floor((getConfig().commandHistoryLimit || MAX_HISTORY) / 2)
+  const cutoff = before ? new Date(before).getTime() : Infinity
+  const older = getHistory().filter((item) => !item.timestamp || new Date(item.timestamp).getTime() < cutoff)
+  const relevant = pickRelevant(older, limit, { prompt, cwd: process.cwd() }, toRetrievalCandidate)
 
-  return `【最近通过 pls 执行的命令】\n${lines.join('\n')}`
+  return relevant.length > 0 ? formatRelevantSection(relevant) : ''
 }
 
 /**
@@ -156,5 +297,5 @@ function getTimeAgo(timestamp: string): string {
  * 获取历史记录文件路径（供显示用）
  */
 export function getHistoryFilePath(): string {
-  return HISTORY_FILE
+  return HISTORY_FILE.path
 }
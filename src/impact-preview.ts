@@ -0,0 +1,280 @@
+/**
+ * 文件系统影响预览
+ *
+ * 确认 rm / mv / find -delete 等破坏性命令之前，先用无破坏性的方式统计会影响哪些路径：
+ * - rm / rmdir / unlink / shred / mv：由 shell 展开通配符后，用 du 统计操作数
+ * - find：把 -delete、-exec rm 等动作换成 -exec du，只列出匹配的路径
+ * 预览脚本在本地 sh 或远程服务器（sshExec）上执行，结果汇总为路径数、总大小和前 N 个路径。
+ */
+
+import { execFile } from 'child_process'
+import { parseShellCommand, type CommandInvocation } from './shell-parser.js'
+import { sshExec, getRemoteWorkDir } from './remote.js'
+import { isWindows } from './utils/platform.js'
+
+/**
+ * 影响范围汇总
+ */
+export interface ImpactSummary {
+  count: number       // 受影响的路径数
+  totalBytes: number  // 总大小（字节，目录包含其内容）
+  paths: string[]     // 前 N 个路径
+}
+
+/**
+ * 预览选项
+ */
+export interface ImpactPreviewOptions {
+  remoteName?: string                // 远程服务器名称（通过 sshExec 执行）
+  cwd?: string                       // 本地工作目录
+  env?: NodeJS.ProcessEnv            // 本地环境变量
+  limit?: number                     // 返回的路径数
+  timeout?: number                   // 超时时间（毫秒）
+}
+
+// 默认展示的路径数
+export const IMPACT_PREVIEW_LIMIT = 5
+
+// 预览超时（毫秒），超时则不显示预览
+const IMPACT_PREVIEW_TIMEOUT = 5000
+
+// 删除 / 移动文件的命令
+const PATH_COMMANDS = new Set(['rm', 'rmdir', 'unlink', 'shred', 'mv'])
+
+// 需要带参数值的选项
+const VALUE_OPTIONS: Record<string, Set<string>> = {
+  mv: new Set(['-t', '-S', '--target-directory', '--suffix']),
+  shred: new Set(['-n', '-s', '--iterations', '--size']),
+}
+
+// find 中执行命令的动作
+const FIND_EXEC_ACTIONS = new Set(['-exec', '-execdir', '-ok', '-okdir'])
+
+// find 中会写文件的动作（预览时不能执行）
+const FIND_WRITE_ACTIONS = new Set(['-fprint', '-fprint0', '-fprintf', '-fls'])
+
+// 改变工作目录的命令（之后的路径无法在当前目录下预览）
+const CWD_COMMANDS = new Set(['cd', 'pushd', 'popd'])
+
+// 统计 du 的输出：前 n 行原样输出，最后一行为 "路径数 总KB"
+const SUMMARY_AWK = `awk -v n=LIMIT '{ c++; s += $1; if (c <= n) print } END { printf "%d %.0f\\n", c, s }'`
+
+/**
+ * 去掉命令名中的路径（/usr/bin/rm → rm）
+ */
+function baseName(word: string): string {
+  return word.replace(/^.*\//, '')
+}
+
+/**
+ * 原始文本中是否包含命令替换（预览时会被执行，不安全）
+ */
+function hasSubstitution(raw: string): boolean {
+  return /\$\(|`|[<>]\(/.test(raw)
+}
+
+/**
+ * 命令参数对应的原始文本（保留引号和通配符，交给 shell 展开）
+ */
+function rawArgsOf(invocation: CommandInvocation): string[] {
+  return invocation.rawWords.slice(invocation.rawWords.length - invocation.args.length)
+}
+
+/**
+ * rm / mv 等命令：用 du 统计操作数
+ */
+function buildPathScript(invocation: CommandInvocation): string | null {
+  const name = baseName(invocation.name)
+  const rawArgs = rawArgsOf(invocation)
+  const valueOptions = VALUE_OPTIONS[name]
+
+  const operands: string[] = []
+  let hasTargetDir = false
+  let optionsEnded = false
+  for (let i = 0; i < invocation.args.length; i++) {
+    const arg = invocation.args[i]
+    if (!optionsEnded && arg === '--') {
+      optionsEnded = true
+    } else if (!optionsEnded && arg.startsWith('-') && arg !== '-') {
+      if (arg === '-t' || arg.startsWith('--target-directory')) hasTargetDir = true
+      if (valueOptions?.has(arg)) i++
+    } else {
+      operands.push(rawArgs[i])
+    }
+  }
+
+  // mv 的最后一个操作数是目标（除非用 -t 指定了目标目录）
+  if (name === 'mv' && !hasTargetDir) {
+    operands.pop()
+  }
+  if (operands.length === 0) {
+    return null
+  }
+  return `du -sk -- ${operands.join(' ')}`
+}
+
+/**
+ * find：把删除动作换成 du，其余条件保持不变
+ */
+function buildFindScript(invocation: CommandInvocation): string | null {
+  const rawArgs = rawArgsOf(invocation)
+  const parts: string[] = [invocation.rawWords[invocation.rawWords.length - invocation.args.length - 1]]
+  let destructive = false
+
+  for (let i = 0; i < invocation.args.length; i++) {
+    const arg = invocation.args[i]
+
+    if (arg === '-delete') {
+      parts.push('-exec du -sk {} +')
+      destructive = true
+      continue
+    }
+
+    if (FIND_EXEC_ACTIONS.has(arg)) {
+      const command = baseName(invocation.args[i + 1] || '')
+      // 其他命令在预览时执行不安全
+      if (!PATH_COMMANDS.has(command)) {
+        return null
+      }
+      while (i < invocation.args.length && invocation.args[i] !== ';' && invocation.args[i] !== '+') {
+        i++
+      }
+      parts.push('-exec du -sk {} +')
+      destructive = true
+      continue
+    }
+
+    if (FIND_WRITE_ACTIONS.has(arg)) {
+      return null
+    }
+    parts.push(rawArgs[i])
+  }
+
+  return destructive ? parts.join(' ') : null
+}
+
+/**
+ * 构建影响预览脚本
+ * @returns 预览脚本，命令不会删除 / 移动文件或无法安全预览时返回 null
+ */
+export function buildImpactScript(command: string, limit: number = IMPACT_PREVIEW_LIMIT): string | null {
+  const scripts: string[] = []
+  let cwdChanged = false
+
+  for (const invocation of parseShellCommand(command)) {
+    const name = baseName(invocation.name)
+    if (CWD_COMMANDS.has(name)) {
+      cwdChanged = true
+      continue
+    }
+
+    const isFind = name === 'find'
+    if (!isFind && !PATH_COMMANDS.has(name)) {
+      continue
+    }
+    // 只是查询的 find
+    if (isFind && !invocation.args.some((arg) => arg === '-delete' || FIND_EXEC_ACTIONS.has(arg))) {
+      continue
+    }
+
+    // 工作目录已改变、操作数来自标准输入（xargs rm）或包含命令替换，无法准确预览
+    if (cwdChanged || invocation.wrappers.includes('xargs') || rawArgsOf(invocation).some(hasSubstitution)) {
+      return null
+    }
+
+    const script = isFind ? buildFindScript(invocation) : buildPathScript(invocation)
+    if (script === null) {
+      return null
+    }
+    scripts.push(script)
+  }
+
+  if (scripts.length === 0) {
+    return null
+  }
+  return `{ ${scripts.join('; ')}; } 2>/dev/null | ${SUMMARY_AWK.replace('LIMIT', String(limit))}`
+}
+
+/**
+ * 解析预览脚本的输出
+ */
+export function parseImpactOutput(output: string): ImpactSummary | null {
+  const lines = output.split('\n').filter((line) => line.length > 0)
+  const summary = lines.pop()?.match(/^(\d+) (\d+)$/)
+  if (!summary) {
+    return null
+  }
+
+  return {
+    count: parseInt(summary[1], 10),
+    totalBytes: parseInt(summary[2], 10) * 1024,
+    paths: lines.map((line) => line.replace(/^\d+\t/, '')),
+  }
+}
+
+/**
+ * 在本地执行预览脚本
+ */
+function runLocal(script: string, options: ImpactPreviewOptions, timeout: number): Promise<string | null> {
+  return new Promise((resolve) => {
+    execFile(
+      'sh',
+      ['-c', script],
+      { cwd: options.cwd, env: options.env, timeout, maxBuffer: 1024 * 1024 },
+      (error, stdout) => resolve(error ? null : stdout)
+    )
+  })
+}
+
+/**
+ * 在远程服务器上执行预览脚本
+ */
+async function runRemote(remoteName: string, script: string, timeout: number): Promise<string | null> {
+  const workDir = getRemoteWorkDir(remoteName)
+  const actualScript = workDir ? `cd ${workDir} && ${script}` : script
+  try {
+    const result = await sshExec(remoteName, actualScript, { timeout, noPrompt: true })
+    return result.exitCode === 0 ? result.stdout : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 预览命令对文件系统的影响
+ * @returns 影响范围，命令不涉及删除 / 移动文件、无法预览或预览失败时返回 null
+ */
+export async function previewImpact(command: string, options: ImpactPreviewOptions = {}): Promise<ImpactSummary | null> {
+  const script = buildImpactScript(command, options.limit)
+  if (!script) {
+    return null
+  }
+
+  const timeout = options.timeout ?? IMPACT_PREVIEW_TIMEOUT
+  let output: string | null
+  if (options.remoteName) {
+    output = await runRemote(options.remoteName, script, timeout)
+  } else {
+    // Windows 下没有 sh / du
+    if (isWindows()) {
+      return null
+    }
+    output = await runLocal(script, options, timeout)
+  }
+
+  return output === null ? null : parseImpactOutput(output)
+}
+
+/**
+ * 格式化文件大小
+ */
+export function formatSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB']
+  let size = bytes
+  let unit = 0
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024
+    unit++
+  }
+  return unit === 0 ? `${size} ${units[unit]}` : `${size.toFixed(1)} ${units[unit]}`
+}
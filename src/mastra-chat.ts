@@ -1,15 +1,15 @@
 import { Agent } from '@mastra/core'
 import { getConfig } from './config.js'
-import { CHAT_SYSTEM_PROMPT, buildChatUserContext } from './prompts.js'
+import { CHAT_SYSTEM_PROMPT, HISTORY_ASK_SYSTEM_PROMPT, buildChatUserContext, buildHistoryAskContext } from './prompts.js'
 import { formatSystemInfo, getSystemInfo } from './sysinfo.js'
 import { formatHistoryForAI } from './history.js'
 import { formatShellHistoryForAI, getShellHistory } from './shell-hook.js'
-import { getChatHistory, addChatMessage } from './chat-history.js'
+import { getChatHistoryForAI, addChatMessage } from './chat-history.js'
 
 /**
  * 创建 Mastra Chat Agent（使用静态系统提示词）
  */
-export function createChatAgent() {
+export function createChatAgent(instructions: string = CHAT_SYSTEM_PROMPT) {
   const config = getConfig()
 
   // 组合 provider/model 格式（Mastra 要求）
@@ -17,7 +17,7 @@ export function createChatAgent() {
 
   return new Agent({
     name: 'chat-assistant',
-    instructions: CHAT_SYSTEM_PROMPT,  // 只包含静态规则
+    instructions,  // 只包含静态规则
     model: {
       url: config.baseUrl,
       id: modelId,
@@ -44,6 +44,7 @@ export async function chatWithMastra(
   prompt: string,
   options: {
     debug?: boolean
+    stdinContent?: string  // 管道输入
     onChunk?: (chunk: string) => void
   } = {}
 ): Promise<{
@@ -60,7 +61,7 @@ export async function chatWithMastra(
   const agent = createChatAgent()
 
   // 1. 获取历史对话（纯粹的问答）
-  const chatHistory = getChatHistory()
+  const chatHistory = getChatHistoryForAI()
 
   // 2. 构建消息数组
   const messages: string[] = []
@@ -72,10 +73,11 @@ export async function chatWithMastra(
 
   // 3. 构建最新消息（动态上下文 + 用户问题）
   const sysinfo = formatSystemInfo(await getSystemInfo())
-  const plsHistory = formatHistoryForAI()
+  // 历史中除了最近的记录，还带上与当前问题相关的更早记录
+  const plsHistory = formatHistoryForAI(prompt)
   // 使用统一的历史获取接口（自动降级到系统历史）
   const { formatShellHistoryForAIWithFallback } = await import('./shell-hook.js')
-  const shellHistory = formatShellHistoryForAIWithFallback()
+  const shellHistory = formatShellHistoryForAIWithFallback(prompt)
   const shellHookEnabled = !!shellHistory  // 如果有 shell 历史就视为启用
 
   // 获取用户偏好
@@ -88,7 +90,8 @@ export async function chatWithMastra(
     plsHistory,
     shellHistory,
     shellHookEnabled,
-    userPreferencesStr
+    userPreferencesStr,
+    options.stdinContent
   )
 
   messages.push(latestUserContext)
@@ -135,3 +138,40 @@ export async function chatWithMastra(
 
   return { reply: fullContent }
 }
+
+/**
+ * 根据检索到的历史记录回答问题（pls history ask）
+ * 只发送检索到的记录，不带对话历史，也不保存到对话历史
+ */
+export async function askHistoryWithMastra(
+  question: string,
+  historyEntries: string,
+  options: {
+    onChunk?: (chunk: string) => void
+  } = {}
+): Promise<string> {
+  const agent = createChatAgent(HISTORY_ASK_SYSTEM_PROMPT)
+  const messages = [buildHistoryAskContext(question, historyEntries)]
+
+  let fullContent = ''
+
+  if (options.onChunk) {
+    const stream = await agent.stream(messages)
+
+    for await (const chunk of stream.textStream) {
+      if (chunk) {
+        fullContent += chunk
+        options.onChunk(chunk)
+      }
+    }
+  } else {
+    const response = await agent.generate(messages)
+    fullContent = response.text || ''
+  }
+
+  if (!fullContent) {
+    throw new Error('AI 返回了空的响应')
+  }
+
+  return fullContent
+}
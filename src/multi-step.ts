@@ -1,12 +1,20 @@
 import { z } from 'zod'
 import { createShellAgent } from './mastra-agent.js'
-import { SHELL_COMMAND_SYSTEM_PROMPT, buildUserContextPrompt } from './prompts.js'
+import {
+  SHELL_COMMAND_SYSTEM_PROMPT,
+  buildUserContextPrompt,
+  buildAlternativesRequest,
+  buildRefinementFeedback,
+  buildPlanRequest,
+} from './prompts.js'
 import { formatSystemInfo, getSystemInfo } from './sysinfo.js'
-import { formatHistoryForAI } from './history.js'
+import { formatHistoryForAI, type HistoryRefinement } from './history.js'
 import { formatShellHistoryForAI, getShellHistory } from './shell-hook.js'
 import { getConfig, type RemoteSysInfo } from './config.js'
 import { formatRemoteHistoryForAI, formatRemoteShellHistoryForAI, type RemoteShellHistoryItem } from './remote-history.js'
 import { formatRemoteSysInfoForAI } from './remote.js'
+import { formatPolicyForAI } from './policy.js'
+import { estimateTokens } from './task-budget.js'
 
 /**
  * 多步骤命令的 Zod Schema
@@ -21,12 +29,51 @@ export const CommandStepSchema = z.object({
 
 export type CommandStep = z.infer<typeof CommandStepSchema>
 
+/**
+ * 备选命令：一个候选步骤加一句简短说明
+ */
+export const CommandAlternativeSchema = CommandStepSchema.extend({
+  description: z.string().optional().default(''),
+})
+
+export type CommandAlternative = z.infer<typeof CommandAlternativeSchema>
+
+export const CommandAlternativesSchema = z.object({
+  alternatives: z.array(CommandAlternativeSchema),
+})
+
+/**
+ * 任务计划的 Zod Schema（每步一句话说明，不含具体命令）
+ */
+export const TaskPlanSchema = z.object({
+  steps: z.array(z.object({ description: z.string() })),
+})
+
+/**
+ * 用户确认过的任务计划
+ */
+export interface TaskPlan {
+  steps: string[]
+  current: number  // 正在执行的步骤下标
+}
+
+// 计划最多步数
+export const MAX_PLAN_STEPS = 10
+
+// 备选命令数量（--alternatives 不带数量时为默认值）
+export const DEFAULT_ALTERNATIVES = 3
+export const MAX_ALTERNATIVES = 5
+
 /**
  * 执行步骤结果
  */
 export interface ExecutedStep extends CommandStep {
   exitCode: number
   output: string
+  cwd?: string  // 持久会话中执行后的工作目录
+  envChanges?: Record<string, string | null>  // 本步引起的环境变量变化（null = unset）
+  stopReason?: 'interrupted' | 'timeout'  // 被用户中断或执行超时
+  policyDenied?: string  // 被执行策略禁止（未执行），值为命中的规则
 }
 
 /**
@@ -53,15 +100,28 @@ export function getRemoteFullSystemPrompt(remoteContext: RemoteContext) {
 }
 
 /**
- * 使用 Mastra 生成多步骤命令
+ * 解析 --alternatives 参数（不带数量时使用默认值）
  */
-export async function generateMultiStepCommand(
-  userPrompt: string,
-  previousSteps: ExecutedStep[] = [],
-  options: { debug?: boolean; remoteContext?: RemoteContext } = {}
-): Promise<{ stepData: CommandStep; debugInfo?: any }> {
-  const agent = createShellAgent()
+export function parseAlternativeCount(value: string | boolean): number {
+  if (value === true) {
+    return DEFAULT_ALTERNATIVES
+  }
 
+  const count = Number(value)
+  if (!Number.isInteger(count) || count < 2 || count > MAX_ALTERNATIVES) {
+    throw new Error(`--alternatives 必须是 2 到 ${MAX_ALTERNATIVES} 之间的整数`)
+  }
+  return count
+}
+
+/**
+ * 构建包含系统信息、历史、偏好、执行日志的 User Prompt
+ */
+async function buildCommandContextPrompt(
+  userPrompt: string,
+  previousSteps: ExecutedStep[],
+  options: { remoteContext?: RemoteContext; stdinContent?: string; plan?: TaskPlan }
+): Promise<string> {
   // 准备动态数据
   let sysinfoStr = ''
   let historyStr = ''
@@ -75,28 +135,81 @@ export async function generateMultiStepCommand(
   } else {
     // 本地执行：格式化本地系统信息和历史
     sysinfoStr = formatSystemInfo(await getSystemInfo())
-    const plsHistory = formatHistoryForAI()
+    // 历史中除了最近的记录，还带上与当前需求相关的更早记录
+    const plsHistory = formatHistoryForAI(userPrompt)
     // 使用统一的历史获取接口（自动降级到系统历史）
     const { formatShellHistoryForAIWithFallback } = await import('./shell-hook.js')
-    const shellHistory = formatShellHistoryForAIWithFallback()
+    const shellHistory = formatShellHistoryForAIWithFallback(userPrompt)
     historyStr = shellHistory || plsHistory  // 优先使用 shell 历史，降级到 pls 历史
   }
 
+  // 执行策略（本地和远程执行都生效），让 AI 一开始就避开被禁止的命令
+  const policyStr = formatPolicyForAI()
+  if (policyStr) {
+    sysinfoStr += `\n${policyStr}`
+  }
+
   // 获取用户偏好
   const { formatUserPreferences } = await import('./user-preferences.js')
   const userPreferencesStr = formatUserPreferences()
 
   // 构建包含所有动态数据的 User Prompt（XML 格式）
-  const userContextPrompt = buildUserContextPrompt(
+  return buildUserContextPrompt(
     userPrompt,
     sysinfoStr,
     historyStr,
     userPreferencesStr,
-    previousSteps
+    previousSteps,
+    options.stdinContent,
+    options.plan
   )
+}
+
+type CommandMessage = { role: 'user'; content: string } | { role: 'assistant'; content: string }
+
+/**
+ * 构建发给 AI 的消息
+ * 没有调整时只发送一条 User Message；每轮调整追加被拒绝的命令（assistant）和修改意见（user），作为对话上下文
+ */
+export function buildCommandMessages(
+  userContextPrompt: string,
+  refinements: HistoryRefinement[] = []
+): CommandMessage[] {
+  const messages: CommandMessage[] = [{ role: 'user', content: userContextPrompt }]
+
+  for (const refinement of refinements) {
+    messages.push({ role: 'assistant', content: JSON.stringify({ command: refinement.command }) })
+    messages.push({ role: 'user', content: buildRefinementFeedback(refinement.feedback) })
+  }
 
-  // 只发送一条 User Message
-  const messages = [userContextPrompt]
+  return messages
+}
+
+/**
+ * 一次调用消耗的 token：优先使用模型返回的用量，没有返回时按提示词和输出的长度估算
+ */
+function countTokens(usage: { totalTokens?: number } | undefined, prompt: string, output: unknown): number {
+  return usage?.totalTokens || estimateTokens(SHELL_COMMAND_SYSTEM_PROMPT + prompt + JSON.stringify(output ?? ''))
+}
+
+/**
+ * 使用 Mastra 生成多步骤命令
+ * refinements：用户对之前生成的命令提出的修改意见（按顺序），AI 据此重新生成
+ */
+export async function generateMultiStepCommand(
+  userPrompt: string,
+  previousSteps: ExecutedStep[] = [],
+  options: {
+    debug?: boolean
+    remoteContext?: RemoteContext
+    stdinContent?: string
+    refinements?: HistoryRefinement[]
+    plan?: TaskPlan
+  } = {}
+): Promise<{ stepData: CommandStep; tokens: number; debugInfo?: any }> {
+  const agent = createShellAgent()
+  const userContextPrompt = await buildCommandContextPrompt(userPrompt, previousSteps, options)
+  const messages = buildCommandMessages(userContextPrompt, options.refinements)
 
   // 调用 Mastra Agent 生成结构化输出
   const response = await agent.generate(messages, {
@@ -107,15 +220,18 @@ export async function generateMultiStepCommand(
   })
 
   const stepData = response.object as CommandStep
+  const tokens = countTokens(response.usage, messages.map((message) => message.content).join('\n'), stepData)
 
   // 返回调试信息
   if (options.debug) {
     return {
       stepData,
+      tokens,
       debugInfo: {
         systemPrompt: SHELL_COMMAND_SYSTEM_PROMPT,
         userPrompt: userContextPrompt,
         previousStepsCount: previousSteps.length,
+        refinements: options.refinements,
         response: stepData,
         remoteContext: options.remoteContext
           ? {
@@ -127,5 +243,137 @@ export async function generateMultiStepCommand(
     }
   }
 
-  return { stepData }
+  return { stepData, tokens }
+}
+
+/**
+ * 生成多个备选命令（如 tar.gz / zip / zstd），供用户选择
+ * 去掉空命令和重复命令；一个都没有时抛出错误
+ */
+export async function generateCommandAlternatives(
+  userPrompt: string,
+  count: number,
+  options: { debug?: boolean; remoteContext?: RemoteContext; stdinContent?: string } = {}
+): Promise<{ alternatives: CommandAlternative[]; tokens: number; debugInfo?: any }> {
+  const agent = createShellAgent()
+  const userContextPrompt =
+    (await buildCommandContextPrompt(userPrompt, [], options)) + '\n' + buildAlternativesRequest(count)
+
+  const response = await agent.generate([userContextPrompt], {
+    structuredOutput: {
+      schema: CommandAlternativesSchema,
+      jsonPromptInjection: true,
+    },
+  })
+
+  const alternatives = normalizeAlternatives((response.object as { alternatives: CommandAlternative[] }).alternatives, count)
+  if (alternatives.length === 0) {
+    throw new Error('AI 没有生成可用的备选命令')
+  }
+  const tokens = countTokens(response.usage, userContextPrompt, response.object)
+
+  if (options.debug) {
+    return {
+      alternatives,
+      tokens,
+      debugInfo: {
+        systemPrompt: SHELL_COMMAND_SYSTEM_PROMPT,
+        userPrompt: userContextPrompt,
+        previousStepsCount: 0,
+        response: response.object,
+        remoteContext: options.remoteContext
+          ? {
+              name: options.remoteContext.name,
+              sysInfo: options.remoteContext.sysInfo,
+            }
+          : undefined,
+      },
+    }
+  }
+
+  return { alternatives, tokens }
+}
+
+/**
+ * 整理 AI 返回的备选命令：去掉空命令和重复命令，最多保留 count 个
+ */
+export function normalizeAlternatives(alternatives: CommandAlternative[], count: number): CommandAlternative[] {
+  const seen = new Set<string>()
+  const result: CommandAlternative[] = []
+
+  for (const alternative of alternatives || []) {
+    const command = alternative.command?.trim()
+    if (!command || seen.has(command)) {
+      continue
+    }
+    seen.add(command)
+    result.push({ ...alternative, command })
+    if (result.length >= count) {
+      break
+    }
+  }
+
+  return result
+}
+
+/**
+ * 生成任务计划（--plan）
+ * 传入 currentPlan 时为重新规划：根据 previousSteps 中的失败原因，返回从当前步骤开始的剩余步骤
+ */
+export async function generateTaskPlan(
+  userPrompt: string,
+  previousSteps: ExecutedStep[] = [],
+  options: { debug?: boolean; remoteContext?: RemoteContext; stdinContent?: string; currentPlan?: TaskPlan } = {}
+): Promise<{ steps: string[]; tokens: number; debugInfo?: any }> {
+  const agent = createShellAgent()
+  const userContextPrompt =
+    (await buildCommandContextPrompt(userPrompt, previousSteps, options)) + '\n' + buildPlanRequest(options.currentPlan)
+
+  const response = await agent.generate([userContextPrompt], {
+    structuredOutput: {
+      schema: TaskPlanSchema,
+      jsonPromptInjection: true,
+    },
+  })
+
+  const steps = normalizePlanSteps((response.object as z.infer<typeof TaskPlanSchema>).steps)
+  if (steps.length === 0) {
+    throw new Error('AI 没有生成任务计划')
+  }
+  const tokens = countTokens(response.usage, userContextPrompt, response.object)
+
+  if (options.debug) {
+    return {
+      steps,
+      tokens,
+      debugInfo: {
+        systemPrompt: SHELL_COMMAND_SYSTEM_PROMPT,
+        userPrompt: userContextPrompt,
+        previousStepsCount: previousSteps.length,
+        response: response.object,
+      },
+    }
+  }
+
+  return { steps, tokens }
+}
+
+/**
+ * 整理 AI 返回的计划：去掉空步骤，最多保留 MAX_PLAN_STEPS 步
+ */
+export function normalizePlanSteps(steps: Array<{ description: string }>): string[] {
+  return (steps || [])
+    .map((step) => step.description?.trim())
+    .filter((description): description is string => !!description)
+    .slice(0, MAX_PLAN_STEPS)
+}
+
+/**
+ * 用重新规划的剩余步骤替换当前步骤及之后的计划（已完成的步骤保留）
+ */
+export function replacePlanRemainder(plan: TaskPlan, remaining: string[]): TaskPlan {
+  return {
+    steps: [...plan.steps.slice(0, plan.current), ...remaining],
+    current: plan.current,
+  }
 }
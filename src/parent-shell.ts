@@ -0,0 +1,67 @@
+import fs from 'fs'
+import path from 'path'
+
+/**
+ * 把命令交回父 shell 执行
+ *
+ * Shell Hook 安装的 `pls` 包装函数会创建一个临时文件，通过 PLS_PARENT_CMD_FILE 传给 pls，
+ * pls 退出后由包装函数在当前 shell 中 eval 文件内容。
+ * 这样 cd / export / source 等 builtin 可以真正作用于用户的终端。
+ */
+
+export const PARENT_CMD_FILE_ENV = 'PLS_PARENT_CMD_FILE'
+
+/**
+ * 单引号转义
+ */
+function quote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+/**
+ * 获取包装函数传入的命令文件路径
+ */
+function getParentCmdFile(): string | null {
+  const file = process.env[PARENT_CMD_FILE_ENV]
+  if (!file || !path.isAbsolute(file)) {
+    return null
+  }
+  return file
+}
+
+/**
+ * 是否可以把命令交回父 shell（即通过包装函数启动）
+ */
+export function canEmitToParentShell(): boolean {
+  const file = getParentCmdFile()
+  return file !== null && fs.existsSync(file)
+}
+
+/**
+ * 构建交给父 shell 执行的脚本
+ * cwd 与父 shell 当前目录不同时（多步骤任务中途 cd 过），先切换过去
+ */
+export function buildParentShellScript(command: string, cwd?: string): string {
+  if (cwd && cwd !== process.cwd()) {
+    return `cd -- ${quote(cwd)} && ${command}\n`
+  }
+  return `${command}\n`
+}
+
+/**
+ * 写入命令，pls 退出后由包装函数执行
+ * @returns 是否写入成功
+ */
+export function emitToParentShell(command: string, cwd?: string): boolean {
+  const file = getParentCmdFile()
+  if (!file) {
+    return false
+  }
+
+  try {
+    fs.writeFileSync(file, buildParentShellScript(command, cwd))
+    return true
+  } catch {
+    return false
+  }
+}
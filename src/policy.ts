@@ -0,0 +1,217 @@
+import fs from 'fs'
+import path from 'path'
+import { CONFIG_DIR } from './config.js'
+import { parseShellCommand, type CommandInvocation } from './shell-parser.js'
+
+/**
+ * 执行策略
+ *
+ * 从当前目录逐级向上查找 .pls-policy.json，再加上全局的 ~/.please/policy.json，
+ * 按 deny（禁止）/ confirm（需输入确认词）/ allow（放行）规则检查 AI 生成的命令。
+ * 离当前目录越近的策略文件优先级越高；同一文件中 deny > confirm > allow。
+ *
+ * 策略文件格式：
+ * {
+ *   "deny": ["kubectl delete", { "pattern": "git push --force", "reason": "禁止强推" }],
+ *   "confirm": ["docker system prune"],
+ *   "allow": ["/^git push --force-with-lease/"]
+ * }
+ * 规则是命令名加参数（参数不分顺序，支持 * 通配符），或 /正则/（匹配整条命令）。
+ */
+
+export const POLICY_FILE_NAME = '.pls-policy.json'
+const GLOBAL_POLICY_FILE = path.join(CONFIG_DIR, 'policy.json')
+
+export type PolicyAction = 'allow' | 'deny' | 'confirm'
+
+/**
+ * 策略规则
+ */
+export interface PolicyRule {
+  pattern: string
+  action: PolicyAction
+  reason?: string
+  source: string  // 所在的策略文件
+}
+
+/**
+ * 策略检查结果
+ */
+export interface PolicyDecision {
+  action: PolicyAction
+  rule?: PolicyRule  // 命中的规则（没有命中时为空）
+}
+
+// 连续被执行策略禁止的次数上限，超过后停止任务
+export const MAX_POLICY_DENIALS = 3
+
+// 同一策略文件中的优先级
+const ACTION_ORDER: PolicyAction[] = ['deny', 'confirm', 'allow']
+
+const policyCache = new Map<string, PolicyRule[][]>()
+
+/**
+ * 通配符转正则（* 匹配任意字符，? 匹配单个字符）
+ */
+function globToRegExp(glob: string): RegExp {
+  const source = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * 是否为 /正则/ 规则
+ */
+function isRegexPattern(pattern: string): boolean {
+  return pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/')
+}
+
+/**
+ * 解析一个策略文件
+ */
+function parsePolicyFile(file: string): PolicyRule[] {
+  let data: any
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf-8'))
+  } catch (error: any) {
+    throw new Error(`策略文件 ${file} 格式错误: ${error.message}`)
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`策略文件 ${file} 格式错误: 必须是 JSON 对象`)
+  }
+
+  const rules: PolicyRule[] = []
+  for (const action of ACTION_ORDER) {
+    const entries = data[action] ?? []
+    if (!Array.isArray(entries)) {
+      throw new Error(`策略文件 ${file} 格式错误: ${action} 必须是数组`)
+    }
+    for (const entry of entries) {
+      const pattern = typeof entry === 'string' ? entry : entry?.pattern
+      if (typeof pattern !== 'string' || !pattern.trim()) {
+        throw new Error(`策略文件 ${file} 格式错误: ${action} 中的规则必须是字符串或 { "pattern": "..." }`)
+      }
+      if (isRegexPattern(pattern)) {
+        try {
+          new RegExp(pattern.slice(1, -1))
+        } catch (error: any) {
+          throw new Error(`策略文件 ${file} 中的正则 ${pattern} 无效: ${error.message}`)
+        }
+      }
+      const reason = typeof entry === 'object' && typeof entry.reason === 'string' ? entry.reason : undefined
+      rules.push({ pattern: pattern.trim(), action, reason, source: file })
+    }
+  }
+  return rules
+}
+
+/**
+ * 加载生效的策略文件（离当前目录最近的在前，全局策略在最后）
+ * @throws 策略文件格式错误时抛出错误（不能静默忽略，否则禁止规则会失效）
+ */
+export function loadPolicy(cwd: string = process.cwd()): PolicyRule[][] {
+  const cached = policyCache.get(cwd)
+  if (cached) {
+    return cached
+  }
+
+  const files: string[] = []
+  let dir = path.resolve(cwd)
+  while (true) {
+    const file = path.join(dir, POLICY_FILE_NAME)
+    if (fs.existsSync(file)) files.push(file)
+    const parent = path.dirname(dir)
+    if (parent === dir) break
+    dir = parent
+  }
+  if (fs.existsSync(GLOBAL_POLICY_FILE)) {
+    files.push(GLOBAL_POLICY_FILE)
+  }
+
+  const policy = files.map(parsePolicyFile).filter((rules) => rules.length > 0)
+  policyCache.set(cwd, policy)
+  return policy
+}
+
+/**
+ * 规则是否匹配某个命令调用
+ */
+function matchRule(rule: PolicyRule, invocation: CommandInvocation, command: string): boolean {
+  if (isRegexPattern(rule.pattern)) {
+    return new RegExp(rule.pattern.slice(1, -1)).test(command)
+  }
+
+  const [expected] = parseShellCommand(rule.pattern)
+  if (!expected || !expected.name) {
+    return false
+  }
+  const name = globToRegExp(expected.name)
+  if (!name.test(invocation.name) && !name.test(invocation.name.replace(/^.*\//, ''))) {
+    return false
+  }
+  return expected.args.every((arg) => {
+    const pattern = globToRegExp(arg)
+    return invocation.args.some((actual) => pattern.test(actual))
+  })
+}
+
+/**
+ * 检查命令是否符合执行策略
+ * 命令中任意一个调用被禁止则整条命令被禁止；否则任意一个需要确认则整条命令需要确认
+ */
+export function checkCommandPolicy(command: string, cwd?: string): PolicyDecision {
+  const policy = loadPolicy(cwd)
+  if (policy.length === 0) {
+    return { action: 'allow' }
+  }
+
+  const decisions: PolicyDecision[] = []
+  for (const invocation of parseShellCommand(command)) {
+    for (const rules of policy) {
+      const rule = ACTION_ORDER.map((action) =>
+        rules.find((r) => r.action === action && matchRule(r, invocation, command))
+      ).find(Boolean)
+      if (rule) {
+        decisions.push({ action: rule.action, rule })
+        break
+      }
+    }
+  }
+
+  return (
+    decisions.find((d) => d.action === 'deny') ??
+    decisions.find((d) => d.action === 'confirm') ??
+    { action: 'allow' }
+  )
+}
+
+/**
+ * 格式化策略检查结果（用于提示）
+ */
+export function formatPolicyDecision(decision: PolicyDecision): string {
+  if (!decision.rule) {
+    return ''
+  }
+  const reason = decision.rule.reason ? `：${decision.rule.reason}` : ''
+  return `${decision.rule.pattern}${reason}（${decision.rule.source}）`
+}
+
+/**
+ * 格式化执行策略供 AI 使用
+ */
+export function formatPolicyForAI(cwd?: string): string {
+  const rules = loadPolicy(cwd).flat()
+  if (rules.length === 0) {
+    return ''
+  }
+
+  const describe = (rule: PolicyRule) => (rule.reason ? `${rule.pattern}（${rule.reason}）` : rule.pattern)
+  const lines = ['【执行策略】（被禁止的命令不会执行，请改用其他方式完成任务）']
+  const labels: Record<PolicyAction, string> = { deny: '禁止', confirm: '需用户确认', allow: '允许' }
+  for (const action of ACTION_ORDER) {
+    const matched = rules.filter((rule) => rule.action === action)
+    if (matched.length > 0) {
+      lines.push(`${labels[action]}: ${matched.map(describe).join(', ')}`)
+    }
+  }
+  return lines.join('\n')
+}
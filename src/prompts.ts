@@ -1,6 +1,7 @@
 /**
  * 统一管理所有 AI 系统提示词
  */
+import { redactSecrets } from './redact.js'
 
 /**
  * ============================================================
@@ -15,24 +16,40 @@ export const SHELL_COMMAND_SYSTEM_PROMPT = `你是一个专业的 shell 脚本
 ### 📋 输入数据格式说明
 你会收到以下 XML 标签包裹的上下文信息：
 - <system_info>：用户的操作系统、Shell 类型、当前目录、包管理器、可用工具等环境信息
-- <command_history>：用户最近执行的命令历史（用于理解上下文引用，如"刚才的文件"、"上一个命令"）
+  - 【执行策略】列出了团队禁止或需要确认的命令，绝对不要生成被禁止的命令
+- <command_history>：用户最近执行的命令历史（用于理解上下文引用，如"刚才的文件"、"上一个命令"）；【与当前需求相关的更早记录】部分是按需求检索出的更早操作（用于理解"像上次那样"）
 - <user_preferences>：**用户的命令使用偏好**（格式：命令名(使用次数)），帮助你了解用户习惯
   - 例如：git(234), eza(156) 表示用户经常使用 git 和 eza 命令
   - 生成命令时可参考偏好，但最终应结合任务需求和 <system_info> 综合判断
+  - "方案选择" 记录了用户在多个备选命令中选择和放弃的方案，类似任务应优先采用用户选过的方案
 - <execution_log>：**多步骤任务的关键信息**，记录了之前步骤的命令、退出码和输出结果
   - 如果存在此标签，说明这是一个多步骤任务
   - 必须检查每个 <step> 中的 <exit_code>，0=成功，非0=失败
   - 根据 <output> 的内容决定下一步操作
+  - 本地多步骤任务在同一个 shell 会话中执行，cd / export 等会延续到后续步骤
+  - <cwd> 是该步执行后的工作目录，<env_changes> 是该步引起的环境变量变化，后续命令以此为准
+  - <interrupted> 表示该步被用户中断或执行超时，输出可能不完整；不要原样重试，应换用更快或范围更小的命令
+  - <policy_denied> 表示该命令被执行策略禁止，没有执行；不要再生成同类命令，应换一种方式完成任务
+  - 内容中的 [REDACTED] 是被脱敏的敏感信息（密码、Token 等），不要把它原样写进命令，应改用环境变量或让用户自行填写
+- <stdin_content>：用户通过管道传给 pls 的内容（如日志、diff、文件内容），过长时中间会被省略
+  - 用户说"这个"、"上面的内容"、"这些错误"时通常指它
+  - 生成的命令执行时收不到这段内容；需要处理它时，应直接使用其中的信息，或对原始文件、原始命令操作
+- <task_plan>：用户确认过的任务计划，[已完成] 的步骤已经执行成功，[当前] 是这次要完成的步骤
+  - 只生成 [当前] 这一步的命令；后面还有步骤时 continue 必须为 true，最后一步为 false
+  - 实际执行结果与计划不符时以 <execution_log> 为准
 - <user_request>：用户的原始自然语言需求
+- <refinement_feedback>：用户没有执行你上一次返回的命令，而是提出了修改意见（如"只看当前目录，不要递归"）
+  - 在上一次命令的基础上按意见修改，意见与原始需求冲突时以意见为准
+  - 可能有多轮意见，之前的意见仍然有效
 
 ### ⚠️ 重要规则
 1. 返回 JSON 格式，command 字段必须是可直接执行的命令（无解释、无注释、无 markdown）
 2. 不要添加 shebang（如 #!/bin/bash）
 3. command 可以包含多条命令（用 && 连接），但整体算一个命令
 4. 根据 <system_info> 中的信息选择合适的命令（如包管理器）
-5. 如果用户引用了之前的操作（如"刚才的"、"上一个"），请参考 <command_history>
+5. 如果用户引用了之前的操作（如"刚才的"、"上一个"、"像上次那样"），请参考 <command_history>
 6. 绝对不要输出 pls 或 please 命令！
-7. **建议优先使用标准命令**（ls/find/grep/cat/ps）以确保兼容性和输出捕获，而不是使用 eza/bat/delta 等现代工具，除非用户明确要求使用相关工具，或者用户特别偏好使用相关工具。
+7. **建议优先使用标准命令**（ls/find/grep/cat/ps）以确保兼容性，而不是使用 eza/bat/delta 等现代工具，除非用户明确要求使用相关工具，或者用户特别偏好使用相关工具。
 
 ### 📤 输出格式 - 非常重要
 
@@ -194,7 +211,17 @@ export function buildUserContextPrompt(
   sysInfoStr: string,
   historyStr: string,
   userPreferencesStr: string,
-  executedSteps: Array<{ command: string; exitCode: number; output: string }>
+  executedSteps: Array<{
+    command: string
+    exitCode: number
+    output: string
+    cwd?: string
+    envChanges?: Record<string, string | null>
+    stopReason?: 'interrupted' | 'timeout'
+    policyDenied?: string
+  }>,
+  stdinContent?: string,
+  plan?: { steps: string[]; current: number }
 ): string {
   const parts: string[] = []
 
@@ -206,7 +233,7 @@ export function buildUserContextPrompt(
   // 2. 命令历史（如果有）
   if (historyStr && historyStr.trim()) {
     parts.push(`<command_history>`)
-    parts.push(historyStr)
+    parts.push(redactSecrets(historyStr))
     parts.push(`</command_history>`)
   }
 
@@ -222,7 +249,7 @@ export function buildUserContextPrompt(
     parts.push(`<execution_log>`)
     executedSteps.forEach((step, i) => {
       // 截断过长的输出（前 800 + 后 800，中间省略）
-      let safeOutput = step.output || ''
+      let safeOutput = redactSecrets(step.output || '')
       if (safeOutput.length > 2000) {
         const head = safeOutput.slice(0, 800)
         const tail = safeOutput.slice(-800)
@@ -230,8 +257,24 @@ export function buildUserContextPrompt(
       }
 
       parts.push(`<step index="${i + 1}">`)
-      parts.push(`<command>${step.command}</command>`)
+      parts.push(`<command>${redactSecrets(step.command)}</command>`)
       parts.push(`<exit_code>${step.exitCode}</exit_code>`)
+      if (step.stopReason) {
+        parts.push(`<interrupted>${step.stopReason === 'timeout' ? '执行超时' : '用户中断'}</interrupted>`)
+      }
+      if (step.policyDenied) {
+        parts.push(`<policy_denied>${step.policyDenied}</policy_denied>`)
+      }
+      if (step.cwd) {
+        parts.push(`<cwd>${step.cwd}</cwd>`)
+      }
+      if (step.envChanges && Object.keys(step.envChanges).length > 0) {
+        parts.push(`<env_changes>`)
+        for (const [key, value] of Object.entries(step.envChanges)) {
+          parts.push(value === null ? `unset ${key}` : redactSecrets(`${key}=${value}`))
+        }
+        parts.push(`</env_changes>`)
+      }
       parts.push(`<output>`)
       parts.push(safeOutput)
       parts.push(`</output>`)
@@ -242,7 +285,21 @@ export function buildUserContextPrompt(
     parts.push(`⚠️ 注意：请检查 <execution_log> 中最后一步的 <exit_code>。如果非 0，请分析 <output> 并修复命令。`)
   }
 
-  // 5. 用户需求
+  // 5. 管道输入（如果有）
+  if (stdinContent && stdinContent.trim()) {
+    parts.push(`<stdin_content>`)
+    parts.push(redactSecrets(stdinContent))
+    parts.push(`</stdin_content>`)
+  }
+
+  // 6. 任务计划（如果有）
+  if (plan && plan.steps.length > 0) {
+    parts.push(`<task_plan>`)
+    parts.push(formatTaskPlan(plan))
+    parts.push(`</task_plan>`)
+  }
+
+  // 7. 用户需求
   parts.push(`<user_request>`)
   parts.push(userRequest)
   parts.push(`</user_request>`)
@@ -250,6 +307,75 @@ export function buildUserContextPrompt(
   return parts.join('\n')
 }
 
+/**
+ * 格式化任务计划，标出已完成和当前的步骤
+ */
+export function formatTaskPlan(plan: { steps: string[]; current: number }): string {
+  return plan.steps
+    .map((step, index) => {
+      const mark = index < plan.current ? '[已完成] ' : index === plan.current ? '[当前] ' : ''
+      return `${index + 1}. ${mark}${step}`
+    })
+    .join('\n')
+}
+
+/**
+ * 计划请求：追加在 User Prompt 末尾，要求 AI 先返回步骤计划而不是命令
+ * 传入 currentPlan 时为失败后重新规划
+ */
+export function buildPlanRequest(currentPlan?: { steps: string[]; current: number }): string {
+  const format = `只返回以下 JSON 格式：
+{
+  "steps": [
+    { "description": "查找大于 100MB 的日志文件" },
+    { "description": "把找到的文件压缩成 logs.tar.gz" }
+  ]
+}`
+
+  if (currentPlan) {
+    return `<plan_request>
+当前计划：
+${formatTaskPlan(currentPlan)}
+第 ${currentPlan.current + 1} 步执行失败（见 <execution_log>）。请分析失败原因，重新规划从第 ${currentPlan.current + 1} 步开始的剩余步骤（不包括已完成的步骤）。
+每步一句话说明要做什么，不要写具体命令，最多 10 步。
+${format}
+</plan_request>`
+  }
+
+  return `<plan_request>
+先不要生成命令。请把任务拆成按顺序执行的步骤计划，每步一句话说明要做什么，不要写具体命令，最多 10 步。
+一个命令就能完成的任务只返回 1 步。
+${format}
+</plan_request>`
+}
+
+/**
+ * 用户对上一次生成的命令提出的修改意见（作为对话中的下一条 User Message）
+ */
+export function buildRefinementFeedback(feedback: string): string {
+  return `<refinement_feedback>
+${redactSecrets(feedback)}
+</refinement_feedback>
+请根据修改意见重新生成命令，仍然按原来的 JSON 格式返回。`
+}
+
+/**
+ * 备选命令请求：追加在 User Prompt 末尾，要求 AI 返回多个不同方案
+ */
+export function buildAlternativesRequest(count: number): string {
+  return `<alternatives_request>
+用户希望从多个方案中选择。请返回 ${count} 个实现方式明显不同的候选命令（如不同的工具、格式或取舍），按推荐程度排序。
+每个候选都是独立可执行的第一步，字段与单步 / 多步模式相同，另外用 description 简要说明方案特点（15 字以内）。
+只返回以下 JSON 格式：
+{
+  "alternatives": [
+    { "command": "tar -czf dir.tar.gz dir", "description": "tar.gz，兼容性最好" },
+    { "command": "zip -r dir.zip dir", "description": "zip，Windows 可直接打开" }
+  ]
+}
+</alternatives_request>`
+}
+
 /**
  * ============================================================
  * Chat 对话模式的静态 System Prompt
@@ -263,7 +389,9 @@ export const CHAT_SYSTEM_PROMPT = `你是一个命令行专家助手，帮助用
 - <system_info>：用户的操作系统、Shell 类型、当前目录等环境信息
 - <command_history>：用户最近通过 pls 执行的命令（用于理解上下文引用）
 - <shell_history>：用户最近在终端执行的所有命令（如果启用了 Shell Hook）
+- 以上历史中的【与当前需求相关的更早记录】是按问题检索出的更早的 pls 操作
 - <user_preferences>：用户的命令使用偏好（命令名(使用次数)），帮助你了解用户习惯
+- <stdin_content>：用户通过管道传给 pls 的内容（如日志、diff、报错信息），过长时中间会被省略；用户说"这个"、"为什么崩溃"时通常指它
 - <user_question>：用户的具体问题
 
 ### 🎯 你的能力
@@ -282,7 +410,8 @@ export const CHAT_SYSTEM_PROMPT = `你是一个命令行专家助手，帮助用
 ### 📌 关于 pls/please 工具
 用户正在使用 pls（pretty-please）工具，这是一个将自然语言转换为 shell 命令的 AI 助手。
 <command_history> 中标记为 [pls] 的条目表示用户通过 pls 工具执行的命令。
-你可以解释这些命令，帮助用户理解它们的作用。`
+你可以解释这些命令，帮助用户理解它们的作用。
+历史记录中的 [REDACTED] 是被脱敏的敏感信息（密码、Token 等），不要猜测或还原其内容。`
 
 /**
  * ============================================================
@@ -297,7 +426,8 @@ export function buildChatUserContext(
   plsHistory: string,
   shellHistory: string,
   shellHookEnabled: boolean,
-  userPreferencesStr?: string
+  userPreferencesStr?: string,
+  stdinContent?: string
 ): string {
   const parts: string[] = []
 
@@ -309,11 +439,11 @@ export function buildChatUserContext(
   // 2. 历史记录（根据 Shell Hook 状态选择）
   if (shellHookEnabled && shellHistory && shellHistory.trim()) {
     parts.push('<shell_history>')
-    parts.push(shellHistory)
+    parts.push(redactSecrets(shellHistory))
     parts.push('</shell_history>')
   } else if (plsHistory && plsHistory.trim()) {
     parts.push('<command_history>')
-    parts.push(plsHistory)
+    parts.push(redactSecrets(plsHistory))
     parts.push('</command_history>')
   }
 
@@ -324,10 +454,54 @@ export function buildChatUserContext(
     parts.push('</user_preferences>')
   }
 
-  // 4. 用户问题
+  // 4. 管道输入（如果有）
+  if (stdinContent && stdinContent.trim()) {
+    parts.push('<stdin_content>')
+    parts.push(redactSecrets(stdinContent))
+    parts.push('</stdin_content>')
+  }
+
+  // 5. 用户问题
   parts.push('<user_question>')
   parts.push(userQuestion)
   parts.push('</user_question>')
 
   return parts.join('\n')
 }
+
+/**
+ * ============================================================
+ * 历史问答系统提示词（pls history ask）
+ * ============================================================
+ * 只能根据检索到的历史记录回答，并用编号引用
+ */
+export const HISTORY_ASK_SYSTEM_PROMPT = `你是用户的命令历史助手，根据用户自己的命令历史回答问题，例如"上周我是怎么修好 nginx 502 的"。
+
+### 📋 输入数据格式说明
+- <current_time>：当前时间，用于理解"上周"、"昨天"等说法
+- <history_entries>：本地检索出的相关历史记录，每条以 [编号] 开头，包含来源（本地 #序号、服务器名 #序号 或 Shell）、时间、需求、命令、退出码和输出
+- <user_question>：用户的问题
+
+### 📝 回答要求
+- 只根据 <history_entries> 回答，不要编造历史里没有的命令；记录不足以回答时直接说明
+- 每个结论后面用 [编号] 引用对应的记录，多条记录写成 [1][3]
+- 按时间顺序说明当时的操作，指出最终解决问题的命令（退出码为 0 的通常是成功的）
+- 命令使用代码块格式，简洁清晰
+- 历史记录中的 [REDACTED] 是被脱敏的敏感信息，不要猜测或还原其内容`
+
+/**
+ * 构建历史问答的 User Context（XML 格式）
+ */
+export function buildHistoryAskContext(question: string, historyEntries: string, now: Date = new Date()): string {
+  return [
+    '<current_time>',
+    now.toISOString(),
+    '</current_time>',
+    '<history_entries>',
+    historyEntries,
+    '</history_entries>',
+    '<user_question>',
+    question,
+    '</user_question>',
+  ].join('\n')
+}
@@ -0,0 +1,187 @@
+import type { IPty } from 'node-pty'
+import { killProcessGroup, TIMEOUT_EXIT_CODE, INTERRUPTED_EXIT_CODE } from './utils/platform.js'
+
+/**
+ * 伪终端（PTY）执行
+ * 命令在 PTY 中运行时，颜色、进度条和交互式工具（htop、vim、less 等）都能正常工作，
+ * 同时输出仍然可以被捕获，去掉 ANSI 控制序列后写入历史和执行日志。
+ *
+ * node-pty 是可选依赖，加载失败时调用方应回退到管道模式。
+ */
+
+type PtyModule = typeof import('node-pty')
+
+let ptyModule: PtyModule | null | undefined
+
+// 中断后等待命令自行退出的时间，超过后强制结束
+const INTERRUPT_GRACE_MS = 3000
+
+/**
+ * 加载 node-pty（结果会缓存）
+ */
+export async function loadPty(): Promise<PtyModule | null> {
+  if (ptyModule !== undefined) {
+    return ptyModule
+  }
+
+  try {
+    // CommonJS 模块经 ESM 导入时可能包在 default 里
+    const mod: PtyModule | { default: PtyModule } = await import('node-pty')
+    ptyModule = 'spawn' in mod ? mod : mod.default
+  } catch {
+    ptyModule = null
+  }
+  return ptyModule
+}
+
+// CSI / OSC / 字符集切换 / 其他单字符转义序列
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[()][0-9A-Za-z]|\x1b[@-Z\\-_]/g
+// 全屏程序（htop、vim 等）的备用屏幕内容，对 AI 没有意义
+const ALT_SCREEN_PATTERN = /\x1b\[\?(?:1049|1047|47)h[\s\S]*?(?:\x1b\[\?(?:1049|1047|47)l|$)/g
+// 除换行和制表符外的控制字符
+const CONTROL_PATTERN = /[\x00-\x08\x0b\x0c\x0e-\x1f\x7f]/g
+
+/**
+ * 把终端输出整理成纯文本
+ * 去掉 ANSI 序列和备用屏幕内容，统一换行，进度条类的 \r 覆盖只保留最后一次
+ */
+export function cleanTerminalOutput(raw: string): string {
+  return raw
+    .replace(ALT_SCREEN_PATTERN, '')
+    .replace(ANSI_PATTERN, '')
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map((line) => {
+      const trimmed = line.replace(/\r+$/, '')
+      const index = trimmed.lastIndexOf('\r')
+      return index >= 0 ? trimmed.slice(index + 1) : trimmed
+    })
+    .join('\n')
+    .replace(CONTROL_PATTERN, '')
+}
+
+/**
+ * PTY 退出码（被信号终止时按 shell 惯例返回 128 + 信号值）
+ */
+export function toExitCode(exitCode: number, signal?: number): number {
+  if (exitCode === 0 && signal) {
+    return 128 + signal
+  }
+  return exitCode
+}
+
+/**
+ * 当前终端尺寸
+ */
+export function getTerminalSize(): { cols: number; rows: number } {
+  return {
+    cols: process.stdout.columns || 80,
+    rows: process.stdout.rows || 24,
+  }
+}
+
+/**
+ * 把当前终端接到 PTY 上：转发键盘输入、同步窗口大小
+ * 标准输入不是 TTY 时不转发输入
+ * @returns 断开函数
+ */
+export function attachTerminal(ptyProcess: IPty): () => void {
+  const stdin = process.stdin
+  const isTTY = !!stdin.isTTY
+  const wasRaw = isTTY ? stdin.isRaw : false
+
+  const onInput = (data: Buffer) => {
+    ptyProcess.write(data.toString())
+  }
+  const onResize = () => {
+    const { cols, rows } = getTerminalSize()
+    try {
+      ptyProcess.resize(cols, rows)
+    } catch {
+      // PTY 已退出
+    }
+  }
+
+  if (isTTY) {
+    stdin.setRawMode(true)
+    stdin.on('data', onInput)
+    stdin.resume()
+  }
+  process.stdout.on('resize', onResize)
+
+  return () => {
+    process.stdout.off('resize', onResize)
+    if (isTTY) {
+      stdin.off('data', onInput)
+      stdin.setRawMode(wasRaw)
+      stdin.pause()
+    }
+  }
+}
+
+/**
+ * 在 PTY 中执行一次性命令（不支持持久会话的 shell 使用）
+ * @returns null 表示 node-pty 不可用
+ */
+export async function runInPty(
+  shell: string,
+  args: string[],
+  options: {
+    cwd?: string
+    onData?: (data: string) => void
+    timeout?: number       // 超时时间（毫秒）
+    signal?: AbortSignal   // 中止信号（如用户按 Ctrl+C）
+  } = {}
+): Promise<{ exitCode: number; output: string; timedOut: boolean } | null> {
+  const pty = await loadPty()
+  if (!pty) {
+    return null
+  }
+
+  const { cols, rows } = getTerminalSize()
+  const ptyProcess = pty.spawn(shell, args, {
+    name: process.env.TERM || 'xterm-256color',
+    cols,
+    rows,
+    cwd: options.cwd || process.cwd(),
+    env: process.env as Record<string, string>,
+  })
+
+  return new Promise((resolve) => {
+    let raw = ''
+    const detach = attachTerminal(ptyProcess)
+
+    // 中断：先发 SIGINT，宽限期后仍未结束则强制结束
+    let interrupted = false
+    let timedOut = false
+    let killTimer: NodeJS.Timeout | null = null
+    const interrupt = () => {
+      if (interrupted) return
+      interrupted = true
+      killProcessGroup(ptyProcess.pid, 'SIGINT')
+      killTimer = setTimeout(() => killProcessGroup(ptyProcess.pid, 'SIGKILL'), INTERRUPT_GRACE_MS)
+    }
+    const timeoutTimer = options.timeout
+      ? setTimeout(() => {
+          timedOut = true
+          interrupt()
+        }, options.timeout)
+      : null
+    options.signal?.addEventListener('abort', interrupt)
+    if (options.signal?.aborted) interrupt()
+
+    ptyProcess.onData((data) => {
+      raw += data
+      options.onData?.(data)
+    })
+    ptyProcess.onExit(({ exitCode, signal }) => {
+      detach()
+      if (timeoutTimer) clearTimeout(timeoutTimer)
+      if (killTimer) clearTimeout(killTimer)
+      options.signal?.removeEventListener('abort', interrupt)
+
+      const code = timedOut ? TIMEOUT_EXIT_CODE : interrupted ? INTERRUPTED_EXIT_CODE : toExitCode(exitCode, signal)
+      resolve({ exitCode: code, output: cleanTerminalOutput(raw), timedOut })
+    })
+  })
+}
@@ -8,6 +8,15 @@ import path from 'path'
 import chalk from 'chalk'
 import { CONFIG_DIR, getConfig } from './config.js'
 import { getCurrentTheme } from './ui/theme.js'
+import {
+  formatInterruptSuffix,
+  formatAlternativeChoice,
+  formatRefinements,
+  type HistoryAlternative,
+  type HistoryRefinement,
+} from './history.js'
+import { redactSecrets } from './redact.js'
+import { readHistoryFile, appendHistoryFile, clearHistoryFile, deleteHistoryRecord, type HistoryFile } from './history-store.js'
 import { sshExec, getRemote } from './remote.js'
 
 // 获取主题颜色
@@ -26,6 +35,9 @@ function getColors() {
 // 远程服务器数据目录
 const REMOTES_DIR = path.join(CONFIG_DIR, 'remotes')
 
+// pls remote history show 显示的条数
+const DISPLAY_LIMIT = 20
+
 /**
  * 远程命令历史记录
  */
@@ -39,6 +51,11 @@ export interface RemoteHistoryRecord {
   output: string
   timestamp: string
   reason?: string              // 未执行原因
+  alternatives?: HistoryAlternative[]  // 用户从中选择的备选命令
+  refinements?: HistoryRefinement[]    // 确认前的调整过程（按顺序）
+  taskId?: string              // 所属任务（多步骤任务的各步共用）
+  step?: number                // 在任务中是第几步
+  reasoning?: string           // AI 对这一步的说明
 }
 
 /**
@@ -53,75 +70,76 @@ export interface RemoteShellHistoryItem {
 // ================== 命令历史管理 ==================
 
 /**
- * 获取远程服务器历史文件路径
+ * 获取远程服务器历史文件
  */
-function getRemoteHistoryPath(name: string): string {
-  return path.join(REMOTES_DIR, name, 'history.json')
+function getRemoteHistoryFile(name: string): HistoryFile {
+  return {
+    path: path.join(REMOTES_DIR, name, 'history.jsonl'),
+    legacyPath: path.join(REMOTES_DIR, name, 'history.json'),
+  }
 }
 
 /**
- * 获取远程服务器命令历史
+ * 本地最多保存的历史条数
  */
-export function getRemoteHistory(name: string): RemoteHistoryRecord[] {
-  const historyPath = getRemoteHistoryPath(name)
-
-  if (!fs.existsSync(historyPath)) {
-    return []
-  }
+function getRetention(): number {
+  return getConfig().historyRetention || 1000
+}
 
-  try {
-    const content = fs.readFileSync(historyPath, 'utf-8')
-    return JSON.parse(content) as RemoteHistoryRecord[]
-  } catch {
-    return []
-  }
+/**
+ * 获取远程服务器保存的全部命令历史（从旧到新）
+ */
+export function getRemoteHistory(name: string): RemoteHistoryRecord[] {
+  return readHistoryFile<RemoteHistoryRecord>(getRemoteHistoryFile(name)).slice(-getRetention())
 }
 
 /**
  * 添加远程命令历史记录
  */
 export function addRemoteHistory(name: string, record: Omit<RemoteHistoryRecord, 'timestamp'>): void {
-  const config = getConfig()
-  const historyPath = getRemoteHistoryPath(name)
-
-  // 确保目录存在
-  const dir = path.dirname(historyPath)
-  if (!fs.existsSync(dir)) {
-    fs.mkdirSync(dir, { recursive: true })
-  }
-
-  let history = getRemoteHistory(name)
-
-  // 添加新记录
-  history.push({
+  // 添加新记录（脱敏后保存）
+  appendHistoryFile<RemoteHistoryRecord>(getRemoteHistoryFile(name), [{
     ...record,
+    userPrompt: redactSecrets(record.userPrompt),
+    command: redactSecrets(record.command),
+    aiGeneratedCommand: record.aiGeneratedCommand && redactSecrets(record.aiGeneratedCommand),
+    output: redactSecrets(record.output),
+    reasoning: record.reasoning && redactSecrets(record.reasoning),
+    refinements: record.refinements?.map((refinement) => ({
+      command: redactSecrets(refinement.command),
+      feedback: redactSecrets(refinement.feedback),
+    })),
+    alternatives: record.alternatives?.map((alternative) => ({
+      ...alternative,
+      command: redactSecrets(alternative.command),
+    })),
     timestamp: new Date().toISOString(),
-  })
-
-  // 限制历史数量
-  const limit = config.commandHistoryLimit || 10
-  if (history.length > limit) {
-    history = history.slice(-limit)
-  }
+  }], getRetention())
+}
 
-  fs.writeFileSync(historyPath, JSON.stringify(history, null, 2))
+/**
+ * 删除远程服务器的一条命令历史（按时间、需求和命令匹配）
+ * @returns 是否找到并删除
+ */
+export function deleteRemoteHistory(name: string, record: RemoteHistoryRecord): boolean {
+  return deleteHistoryRecord<RemoteHistoryRecord>(
+    getRemoteHistoryFile(name),
+    (item) => item.timestamp === record.timestamp && item.userPrompt === record.userPrompt && item.command === record.command
+  )
 }
 
 /**
  * 清空远程命令历史
  */
 export function clearRemoteHistory(name: string): void {
-  const historyPath = getRemoteHistoryPath(name)
-  if (fs.existsSync(historyPath)) {
-    fs.unlinkSync(historyPath)
-  }
+  clearHistoryFile(getRemoteHistoryFile(name))
 }
 
 /**
- * 格式化远程命令历史供 AI 使用
+ * 格式化远程命令历史供 AI 使用（只发送最近 commandHistoryLimit 条）
  */
 export function formatRemoteHistoryForAI(name: string): string {
-  const history = getRemoteHistory(name)
+  const history = getRemoteHistory(name).slice(-(getConfig().commandHistoryLimit || 10))
 
   if (history.length === 0) {
     return ''
@@ -131,17 +149,24 @@ export function formatRemoteHistoryForAI(name: string): string {
     let status = ''
     if (record.reason === 'builtin') {
       status = '(包含 builtin，未执行)'
+    } else if (record.reason === 'policy') {
+      status = '(被执行策略禁止)'
     } else if (record.executed) {
-      status = record.exitCode === 0 ? '✓' : `✗ 退出码:${record.exitCode}`
+      status = record.exitCode === 0 ? '✓' : `✗ 退出码:${record.exitCode}${formatInterruptSuffix(record.reason)}`
     } else {
       status = '(用户取消执行)'
     }
 
+    const choice = formatAlternativeChoice(record.alternatives)
+    const refinement = formatRefinements(record.refinements, record.aiGeneratedCommand || record.command)
+    const extraLines =
+      (choice ? `\n   备选方案: ${choice}` : '') + (refinement ? `\n   调整过程: ${refinement}` : '')
+
     // 显示用户修改信息
     if (record.userModified && record.aiGeneratedCommand) {
-      return `${index + 1}. "${record.userPrompt}" → AI 生成: ${record.aiGeneratedCommand} / 用户修改为: ${record.command} ${status}`
+      return `${index + 1}. "${record.userPrompt}" → AI 生成: ${record.aiGeneratedCommand} / 用户修改为: ${record.command} ${status}${extraLines}`
     } else {
-      return `${index + 1}. "${record.userPrompt}" → ${record.command} ${status}`
+      return `${index + 1}. "${record.userPrompt}" → ${record.command} ${status}${extraLines}`
     }
   })
 
@@ -174,7 +199,14 @@ export function displayRemoteHistory(name: string): void {
   console.log(chalk.bold(`📜 服务器 "${name}" 命令历史:`))
   console.log(chalk.gray('━'.repeat(50)))
 
-  history.forEach((item, index) => {
+  // 只显示最近的记录，序号与完整历史一致（pls history rerun --from 使用）
+  const offset = Math.max(0, history.length - DISPLAY_LIMIT)
+  if (offset > 0) {
+    console.log(chalk.gray(`\n（共 ${history.length} 条，只显示最近 ${DISPLAY_LIMIT} 条）`))
+  }
+
+  history.slice(offset).forEach((item, i) => {
+    const index = offset + i
     const status = item.executed
       ? item.exitCode === 0
         ? chalk.hex(colors.success)('✓')
@@ -191,12 +223,18 @@ export function displayRemoteHistory(name: string): void {
       console.log(`   ${chalk.dim('→')} ${item.command} ${status}`)
     }
 
+    if (item.alternatives) {
+      console.log(`   ${chalk.dim('备选:')} ${chalk.gray(formatAlternativeChoice(item.alternatives))}`)
+    }
+    if (item.refinements) {
+      console.log(`   ${chalk.dim('调整:')} ${chalk.gray(formatRefinements(item.refinements, item.aiGeneratedCommand || item.command))}`)
+    }
     console.log(`   ${chalk.gray(item.timestamp)}`)
   })
 
   console.log('')
   console.log(chalk.gray('━'.repeat(50)))
-  console.log(chalk.gray(`历史文件: ${getRemoteHistoryPath(name)}`))
+  console.log(chalk.gray(`历史文件: ${getRemoteHistoryFile(name).path}`))
   console.log('')
 }
 
@@ -231,6 +269,7 @@ export async function fetchRemoteShellHistory(name: string): Promise<RemoteShell
     for (const line of lines) {
       try {
         const item = JSON.parse(line) as RemoteShellHistoryItem
+        item.cmd = redactSecrets(item.cmd)
         items.push(item)
       } catch {
         // 跳过无效行
@@ -11,6 +11,7 @@ import readline from 'readline'
 import chalk from 'chalk'
 import { CONFIG_DIR, getConfig, saveConfig, type RemoteConfig, type RemoteSysInfo } from './config.js'
 import { getCurrentTheme } from './ui/theme.js'
+import { TIMEOUT_EXIT_CODE, INTERRUPTED_EXIT_CODE } from './utils/platform.js'
 
 // 获取主题颜色
 function getColors() {
@@ -317,7 +318,9 @@ export function getRemoteWorkDir(name: string): string | undefined {
  */
 export interface SSHExecOptions {
   timeout?: number      // 超时时间（毫秒）
+  signal?: AbortSignal  // 中止信号（如用户按 Ctrl+C），触发后结束 ssh，退出码为 130
   stdin?: string        // 输入
+  noPrompt?: boolean    // 不交互输入密码（需要密码时直接报错，用于界面渲染期间的后台查询）
   onStdout?: (data: string) => void
   onStderr?: (data: string) => void
 }
@@ -471,6 +474,15 @@ function spawnSSH(
       }, options.timeout)
     }
 
+    // 中止处理：结束 ssh 进程，远程命令随连接断开而结束
+    let aborted = false
+    const onAbort = () => {
+      aborted = true
+      child.kill('SIGTERM')
+    }
+    options.signal?.addEventListener('abort', onAbort)
+    if (options.signal?.aborted) onAbort()
+
     child.stdout.on('data', (data) => {
       const str = data.toString()
       stdout += str
@@ -493,8 +505,9 @@ function spawnSSH(
       if (timeoutId) {
         clearTimeout(timeoutId)
       }
+      options.signal?.removeEventListener('abort', onAbort)
       resolve({
-        exitCode: code || 0,
+        exitCode: aborted ? INTERRUPTED_EXIT_CODE : code || 0,
         stdout,
         stderr,
         output: stdout + stderr,
@@ -505,6 +518,7 @@ function spawnSSH(
       if (timeoutId) {
         clearTimeout(timeoutId)
       }
+      options.signal?.removeEventListener('abort', onAbort)
 
       // 检查是否是 sshpass 未安装
       if (err.message.includes('ENOENT') && cmd === 'sshpass') {
@@ -538,6 +552,10 @@ export async function sshExec(
 
   // 如果需要密码认证且没有活跃的 master 连接
   if (remote.password && !masterActive) {
+    if (options.noPrompt) {
+      throw new Error(`SSH 连接需要输入密码: ${name}`)
+    }
+
     // 读取密码并建立 master 连接
     const password = await readPassword(`${name} 密码: `)
 
@@ -721,7 +739,7 @@ export interface BatchRemoteResult {
 export async function generateBatchRemoteCommands(
   serverNames: string[],
   userPrompt: string,
-  options: { debug?: boolean } = {}
+  options: { debug?: boolean; stdinContent?: string } = {}
 ): Promise<Array<{ server: string; command: string; sysInfo: RemoteSysInfo }>> {
   const { generateMultiStepCommand } = await import('./multi-step.js')
   const { fetchRemoteShellHistory } = await import('./remote-history.js')
@@ -753,7 +771,7 @@ export async function generateBatchRemoteCommands(
       const result = await generateMultiStepCommand(
         userPrompt,
         [],  // 批量执行不支持多步骤，只生成单个命令
-        { debug: options.debug, remoteContext }
+        { debug: options.debug, remoteContext, stdinContent: options.stdinContent }
       )
 
       return {
@@ -771,7 +789,8 @@ export async function generateBatchRemoteCommands(
  * 执行批量远程命令
  */
 export async function executeBatchRemoteCommands(
-  commands: Array<{ server: string; command: string; sysInfo: RemoteSysInfo }>
+  commands: Array<{ server: string; command: string; sysInfo: RemoteSysInfo }>,
+  options: { timeout?: number; signal?: AbortSignal } = {}
 ): Promise<BatchRemoteResult[]> {
   // 并发执行所有命令
   const results = await Promise.all(
@@ -779,15 +798,31 @@ export async function executeBatchRemoteCommands(
       let stdout = ''
       let stderr = ''
 
+      // 超时只结束当前服务器的命令，退出码记为 124
+      const controller = new AbortController()
+      const onAbort = () => controller.abort()
+      options.signal?.addEventListener('abort', onAbort)
+      let timedOut = false
+      const timer = options.timeout
+        ? setTimeout(() => {
+            timedOut = true
+            controller.abort()
+          }, options.timeout)
+        : null
+
       const result = await sshExec(server, command, {
+        signal: controller.signal,
         onStdout: (data) => { stdout += data },
         onStderr: (data) => { stderr += data },
+      }).finally(() => {
+        if (timer) clearTimeout(timer)
+        options.signal?.removeEventListener('abort', onAbort)
       })
 
       return {
         server,
         command,
-        exitCode: result.exitCode,
+        exitCode: timedOut ? TIMEOUT_EXIT_CODE : result.exitCode,
         stdout,
         stderr,
         output: stdout + stderr,
@@ -0,0 +1,451 @@
+/**
+ * 命令风险分析器
+ *
+ * 对 AI 生成的命令进行风险分类，用于在命令框中显示风险标记，
+ * 并决定执行前需要的确认级别（回车确认 / 输入确认词）
+ */
+
+import { parseShellCommand, type CommandInvocation } from './shell-parser.js'
+
+/**
+ * 风险类别
+ * - read_only: 只读（查看、查询）
+ * - modify: 修改文件或系统状态
+ * - destructive: 破坏性操作（递归删除、格式化磁盘、强制推送等）
+ * - privilege: 提权执行（sudo / su / doas）
+ * - remote_code: 下载并执行远程代码（curl ... | sh）
+ */
+export type RiskCategory = 'read_only' | 'modify' | 'destructive' | 'privilege' | 'remote_code'
+
+/**
+ * 风险等级
+ */
+export type RiskLevel = 'low' | 'medium' | 'high'
+
+/**
+ * 风险分析结果
+ */
+export interface RiskAnalysis {
+  level: RiskLevel
+  categories: RiskCategory[]
+  reasons: string[]
+}
+
+/**
+ * 高风险命令需要输入的确认词
+ */
+export const HIGH_RISK_CONFIRM_WORD = 'yes'
+
+const CATEGORY_LABELS: Record<RiskCategory, string> = {
+  read_only: '只读',
+  modify: '修改文件',
+  destructive: '破坏性',
+  privilege: '提权',
+  remote_code: '远程代码',
+}
+
+const LEVEL_LABELS: Record<RiskLevel, string> = {
+  low: '低风险',
+  medium: '中风险',
+  high: '高风险',
+}
+
+// 提权命令
+const PRIVILEGE_COMMANDS = new Set(['sudo', 'doas', 'su', 'pkexec', 'run0'])
+
+// 下载工具
+const DOWNLOADERS = new Set(['curl', 'wget', 'fetch', 'irm', 'iwr', 'invoke-webrequest', 'invoke-restmethod'])
+
+// 代码解释器（下载内容交给它们执行即为远程代码执行）
+const INTERPRETERS = new Set([
+  'sh', 'bash', 'zsh', 'dash', 'ksh', 'fish',
+  'python', 'python2', 'python3', 'perl', 'ruby', 'node', 'php',
+  'iex', 'invoke-expression', 'pwsh', 'powershell',
+  'eval', 'source', '.',
+])
+
+// 无条件视为破坏性的命令
+const DESTRUCTIVE_COMMANDS = new Set([
+  'mkfs', 'fdisk', 'sfdisk', 'cfdisk', 'parted', 'gdisk', 'wipefs', 'shred',
+  'shutdown', 'reboot', 'halt', 'poweroff',
+  'format', 'diskpart',
+])
+
+// 只读命令（不带危险参数时）
+const READ_ONLY_COMMANDS = new Set([
+  'ls', 'll', 'la', 'dir', 'eza', 'exa', 'lsd', 'tree',
+  'cat', 'bat', 'batcat', 'less', 'more', 'most', 'head', 'tail',
+  'grep', 'egrep', 'fgrep', 'rg', 'ag', 'ack',
+  'find', 'fd', 'locate', 'which', 'whereis', 'type', 'file', 'stat',
+  'wc', 'sort', 'uniq', 'cut', 'tr', 'column', 'awk', 'sed', 'jq', 'yq',
+  'echo', 'printf', 'pwd', 'date', 'cal', 'whoami', 'id', 'groups', 'hostname', 'uname',
+  'ps', 'pgrep', 'top', 'htop', 'btop', 'uptime', 'free', 'vmstat', 'iostat',
+  'df', 'du', 'lsblk', 'blkid', 'mount', 'lsof', 'netstat', 'ss', 'ip', 'ifconfig',
+  'ping', 'traceroute', 'dig', 'nslookup', 'host',
+  'env', 'printenv', 'history', 'man', 'help', 'diff', 'cmp', 'md5sum', 'sha256sum', 'shasum',
+  'realpath', 'basename', 'dirname', 'readlink', 'test', '[', 'true', 'false',
+  'git', 'docker', 'kubectl', 'systemctl', 'journalctl', 'brew', 'npm', 'pnpm', 'yarn', 'pip', 'pip3',
+  'curl', 'wget',
+  'get-childitem', 'get-content', 'get-process', 'get-location', 'select-string',
+])
+
+// 对于子命令型工具，这些子命令是只读的
+const READ_ONLY_SUBCOMMANDS: Record<string, Set<string>> = {
+  git: new Set(['status', 'log', 'diff', 'show', 'blame', 'grep', 'ls-files', 'rev-parse', 'describe', 'reflog', 'shortlog']),
+  docker: new Set(['ps', 'images', 'logs', 'inspect', 'version', 'info', 'stats', 'top', 'port']),
+  kubectl: new Set(['get', 'describe', 'logs', 'top', 'version', 'explain', 'api-resources', 'config']),
+  systemctl: new Set(['status', 'list-units', 'list-unit-files', 'is-active', 'is-enabled', 'show', 'cat']),
+  journalctl: new Set(['*']),
+  brew: new Set(['list', 'info', 'search', 'outdated', 'doctor', 'config', 'deps', 'leaves']),
+  npm: new Set(['ls', 'list', 'view', 'info', 'outdated', 'search', 'config', 'root', 'bin', 'whoami', 'audit']),
+  pnpm: new Set(['ls', 'list', 'outdated', 'why', 'root', 'audit']),
+  yarn: new Set(['list', 'info', 'outdated', 'why', 'audit']),
+  pip: new Set(['list', 'show', 'freeze', 'search', 'check']),
+  pip3: new Set(['list', 'show', 'freeze', 'search', 'check']),
+}
+
+// 子命令之前可以出现的带值全局选项（git -C repo push、kubectl -n prod delete）
+const GLOBAL_OPTIONS_WITH_VALUE: Record<string, Set<string>> = {
+  git: new Set(['-C', '-c', '--git-dir', '--work-tree', '--namespace']),
+  kubectl: new Set(['-n', '--namespace', '--context', '--kubeconfig', '--cluster', '--user', '-s', '--server']),
+}
+
+/**
+ * 找出子命令：跳过前面的选项（以及全局选项的值）
+ */
+function findSubcommand(tool: string, args: string[]): string {
+  const withValue = GLOBAL_OPTIONS_WITH_VALUE[tool]
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('-')) {
+      return args[i]
+    }
+    if (withValue?.has(args[i])) {
+      i++
+    }
+  }
+  return ''
+}
+
+// 写文件的重定向
+const WRITE_REDIRECTS = new Set(['>', '>>', '>|', '&>', '&>>', '<>', '>&'])
+
+// 危险路径（rm / chmod / chown 作用于这些路径时视为破坏性）
+const DANGEROUS_PATH_PATTERN = /^(\/|\/\*|~|~\/|~\/\*|\$HOME\/?\*?|\*|\.\/?\*?|\.\.\/?\*?|\/(bin|boot|dev|etc|lib|lib64|opt|proc|sbin|sys|usr|var)(\/.*)?)$/
+
+/**
+ * 去掉命令名中的路径（/usr/bin/rm → rm）
+ */
+function baseName(word: string): string {
+  return word.replace(/^.*\//, '')
+}
+
+/**
+ * 判断参数列表中是否包含某个短选项字母（支持合并写法，如 -rf）
+ */
+function hasShortFlag(args: string[], flag: string): boolean {
+  return args.some((arg) => /^-[A-Za-z]+$/.test(arg) && arg.includes(flag))
+}
+
+/**
+ * 是否为下载工具
+ */
+function isDownloader(invocation: CommandInvocation): boolean {
+  return DOWNLOADERS.has(baseName(invocation.name).toLowerCase())
+}
+
+/**
+ * 分析单个命令调用
+ * @param index 该命令在解析结果中的下标
+ * @param all 完整的解析结果（用于检查管道上游和嵌套命令）
+ */
+function analyzeInvocation(
+  invocation: CommandInvocation,
+  index: number,
+  all: CommandInvocation[],
+  categories: Set<RiskCategory>,
+  reasons: string[]
+): void {
+  const name = baseName(invocation.name)
+  const lower = name.toLowerCase()
+  const args = invocation.args
+
+  const privilege = invocation.wrappers.find((w) => PRIVILEGE_COMMANDS.has(baseName(w).toLowerCase()))
+  if (privilege) {
+    categories.add('privilege')
+    reasons.push(`使用提权执行: ${privilege}`)
+  }
+  if (!name) return
+
+  if (PRIVILEGE_COMMANDS.has(lower)) {
+    categories.add('privilege')
+    reasons.push(`使用提权执行: ${name}`)
+    return
+  }
+
+  if (INTERPRETERS.has(lower)) {
+    // 远程代码：下载内容通过管道交给解释器执行（curl ... | sh）
+    const piped =
+      invocation.pipedFrom &&
+      all.some((other, i) => i < index && other.pipeline === invocation.pipeline && isDownloader(other))
+    // 远程代码：bash <(curl ...) / sh -c "$(curl ...)" / iex (irm ...)
+    const substituted = all.some((other) => other.parent === index && isDownloader(other))
+    if (piped || substituted) {
+      categories.add('remote_code')
+      reasons.push(`下载远程内容并交给 ${name} 执行`)
+      return
+    }
+  }
+
+  if (DESTRUCTIVE_COMMANDS.has(lower) || /^mkfs(\..+)?$/.test(lower)) {
+    categories.add('destructive')
+    reasons.push(`${name} 可能造成不可恢复的影响`)
+    return
+  }
+
+  switch (lower) {
+    case 'rm':
+    case 'remove-item': {
+      const recursive = hasShortFlag(args, 'r') || hasShortFlag(args, 'R') || args.includes('--recursive') || args.includes('-Recurse')
+      const force = hasShortFlag(args, 'f') || args.includes('--force') || args.includes('-Force')
+      const targets = args.filter((arg) => !arg.startsWith('-'))
+      const dangerousTarget = targets.find((t) => DANGEROUS_PATH_PATTERN.test(t))
+
+      if (dangerousTarget) {
+        categories.add('destructive')
+        reasons.push(`删除危险路径: ${dangerousTarget}`)
+      } else if (recursive || force || targets.some((t) => t.includes('*'))) {
+        categories.add('destructive')
+        reasons.push(recursive ? '递归删除文件' : '强制或批量删除文件')
+      } else {
+        categories.add('modify')
+      }
+      return
+    }
+
+    case 'dd': {
+      const target = args.find((arg) => arg.startsWith('of='))
+      if (target && /^of=\/dev\//.test(target)) {
+        categories.add('destructive')
+        reasons.push(`直接写入设备: ${target.slice(3)}`)
+      } else {
+        categories.add('modify')
+      }
+      return
+    }
+
+    case 'find': {
+      if (args.includes('-delete') || args.some((arg, i) => (arg === '-exec' || arg === '-execdir') && /^(rm|shred)$/.test(args[i + 1] || ''))) {
+        categories.add('destructive')
+        reasons.push('find 批量删除匹配的文件')
+      } else if (args.includes('-exec') || args.includes('-execdir')) {
+        categories.add('modify')
+      } else {
+        categories.add('read_only')
+      }
+      return
+    }
+
+    case 'chmod':
+    case 'chown':
+    case 'chgrp': {
+      const recursive = hasShortFlag(args, 'R') || args.includes('--recursive')
+      const dangerousTarget = args.filter((arg) => !arg.startsWith('-')).slice(1).find((t) => DANGEROUS_PATH_PATTERN.test(t))
+      if (recursive && dangerousTarget) {
+        categories.add('destructive')
+        reasons.push(`递归修改系统路径权限: ${dangerousTarget}`)
+      } else {
+        categories.add('modify')
+      }
+      return
+    }
+
+    case 'mv': {
+      if (args.some((arg) => arg === '/dev/null')) {
+        categories.add('destructive')
+        reasons.push('移动到 /dev/null 会丢失文件')
+      } else {
+        categories.add('modify')
+      }
+      return
+    }
+
+    case 'git': {
+      const sub = findSubcommand('git', args)
+      if (
+        (sub === 'push' && (args.includes('--force') || args.includes('-f') || args.some((a) => a.startsWith('+')))) ||
+        (sub === 'reset' && args.includes('--hard')) ||
+        (sub === 'clean' && (hasShortFlag(args, 'f') || args.includes('--force'))) ||
+        (sub === 'checkout' && args.includes('--') && args.includes('.')) ||
+        (sub === 'branch' && args.includes('-D'))
+      ) {
+        categories.add('destructive')
+        reasons.push(`git ${sub} 会丢弃未保存的改动或改写历史`)
+        return
+      }
+      break
+    }
+
+    case 'docker':
+    case 'podman': {
+      const rest = args.join(' ')
+      if (/\b(system|volume|image|container|network) prune\b/.test(rest) || /\brm\b.*(-f|--force)/.test(rest)) {
+        categories.add('destructive')
+        reasons.push(`${name} 批量删除容器/镜像/数据卷`)
+        return
+      }
+      break
+    }
+
+    case 'kubectl': {
+      const sub = findSubcommand('kubectl', args)
+      if (sub === 'delete' || sub === 'drain') {
+        categories.add('destructive')
+        reasons.push(`kubectl ${sub} 会删除或驱逐集群资源`)
+        return
+      }
+      break
+    }
+
+    case 'kill':
+    case 'pkill':
+    case 'killall': {
+      if (args.includes('1') || args.includes('-1')) {
+        categories.add('destructive')
+        reasons.push('终止系统关键进程')
+      } else {
+        categories.add('modify')
+      }
+      return
+    }
+
+    case 'sed':
+    case 'perl': {
+      if (args.some((arg) => arg === '-i' || arg.startsWith('-i') || arg === '--in-place' || (/^-[A-Za-z]+$/.test(arg) && arg.includes('i')))) {
+        categories.add('modify')
+        return
+      }
+      break
+    }
+
+    case 'truncate': {
+      categories.add('destructive')
+      reasons.push('truncate 会清空文件内容')
+      return
+    }
+  }
+
+  // 子命令型工具：判断子命令是否只读
+  const readOnlySubs = READ_ONLY_SUBCOMMANDS[lower]
+  if (readOnlySubs) {
+    const sub = findSubcommand(lower, args)
+    if (readOnlySubs.has('*') || readOnlySubs.has(sub) || (!sub && args.length > 0 && args.every((a) => a.startsWith('-')))) {
+      categories.add('read_only')
+    } else {
+      categories.add('modify')
+    }
+    return
+  }
+
+  // curl / wget 写入文件
+  if (lower === 'curl' && args.some((arg) => arg === '-o' || arg === '-O' || arg.startsWith('--output') || arg === '--remote-name')) {
+    categories.add('modify')
+    return
+  }
+  if (lower === 'wget') {
+    const toStdout = args.some((arg, i) => /^-q?O-$/.test(arg) || (arg === '-O' && args[i + 1] === '-') || arg === '--output-document=-')
+    if (!toStdout) {
+      categories.add('modify')
+      return
+    }
+  }
+
+  if (READ_ONLY_COMMANDS.has(lower)) {
+    categories.add('read_only')
+    return
+  }
+
+  // 未知命令：保守处理，视为可能修改
+  categories.add('modify')
+}
+
+/**
+ * 检查重定向（> / >> 写入文件，写入设备视为破坏性）
+ */
+function analyzeRedirections(invocation: CommandInvocation, categories: Set<RiskCategory>, reasons: string[]): void {
+  for (const { op, target } of invocation.redirections) {
+    if (!WRITE_REDIRECTS.has(op)) continue
+    // 2>&1、>&- 等是复制 / 关闭文件描述符
+    if (op === '>&' && /^(\d+|-)$/.test(target)) continue
+    if (target === '/dev/null' || target === '/dev/stdout' || target === '/dev/stderr') continue
+
+    if (/^\/dev\/(sd|hd|nvme|disk|mmcblk|vd|xvd)/.test(target)) {
+      categories.add('destructive')
+      reasons.push(`重定向写入设备: ${target}`)
+    } else {
+      categories.add('modify')
+    }
+  }
+}
+
+/**
+ * 分析命令风险
+ */
+export function analyzeCommandRisk(command: string): RiskAnalysis {
+  const categories = new Set<RiskCategory>()
+  const reasons: string[] = []
+
+  if (!command || !command.trim()) {
+    return { level: 'low', categories: ['read_only'], reasons: [] }
+  }
+
+  // fork 炸弹
+  if (/:\s*\(\s*\)\s*\{\s*:\s*\|\s*:\s*&\s*\}\s*;\s*:/.test(command)) {
+    return { level: 'high', categories: ['destructive'], reasons: ['fork 炸弹会耗尽系统资源'] }
+  }
+
+  const invocations = parseShellCommand(command)
+  invocations.forEach((invocation, index) => {
+    analyzeInvocation(invocation, index, invocations, categories, reasons)
+    analyzeRedirections(invocation, categories, reasons)
+  })
+
+  // 有修改类操作时，只读不再单独显示
+  if (categories.size > 1) {
+    categories.delete('read_only')
+  }
+  if (categories.size === 0) {
+    categories.add('read_only')
+  }
+
+  const list = (['remote_code', 'destructive', 'privilege', 'modify', 'read_only'] as RiskCategory[]).filter((c) =>
+    categories.has(c)
+  )
+
+  let level: RiskLevel = 'low'
+  if (
+    categories.has('destructive') ||
+    categories.has('remote_code') ||
+    (categories.has('privilege') && categories.has('modify'))
+  ) {
+    level = 'high'
+  } else if (categories.has('modify') || categories.has('privilege')) {
+    level = 'medium'
+  }
+
+  return { level, categories: list, reasons: [...new Set(reasons)] }
+}
+
+/**
+ * 是否需要输入确认词才能执行
+ */
+export function requiresConfirmWord(analysis: RiskAnalysis): boolean {
+  return analysis.level === 'high'
+}
+
+/**
+ * 格式化风险标记，如 "高风险 · 破坏性/提权"
+ */
+export function formatRiskBadge(analysis: RiskAnalysis): string {
+  const labels = analysis.categories.map((c) => CATEGORY_LABELS[c]).join('/')
+  return `${LEVEL_LABELS[analysis.level]} · ${labels}`
+}
@@ -3,7 +3,10 @@ import path from 'path'
 import os from 'os'
 import chalk from 'chalk'
 import { CONFIG_DIR, getConfig, setConfigValue } from './config.js'
-import { getHistory } from './history.js'
+import { getHistory, formatInterruptSuffix, formatRelevantHistoryForAI } from './history.js'
+import { PARENT_CMD_FILE_ENV } from './parent-shell.js'
+import { redactSecrets } from './redact.js'
+import { withFileLock } from './history-store.js'
 import { getCurrentTheme } from './ui/theme.js'
 import {
   detectShell as platformDetectShell,
@@ -69,6 +72,7 @@ export interface HookStatus {
   shellType: ShellType
   configPath: string | null
   historyFile: string
+  keybinding: string
 }
 
 /**
@@ -135,6 +139,107 @@ __pls_record_stat() {
     echo "$cmd_name=1" >> "$stats_file"
   fi
 }
+
+# 提取命令名（跳过 VAR=x 前缀、sudo / env / time 等包装命令及其选项、引号和括号）
+__pls_command_name() {
+  printf '%s\\n' "$1" | awk '{
+    for (i = 1; i <= NF; i++) {
+      w = $i
+      if (skip) { skip = 0; continue }
+      if (w ~ /^[A-Za-z_][A-Za-z0-9_]*=/) continue
+      if (w ~ /^(sudo|doas|env|nohup|nice|time|timeout|stdbuf|xargs|command|builtin|exec)$/) { wrapped = 1; continue }
+      if (wrapped && w ~ /^-(u|g|n|s|k|I|P|L)$/) { skip = 1; continue }
+      if (wrapped && (w ~ /^-/ || w ~ /^[0-9.]+[smhd]?$/)) continue
+      gsub(/^[({!]+|[;&|)}]+$/, "", w)
+      gsub(/["\\047]/, "", w)
+      sub(/^.*\\//, "", w)
+      if (w == "" || w ~ /^(if|then|do|while|until|else)$/) continue
+      print w
+      exit
+    }
+  }'
+}
+`
+}
+
+/**
+ * 生成 pls 包装函数（zsh 和 bash 共用）
+ * pls 把 cd / export / source 等 builtin 写入 PLS_PARENT_CMD_FILE，退出后由包装函数在当前 shell 中 eval
+ */
+function generateWrapperFunction(): string {
+  return `
+# pls 包装函数：执行 pls 交回的命令，使 builtin 作用于当前 shell
+__pls_wrapper() {
+  local __pls_bin="$1"
+  shift
+  local __pls_file
+  __pls_file=$(mktemp "\${TMPDIR:-/tmp}/pls-parent.XXXXXX" 2>/dev/null) || { command "$__pls_bin" "$@"; return $?; }
+  ${PARENT_CMD_FILE_ENV}="$__pls_file" command "$__pls_bin" "$@"
+  local __pls_exit=$?
+  if [[ -s "$__pls_file" ]]; then
+    eval "$(cat "$__pls_file")"
+    __pls_exit=$?
+  fi
+  rm -f "$__pls_file"
+  return $__pls_exit
+}
+pls() { __pls_wrapper pls "$@"; }
+please() { __pls_wrapper please "$@"; }
+`
+}
+
+/**
+ * 生成快捷键小部件（zsh 用 ZLE，bash 用 bind -x）
+ * 按下快捷键时把当前输入行作为需求交给 pls --print，生成的命令替换输入行，回车前仍可编辑
+ */
+function generateKeybindingWidget(shellType: 'zsh' | 'bash'): string {
+  const key = getConfig().hookKeybinding
+  if (!key) {
+    return ''
+  }
+
+  const [modifier, letter] = key.split('+')
+
+  if (shellType === 'zsh') {
+    const sequence = modifier === 'ctrl' ? `^${letter.toUpperCase()}` : `^[${letter}`
+    return `
+# 快捷键 ${key}：把输入行替换为 pls 生成的命令
+__pls_widget() {
+  [[ -z "\${BUFFER//[[:space:]]/}" ]] && return
+  local __pls_cmd
+  zle -R "⏳ pls 正在生成命令..."
+  __pls_cmd=$(command pls --print -- "$BUFFER" </dev/null 2>/dev/null)
+  if [[ $? -eq 0 && -n "$__pls_cmd" ]]; then
+    BUFFER="$__pls_cmd"
+    CURSOR=\${#BUFFER}
+    zle -M ""
+  else
+    zle -M "✗ pls 没有生成命令（运行 pls --print <需求> 查看原因）"
+  fi
+}
+zle -N __pls_widget
+bindkey '${sequence}' __pls_widget
+`
+  }
+
+  const sequence = modifier === 'ctrl' ? `\\C-${letter}` : `\\e${letter}`
+  return `
+# 快捷键 ${key}：把输入行替换为 pls 生成的命令（bind -x 需要 bash 4+）
+__pls_widget() {
+  [[ -z "\${READLINE_LINE//[[:space:]]/}" ]] && return
+  local __pls_cmd
+  printf '⏳ pls 正在生成命令...\\r' >&2
+  __pls_cmd=$(command pls --print -- "$READLINE_LINE" </dev/null 2>/dev/null)
+  if [[ $? -eq 0 && -n "$__pls_cmd" ]]; then
+    READLINE_LINE="$__pls_cmd"
+    READLINE_POINT=\${#READLINE_LINE}
+  else
+    printf '✗ pls 没有生成命令（运行 pls --print <需求> 查看原因）\\n' >&2
+  fi
+}
+if [[ $- == *i* ]] && (( BASH_VERSINFO[0] >= 4 )); then
+  bind -x '"${sequence}": __pls_widget'
+fi
 `
 }
 
@@ -166,8 +271,8 @@ __pls_precmd() {
     tail -n ${limit} "${CONFIG_DIR}/shell_history.jsonl" > "${CONFIG_DIR}/shell_history.jsonl.tmp" && mv "${CONFIG_DIR}/shell_history.jsonl.tmp" "${CONFIG_DIR}/shell_history.jsonl"
 
     # 统计命令频率
-    local cmd_name=$(echo "$__PLS_LAST_CMD" | awk '{print $1}')
-    __pls_record_stat "$cmd_name"
+    local cmd_name=$(__pls_command_name "$__PLS_LAST_CMD")
+    [[ -n "$cmd_name" ]] && __pls_record_stat "$cmd_name"
 
     unset __PLS_LAST_CMD
   fi
@@ -176,6 +281,7 @@ __pls_precmd() {
 autoload -Uz add-zsh-hook
 add-zsh-hook preexec __pls_preexec
 add-zsh-hook precmd __pls_precmd
+${generateWrapperFunction()}${generateKeybindingWidget('zsh')}
 ${HOOK_END_MARKER}
 `
 }
@@ -202,14 +308,15 @@ __pls_prompt_command() {
     tail -n ${limit} "${CONFIG_DIR}/shell_history.jsonl" > "${CONFIG_DIR}/shell_history.jsonl.tmp" && mv "${CONFIG_DIR}/shell_history.jsonl.tmp" "${CONFIG_DIR}/shell_history.jsonl"
 
     # 统计命令频率
-    local cmd_name=$(echo "$last_cmd" | awk '{print $1}')
-    __pls_record_stat "$cmd_name"
+    local cmd_name=$(__pls_command_name "$last_cmd")
+    [[ -n "$cmd_name" ]] && __pls_record_stat "$cmd_name"
   fi
 }
 
 if [[ ! "$PROMPT_COMMAND" =~ __pls_prompt_command ]]; then
   PROMPT_COMMAND="__pls_prompt_command;\${PROMPT_COMMAND}"
 fi
+${generateWrapperFunction()}${generateKeybindingWidget('bash')}
 ${HOOK_END_MARKER}
 `
 }
@@ -421,6 +528,38 @@ export function uninstallShellHook(): boolean {
   return true
 }
 
+/**
+ * 把 hook 写入的原始命令脱敏后写回文件（持有文件锁，写临时文件再改名）
+ * hook 不经过锁，随时会追加或 tail > tmp && mv 改写；文件在读取之后变过就不写，下次读取时再脱敏
+ * @param content 读取到的文件内容
+ */
+function redactShellHistoryFile(content: string): void {
+  const redacted = content
+    .split('\n')
+    .map((line) => {
+      try {
+        const item = JSON.parse(line) as ShellHistoryItem
+        return JSON.stringify({ ...item, cmd: redactSecrets(item.cmd) })
+      } catch {
+        return line  // 空行和写了一半的行原样保留
+      }
+    })
+    .join('\n')
+
+  try {
+    withFileLock(SHELL_HISTORY_FILE, () => {
+      if (fs.readFileSync(SHELL_HISTORY_FILE, 'utf-8') !== content) {
+        return
+      }
+      const tmpFile = `${SHELL_HISTORY_FILE}.${process.pid}.tmp`
+      fs.writeFileSync(tmpFile, redacted)
+      fs.renameSync(tmpFile, SHELL_HISTORY_FILE)
+    })
+  } catch {
+    // 写回失败不影响读取
+  }
+}
+
 /**
  * 读取 shell 历史记录
  */
@@ -443,16 +582,27 @@ export function getShellHistory(): ShellHistoryItem[] {
       .split('\n')
       .filter((line) => line.trim())
 
+    // hook 由 shell 直接写入原始命令，读取时脱敏，有改动则写回文件
+    let redacted = false
     const allHistory = lines
       .map((line) => {
         try {
-          return JSON.parse(line) as ShellHistoryItem
+          const item = JSON.parse(line) as ShellHistoryItem
+          const cmd = redactSecrets(item.cmd)
+          if (cmd !== item.cmd) {
+            redacted = true
+          }
+          return { ...item, cmd }
         } catch {
           return null
         }
       })
       .filter((item): item is ShellHistoryItem => item !== null)
 
+    if (redacted) {
+      redactShellHistoryFile(content)
+    }
+
     // 应用 shellHistoryLimit 限制：只返回最近的 N 条
     const limit = config.shellHistoryLimit || 15
     return allHistory.slice(-limit)
@@ -487,9 +637,9 @@ function findPlsHistoryMatch(prompt: string): ReturnType<typeof getHistory>[numb
 
 /**
  * 格式化 shell 历史供 AI 使用
- * 对于 pls 命令，会从 pls history 中查找对应的详细信息
+ * 对于 pls 命令，会从 pls history 中查找对应的详细信息；传入当前需求时附上相关的更早 pls 记录
  */
-export function formatShellHistoryForAI(): string {
+export function formatShellHistoryForAI(prompt: string = ''): string {
   const history = getShellHistory()
 
   if (history.length === 0) {
@@ -525,8 +675,14 @@ export function formatShellHistoryForAI(): string {
         // 找到对应的 pls 记录，展示详细信息
         if (plsRecord.reason === 'builtin') {
           return `${index + 1}. [pls] "${prompt}" → 生成命令: ${plsRecord.command} (包含 builtin，未执行)`
+        } else if (plsRecord.reason === 'parent_shell') {
+          return `${index + 1}. [pls] "${prompt}" → 生成命令: ${plsRecord.command} (交给当前 shell 执行)`
+        } else if (plsRecord.reason === 'policy') {
+          return `${index + 1}. [pls] "${prompt}" → 生成命令: ${plsRecord.command} (被执行策略禁止)`
         } else if (plsRecord.executed) {
-          const execStatus = plsRecord.exitCode === 0 ? '✓' : `✗ 退出码:${plsRecord.exitCode}`
+          const execStatus = plsRecord.exitCode === 0
+            ? '✓'
+            : `✗ 退出码:${plsRecord.exitCode}${formatInterruptSuffix(plsRecord.reason)}`
 
           // 检查用户是否修改了命令
           if (plsRecord.userModified && plsRecord.aiGeneratedCommand) {
@@ -546,7 +702,16 @@ export function formatShellHistoryForAI(): string {
     return `${index + 1}. ${item.cmd} ${status}`
   })
 
-  return `【用户终端最近执行的命令】\n${lines.join('\n')}`
+  return withRelevantHistory(`【用户终端最近执行的命令】\n${lines.join('\n')}`, prompt, history)
+}
+
+/**
+ * 在 Shell 历史后面附上与当前需求相关的更早 pls 记录
+ * Shell 历史只保留最近 shellHistoryLimit 条，更早的操作（比如三天前的部署）只能从 pls 历史中找
+ */
+function withRelevantHistory(shellHistoryStr: string, prompt: string, history: ShellHistoryItem[]): string {
+  const relevant = formatRelevantHistoryForAI(prompt, history[0]?.time)
+  return relevant ? `${shellHistoryStr}\n\n${relevant}` : shellHistoryStr
 }
 
 /**
@@ -569,6 +734,7 @@ export function getHookStatus(): HookStatus {
     shellType,
     configPath,
     historyFile: SHELL_HISTORY_FILE,
+    keybinding: config.hookKeybinding,
   }
 }
 
@@ -767,14 +933,14 @@ export function getLastNonPlsCommand(): ShellHistoryItem | null {
  * 格式化 shell 历史供 AI 使用（统一接口）
  * 自动选择最佳历史来源
  */
-export function formatShellHistoryForAIWithFallback(): string {
+export function formatShellHistoryForAIWithFallback(prompt: string = ''): string {
   const config = getConfig()
 
   // 如果启用了 shell hook 且有记录，使用 hook 历史（包含详细信息）
   if (config.shellHook) {
     const hookHistory = getShellHistory()
     if (hookHistory.length > 0) {
-      return formatShellHistoryForAI()
+      return formatShellHistoryForAI(prompt)
     }
   }
 
@@ -792,7 +958,7 @@ export function formatShellHistoryForAIWithFallback(): string {
     return `${index + 1}. ${item.cmd} ${status}`
   })
 
-  return `【用户终端最近执行的命令（来自系统历史）】\n${lines.join('\n')}`
+  return withRelevantHistory(`【用户终端最近执行的命令（来自系统历史）】\n${lines.join('\n')}`, prompt, history)
 }
 
 // ================== 远程 Shell Hook ==================
@@ -0,0 +1,782 @@
+/**
+ * Shell 命令解析器
+ *
+ * POSIX shell 的词法 / 语法分析（静态分析用的简化版），找出命令中的每一次命令调用，
+ * 以及它的参数和重定向。能正确处理：
+ * - 单引号、双引号、$'...'、反斜杠转义
+ * - $(...)、`...`、<(...)、>(...) 中的命令，( ... ) 子 shell，{ ...; } 命令组
+ * - here-doc（<<EOF / <<-EOF）、here-string（<<<）
+ * - VAR=x 前缀赋值，sudo / env / time / xargs / timeout 等包装命令
+ * - sh -c / bash -c 中的脚本
+ * - if / for / while / case 等控制结构，函数定义
+ *
+ * 不做变量展开和通配符展开。builtin 检测、风险分析等模块共用这里的结果。
+ */
+
+/**
+ * 重定向
+ */
+export interface Redirection {
+  fd?: number        // 显式指定的文件描述符（如 2>file 中的 2）
+  op: string         // >, >>, >|, <, <>, <<, <<-, <<<, >&, <&, &>, &>>
+  target: string     // 目标文件、文件描述符或 here-doc 结束符
+  heredoc?: string   // here-doc 内容
+}
+
+/**
+ * 命令所在的执行环境
+ * - main: 当前 shell
+ * - subshell: ( ... ) 子 shell 或 sh -c 脚本
+ * - substitution: 命令替换 $(...) / `...` 或进程替换 <(...)
+ */
+export type CommandContext = 'main' | 'subshell' | 'substitution'
+
+/**
+ * 一次命令调用
+ */
+export interface CommandInvocation {
+  name: string                // 真正执行的命令名（已去掉前缀赋值和包装命令），只有赋值或重定向时为空
+  args: string[]              // 命令参数（已去掉引号）
+  words: string[]             // 完整的词列表（含前缀赋值和包装命令）
+  rawWords: string[]          // 与 words 一一对应的原始文本（保留引号、通配符、变量）
+  assignments: string[]       // 前缀赋值（VAR=x）
+  wrappers: string[]          // 包装命令（sudo、env、time、xargs 等），按出现顺序
+  redirections: Redirection[]
+  context: CommandContext
+  pipeline: number            // 所在管道编号，同一条管道中的命令编号相同
+  pipedFrom: boolean          // 标准输入是否来自管道中的上一条命令
+  parent?: number             // 嵌套命令（命令替换、sh -c 脚本）所属命令在结果中的下标
+}
+
+// 包装命令：后面跟的才是真正执行的命令
+const WRAPPER_COMMANDS = new Set([
+  'sudo', 'doas', 'pkexec', 'run0',
+  'env', 'nohup', 'nice', 'time', 'timeout', 'stdbuf', 'xargs',
+  'command', 'builtin', 'exec',
+])
+
+// 包装命令中需要带参数值的选项
+const WRAPPER_VALUE_OPTIONS: Record<string, Set<string>> = {
+  sudo: new Set(['-u', '-g', '-h', '-p', '-C', '-D', '-r', '-t', '-U', '--user', '--group']),
+  doas: new Set(['-u', '-C']),
+  pkexec: new Set(['--user']),
+  run0: new Set(['-u', '-g', '-D', '--user', '--group', '--chdir']),
+  env: new Set(['-u', '-C', '--unset', '--chdir']),
+  nice: new Set(['-n', '--adjustment']),
+  time: new Set(['-f', '-o', '--format', '--output']),
+  timeout: new Set(['-s', '-k', '--signal', '--kill-after']),
+  stdbuf: new Set(['-i', '-o', '-e']),
+  xargs: new Set(['-I', '-n', '-P', '-L', '-s', '-d', '-E', '-a']),
+  exec: new Set(['-a']),
+}
+
+// 接受 -c 脚本参数的 shell
+const SCRIPT_SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'su'])
+
+// 命令位置上的保留字（本身不是命令，后面跟的才是）
+const RESERVED_WORDS = new Set(['if', 'then', 'else', 'elif', 'fi', 'do', 'done', 'while', 'until', '{', '}', '!'])
+
+// 控制操作符（长的在前）
+const CONTROL_OPERATORS = [';;&', '&&', '||', '|&', ';;', ';&', ';', '|', '&', '(', ')']
+
+// 重定向操作符（长的在前）
+const REDIRECT_OPERATORS = ['&>>', '<<<', '<<-', '&>', '>>', '>|', '>&', '<<', '<>', '<&', '>', '<']
+
+// 结束一个词的字符
+const WORD_BREAKS = new Set([' ', '\t', '\n', ';', '&', '|', '<', '>', '(', ')'])
+
+const ASSIGNMENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\[[^\]]*\])?\+?=/
+const FD_PATTERN = /\d+(?=[<>])/y
+
+interface WordToken {
+  type: 'word'
+  value: string            // 去掉引号和转义后的值（命令替换保留原文）
+  raw: string              // 原始文本
+  substitutions: string[]  // 词中包含的命令替换 / 进程替换脚本
+}
+
+interface OperatorToken {
+  type: 'op'
+  value: string
+}
+
+interface RedirectToken {
+  type: 'redirect'
+  op: string
+  fd?: number
+  heredoc?: string
+}
+
+interface ArithmeticToken {
+  type: 'arith'
+}
+
+type Token = WordToken | OperatorToken | RedirectToken | ArithmeticToken
+
+// ============================================================================
+// 词法分析
+// ============================================================================
+
+/**
+ * 跳过双引号字符串，返回结束引号之后的位置
+ */
+function skipDoubleQuoted(source: string, start: number): number {
+  let i = start
+  while (i < source.length) {
+    const ch = source[i]
+    if (ch === '\\') {
+      i += 2
+    } else if (ch === '"') {
+      return i + 1
+    } else if (ch === '$' && source[i + 1] === '(') {
+      i = findClosingParen(source, i + 2) + 1
+    } else if (ch === '`') {
+      i = findClosingBacktick(source, i + 1) + 1
+    } else {
+      i++
+    }
+  }
+  return source.length
+}
+
+/**
+ * 查找与 start 之前的左括号匹配的右括号位置（考虑引号和嵌套）
+ * 没有匹配时返回字符串长度
+ */
+function findClosingParen(source: string, start: number): number {
+  let depth = 1
+  let i = start
+  while (i < source.length) {
+    const ch = source[i]
+    if (ch === '\\') {
+      i += 2
+      continue
+    }
+    if (ch === "'") {
+      const end = source.indexOf("'", i + 1)
+      i = end === -1 ? source.length : end + 1
+      continue
+    }
+    if (ch === '"') {
+      i = skipDoubleQuoted(source, i + 1)
+      continue
+    }
+    if (ch === '`') {
+      i = findClosingBacktick(source, i + 1) + 1
+      continue
+    }
+    if (ch === '(') {
+      depth++
+    } else if (ch === ')') {
+      depth--
+      if (depth === 0) return i
+    }
+    i++
+  }
+  return source.length
+}
+
+/**
+ * 查找结束的反引号位置，没有时返回字符串长度
+ */
+function findClosingBacktick(source: string, start: number): number {
+  let i = start
+  while (i < source.length) {
+    if (source[i] === '\\') {
+      i += 2
+    } else if (source[i] === '`') {
+      return i
+    } else {
+      i++
+    }
+  }
+  return source.length
+}
+
+/**
+ * 查找 ${...} 的结束位置
+ */
+function findClosingBrace(source: string, start: number): number {
+  let depth = 1
+  let i = start
+  while (i < source.length) {
+    const ch = source[i]
+    if (ch === '\\') {
+      i += 2
+      continue
+    }
+    if (ch === '{') depth++
+    if (ch === '}' && --depth === 0) return i
+    i++
+  }
+  return source.length
+}
+
+/**
+ * 读取 $ 或 ` 开头的展开，返回原文和结束位置
+ * $(...) 和 `...` 中的脚本会加入 substitutions；不是展开时返回 null
+ */
+function readExpansion(
+  source: string,
+  start: number,
+  substitutions: string[]
+): { text: string; end: number } | null {
+  if (source[start] === '`') {
+    const end = findClosingBacktick(source, start + 1)
+    substitutions.push(source.slice(start + 1, end).replace(/\\([`\\$])/g, '$1'))
+    return { text: source.slice(start, end + 1), end: end + 1 }
+  }
+
+  const next = source[start + 1]
+  if (next === '(') {
+    const end = findClosingParen(source, start + 2)
+    // $(( ... )) 是算术展开，不是命令
+    if (source[start + 2] !== '(') {
+      substitutions.push(source.slice(start + 2, end))
+    }
+    return { text: source.slice(start, end + 1), end: end + 1 }
+  }
+  if (next === '{') {
+    const end = findClosingBrace(source, start + 2)
+    return { text: source.slice(start, end + 1), end: end + 1 }
+  }
+  return null
+}
+
+/**
+ * 读取一个词
+ */
+function readWord(source: string, start: number): { token: WordToken; end: number } {
+  let value = ''
+  const substitutions: string[] = []
+  let i = start
+
+  while (i < source.length) {
+    const ch = source[i]
+
+    // 数组赋值 arr=(a b c)
+    if (ch === '(' && /^[A-Za-z_][A-Za-z0-9_]*\+?=$/.test(source.slice(start, i))) {
+      const end = findClosingParen(source, i + 1)
+      value += source.slice(i, end + 1)
+      i = end + 1
+      continue
+    }
+
+    if (WORD_BREAKS.has(ch)) break
+
+    if (ch === '\\') {
+      // 行尾反斜杠是续行
+      if (source[i + 1] !== '\n') {
+        value += source[i + 1] ?? ''
+      }
+      i += 2
+      continue
+    }
+
+    if (ch === "'") {
+      const end = source.indexOf("'", i + 1)
+      const close = end === -1 ? source.length : end
+      value += source.slice(i + 1, close)
+      i = close + 1
+      continue
+    }
+
+    // $'...'：ANSI-C 转义字符串
+    if (ch === '$' && source[i + 1] === "'") {
+      i += 2
+      while (i < source.length && source[i] !== "'") {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          const escaped = source[i + 1]
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped
+          i += 2
+        } else {
+          value += source[i++]
+        }
+      }
+      i++
+      continue
+    }
+
+    if (ch === '"') {
+      i++
+      while (i < source.length && source[i] !== '"') {
+        const inner = source[i]
+        if (inner === '\\') {
+          const escaped = source[i + 1]
+          if (escaped === '\n') {
+            // 续行
+          } else if (escaped === '$' || escaped === '`' || escaped === '"' || escaped === '\\') {
+            value += escaped
+          } else {
+            value += '\\' + (escaped ?? '')
+          }
+          i += 2
+          continue
+        }
+        if (inner === '$' || inner === '`') {
+          const expansion = readExpansion(source, i, substitutions)
+          if (expansion) {
+            value += expansion.text
+            i = expansion.end
+            continue
+          }
+        }
+        value += inner
+        i++
+      }
+      i++
+      continue
+    }
+
+    if (ch === '$' || ch === '`') {
+      const expansion = readExpansion(source, i, substitutions)
+      if (expansion) {
+        value += expansion.text
+        i = expansion.end
+        continue
+      }
+    }
+
+    value += ch
+    i++
+  }
+
+  const end = Math.min(i, source.length)
+  return { token: { type: 'word', value, raw: source.slice(start, end), substitutions }, end }
+}
+
+/**
+ * 读取换行之后的 here-doc 内容，返回内容之后的位置
+ */
+function readHeredocBodies(
+  source: string,
+  start: number,
+  pending: Array<{ token: RedirectToken; delimiter: string; stripTabs: boolean }>
+): number {
+  let i = start
+  for (const { token, delimiter, stripTabs } of pending) {
+    let body = ''
+    while (i < source.length) {
+      const lineEnd = source.indexOf('\n', i)
+      const line = source.slice(i, lineEnd === -1 ? source.length : lineEnd)
+      const content = stripTabs ? line.replace(/^\t+/, '') : line
+      i = lineEnd === -1 ? source.length : lineEnd + 1
+      if (content === delimiter) break
+      body += content + '\n'
+    }
+    token.heredoc = body
+  }
+  pending.length = 0
+  return i
+}
+
+/**
+ * 词法分析
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  const pendingHeredocs: Array<{ token: RedirectToken; delimiter: string; stripTabs: boolean }> = []
+  let heredocRedirect: RedirectToken | null = null
+  let i = 0
+
+  while (i < source.length) {
+    const ch = source[i]
+
+    if (ch === ' ' || ch === '\t' || ch === '\r') {
+      i++
+      continue
+    }
+    if (ch === '\\' && source[i + 1] === '\n') {
+      i += 2
+      continue
+    }
+    if (ch === '\n') {
+      tokens.push({ type: 'op', value: '\n' })
+      // here-doc 内容从下一行开始
+      i = readHeredocBodies(source, i + 1, pendingHeredocs)
+      continue
+    }
+    if (ch === '#') {
+      while (i < source.length && source[i] !== '\n') i++
+      continue
+    }
+
+    // 进程替换 <(...) / >(...)
+    if ((ch === '<' || ch === '>') && source[i + 1] === '(') {
+      const end = findClosingParen(source, i + 2)
+      tokens.push({
+        type: 'word',
+        value: source.slice(i, end + 1),
+        raw: source.slice(i, end + 1),
+        substitutions: [source.slice(i + 2, end)],
+      })
+      i = end + 1
+      continue
+    }
+
+    // 算术命令 (( ... ))
+    if (ch === '(' && source[i + 1] === '(') {
+      i = findClosingParen(source, i + 1) + 1
+      if (source[i] === ')') i++
+      tokens.push({ type: 'arith' })
+      continue
+    }
+
+    // 重定向（可带文件描述符前缀，如 2>&1）
+    FD_PATTERN.lastIndex = i
+    const fdMatch = FD_PATTERN.exec(source)
+    const opStart = fdMatch ? i + fdMatch[0].length : i
+    const redirectOp = REDIRECT_OPERATORS.find((op) => source.startsWith(op, opStart))
+    if (redirectOp) {
+      const token: RedirectToken = { type: 'redirect', op: redirectOp }
+      if (fdMatch) token.fd = parseInt(fdMatch[0], 10)
+      tokens.push(token)
+      if (redirectOp === '<<' || redirectOp === '<<-') {
+        heredocRedirect = token
+      }
+      i = opStart + redirectOp.length
+      continue
+    }
+
+    const controlOp = CONTROL_OPERATORS.find((op) => source.startsWith(op, i))
+    if (controlOp) {
+      tokens.push({ type: 'op', value: controlOp })
+      i += controlOp.length
+      continue
+    }
+
+    const { token, end } = readWord(source, i)
+    tokens.push(token)
+    if (heredocRedirect) {
+      pendingHeredocs.push({ token: heredocRedirect, delimiter: token.value, stripTabs: heredocRedirect.op === '<<-' })
+      heredocRedirect = null
+    }
+    i = end
+  }
+
+  return tokens
+}
+
+// ============================================================================
+// 语法分析
+// ============================================================================
+
+interface ParseState {
+  pipeline: number
+}
+
+/**
+ * 查找与 start 处左括号匹配的右括号 token
+ */
+function findMatchingToken(tokens: Token[], start: number): number {
+  let depth = 0
+  for (let t = start; t < tokens.length; t++) {
+    const token = tokens[t]
+    if (token.type !== 'op') continue
+    if (token.value === '(') depth++
+    if (token.value === ')' && --depth === 0) return t
+  }
+  return tokens.length
+}
+
+/**
+ * 去掉包装命令的名字中的路径（/usr/bin/env → env）
+ */
+function baseName(word: string): string {
+  return word.replace(/^.*\//, '').toLowerCase()
+}
+
+/**
+ * 由词列表构建命令调用：拆出前缀赋值和包装命令
+ */
+function buildInvocation(
+  words: WordToken[],
+  redirections: Redirection[],
+  context: CommandContext,
+  pipeline: number,
+  pipedFrom: boolean
+): CommandInvocation {
+  const values = words.map((word) => word.value)
+  const assignments: string[] = []
+  const wrappers: string[] = []
+
+  let i = 0
+  while (i < words.length && ASSIGNMENT_PATTERN.test(words[i].raw)) {
+    assignments.push(values[i++])
+  }
+
+  while (i < values.length) {
+    const wrapper = baseName(values[i])
+    if (!WRAPPER_COMMANDS.has(wrapper)) break
+    // command -v / -V 是查询，不执行后面的命令
+    if (wrapper === 'command' && /^-p?[vV]/.test(values[i + 1] || '')) break
+
+    wrappers.push(values[i++])
+    const valueOptions = WRAPPER_VALUE_OPTIONS[wrapper]
+    while (i < values.length) {
+      const word = values[i]
+      if (word === '--') {
+        i++
+        break
+      }
+      if (wrapper === 'env' && (ASSIGNMENT_PATTERN.test(word) || word === '-')) {
+        if (word !== '-') assignments.push(word)
+        i++
+        continue
+      }
+      if (!word.startsWith('-') || word === '-') break
+      i++
+      if (valueOptions?.has(word)) i++
+    }
+    // timeout 的时长参数
+    if (wrapper === 'timeout' && i < values.length) i++
+  }
+
+  return {
+    name: values[i] ?? '',
+    args: values.slice(i + 1),
+    words: values,
+    rawWords: words.map((word) => word.raw),
+    assignments,
+    wrappers,
+    redirections,
+    context,
+    pipeline,
+    pipedFrom,
+  }
+}
+
+/**
+ * sh -c / bash -c / su -c 中的脚本
+ */
+function getInlineScript(invocation: CommandInvocation): string | null {
+  if (!SCRIPT_SHELLS.has(baseName(invocation.name))) return null
+  const index = invocation.args.findIndex((arg) => /^-[A-Za-z]*c[A-Za-z]*$/.test(arg) || arg === '--command')
+  if (index === -1 || index + 1 >= invocation.args.length) return null
+  return invocation.args[index + 1]
+}
+
+/**
+ * 把嵌套命令追加到结果中，修正 parent 下标
+ */
+function appendNested(result: CommandInvocation[], nested: CommandInvocation[], parent?: number): void {
+  const base = result.length
+  for (const invocation of nested) {
+    const adjusted = invocation.parent !== undefined ? invocation.parent + base : parent
+    const copy = { ...invocation }
+    delete copy.parent
+    result.push(adjusted !== undefined ? { ...copy, parent: adjusted } : copy)
+  }
+}
+
+/**
+ * 解析 token 序列
+ * @param initial 子 shell 继承外层的管道状态（如 curl ... | (bash)）
+ */
+function parseTokens(
+  tokens: Token[],
+  context: CommandContext,
+  state: ParseState,
+  initial?: { pipeline: number; pipedFrom: boolean }
+): CommandInvocation[] {
+  const result: CommandInvocation[] = []
+  const nestedContext: CommandContext = context === 'substitution' ? 'substitution' : 'subshell'
+
+  let words: WordToken[] = []
+  let targetWords: WordToken[] = []
+  let redirections: Redirection[] = []
+  let pending: CommandInvocation[][] = []
+  let awaitingTarget: Redirection | null = null
+
+  let pipeline = initial ? initial.pipeline : ++state.pipeline
+  let pipedFrom = initial ? initial.pipedFrom : false
+
+  let skipHeader = false        // for / select 头部
+  let skipFunctionName = false  // function name
+  let awaitingCaseIn = false    // case WORD in
+  let casePattern = false       // case 分支的模式部分
+  let caseDepth = 0
+  let inTest = false            // [[ ... ]]
+
+  const flush = () => {
+    if (words.length > 0 || redirections.length > 0) {
+      const invocation = buildInvocation(words, redirections, context, pipeline, pipedFrom)
+      const index = result.length
+      result.push(invocation)
+
+      for (const word of [...words, ...targetWords]) {
+        for (const script of word.substitutions) {
+          appendNested(result, parseScript(script, 'substitution', state), index)
+        }
+      }
+      for (const nested of pending) {
+        appendNested(result, nested, index)
+      }
+      const script = getInlineScript(invocation)
+      if (script !== null) {
+        appendNested(result, parseScript(script, nestedContext, state), index)
+      }
+    }
+
+    words = []
+    targetWords = []
+    redirections = []
+    pending = []
+    awaitingTarget = null
+  }
+
+  const startPipeline = () => {
+    pipeline = ++state.pipeline
+    pipedFrom = false
+  }
+
+  for (let t = 0; t < tokens.length; t++) {
+    const token = tokens[t]
+
+    if (token.type === 'arith') continue
+
+    // [[ ... ]] 中的 &&、||、<、> 都是条件表达式的一部分
+    if (inTest) {
+      if (token.type === 'word') {
+        words.push(token)
+        if (token.raw === ']]') inTest = false
+      } else if (token.type === 'op') {
+        words.push({ type: 'word', value: token.value, raw: token.value, substitutions: [] })
+      } else if (token.type === 'redirect') {
+        words.push({ type: 'word', value: token.op, raw: token.op, substitutions: [] })
+      }
+      continue
+    }
+
+    if (token.type === 'redirect') {
+      awaitingTarget = { op: token.op, target: '' }
+      if (token.fd !== undefined) awaitingTarget.fd = token.fd
+      if (token.heredoc !== undefined) awaitingTarget.heredoc = token.heredoc
+      redirections.push(awaitingTarget)
+      continue
+    }
+
+    if (token.type === 'word') {
+      if (awaitingTarget) {
+        awaitingTarget.target = token.value
+        targetWords.push(token)
+        awaitingTarget = null
+        continue
+      }
+      if (awaitingCaseIn) {
+        if (token.raw === 'in') {
+          awaitingCaseIn = false
+          casePattern = true
+        }
+        continue
+      }
+      if (casePattern) {
+        if (token.raw === 'esac') {
+          caseDepth--
+          casePattern = false
+        }
+        continue
+      }
+      if (skipHeader) continue
+      if (skipFunctionName) {
+        skipFunctionName = false
+        continue
+      }
+
+      // 命令位置上的保留字
+      if (words.length === 0 && redirections.length === 0) {
+        const word = token.raw
+        if (RESERVED_WORDS.has(word)) continue
+        if (word === 'esac') {
+          caseDepth = Math.max(0, caseDepth - 1)
+          continue
+        }
+        if (word === 'case') {
+          caseDepth++
+          awaitingCaseIn = true
+          continue
+        }
+        if (word === 'for' || word === 'select') {
+          skipHeader = true
+          continue
+        }
+        if (word === 'function') {
+          skipFunctionName = true
+          continue
+        }
+        if (word === '[[') {
+          inTest = true
+        }
+      }
+
+      words.push(token)
+      continue
+    }
+
+    // case 分支的模式部分：(a|b) 中的括号和 | 都不是命令结构
+    if (casePattern && (token.value === '(' || token.value === '|')) continue
+
+    // 控制操作符
+    switch (token.value) {
+      case '(': {
+        const end = findMatchingToken(tokens, t)
+        const inner = tokens.slice(t + 1, end)
+        t = end
+        if (words.length === 0) {
+          // 子 shell
+          appendNested(result, parseTokens(inner, nestedContext, state, { pipeline, pipedFrom }))
+        } else if (words.length === 1 && inner.length === 0) {
+          // 函数定义 name() { ... }
+          words = []
+        } else {
+          // 命令中间的括号（如 PowerShell 的 iex (irm ...)），视为所属命令的嵌套命令
+          pending.push(parseTokens(inner, 'substitution', state))
+        }
+        continue
+      }
+      case ')':
+        // case 分支的模式结束，或多余的右括号
+        casePattern = false
+        continue
+      case '|':
+      case '|&':
+        flush()
+        pipedFrom = true
+        continue
+      case ';;':
+      case ';&':
+      case ';;&':
+        flush()
+        startPipeline()
+        if (caseDepth > 0) casePattern = true
+        continue
+      default:
+        // ; & && || 换行
+        flush()
+        startPipeline()
+        skipHeader = false
+        continue
+    }
+  }
+
+  flush()
+  return result
+}
+
+/**
+ * 解析一段脚本
+ */
+function parseScript(source: string, context: CommandContext, state: ParseState): CommandInvocation[] {
+  return parseTokens(tokenize(source), context, state)
+}
+
+/**
+ * 解析命令，返回其中的所有命令调用
+ * 外层命令在前，其命令替换、sh -c 脚本等嵌套命令紧随其后（通过 parent 关联）
+ */
+export function parseShellCommand(command: string): CommandInvocation[] {
+  if (!command || !command.trim()) {
+    return []
+  }
+  return parseScript(command, 'main', { pipeline: 0 })
+}
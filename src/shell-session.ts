@@ -0,0 +1,517 @@
+import { spawn, execFileSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  detectShell,
+  getShellCapabilities,
+  isWindows,
+  killProcessGroup,
+  TIMEOUT_EXIT_CODE,
+  INTERRUPTED_EXIT_CODE,
+  type ShellType,
+} from './utils/platform.js'
+import { loadPty, attachTerminal, cleanTerminalOutput, getTerminalSize, toExitCode } from './pty.js'
+
+/**
+ * 持久 Shell 会话
+ * 多步骤任务共用一个长驻 shell 进程，cd / export 等 builtin 的效果可以延续到后续步骤
+ *
+ * 会话 shell 循环读取一个 FIFO，每读到一个脚本路径就用 `.` 执行。
+ * 每条命令写入临时脚本，执行完毕后输出哨兵标记，用来判断命令结束并取回退出码。
+ * cwd 和环境变量在每步结束后写入临时文件，与上一步对比得到变化。
+ *
+ * 默认在 PTY 中运行（node-pty 可用时），命令可以使用终端，输出去掉 ANSI 序列后捕获；
+ * 否则回退到管道模式，命令的 stdin 指向 /dev/null。
+ */
+
+/**
+ * 环境变量变化（null 表示被 unset）
+ */
+export type EnvChanges = Record<string, string | null>
+
+/**
+ * 单条命令的执行结果
+ */
+export interface SessionCommandResult {
+  exitCode: number
+  output: string  // 捕获的输出（PTY 模式已去掉 ANSI 序列）
+  stdout: string
+  stderr: string  // PTY 模式下 stderr 合并在 stdout 中
+  cwd: string
+  envChanges: EnvChanges
+  timedOut: boolean  // 超时被中断（退出码为 124）
+}
+
+/**
+ * 输出回调
+ */
+export interface SessionRunHandlers {
+  onStdout?: (data: string) => void  // 原始输出（PTY 模式包含 ANSI 序列，用于显示）
+  onStderr?: (data: string) => void
+}
+
+/**
+ * 执行选项
+ */
+export interface SessionRunOptions {
+  timeout?: number       // 超时时间（毫秒），超时后中断命令
+  signal?: AbortSignal   // 中止信号（如用户按 Ctrl+C），触发后中断命令
+}
+
+/**
+ * 会话对象
+ */
+export interface ShellSession {
+  /** 是否运行在 PTY 中 */
+  readonly pty: boolean
+  /** 在会话中执行命令（同一时间只能执行一条） */
+  run(command: string, handlers?: SessionRunHandlers, options?: SessionRunOptions): Promise<SessionCommandResult>
+  /** 会话当前工作目录 */
+  getCwd(): string
+  /** 会话当前环境变量快照 */
+  getEnv(): Record<string, string>
+  /** 结束会话并清理临时文件 */
+  close(): void
+}
+
+export interface ShellSessionOptions {
+  shell?: ShellType
+  cwd?: string
+  pty?: boolean  // 是否使用 PTY（默认 true，node-pty 不可用时自动回退管道模式）
+}
+
+/**
+ * 会话 shell 进程（PTY 或管道）
+ */
+interface SessionProcess {
+  onStdout(listener: (data: string) => void): () => void
+  onStderr(listener: (data: string) => void): () => void
+  onExit(listener: (code: number) => void): () => void
+  isAlive(): boolean
+  kill(): void
+  /** 向会话 shell 所在的进程组（会话 shell 和正在执行的命令）发送信号 */
+  signal(sig: NodeJS.Signals): void
+  /** 把当前终端接到进程上（仅 PTY），返回断开函数 */
+  attach(): () => void
+}
+
+// 对比环境变量时忽略的变量（每步都会变化或无意义）
+const IGNORED_ENV_KEYS = new Set(['_', 'PWD', 'OLDPWD', 'SHLVL', 'RANDOM', 'LINENO', 'SECONDS'])
+
+const SENTINEL_PREFIX = '\u0001PLS'
+
+// 中断后等待命令自行退出的时间，超过后强制结束
+const INTERRUPT_GRACE_MS = 3000
+
+
+/**
+ * 是否支持持久会话（仅 POSIX shell）
+ */
+export function supportsShellSession(shell: ShellType = detectShell()): boolean {
+  if (isWindows()) return false
+  return shell === 'bash' || shell === 'zsh' || shell === 'unknown'
+}
+
+/**
+ * 单引号转义
+ */
+function quote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+/**
+ * 解析 `env` 输出
+ * 不含 `=` 的行视为上一个变量值的续行（多行值）
+ */
+export function parseEnvOutput(content: string): Record<string, string> {
+  const env: Record<string, string> = {}
+  let lastKey: string | null = null
+
+  for (const line of content.split('\n')) {
+    const match = line.match(/^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/)
+    if (match) {
+      lastKey = match[1]
+      env[lastKey] = match[2]
+    } else if (lastKey !== null && line !== '') {
+      env[lastKey] += '\n' + line
+    }
+  }
+
+  return env
+}
+
+/**
+ * 对比两次环境变量快照
+ */
+export function diffEnv(before: Record<string, string>, after: Record<string, string>): EnvChanges {
+  const changes: EnvChanges = {}
+
+  for (const [key, value] of Object.entries(after)) {
+    if (IGNORED_ENV_KEYS.has(key)) continue
+    if (before[key] !== value) {
+      changes[key] = value
+    }
+  }
+  for (const key of Object.keys(before)) {
+    if (IGNORED_ENV_KEYS.has(key)) continue
+    if (!(key in after)) {
+      changes[key] = null
+    }
+  }
+
+  return changes
+}
+
+/**
+ * 哨兵扫描器
+ * 逐块接收输出，找到哨兵前的内容原样转发，保留可能是哨兵开头的尾部
+ */
+function createSentinelScanner(marker: string, onData: (data: string) => void) {
+  let buffer = ''
+  let done = false
+  let trailer = ''
+
+  return {
+    push(chunk: string): boolean {
+      if (done) return true
+      buffer += chunk
+
+      const index = buffer.indexOf(marker)
+      if (index >= 0) {
+        const lineEnd = buffer.indexOf('\n', index)
+        if (lineEnd < 0) {
+          // 哨兵行还没收完
+          if (index > 0) {
+            onData(buffer.slice(0, index))
+            buffer = buffer.slice(index)
+          }
+          return false
+        }
+        if (index > 0) onData(buffer.slice(0, index))
+        trailer = buffer.slice(index + marker.length, lineEnd)
+        buffer = ''
+        done = true
+        return true
+      }
+
+      // 保留尾部，防止哨兵被拆在两个数据块之间
+      const keep = Math.min(buffer.length, marker.length - 1)
+      const emit = buffer.slice(0, buffer.length - keep)
+      if (emit) onData(emit)
+      buffer = buffer.slice(buffer.length - keep)
+      return false
+    },
+    flush(): void {
+      if (buffer) onData(buffer)
+      buffer = ''
+    },
+    get done() {
+      return done
+    },
+    get trailer() {
+      return trailer
+    },
+  }
+}
+
+/**
+ * 创建持久 Shell 会话
+ * 不支持的平台/shell 返回 null，调用方应回退到一次性执行
+ */
+export async function createShellSession(options: ShellSessionOptions = {}): Promise<ShellSession | null> {
+  const shellType = options.shell || detectShell()
+  if (!supportsShellSession(shellType)) {
+    return null
+  }
+
+  const pty = options.pty === false ? null : await loadPty()
+
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pls-session-'))
+  const fifoFile = path.join(tmpDir, 'control')
+  const driverFile = path.join(tmpDir, 'driver.sh')
+  const scriptFile = path.join(tmpDir, 'command.sh')
+  const cwdFile = path.join(tmpDir, 'cwd')
+  const envFile = path.join(tmpDir, 'env')
+
+  try {
+    execFileSync('mkfifo', [fifoFile])
+  } catch {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+    return null
+  }
+
+  let cwd = options.cwd || process.cwd()
+  let env: Record<string, string> = {}
+  let proc: SessionProcess | null = null
+  let busy = false
+  let closed = false
+
+  const start = (): SessionProcess => {
+    let executable: string
+    let args: string[]
+    let init: string
+
+    if (shellType === 'zsh') {
+      executable = getShellCapabilities('zsh').executable
+      args = ['-f']
+      init = 'setopt pipefail'
+    } else if (shellType === 'bash') {
+      executable = getShellCapabilities('bash').executable
+      args = ['--norc', '--noprofile']
+      init = 'set -o pipefail'
+    } else {
+      executable = '/bin/sh'
+      args = []
+      init = ''
+    }
+
+    // Ctrl+C 只中断当前命令，不结束会话 shell（trap 处理函数不会被子进程继承）
+    // 读到 EOF 时重新打开 FIFO：上一次写入端可能还没关闭，shell 就已经回到 read
+    const loop = [
+      init,
+      `trap ':' INT`,
+      `while [ -p ${quote(fifoFile)} ]; do`,
+      `  IFS= read -r __pls_next < ${quote(fifoFile)} || continue`,
+      `  . "$__pls_next"`,
+      `done`,
+    ]
+      .filter(Boolean)
+      .join('\n')
+    const shellEnv = { ...process.env, ...env } as Record<string, string>
+
+    if (pty) {
+      const { cols, rows } = getTerminalSize()
+      const ptyProcess = pty.spawn(executable, [...args, '-c', loop], {
+        name: process.env.TERM || 'xterm-256color',
+        cols,
+        rows,
+        cwd,
+        env: shellEnv,
+      })
+      let alive = true
+      ptyProcess.onExit(() => {
+        alive = false
+      })
+
+      return {
+        onStdout: (listener) => {
+          const disposable = ptyProcess.onData(listener)
+          return () => disposable.dispose()
+        },
+        onStderr: () => () => {},
+        onExit: (listener) => {
+          const disposable = ptyProcess.onExit(({ exitCode, signal }) => listener(toExitCode(exitCode, signal)))
+          return () => disposable.dispose()
+        },
+        isAlive: () => alive,
+        kill: () => {
+          if (alive) ptyProcess.kill()
+        },
+        signal: (sig) => {
+          if (alive) killProcessGroup(ptyProcess.pid, sig)
+        },
+        attach: () => attachTerminal(ptyProcess),
+      }
+    }
+
+    const child = spawn(executable, [...args, '-c', loop], {
+      cwd,
+      env: shellEnv,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      // 独立进程组：终端的 Ctrl+C 不会直接打到会话 shell，由 pls 转发
+      detached: true,
+    })
+    child.stdout?.setEncoding('utf8')
+    child.stderr?.setEncoding('utf8')
+
+    return {
+      onStdout: (listener) => {
+        child.stdout?.on('data', listener)
+        return () => child.stdout?.off('data', listener)
+      },
+      onStderr: (listener) => {
+        child.stderr?.on('data', listener)
+        return () => child.stderr?.off('data', listener)
+      },
+      onExit: (listener) => {
+        const onClose = (code: number | null, signal: NodeJS.Signals | null) =>
+          listener(code ?? (signal ? 128 + (os.constants.signals[signal] || 0) : 1))
+        child.on('close', onClose)
+        return () => child.off('close', onClose)
+      },
+      isAlive: () => child.exitCode === null && child.signalCode === null,
+      kill: () => {
+        if (child.exitCode === null) child.kill()
+      },
+      signal: (sig) => {
+        if (child.exitCode === null) killProcessGroup(child.pid, sig)
+      },
+      attach: () => () => {},
+    }
+  }
+
+  const readState = (): { cwd: string; env: Record<string, string> } => {
+    let nextCwd = cwd
+    let nextEnv = env
+    try {
+      nextCwd = fs.readFileSync(cwdFile, 'utf-8').replace(/\n$/, '') || cwd
+    } catch {
+      // 会话 shell 中途退出时文件可能不存在
+    }
+    try {
+      nextEnv = parseEnvOutput(fs.readFileSync(envFile, 'utf-8'))
+    } catch {
+      // 同上
+    }
+    return { cwd: nextCwd, env: nextEnv }
+  }
+
+  const run = (
+    command: string,
+    handlers: SessionRunHandlers = {},
+    options: SessionRunOptions = {}
+  ): Promise<SessionCommandResult> => {
+    if (closed) {
+      return Promise.reject(new Error('Shell 会话已关闭'))
+    }
+    if (busy) {
+      return Promise.reject(new Error('Shell 会话正在执行其他命令'))
+    }
+    busy = true
+
+    if (!proc || !proc.isAlive()) {
+      proc = start()
+    }
+    const current = proc
+
+    return new Promise((resolve) => {
+      const token = Math.random().toString(36).slice(2, 10)
+      const marker = `${SENTINEL_PREFIX}${token}:`
+      let stdout = ''
+      let stderr = ''
+
+      const outScanner = createSentinelScanner(marker, (data) => {
+        stdout += data
+        handlers.onStdout?.(data)
+      })
+      const errScanner = createSentinelScanner(marker, (data) => {
+        stderr += data
+        handlers.onStderr?.(data)
+      })
+
+      const detach = current.attach()
+      const disposers = [
+        current.onStdout((data) => {
+          if (outScanner.push(data)) check()
+        }),
+        current.onStderr((data) => {
+          if (errScanner.push(data)) check()
+        }),
+        // 命令中执行了 exit，会话 shell 退出，下次执行时自动重启
+        current.onExit((code) => {
+          outScanner.flush()
+          errScanner.flush()
+          finish(code)
+        }),
+      ]
+
+      // 中断：先发 SIGINT，宽限期后仍未结束则强制结束（会话 shell 会在下次执行时重启）
+      let interrupted = false
+      let timedOut = false
+      let killTimer: NodeJS.Timeout | null = null
+      const interrupt = () => {
+        if (interrupted) return
+        interrupted = true
+        current.signal('SIGINT')
+        killTimer = setTimeout(() => current.signal('SIGKILL'), INTERRUPT_GRACE_MS)
+      }
+      const timeoutTimer = options.timeout
+        ? setTimeout(() => {
+            timedOut = true
+            interrupt()
+          }, options.timeout)
+        : null
+      options.signal?.addEventListener('abort', interrupt)
+      if (options.signal?.aborted) interrupt()
+
+      let finished = false
+      const finish = (rawExitCode: number) => {
+        if (finished) return
+        finished = true
+        disposers.forEach((dispose) => dispose())
+        detach()
+        if (timeoutTimer) clearTimeout(timeoutTimer)
+        if (killTimer) clearTimeout(killTimer)
+        options.signal?.removeEventListener('abort', interrupt)
+        busy = false
+
+        const exitCode = timedOut ? TIMEOUT_EXIT_CODE : interrupted ? INTERRUPTED_EXIT_CODE : rawExitCode
+
+        const state = readState()
+        const envChanges = diffEnv(env, state.env)
+        cwd = state.cwd
+        env = state.env
+
+        if (pty) {
+          const output = cleanTerminalOutput(stdout)
+          resolve({ exitCode, output, stdout: output, stderr: '', cwd, envChanges, timedOut })
+        } else {
+          resolve({ exitCode, output: stdout + stderr, stdout, stderr, cwd, envChanges, timedOut })
+        }
+      }
+
+      // PTY 模式 stdout/stderr 合并，只需等 stdout 的哨兵
+      const check = () => {
+        if (outScanner.done && (pty || errScanner.done)) {
+          const exitCode = parseInt(outScanner.trailer, 10)
+          finish(Number.isNaN(exitCode) ? 1 : exitCode)
+        }
+      }
+
+      fs.writeFileSync(scriptFile, command + '\n')
+      fs.rmSync(cwdFile, { force: true })
+      fs.rmSync(envFile, { force: true })
+
+      // 管道模式下命令的 stdin 指向 /dev/null；PTY 模式下命令直接使用终端
+      const driver = [
+        pty ? `. ${quote(scriptFile)}` : `. ${quote(scriptFile)} </dev/null`,
+        `__pls_ec=$?`,
+        `pwd > ${quote(cwdFile)}`,
+        `env > ${quote(envFile)}`,
+        `printf '${marker}%s\\n' "$__pls_ec"`,
+        pty ? '' : `printf '${marker}\\n' >&2`,
+      ]
+        .filter(Boolean)
+        .join('\n')
+      fs.writeFileSync(driverFile, driver + '\n')
+
+      // 会话 shell 打开 FIFO 读端之前写入会阻塞，使用异步写入避免卡住事件循环
+      fs.promises.writeFile(fifoFile, driverFile + '\n').catch(() => {})
+    })
+  }
+
+  const close = () => {
+    if (closed) return
+    closed = true
+    proc?.kill()
+    try {
+      fs.rmSync(tmpDir, { recursive: true, force: true })
+    } catch {
+      // 忽略清理失败
+    }
+    process.off('exit', close)
+  }
+  process.on('exit', close)
+
+  // 采集初始 cwd 和环境变量作为对比基线
+  await run(':')
+
+  return {
+    pty: !!pty,
+    run,
+    getCwd: () => cwd,
+    getEnv: () => ({ ...env }),
+    close,
+  }
+}
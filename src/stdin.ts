@@ -0,0 +1,133 @@
+import fs from 'fs'
+import tty from 'tty'
+import { cleanTerminalOutput } from './pty.js'
+import { isWindows } from './utils/platform.js'
+
+/**
+ * 管道输入
+ *
+ * `cat error.log | pls 总结错误原因`、`git diff | pls 写一个提交命令`：
+ * stdin 不是终端时读取管道内容作为上下文发给 AI，再重新打开 /dev/tty 作为 stdin，
+ * 这样确认界面、密码输入、交互式命令仍然可以使用键盘。
+ */
+
+// 最多保留的读取量（字符），超出时只保留开头和结尾，中间丢弃（不会中断写入方）
+export const STDIN_READ_LIMIT = 1024 * 1024
+
+// 发给 AI 的最大长度（字符）
+export const STDIN_MAX_CHARS = 8000
+
+type InputStream = NodeJS.ReadableStream & { isTTY?: boolean }
+
+/**
+ * fd 是否是管道（cat x | pls）或重定向的文件（pls < x）
+ * socket（child_process.spawn 默认的 stdio，编辑器插件、CI 里一直开着却不写入）、/dev/null 等字符设备都不读取
+ */
+function isPipeOrFile(fd: number): boolean {
+  try {
+    const stat = fs.fstatSync(fd)
+    return stat.isFIFO() || stat.isFile()
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 读取管道输入（stdin 是终端、不是管道或文件时返回 null）
+ * 一直读到写入方结束（上游命令中途停顿多久都不会截断）；去掉 ANSI 颜色等控制字符，内容为空时返回 null
+ * @param fd 用于判断 stdin 类型的文件描述符（传入自定义 stream 时为 null，不检查）
+ */
+export async function readPipedStdin(
+  stream: InputStream = process.stdin,
+  limit: number = STDIN_READ_LIMIT,
+  fd: number | null = stream === process.stdin ? 0 : null
+): Promise<string | null> {
+  if (stream.isTTY || (fd !== null && !isPipeOrFile(fd))) {
+    return null
+  }
+
+  // 开头和结尾各保留一半，日志类内容最重要的通常在末尾
+  const half = Math.floor(limit / 2)
+  let head = ''
+  let tail = ''
+  let dropped = 0
+
+  stream.setEncoding('utf8')
+  for await (const chunk of stream as AsyncIterable<string>) {
+    if (head.length < half) {
+      const take = chunk.slice(0, half - head.length)
+      head += take
+      tail += chunk.slice(take.length)
+    } else {
+      tail += chunk
+    }
+    if (tail.length > half) {
+      dropped += tail.length - half
+      tail = tail.slice(-half)
+    }
+  }
+
+  const content = cleanTerminalOutput(dropped > 0 ? `${head}\n...(省略 ${dropped} 个字符)...\n${tail}` : head + tail)
+  return content.trim() ? content : null
+}
+
+/**
+ * 截断过长的管道内容：按行保留开头 1/3 和结尾 2/3，中间省略
+ * 单行过长（如压缩过的 JSON）时按字符截断
+ */
+export function truncateStdinContent(content: string, maxChars: number = STDIN_MAX_CHARS): string {
+  if (content.length <= maxChars) {
+    return content
+  }
+
+  const headBudget = Math.floor(maxChars / 3)
+  const tailBudget = maxChars - headBudget
+  const lines = content.split('\n')
+
+  const headLines: string[] = []
+  let headLength = 0
+  while (headLines.length < lines.length && headLength + lines[headLines.length].length + 1 <= headBudget) {
+    headLength += lines[headLines.length].length + 1
+    headLines.push(lines[headLines.length])
+  }
+
+  const tailLines: string[] = []
+  let tailLength = 0
+  while (
+    headLines.length + tailLines.length < lines.length &&
+    tailLength + lines[lines.length - 1 - tailLines.length].length + 1 <= tailBudget
+  ) {
+    tailLength += lines[lines.length - 1 - tailLines.length].length + 1
+    tailLines.unshift(lines[lines.length - 1 - tailLines.length])
+  }
+
+  const omitted = lines.length - headLines.length - tailLines.length
+  if (headLines.length === 0 && tailLines.length === 0) {
+    const omittedChars = content.length - maxChars
+    return `${content.slice(0, headBudget)}\n...(省略 ${omittedChars} 个字符)...\n${content.slice(-tailBudget)}`
+  }
+  return [...headLines, `...(省略 ${omitted} 行)...`, ...tailLines].join('\n')
+}
+
+/**
+ * stdin 被管道占用后，重新打开终端作为 stdin（Ink、readline、PTY 都读 process.stdin）
+ * @returns 是否有可用的终端（没有终端时只能使用非交互模式）
+ */
+export function reopenTTY(): boolean {
+  if (process.stdin.isTTY) {
+    return true
+  }
+  if (isWindows()) {
+    return false
+  }
+
+  try {
+    const fd = fs.openSync('/dev/tty', 'r')
+    const stream = new tty.ReadStream(fd)
+    Object.defineProperty(process, 'stdin', { value: stream, configurable: true, writable: true })
+    return true
+  } catch {
+    // 没有控制终端（cron、CI、编辑器插件等）
+    return false
+  }
+}
@@ -2,6 +2,7 @@ import fs from 'fs'
 import path from 'path'
 import os from 'os'
 import { getConfig } from './config.js'
+import { redactSecrets } from './redact.js'
 import type { ShellHistoryItem } from './shell-hook.js'
 import { detectShell, getShellCapabilities } from './utils/platform.js'
 
@@ -61,6 +62,7 @@ export function getSystemShellHistory(): ShellHistoryItem[] {
     return recentLines
       .map(line => parser(line))
       .filter((item): item is ShellHistoryItem => item !== null)
+      .map(item => ({ ...item, cmd: redactSecrets(item.cmd) }))
   } catch {
     return []
   }
@@ -0,0 +1,119 @@
+import { getConfig } from './config.js'
+import type { ExecutedStep } from './multi-step.js'
+
+/**
+ * 多步骤任务的预算
+ *
+ * 限制一个任务最多执行多少步、最多连续失败多少次、大约消耗多少 token，
+ * 防止 AI 一直不返回 continue: false 时无限循环。达到上限时交互模式由用户决定追加还是停止，
+ * 非交互模式直接停止。
+ */
+
+export type BudgetLimit = 'steps' | 'failures' | 'tokens'
+
+export interface TaskBudget {
+  maxSteps: number                // 0 表示不限制
+  maxConsecutiveFailures: number  // 0 表示不限制
+  tokenBudget: number             // 0 表示不限制
+}
+
+export interface TaskUsage {
+  steps: number                // 已生成的步骤数（包括执行失败和被策略禁止的）
+  consecutiveFailures: number  // 连续失败的次数，成功一步后清零
+  tokens: number               // 大约消耗的 token 数
+}
+
+/**
+ * 从配置读取任务预算
+ */
+export function getTaskBudget(): TaskBudget {
+  const { maxSteps, maxConsecutiveFailures, tokenBudget } = getConfig()
+  return { maxSteps, maxConsecutiveFailures, tokenBudget }
+}
+
+/**
+ * 创建任务用量；继续任务（pls resume）时传入已有的步骤，步数和结尾的连续失败次数接着算，
+ * 否则每次继续都会重新获得一份预算。之前消耗的 token 没有保存，从 0 开始
+ */
+export function createTaskUsage(previousSteps: ExecutedStep[] = []): TaskUsage {
+  let consecutiveFailures = 0
+  for (const step of previousSteps) {
+    // 退出码 141（SIGPIPE）且有输出时和执行时一样算成功，如 ps aux | head -3
+    const success = step.exitCode === 0 || (step.exitCode === 141 && step.output.trim().length > 0)
+    consecutiveFailures = success ? 0 : consecutiveFailures + 1
+  }
+  return { steps: previousSteps.length, consecutiveFailures, tokens: 0 }
+}
+
+/**
+ * 粗略估算文本的 token 数（模型没有返回用量时使用）
+ * 中日韩字符大约一个字一个 token，其他字符大约 4 个一个 token
+ */
+export function estimateTokens(text: string): number {
+  const cjk = (text.match(/[　-鿿가-힯＀-￯]/g) || []).length
+  return cjk + Math.ceil((text.length - cjk) / 4)
+}
+
+/**
+ * 检查是否达到上限，返回达到的上限，没有达到时返回 null
+ * 连续失败优先，其次是步数和 token
+ */
+export function checkTaskBudget(budget: TaskBudget, usage: TaskUsage): BudgetLimit | null {
+  if (budget.maxConsecutiveFailures > 0 && usage.consecutiveFailures >= budget.maxConsecutiveFailures) {
+    return 'failures'
+  }
+  if (budget.maxSteps > 0 && usage.steps >= budget.maxSteps) {
+    return 'steps'
+  }
+  if (budget.tokenBudget > 0 && usage.tokens >= budget.tokenBudget) {
+    return 'tokens'
+  }
+  return null
+}
+
+/**
+ * 追加预算：在当前用量的基础上，再给一份配置中的额度
+ */
+export function extendTaskBudget(budget: TaskBudget, usage: TaskUsage, limit: BudgetLimit, base: TaskBudget): TaskBudget {
+  switch (limit) {
+    case 'steps':
+      return { ...budget, maxSteps: usage.steps + base.maxSteps }
+    case 'failures':
+      return { ...budget, maxConsecutiveFailures: usage.consecutiveFailures + base.maxConsecutiveFailures }
+    case 'tokens':
+      return { ...budget, tokenBudget: usage.tokens + base.tokenBudget }
+  }
+}
+
+/**
+ * 格式化 token 数：1234 → 1.2k
+ */
+export function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens)
+}
+
+/**
+ * 达到上限的原因
+ */
+export function formatBudgetLimit(limit: BudgetLimit, budget: TaskBudget): string {
+  switch (limit) {
+    case 'steps':
+      return `已执行 ${budget.maxSteps} 步，达到步数上限（maxSteps）`
+    case 'failures':
+      return `连续失败 ${budget.maxConsecutiveFailures} 次，达到失败上限（maxConsecutiveFailures）`
+    case 'tokens':
+      return `已消耗约 ${formatTokens(budget.tokenBudget)} tokens，达到 token 预算（tokenBudget）`
+  }
+}
+
+/**
+ * 任务用量摘要，如 "共 5 步 · 连续失败 2 次 · 约 12.3k tokens"
+ */
+export function formatTaskUsage(usage: TaskUsage): string {
+  const parts = [`共 ${usage.steps} 步`]
+  if (usage.consecutiveFailures > 0) {
+    parts.push(`连续失败 ${usage.consecutiveFailures} 次`)
+  }
+  parts.push(`约 ${formatTokens(usage.tokens)} tokens`)
+  return parts.join(' · ')
+}
@@ -0,0 +1,238 @@
+import fs from 'fs'
+import path from 'path'
+import chalk from 'chalk'
+import { CONFIG_DIR } from './config.js'
+import type { ExecutedStep, RemoteContext, TaskPlan } from './multi-step.js'
+import { redactSecrets, REDACTED } from './redact.js'
+import { getCurrentTheme } from './ui/theme.js'
+
+/**
+ * 任务会话
+ *
+ * 多步骤任务每执行一步，就把需求、远程上下文和已执行的步骤写入 ~/.please/sessions/<id>.json。
+ * 任务完成后删除；被取消、终端被关闭或生成命令失败时保留，pls resume 从最后一步继续。
+ */
+
+// 获取主题颜色
+function getColors() {
+  const theme = getCurrentTheme()
+  return {
+    primary: theme.primary,
+    success: theme.success,
+    error: theme.error,
+  }
+}
+
+const SESSIONS_DIR = path.join(CONFIG_DIR, 'sessions')
+const MAX_SESSIONS = 20
+
+/**
+ * 任务会话（<id>.json）
+ */
+export interface TaskSession {
+  id: string
+  prompt: string
+  cwd: string                     // 任务开始时的工作目录
+  remoteContext?: RemoteContext   // 远程执行时的服务器上下文
+  stdinContent?: string           // 管道输入（已截断）
+  plan?: TaskPlan                 // --plan 确认过的计划和进度
+  steps: ExecutedStep[]
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * 生成会话 ID（时间 + 随机后缀，按字符串排序即按时间排序），也用作历史记录中的任务 ID
+ */
+export function createSessionId(): string {
+  const now = new Date()
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const date = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}`
+  const time = `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`
+  return `${date}-${time}-${Math.random().toString(16).slice(2, 6)}`
+}
+
+function getSessionFile(id: string): string {
+  return path.join(SESSIONS_DIR, `${path.basename(id)}.json`)
+}
+
+/**
+ * 创建任务会话（执行第一步后才写入文件）
+ */
+export function createTaskSession(
+  prompt: string,
+  options: { cwd?: string; remoteContext?: RemoteContext; stdinContent?: string } = {}
+): TaskSession {
+  const now = new Date().toISOString()
+  return {
+    id: createSessionId(),
+    prompt,
+    cwd: options.cwd || process.cwd(),
+    remoteContext: options.remoteContext,
+    stdinContent: options.stdinContent,
+    steps: [],
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+/**
+ * 环境变量变化脱敏（按 KEY=value 的形式匹配规则）
+ */
+function redactEnvChanges(envChanges: Record<string, string | null>): Record<string, string | null> {
+  return Object.fromEntries(
+    Object.entries(envChanges).map(([key, value]) => [
+      key,
+      value === null ? null : redactSecrets(`${key}=${value}`).slice(key.length + 1),
+    ])
+  )
+}
+
+/**
+ * 保存任务会话（需求、管道输入和每一步的命令、输出、AI 说明、环境变量都会脱敏）
+ */
+export function saveTaskSession(session: TaskSession): void {
+  if (!fs.existsSync(SESSIONS_DIR)) {
+    fs.mkdirSync(SESSIONS_DIR, { recursive: true })
+  }
+
+  const record: TaskSession = {
+    ...session,
+    prompt: redactSecrets(session.prompt),
+    stdinContent: session.stdinContent ? redactSecrets(session.stdinContent) : undefined,
+    steps: session.steps.map((step) => ({
+      ...step,
+      command: redactSecrets(step.command),
+      output: redactSecrets(step.output),
+      // AI 的说明里经常重复命令本身（包括其中的密码）
+      reasoning: redactSecrets(step.reasoning),
+      nextStepHint: redactSecrets(step.nextStepHint),
+      envChanges: step.envChanges ? redactEnvChanges(step.envChanges) : undefined,
+    })),
+    updatedAt: new Date().toISOString(),
+  }
+  session.updatedAt = record.updatedAt
+
+  fs.writeFileSync(getSessionFile(session.id), JSON.stringify(record, null, 2))
+  pruneTaskSessions()
+}
+
+/**
+ * 读取所有未完成的任务会话（最近更新的在前）
+ */
+export function getTaskSessions(): TaskSession[] {
+  if (!fs.existsSync(SESSIONS_DIR)) {
+    return []
+  }
+
+  const sessions: TaskSession[] = []
+  for (const file of fs.readdirSync(SESSIONS_DIR)) {
+    if (!file.endsWith('.json')) continue
+    try {
+      sessions.push(JSON.parse(fs.readFileSync(path.join(SESSIONS_DIR, file), 'utf-8')) as TaskSession)
+    } catch {
+      // 跳过损坏的会话
+    }
+  }
+  return sessions.sort((a, b) => (a.updatedAt < b.updatedAt ? 1 : a.updatedAt > b.updatedAt ? -1 : 0))
+}
+
+/**
+ * 获取任务会话
+ * @param id 会话 ID（可以只写开头几位），不传时返回最近的会话
+ * @throws ID 前缀匹配到多个会话时抛出错误
+ */
+export function getTaskSession(id?: string): TaskSession | null {
+  const sessions = getTaskSessions()
+  if (!id) {
+    return sessions[0] ?? null
+  }
+
+  const exact = sessions.find((session) => session.id === id)
+  if (exact) {
+    return exact
+  }
+  const matches = sessions.filter((session) => session.id.startsWith(id))
+  if (matches.length > 1) {
+    throw new Error(`"${id}" 匹配到 ${matches.length} 个会话，请写完整的 ID`)
+  }
+  return matches[0] ?? null
+}
+
+/**
+ * 合并各步骤的环境变量变化（null = unset），用于继续任务时还原环境
+ * 被脱敏的值无法还原，跳过
+ */
+export function getSessionEnvChanges(session: TaskSession): Record<string, string | null> {
+  const changes: Record<string, string | null> = {}
+  for (const step of session.steps) {
+    for (const [key, value] of Object.entries(step.envChanges ?? {})) {
+      if (value !== null && value.includes(REDACTED)) {
+        delete changes[key]
+      } else {
+        changes[key] = value
+      }
+    }
+  }
+  return changes
+}
+
+/**
+ * 删除任务会话（任务完成后调用）
+ */
+export function removeTaskSession(id: string): void {
+  fs.rmSync(getSessionFile(id), { force: true })
+}
+
+/**
+ * 清空所有任务会话
+ */
+export function clearTaskSessions(): void {
+  fs.rmSync(SESSIONS_DIR, { recursive: true, force: true })
+}
+
+/**
+ * 只保留最近的会话
+ */
+function pruneTaskSessions(): void {
+  for (const session of getTaskSessions().slice(MAX_SESSIONS)) {
+    removeTaskSession(session.id)
+  }
+}
+
+/**
+ * 显示未完成的任务会话
+ */
+export function displayTaskSessions(): void {
+  const sessions = getTaskSessions()
+  const colors = getColors()
+
+  if (sessions.length === 0) {
+    console.log('\n' + chalk.gray('暂无未完成的任务'))
+    console.log('')
+    return
+  }
+
+  console.log('')
+  console.log(chalk.bold(`未完成的任务（最近 ${sessions.length} 个）:`))
+  console.log(chalk.gray('━'.repeat(50)))
+
+  sessions.forEach((session, index) => {
+    const last = session.steps[session.steps.length - 1]
+    const where = session.remoteContext ? `[${session.remoteContext.name}]` : session.cwd
+    const time = new Date(session.updatedAt).toLocaleString('zh-CN')
+    console.log(`  ${chalk.hex(colors.primary)((index + 1).toString().padStart(2, ' '))}. ${session.prompt}`)
+    console.log(`      ${chalk.gray(`${session.id} · ${session.steps.length} 步 · ${time} · ${where}`)}`)
+    if (last) {
+      const ok = last.exitCode === 0
+      console.log(
+        `      ${chalk.hex(ok ? colors.success : colors.error)(ok ? '✓' : '✗')} ${chalk.gray(last.command)}`
+      )
+    }
+  })
+
+  console.log(chalk.gray('━'.repeat(50)))
+  console.log(chalk.gray('pls resume 继续最近的任务，pls resume <id> 继续指定任务'))
+  console.log(chalk.gray(`目录: ${SESSIONS_DIR}`))
+  console.log('')
+}
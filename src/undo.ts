@@ -0,0 +1,493 @@
+import fs from 'fs'
+import path from 'path'
+import { execFileSync } from 'child_process'
+import chalk from 'chalk'
+import { CONFIG_DIR } from './config.js'
+import { parseShellCommand, type CommandInvocation } from './shell-parser.js'
+import { redactSecrets } from './redact.js'
+import { getCurrentTheme } from './ui/theme.js'
+import { isWindows } from './utils/platform.js'
+
+/**
+ * 撤销日志
+ *
+ * 执行 rm / mv / sed -i / chmod / > 重定向等修改文件的命令之前，
+ * 把受影响的路径备份到 ~/.please/undo/<id>/，并写入 manifest.json。
+ * pls undo 按 manifest 还原：恢复备份的内容和权限，删除命令新建的文件。
+ */
+
+// 获取主题颜色
+function getColors() {
+  const theme = getCurrentTheme()
+  return {
+    primary: theme.primary,
+    success: theme.success,
+  }
+}
+
+const UNDO_DIR = path.join(CONFIG_DIR, 'undo')
+const MANIFEST_FILE = 'manifest.json'
+const MAX_UNDO_ENTRIES = 20
+const MAX_SNAPSHOT_BYTES = 100 * 1024 * 1024  // 单次备份上限 100MB
+
+/**
+ * 撤销条目中的一个路径
+ * - file: 执行前存在，备份了内容（目录包含其内容），撤销时整体还原
+ * - created: 执行前不存在（会被命令创建），撤销时删除
+ * - mode: 只记录权限（chmod），撤销时还原权限
+ */
+export interface UndoPathEntry {
+  path: string        // 绝对路径
+  kind: 'file' | 'created' | 'mode'
+  snapshot?: string   // 备份在条目目录中的相对路径（kind 为 file 时）
+  mode?: number       // 原权限（kind 为 mode 时）
+}
+
+/**
+ * 撤销条目（manifest.json）
+ */
+export interface UndoManifest {
+  id: string
+  command: string
+  cwd: string
+  timestamp: string
+  paths: UndoPathEntry[]
+}
+
+/**
+ * 命令会修改的路径（原始文本，由 shell 展开通配符和变量）
+ */
+interface UndoTarget {
+  words: string[]     // 路径（原始文本）
+  kind: 'content' | 'mode'
+  recursive?: boolean // chmod -R
+  creates?: boolean   // 不存在时会被创建（重定向目标）
+  moveTo?: { dest: string; targetDir: boolean }  // mv 的目标
+}
+
+// 写文件的重定向（>& 只在目标不是文件描述符时写文件）
+const WRITE_REDIRECTS = new Set(['>', '>>', '>|', '&>', '&>>', '<>', '>&'])
+
+// 改变工作目录的命令
+const CWD_COMMANDS = new Set(['cd', 'pushd', 'popd'])
+
+// 通过 xargs 执行时会修改文件的命令
+const XARGS_MODIFY_COMMANDS = new Set(['rm', 'rmdir', 'unlink', 'shred', 'mv', 'sed', 'chmod'])
+
+// 需要带参数值的选项
+const VALUE_OPTIONS: Record<string, Set<string>> = {
+  mv: new Set(['-t', '-S', '--target-directory', '--suffix']),
+  shred: new Set(['-n', '-s', '--iterations', '--size']),
+  sed: new Set(['-e', '-f', '-l', '--expression', '--file', '--line-length']),
+}
+
+/**
+ * 去掉命令名中的路径（/usr/bin/rm → rm）
+ */
+function baseName(word: string): string {
+  return word.replace(/^.*\//, '')
+}
+
+/**
+ * 原始文本中是否包含命令替换（展开时会被执行，不安全）
+ */
+function hasSubstitution(raw: string): boolean {
+  return /\$\(|`|[<>]\(/.test(raw)
+}
+
+/**
+ * 拆分选项和操作数，返回操作数的原始文本
+ */
+function splitOperands(invocation: CommandInvocation): { options: string[]; operands: string[] } {
+  const name = baseName(invocation.name)
+  const rawArgs = invocation.rawWords.slice(invocation.rawWords.length - invocation.args.length)
+  const valueOptions = VALUE_OPTIONS[name]
+
+  const options: string[] = []
+  const operands: string[] = []
+  let optionsEnded = false
+  for (let i = 0; i < invocation.args.length; i++) {
+    const arg = invocation.args[i]
+    if (!optionsEnded && arg === '--') {
+      optionsEnded = true
+    } else if (!optionsEnded && arg.startsWith('-') && arg !== '-' && !(name === 'chmod' && /^-[rwxXst]+$/.test(arg))) {
+      options.push(arg)
+      if (valueOptions?.has(arg)) {
+        options.push(rawArgs[++i] ?? '')
+      }
+    } else {
+      operands.push(rawArgs[i])
+    }
+  }
+  return { options, operands }
+}
+
+/**
+ * 单个命令调用会修改的路径
+ */
+function getInvocationTargets(invocation: CommandInvocation): UndoTarget[] {
+  const targets: UndoTarget[] = []
+  const name = baseName(invocation.name)
+
+  // 写文件的重定向
+  for (const redirection of invocation.redirections) {
+    if (!WRITE_REDIRECTS.has(redirection.op)) continue
+    if (redirection.op === '>&' && /^(\d+|-)$/.test(redirection.target)) continue
+    if (!redirection.target || redirection.target.startsWith('/dev/')) continue
+    targets.push({ words: [quoteForShell(redirection.target)], kind: 'content', creates: true })
+  }
+
+  if (name === 'rm' || name === 'rmdir' || name === 'unlink' || name === 'shred') {
+    const { operands } = splitOperands(invocation)
+    if (operands.length > 0) targets.push({ words: operands, kind: 'content' })
+  } else if (name === 'mv') {
+    const { options, operands } = splitOperands(invocation)
+    const targetIndex = options.findIndex((opt) => opt === '-t' || opt === '--target-directory')
+    const inlineTarget = options.find((opt) => opt.startsWith('--target-directory='))
+    if (targetIndex !== -1 || inlineTarget) {
+      const dest = inlineTarget ? inlineTarget.slice('--target-directory='.length) : options[targetIndex + 1]
+      targets.push({ words: operands, kind: 'content', moveTo: { dest, targetDir: true } })
+    } else if (operands.length >= 2) {
+      const dest = operands.pop()!
+      targets.push({ words: operands, kind: 'content', moveTo: { dest, targetDir: !options.includes('-T') } })
+    }
+  } else if (name === 'sed') {
+    const { options, operands } = splitOperands(invocation)
+    const inPlace = options.some((opt) => /^-[A-Za-z]*i/.test(opt) || opt.startsWith('--in-place'))
+    const hasScriptOption = options.some((opt) => /^(-e|-f|--expression|--file)/.test(opt))
+    // 没有 -e / -f 时第一个操作数是 sed 脚本
+    const files = hasScriptOption ? operands : operands.slice(1)
+    if (inPlace && files.length > 0) targets.push({ words: files, kind: 'content' })
+  } else if (name === 'chmod') {
+    const { options, operands } = splitOperands(invocation)
+    const files = options.some((opt) => opt.startsWith('--reference')) ? operands : operands.slice(1)
+    const recursive = options.some((opt) => /^-[A-Za-z]*R/.test(opt) || opt === '--recursive')
+    if (files.length > 0) targets.push({ words: files, kind: 'mode', recursive })
+  }
+
+  return targets
+}
+
+/**
+ * 用双引号包裹（保留变量展开，不做通配符展开和分词）
+ */
+function quoteForShell(value: string): string {
+  return `"${value.replace(/(["\\`])/g, '\\$1')}"`
+}
+
+/**
+ * 找出命令会修改的路径
+ * @returns 不修改文件时返回空数组，无法安全判断时返回 null
+ */
+function collectUndoTargets(command: string): UndoTarget[] | null {
+  const targets: UndoTarget[] = []
+  let cwdChanged = false
+  for (const invocation of parseShellCommand(command)) {
+    if (CWD_COMMANDS.has(baseName(invocation.name))) {
+      cwdChanged = true
+      continue
+    }
+    // 路径来自标准输入（xargs rm），执行前无法确定
+    if (invocation.wrappers.includes('xargs') && XARGS_MODIFY_COMMANDS.has(baseName(invocation.name))) {
+      return null
+    }
+
+    const invocationTargets = getInvocationTargets(invocation)
+    if (invocationTargets.length === 0) continue
+
+    // 工作目录已改变，或路径来自命令替换，执行前无法确定
+    const words = invocationTargets.flatMap((target) => [...target.words, target.moveTo?.dest ?? ''])
+    if (cwdChanged || words.some(hasSubstitution)) {
+      return null
+    }
+    targets.push(...invocationTargets)
+  }
+  return targets
+}
+
+/**
+ * 由 shell 展开路径（通配符、变量、~），每个原始词展开为一组路径
+ */
+function expandWords(words: string[], cwd: string, env?: NodeJS.ProcessEnv): string[][] {
+  const script = words
+    .map((word) => `for p in ${word}; do printf '%s\\0' "$p"; done; printf '\\1\\0'`)
+    .join('; ')
+  const output = execFileSync('sh', ['-c', script], { cwd, env, encoding: 'utf-8', timeout: 5000 })
+
+  const groups: string[][] = [[]]
+  for (const item of output.split('\0').slice(0, -1)) {
+    if (item === '\x01') {
+      groups.push([])
+    } else {
+      groups[groups.length - 1].push(path.resolve(cwd, item))
+    }
+  }
+  groups.pop()
+  return groups
+}
+
+/**
+ * 路径是否存在（不跟随符号链接）
+ */
+function pathExists(p: string): boolean {
+  try {
+    fs.lstatSync(p)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 计算路径占用的字节数，超过 limit 时提前返回
+ */
+function measureSize(p: string, limit: number): number {
+  const stat = fs.lstatSync(p)
+  if (!stat.isDirectory()) {
+    return stat.size
+  }
+  let total = 0
+  for (const name of fs.readdirSync(p)) {
+    total += measureSize(path.join(p, name), limit - total)
+    if (total > limit) break
+  }
+  return total
+}
+
+/**
+ * 记录路径（递归时包含子路径）的权限
+ */
+function collectModes(p: string, recursive: boolean, result: UndoPathEntry[]): void {
+  const stat = fs.lstatSync(p)
+  if (stat.isSymbolicLink()) return
+  result.push({ path: p, kind: 'mode', mode: stat.mode & 0o7777 })
+  if (recursive && stat.isDirectory()) {
+    for (const name of fs.readdirSync(p)) {
+      collectModes(path.join(p, name), recursive, result)
+    }
+  }
+}
+
+/**
+ * 生成撤销条目 ID（按时间排序）
+ */
+function createUndoId(): string {
+  const now = new Date()
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const date = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}`
+  const time = `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`
+  return `${date}-${time}-${Math.random().toString(16).slice(2, 6)}`
+}
+
+/**
+ * 执行命令前备份会被修改的路径
+ * @returns 撤销条目，命令不修改文件时返回 null
+ * @throws 无法安全判断受影响的路径或备份过大时抛出错误
+ */
+export function createUndoSnapshot(
+  command: string,
+  options: { cwd?: string; env?: NodeJS.ProcessEnv } = {}
+): UndoManifest | null {
+  // Windows 下没有 sh，无法展开路径
+  if (isWindows()) {
+    return null
+  }
+
+  const targets = collectUndoTargets(command)
+  if (targets === null) {
+    throw new Error('命令的操作路径在执行前无法确定')
+  }
+  if (targets.length === 0) {
+    return null
+  }
+
+  const cwd = options.cwd || process.cwd()
+  const words = targets.flatMap((target) => (target.moveTo ? [...target.words, target.moveTo.dest] : target.words))
+  const expanded = expandWords(words, cwd, options.env)
+
+  // 整理出要备份内容、记录权限和会新建的路径
+  const contentPaths: string[] = []
+  const createdPaths: string[] = []
+  const modeEntries: UndoPathEntry[] = []
+  let index = 0
+  for (const target of targets) {
+    const groups = expanded.slice(index, index + target.words.length)
+    index += target.words.length
+    const paths = groups.flat().filter(pathExists)
+
+    if (target.kind === 'mode') {
+      for (const p of paths) collectModes(p, !!target.recursive, modeEntries)
+      continue
+    }
+
+    contentPaths.push(...paths)
+    if (target.moveTo) {
+      const dest = expanded[index++][0]
+      if (!dest) continue
+      const intoDir = target.moveTo.targetDir && pathExists(dest) && fs.statSync(dest).isDirectory()
+      const destPaths = intoDir ? paths.map((p) => path.join(dest, path.basename(p))) : [dest]
+      for (const p of destPaths) {
+        ;(pathExists(p) ? contentPaths : createdPaths).push(p)
+      }
+    }
+    // 重定向的目标不存在时会被创建
+    if (target.creates) {
+      createdPaths.push(...groups.flat().filter((p) => !pathExists(p)))
+    }
+  }
+
+  // 去重，并跳过已包含在其他备份目录中的路径
+  const uniqueContent = [...new Set(contentPaths)].filter(
+    (p, _, all) => !all.some((other) => other !== p && p.startsWith(other + path.sep))
+  )
+  const uniqueCreated = [...new Set(createdPaths)].filter((p) => !uniqueContent.includes(p))
+  if (uniqueContent.length === 0 && uniqueCreated.length === 0 && modeEntries.length === 0) {
+    return null
+  }
+
+  let totalSize = 0
+  for (const p of uniqueContent) {
+    totalSize += measureSize(p, MAX_SNAPSHOT_BYTES - totalSize)
+    if (totalSize > MAX_SNAPSHOT_BYTES) {
+      throw new Error(`要备份的文件超过 ${MAX_SNAPSHOT_BYTES / 1024 / 1024}MB`)
+    }
+  }
+
+  // 写入备份和 manifest
+  const id = createUndoId()
+  const entryDir = path.join(UNDO_DIR, id)
+  fs.mkdirSync(path.join(entryDir, 'files'), { recursive: true })
+
+  const manifest: UndoManifest = {
+    id,
+    command: redactSecrets(command),
+    cwd,
+    timestamp: new Date().toISOString(),
+    paths: [],
+  }
+  try {
+    uniqueContent.forEach((p, i) => {
+      const snapshot = path.join('files', String(i))
+      fs.cpSync(p, path.join(entryDir, snapshot), { recursive: true, preserveTimestamps: true, verbatimSymlinks: true })
+      manifest.paths.push({ path: p, kind: 'file', snapshot })
+    })
+  } catch (error) {
+    fs.rmSync(entryDir, { recursive: true, force: true })
+    throw error
+  }
+  manifest.paths.push(...uniqueCreated.map((p): UndoPathEntry => ({ path: p, kind: 'created' })))
+  manifest.paths.push(...modeEntries)
+
+  fs.writeFileSync(path.join(entryDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2))
+  pruneUndoEntries()
+  return manifest
+}
+
+/**
+ * 读取所有撤销条目（最新的在前）
+ */
+export function getUndoEntries(): UndoManifest[] {
+  if (!fs.existsSync(UNDO_DIR)) {
+    return []
+  }
+
+  const entries: UndoManifest[] = []
+  for (const id of fs.readdirSync(UNDO_DIR)) {
+    try {
+      const content = fs.readFileSync(path.join(UNDO_DIR, id, MANIFEST_FILE), 'utf-8')
+      entries.push(JSON.parse(content) as UndoManifest)
+    } catch {
+      // 跳过损坏的条目
+    }
+  }
+  return entries.sort((a, b) => (a.id < b.id ? 1 : a.id > b.id ? -1 : 0))
+}
+
+/**
+ * 撤销条目是否存在（还没有被撤销或清理）
+ */
+export function hasUndoEntry(id: string): boolean {
+  return fs.existsSync(path.join(UNDO_DIR, id, MANIFEST_FILE))
+}
+
+/**
+ * 只保留最近的撤销条目
+ */
+function pruneUndoEntries(): void {
+  for (const entry of getUndoEntries().slice(MAX_UNDO_ENTRIES)) {
+    fs.rmSync(path.join(UNDO_DIR, entry.id), { recursive: true, force: true })
+  }
+}
+
+/**
+ * 撤销：还原备份并删除条目
+ * @param id 撤销条目 ID，不传时撤销最近一条
+ * @returns 被撤销的条目，没有可撤销的条目时返回 null
+ */
+export function restoreUndo(id?: string): UndoManifest | null {
+  const manifest = id ? getUndoEntries().find((entry) => entry.id === id) : getUndoEntries()[0]
+  if (!manifest) {
+    return null
+  }
+
+  const entryDir = path.join(UNDO_DIR, manifest.id)
+  const order: Record<UndoPathEntry['kind'], number> = { created: 0, file: 1, mode: 2 }
+  const paths = [...manifest.paths].sort((a, b) => order[a.kind] - order[b.kind])
+
+  for (const entry of paths) {
+    if (entry.kind === 'created') {
+      fs.rmSync(entry.path, { recursive: true, force: true })
+    } else if (entry.kind === 'file' && entry.snapshot) {
+      fs.rmSync(entry.path, { recursive: true, force: true })
+      fs.mkdirSync(path.dirname(entry.path), { recursive: true })
+      fs.cpSync(path.join(entryDir, entry.snapshot), entry.path, {
+        recursive: true,
+        preserveTimestamps: true,
+        verbatimSymlinks: true,
+      })
+    } else if (entry.kind === 'mode' && entry.mode !== undefined && pathExists(entry.path)) {
+      fs.chmodSync(entry.path, entry.mode)
+    }
+  }
+
+  fs.rmSync(entryDir, { recursive: true, force: true })
+  return manifest
+}
+
+/**
+ * 显示撤销列表
+ */
+export function displayUndoList(): void {
+  const entries = getUndoEntries()
+  const colors = getColors()
+
+  if (entries.length === 0) {
+    console.log('\n' + chalk.gray('暂无可撤销的操作'))
+    console.log('')
+    return
+  }
+
+  console.log('')
+  console.log(chalk.bold(`可撤销的操作（最近 ${entries.length} 条）:`))
+  console.log(chalk.gray('━'.repeat(50)))
+
+  entries.forEach((entry, index) => {
+    const files = entry.paths.filter((p) => p.kind !== 'mode').length
+    const modes = entry.paths.length - files
+    const summary = [files > 0 ? `${files} 个路径` : '', modes > 0 ? `${modes} 个权限` : ''].filter(Boolean).join('，')
+    console.log(`  ${chalk.hex(colors.primary)((index + 1).toString().padStart(2, ' '))}. ${entry.command}`)
+    console.log(`      ${chalk.gray(`${entry.id} · ${summary} · ${entry.cwd}`)}`)
+  })
+
+  console.log(chalk.gray('━'.repeat(50)))
+  console.log(chalk.gray('pls undo 撤销最近一条，pls undo <id> 撤销指定条目'))
+  console.log(chalk.gray(`目录: ${UNDO_DIR}`))
+  console.log('')
+}
+
+/**
+ * 获取撤销目录路径（供显示用）
+ */
+export function getUndoDir(): string {
+  return UNDO_DIR
+}
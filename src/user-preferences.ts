@@ -11,9 +11,13 @@
 import fs from 'fs'
 import path from 'path'
 import { CONFIG_DIR, getConfig } from './config.js'
+import { getHistory, formatAlternativeChoice } from './history.js'
 
 const STATS_FILE = path.join(CONFIG_DIR, 'command_stats.txt')
 
+// 发给 AI 的备选命令选择记录条数
+const MAX_ALTERNATIVE_CHOICES = 5
+
 /**
  * 命令黑名单：这些命令不算"用户偏好"
  * - Shell 内置命令：cd、export、source 等（必须用的，不是偏好）
@@ -115,6 +119,22 @@ export function getTopCommands(limit?: number): CommandStat[] {
     .slice(0, topK)
 }
 
+/**
+ * 格式化用户在备选命令中的选择（最近的在前）
+ *
+ * 示例输出：
+ * "方案选择:
+ * - "压缩这个目录": 选择了「tar.gz，兼容性最好」，未选「zip」「zstd」"
+ */
+export function formatAlternativeChoices(): string {
+  const lines = getHistory()
+    .filter((record) => record.alternatives && record.alternatives.length > 1)
+    .slice(0, MAX_ALTERNATIVE_CHOICES)
+    .map((record) => `- "${record.userPrompt}": ${formatAlternativeChoice(record.alternatives)}`)
+
+  return lines.length > 0 ? `方案选择:\n${lines.join('\n')}` : ''
+}
+
 /**
  * 格式化用户偏好为 AI 可理解的字符串
  *
@@ -122,11 +142,21 @@ export function getTopCommands(limit?: number): CommandStat[] {
  * "用户偏好: git(234), eza(156), vim(89), docker(67), pnpm(45)"
  */
 export function formatUserPreferences(): string {
+  const parts: string[] = []
+
   const top = getTopCommands()  // 使用配置中的 topK
-  if (top.length === 0) return ''
+  if (top.length > 0) {
+    const lines = top.map(({ command, count }) => `${command}(${count})`)
+    parts.push(`用户偏好: ${lines.join(', ')}`)
+  }
+
+  // 用户在备选命令中的取舍，比使用次数更直接地反映偏好
+  const choices = formatAlternativeChoices()
+  if (choices) {
+    parts.push(choices)
+  }
 
-  const lines = top.map(({ command, count }) => `${command}(${count})`)
-  return `用户偏好: ${lines.join(', ')}`
+  return parts.join('\n')
 }
 
 /**
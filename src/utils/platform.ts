@@ -405,6 +405,61 @@ export function getDefaultShell(): string {
   return process.env.SHELL || '/bin/bash'
 }
 
+/** 超时退出码（与 coreutils timeout 一致） */
+export const TIMEOUT_EXIT_CODE = 124
+
+/** 中断退出码（128 + SIGINT） */
+export const INTERRUPTED_EXIT_CODE = 130
+
+/**
+ * 向进程组发送信号（子进程需以 detached 方式启动，自成一个进程组）
+ * Windows 没有进程组，直接发给进程本身
+ */
+export function killProcessGroup(pid: number | undefined, signal: NodeJS.Signals = 'SIGINT'): void {
+  if (!pid) return
+  try {
+    process.kill(isWindows() ? pid : -pid, signal)
+  } catch {
+    try {
+      process.kill(pid, signal)
+    } catch {
+      // 进程已退出
+    }
+  }
+}
+
+// ================== 剪贴板 ==================
+
+/**
+ * 复制文本到剪贴板
+ * 依次尝试系统自带的剪贴板命令，都没有时（如 SSH 登录的服务器）通过 OSC 52 交给终端复制
+ * @param write 写出 OSC 52 序列的方式，Ink 界面显示期间要用 useStdout().write，直接写 stdout 会打乱界面
+ * @returns 'system' 表示已复制到系统剪贴板，'terminal' 表示已请求终端复制（终端不支持时不会生效）
+ */
+export function copyToClipboard(
+  text: string,
+  write: (data: string) => void = (data) => process.stdout.write(data)
+): 'system' | 'terminal' {
+  const candidates = isWindows()
+    ? ['clip']
+    : isMacOS()
+      ? ['pbcopy']
+      : ['wl-copy', 'xclip -selection clipboard', 'xsel --clipboard --input']
+
+  for (const candidate of candidates) {
+    if (!commandExists(candidate.split(' ')[0])) continue
+    try {
+      execSync(candidate, { input: text, stdio: ['pipe', 'ignore', 'ignore'], timeout: 2000 })
+      return 'system'
+    } catch {
+      // 换下一个
+    }
+  }
+
+  write(`\x1b]52;c;${Buffer.from(text).toString('base64')}\x07`)
+  return 'terminal'
+}
+
 // ================== 路径处理 ==================
 
 /**
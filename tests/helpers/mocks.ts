@@ -114,6 +114,69 @@ export function applyFsScenario(mockFs: FsMock, scenario: any) {
   }
 }
 
+/**
+ * 用内存中的文件表实现 fs Mock（历史存储会追加、加锁、写临时文件再改名，逐个 mock 返回值写不过来）
+ * 只替换 mockFs 中存在的函数，返回文件表（键为完整路径）
+ */
+export function useMemoryFs(fsModule: object): Map<string, string> {
+  const mockFs = fsModule as Partial<Record<string, Mock>>
+  const files = new Map<string, string>()
+  const dirs = new Set<string>()
+  const fsError = (code: string, file: unknown) =>
+    Object.assign(new Error(`${code}: ${file}`), { code })
+  const read = (file: unknown) => {
+    const content = files.get(String(file))
+    if (content === undefined) throw fsError('ENOENT', file)
+    return content
+  }
+
+  mockFs.existsSync?.mockImplementation((p: unknown) => {
+    const file = String(p)
+    return files.has(file) || dirs.has(file) || [...files.keys()].some((f) => f.startsWith(file + '/'))
+  })
+  mockFs.mkdirSync?.mockImplementation((p: unknown) => {
+    dirs.add(String(p))
+  })
+  mockFs.readFileSync?.mockImplementation((p: unknown) => read(p))
+  mockFs.writeFileSync?.mockImplementation((p: unknown, content: unknown) => {
+    files.set(String(p), String(content))
+  })
+  mockFs.appendFileSync?.mockImplementation((p: unknown, content: unknown) => {
+    files.set(String(p), (files.get(String(p)) ?? '') + String(content))
+  })
+  mockFs.renameSync?.mockImplementation((from: unknown, to: unknown) => {
+    files.set(String(to), read(from))
+    files.delete(String(from))
+  })
+  mockFs.linkSync?.mockImplementation((from: unknown, to: unknown) => {
+    if (files.has(String(to))) throw fsError('EEXIST', to)
+    files.set(String(to), read(from))
+  })
+  mockFs.unlinkSync?.mockImplementation((p: unknown) => {
+    read(p)
+    files.delete(String(p))
+  })
+  mockFs.rmSync?.mockImplementation((p: unknown) => {
+    files.delete(String(p))
+  })
+  mockFs.openSync?.mockImplementation((p: unknown, flags: unknown) => {
+    if (flags === 'wx' && files.has(String(p))) throw fsError('EEXIST', p)
+    files.set(String(p), files.get(String(p)) ?? '')
+    return 3
+  })
+  mockFs.closeSync?.mockImplementation(() => {})
+  mockFs.statSync?.mockImplementation((p: unknown) => ({ mtimeMs: Date.now(), size: read(p).length }))
+
+  return files
+}
+
+/**
+ * 把记录转成 JSONL（历史存储的文件格式）
+ */
+export function toJsonl(records: unknown[]): string {
+  return records.map((record) => JSON.stringify(record) + '\n').join('')
+}
+
 // ============================================================================
 // 子进程 Mock
 // ============================================================================